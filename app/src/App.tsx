@@ -1,23 +1,32 @@
+import { useState } from 'react';
 import { WagmiProvider } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { RainbowKitProvider } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 
 import { config } from './config/wagmi';
-import { Header } from './components/Header';
+import { type Screen, Header } from './components/Header';
 import { GameApp } from './components/GameApp';
+import { DuelsApp } from './components/DuelsApp';
+import { LeaderboardApp } from './components/LeaderboardApp';
+import { LimitsApp } from './components/LimitsApp';
 import './App.css';
 
 const queryClient = new QueryClient();
 
 function App() {
+  const [screen, setScreen] = useState<Screen>('dice');
+
   return (
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider locale="en">
           <div className="app-shell">
-            <Header />
-            <GameApp />
+            <Header screen={screen} onScreenChange={setScreen} />
+            {screen === 'dice' && <GameApp />}
+            {screen === 'duels' && <DuelsApp />}
+            {screen === 'leaderboard' && <LeaderboardApp />}
+            {screen === 'limits' && <LimitsApp />}
           </div>
         </RainbowKitProvider>
       </QueryClientProvider>
@@ -0,0 +1,138 @@
+import { type Bet, type Payouts, describeBet, formatMultiplier, payoutPercent, winningFaces } from '../config/bets';
+
+const FACES = [1, 2, 3, 4, 5, 6];
+
+type BetBuilderProps = {
+  bet: Bet;
+  payouts: Payouts | null;
+  onChange: (bet: Bet) => void;
+};
+
+export function BetBuilder({ bet, payouts, onChange }: BetBuilderProps) {
+  const odds = [
+    { label: 'Exact face', faces: 1, percent: payouts?.exactFace ?? null },
+    { label: 'Odd / even', faces: 3, percent: payouts?.oddEven ?? null },
+    ...FACES.map((faces) => ({
+      label: `Range of ${faces}`,
+      faces,
+      percent: payouts ? payouts.range[faces - 1] : null,
+    })),
+  ];
+
+  return (
+    <div className="bet-builder">
+      <div className="toggle-row">
+        <button
+          className={bet.kind === 'exactFace' ? 'toggle active' : 'toggle'}
+          onClick={() => onChange({ kind: 'exactFace', face: 6 })}
+        >
+          Exact
+        </button>
+        <button
+          className={bet.kind === 'oddEven' ? 'toggle active' : 'toggle'}
+          onClick={() => onChange({ kind: 'oddEven', odd: true })}
+        >
+          Odd/Even
+        </button>
+        <button
+          className={bet.kind === 'range' ? 'toggle active' : 'toggle'}
+          onClick={() => onChange({ kind: 'range', low: 4, high: 6 })}
+        >
+          Range
+        </button>
+      </div>
+
+      {bet.kind === 'exactFace' && (
+        <div className="face-row">
+          {FACES.map((face) => (
+            <button
+              key={face}
+              className={bet.face === face ? 'face active' : 'face'}
+              onClick={() => onChange({ kind: 'exactFace', face })}
+            >
+              {face}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {bet.kind === 'oddEven' && (
+        <div className="toggle-row">
+          <button
+            className={bet.odd ? 'toggle active' : 'toggle'}
+            onClick={() => onChange({ kind: 'oddEven', odd: true })}
+          >
+            Odd
+          </button>
+          <button
+            className={!bet.odd ? 'toggle active' : 'toggle'}
+            onClick={() => onChange({ kind: 'oddEven', odd: false })}
+          >
+            Even
+          </button>
+        </div>
+      )}
+
+      {bet.kind === 'range' && (
+        <div className="range-row">
+          <label>
+            From
+            <select
+              value={bet.low}
+              onChange={(event) => onChange({ ...bet, low: Number(event.target.value) })}
+            >
+              {FACES.map((face) => (
+                <option key={face} value={face}>
+                  {face}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            To
+            <select
+              value={bet.high}
+              onChange={(event) => onChange({ ...bet, high: Number(event.target.value) })}
+            >
+              {FACES.map((face) => (
+                <option key={face} value={face}>
+                  {face}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button className="toggle" onClick={() => onChange({ kind: 'range', low: 1, high: 3 })}>
+            Small
+          </button>
+          <button className="toggle" onClick={() => onChange({ kind: 'range', low: 4, high: 6 })}>
+            Big
+          </button>
+        </div>
+      )}
+
+      <div className="helper">
+        {describeBet(bet)}: wins on {winningFaces(bet)}/6 faces, pays {formatMultiplier(payoutPercent(bet, payouts))}{' '}
+        the wager.
+      </div>
+
+      <table className="odds-table">
+        <thead>
+          <tr>
+            <th>Bet</th>
+            <th>Odds</th>
+            <th>Pays</th>
+          </tr>
+        </thead>
+        <tbody>
+          {odds.map((row) => (
+            <tr key={row.label}>
+              <td>{row.label}</td>
+              <td>{row.faces}/6</td>
+              <td>{formatMultiplier(row.percent)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
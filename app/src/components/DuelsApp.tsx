@@ -0,0 +1,520 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, useBlockNumber, usePublicClient } from 'wagmi';
+import { Contract, isAddress } from 'ethers';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { DUELS_ADDRESS, DUELS_ABI, POINTS_ABI } from '../config/contracts';
+import '../styles/GameApp.css';
+
+const ZERO_ADDRESS = `0x${'0'.repeat(40)}`;
+const ZERO_HASH = `0x${'0'.repeat(64)}`;
+const PAGE_SIZE = 10;
+// How long the duels contract may move the player's points once approved as an operator on the ledger.
+const OPERATOR_DURATION_SECONDS = 30 * 24 * 60 * 60;
+
+// Mirrors DuelStatus in PrivyDuels.
+const DUEL_STATUS = ['None', 'Open', 'Settled', 'Cancelled'] as const;
+
+type Duel = {
+  creator: `0x${string}`;
+  opponent: `0x${string}`;
+  status: number;
+  openedBlock: bigint;
+  creatorStake: string;
+  opponentStake: string;
+  creatorRoll: string;
+  opponentRoll: string;
+  creatorPayout: string;
+  opponentPayout: string;
+};
+
+type LobbyRow = Duel & { id: bigint };
+
+type MyDuelRow = {
+  id: bigint;
+  status: number;
+  isCreator: boolean;
+  rival: string;
+  // Decrypted values, or null when there is nothing to decrypt yet.
+  stake: string | null;
+  myRoll: string | null;
+  rivalRoll: string | null;
+  payout: string | null;
+};
+
+const shortAddress = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+const formatPoints = (value: string | null) => (value === null ? '-' : `${BigInt(value).toLocaleString('en-US')} pts`);
+
+const describeResult = (row: MyDuelRow) => {
+  if (row.status !== 2) return DUEL_STATUS[row.status];
+  if (row.payout === null || row.stake === null) return 'Settled';
+  const payout = BigInt(row.payout);
+  const stake = BigInt(row.stake);
+  return payout > stake ? 'Won' : payout === 0n && stake > 0n ? 'Lost' : 'Refunded';
+};
+
+export function DuelsApp() {
+  const { address, isConnected } = useAccount();
+  const publicClient = usePublicClient();
+  const { data: blockNumber } = useBlockNumber({ watch: true });
+  const signerPromise = useEthersSigner();
+  const { instance, isLoading: zamaLoading } = useZamaInstance();
+
+  const [stake, setStake] = useState('500');
+  const [opponent, setOpponent] = useState('');
+  const [expiryBlocks, setExpiryBlocks] = useState<bigint | null>(null);
+  const [pointsAddress, setPointsAddress] = useState<`0x${string}` | null>(null);
+  const [lobby, setLobby] = useState<LobbyRow[]>([]);
+  const [myDuels, setMyDuels] = useState<MyDuelRow[] | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  // The id of the duel being acted on, 0 while opening one, null when idle.
+  const [busyDuel, setBusyDuel] = useState<bigint | null>(null);
+  const [isLoading, setIsLoading] = useState({ lobby: false, mine: false });
+
+  const isConfigured = DUELS_ADDRESS !== ZERO_ADDRESS;
+  const canUseWallet = Boolean(isConfigured && isConnected && address && publicClient);
+  const canDecrypt = Boolean(canUseWallet && instance && signerPromise && !zamaLoading);
+
+  const readDuel = useCallback(
+    async (id: bigint) =>
+      (await publicClient!.readContract({
+        address: DUELS_ADDRESS,
+        abi: DUELS_ABI,
+        functionName: 'getDuel',
+        args: [id],
+      })) as Duel,
+    [publicClient],
+  );
+
+  const decryptHandles = async (handles: string[]) => {
+    if (!instance || !address) {
+      return {} as Record<string, string>;
+    }
+
+    const keypair = instance.generateKeypair();
+    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
+    const durationDays = '7';
+    const contractAddresses = [DUELS_ADDRESS];
+
+    const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimeStamp, durationDays);
+    const resolvedSigner = await signerPromise;
+    if (!resolvedSigner) {
+      throw new Error('Signer not available');
+    }
+
+    const signature = await resolvedSigner.signTypedData(
+      eip712.domain,
+      {
+        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+      },
+      eip712.message,
+    );
+
+    return instance.userDecrypt(
+      handles.map((handle) => ({ handle, contractAddress: DUELS_ADDRESS })),
+      keypair.privateKey,
+      keypair.publicKey,
+      signature.replace('0x', ''),
+      contractAddresses,
+      address,
+      startTimeStamp,
+      durationDays,
+    );
+  };
+
+  const refreshLobby = useCallback(async () => {
+    if (!publicClient || !isConfigured) return;
+
+    setIsLoading((prev) => ({ ...prev, lobby: true }));
+
+    try {
+      const [ids, expiry, ledger] = await Promise.all([
+        publicClient.readContract({
+          address: DUELS_ADDRESS,
+          abi: DUELS_ABI,
+          functionName: 'getOpenDuels',
+          args: [0n, BigInt(PAGE_SIZE)],
+        }) as Promise<readonly bigint[]>,
+        publicClient.readContract({
+          address: DUELS_ADDRESS,
+          abi: DUELS_ABI,
+          functionName: 'DUEL_EXPIRY_BLOCKS',
+        }) as Promise<bigint>,
+        publicClient.readContract({
+          address: DUELS_ADDRESS,
+          abi: DUELS_ABI,
+          functionName: 'points',
+        }) as Promise<`0x${string}`>,
+      ]);
+
+      const duels = await Promise.all(ids.map(readDuel));
+      setLobby(duels.map((duel, index) => ({ ...duel, id: ids[index] })));
+      setExpiryBlocks(expiry);
+      setPointsAddress(ledger);
+    } catch (error) {
+      console.error('Failed to load the lobby:', error);
+      setStatusMessage('Unable to load open duels.');
+    } finally {
+      setIsLoading((prev) => ({ ...prev, lobby: false }));
+    }
+  }, [isConfigured, publicClient, readDuel]);
+
+  useEffect(() => {
+    void refreshLobby();
+  }, [refreshLobby]);
+
+  // A single userDecrypt call (and signature) covers every handle of the page.
+  const loadMyDuels = async () => {
+    if (!publicClient || !address) return;
+
+    setIsLoading((prev) => ({ ...prev, mine: true }));
+    setStatusMessage(null);
+
+    try {
+      const count = (await publicClient.readContract({
+        address: DUELS_ADDRESS,
+        abi: DUELS_ABI,
+        functionName: 'getPlayerDuelCount',
+        args: [address],
+      })) as bigint;
+      const offset = count > BigInt(PAGE_SIZE) ? count - BigInt(PAGE_SIZE) : 0n;
+      const ids = (await publicClient.readContract({
+        address: DUELS_ADDRESS,
+        abi: DUELS_ABI,
+        functionName: 'getPlayerDuels',
+        args: [address, offset, BigInt(PAGE_SIZE)],
+      })) as readonly bigint[];
+      const duels = await Promise.all(ids.map(readDuel));
+
+      const rows = duels.map((duel, index) => {
+        const isCreator = duel.creator.toLowerCase() === address.toLowerCase();
+        return {
+          id: ids[index],
+          status: Number(duel.status),
+          isCreator,
+          rival: isCreator ? duel.opponent : duel.creator,
+          handles: {
+            stake: isCreator ? duel.creatorStake : duel.opponentStake,
+            myRoll: isCreator ? duel.creatorRoll : duel.opponentRoll,
+            rivalRoll: isCreator ? duel.opponentRoll : duel.creatorRoll,
+            payout: isCreator ? duel.creatorPayout : duel.opponentPayout,
+          },
+        };
+      });
+
+      const handles = rows.flatMap((row) => Object.values(row.handles)).filter((handle) => handle !== ZERO_HASH);
+      const clear = handles.length > 0 ? await decryptHandles([...new Set(handles)]) : {};
+      const value = (handle: string) => (handle === ZERO_HASH ? null : String(clear[handle] ?? '0'));
+
+      setMyDuels(
+        rows
+          .map(({ handles: rowHandles, ...row }) => ({
+            ...row,
+            stake: value(rowHandles.stake),
+            myRoll: value(rowHandles.myRoll),
+            rivalRoll: value(rowHandles.rivalRoll),
+            payout: value(rowHandles.payout),
+          }))
+          .reverse(),
+      );
+    } catch (error) {
+      console.error('Failed to load duels:', error);
+      setStatusMessage('Unable to load your duels.');
+    } finally {
+      setIsLoading((prev) => ({ ...prev, mine: false }));
+    }
+  };
+
+  // Stakes are escrowed through the ledger, which needs the duels contract approved as an operator.
+  const ensureOperator = async (signer: NonNullable<Awaited<typeof signerPromise>>) => {
+    if (!publicClient || !address || !pointsAddress) {
+      throw new Error('Points ledger not loaded');
+    }
+
+    const approved = (await publicClient.readContract({
+      address: pointsAddress,
+      abi: POINTS_ABI,
+      functionName: 'isOperator',
+      args: [address, DUELS_ADDRESS],
+    })) as boolean;
+    if (approved) return;
+
+    setStatusMessage('Approve PrivyDuels to escrow your points...');
+    const points = new Contract(pointsAddress, POINTS_ABI, signer);
+    const tx = await points.setOperator(DUELS_ADDRESS, Math.floor(Date.now() / 1000) + OPERATOR_DURATION_SECONDS);
+    await tx.wait();
+  };
+
+  // Opens a duel when `duelId` is omitted, otherwise joins it.
+  const handleStake = async (duelId?: bigint) => {
+    if (!address || !instance || !signerPromise) {
+      setStatusMessage('Connect a wallet before duelling.');
+      return;
+    }
+    if (!/^\d+$/.test(stake) || BigInt(stake) === 0n) {
+      setStatusMessage('Enter a whole number of points to stake.');
+      return;
+    }
+    if (duelId === undefined && opponent !== '' && !isAddress(opponent)) {
+      setStatusMessage('Enter a valid opponent address, or leave it empty to let anyone join.');
+      return;
+    }
+
+    setBusyDuel(duelId ?? 0n);
+    setStatusMessage(null);
+
+    try {
+      const input = instance.createEncryptedInput(DUELS_ADDRESS, address);
+      input.add64(BigInt(stake));
+      const encryptedInput = await input.encrypt();
+
+      const resolvedSigner = await signerPromise;
+      if (!resolvedSigner) {
+        throw new Error('Signer not available');
+      }
+
+      await ensureOperator(resolvedSigner);
+      const contract = new Contract(DUELS_ADDRESS, DUELS_ABI, resolvedSigner);
+      const tx =
+        duelId === undefined
+          ? await contract.openDuel(opponent || ZERO_ADDRESS, encryptedInput.handles[0], encryptedInput.inputProof)
+          : await contract.joinDuel(duelId, encryptedInput.handles[0], encryptedInput.inputProof);
+      await tx.wait();
+      setStatusMessage(
+        duelId === undefined
+          ? 'Duel opened. Your stake is in escrow until someone joins or you cancel.'
+          : 'Duel settled. Load your duels to see the rolls.',
+      );
+      await refreshLobby();
+    } catch (error) {
+      console.error('Duel transaction failed:', error);
+      setStatusMessage(duelId === undefined ? 'Unable to open the duel.' : 'Unable to join the duel.');
+    } finally {
+      setBusyDuel(null);
+    }
+  };
+
+  const handleCancel = async (duelId: bigint) => {
+    if (!signerPromise) {
+      setStatusMessage('Connect a wallet before cancelling a duel.');
+      return;
+    }
+
+    setBusyDuel(duelId);
+    setStatusMessage(null);
+
+    try {
+      const resolvedSigner = await signerPromise;
+      if (!resolvedSigner) {
+        throw new Error('Signer not available');
+      }
+
+      const contract = new Contract(DUELS_ADDRESS, DUELS_ABI, resolvedSigner);
+      const tx = await contract.cancelDuel(duelId);
+      await tx.wait();
+      setStatusMessage('Duel cancelled, the stake went back to its creator.');
+      await refreshLobby();
+    } catch (error) {
+      console.error('Cancel duel failed:', error);
+      setStatusMessage('Unable to cancel the duel.');
+    } finally {
+      setBusyDuel(null);
+    }
+  };
+
+  // An invited opponent may decrypt the creator's stake to match it; the stake of a duel open to anyone stays private,
+  // so whoever joins it stakes the amount agreed with its creator.
+  const handleRevealStake = async (duel: LobbyRow) => {
+    setBusyDuel(duel.id);
+    setStatusMessage(null);
+
+    try {
+      const clear = await decryptHandles([duel.creatorStake]);
+      setStake(String(clear[duel.creatorStake] ?? '0'));
+    } catch (error) {
+      console.error('Reveal stake failed:', error);
+      setStatusMessage('Unable to decrypt the stake.');
+    } finally {
+      setBusyDuel(null);
+    }
+  };
+
+  return (
+    <div className="game-app">
+      <section className="hero-panel reveal" style={{ animationDelay: '0.1s' }}>
+        <div className="hero-copy">
+          <p className="hero-eyebrow">Encrypted Dice Duels</p>
+          <h2>Roll against a friend, not the house.</h2>
+          <p className="hero-description">
+            Escrow an encrypted stake and wait for an opponent to match it. Both of you get a private roll and the
+            higher one takes both stakes. A tie or a stake that does not match refunds both players.
+          </p>
+        </div>
+        <div className="action-card">
+          <h3>Open a duel</h3>
+          <div className="input-row">
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={stake}
+              onChange={(event) => setStake(event.target.value)}
+              placeholder="500"
+            />
+            <button
+              className="primary"
+              onClick={() => handleStake()}
+              disabled={!canUseWallet || busyDuel !== null || !pointsAddress}
+            >
+              {busyDuel === 0n ? 'Opening...' : 'Open duel'}
+            </button>
+          </div>
+          <div className="input-row">
+            <input
+              type="text"
+              value={opponent}
+              onChange={(event) => setOpponent(event.target.value.trim())}
+              placeholder="Opponent 0x... (optional)"
+            />
+          </div>
+          <div className="helper">
+            The stake also sets what you put in when joining a duel. Only the invited player can join an invite.
+          </div>
+        </div>
+      </section>
+
+      <section className="history-panel reveal" style={{ animationDelay: '0.3s' }}>
+        <div className="history-header">
+          <div>
+            <h3>Lobby</h3>
+            <p>
+              A duel open to anyone shows its stake to all; an invite's stake stays encrypted for the invited player.
+              Anyone can cancel a duel nobody joined within {expiryBlocks?.toString() ?? '-'} blocks.
+            </p>
+          </div>
+          <div className="history-controls">
+            <button className="ghost" onClick={refreshLobby} disabled={!isConfigured || isLoading.lobby}>
+              {isLoading.lobby ? 'Loading...' : 'Refresh'}
+            </button>
+          </div>
+        </div>
+
+        {lobby.length === 0 && <div className="helper">No open duels.</div>}
+        {lobby.length > 0 && (
+          <table className="history-table">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Creator</th>
+                <th>Open to</th>
+                <th>Blocks left</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {lobby.map((duel) => {
+                const mine = duel.creator.toLowerCase() === address?.toLowerCase();
+                const invited = duel.opponent.toLowerCase() === address?.toLowerCase();
+                const deadline = expiryBlocks === null ? null : duel.openedBlock + expiryBlocks;
+                const expired = deadline !== null && blockNumber !== undefined && blockNumber > deadline;
+                const joinable = !mine && !expired && (duel.opponent === ZERO_ADDRESS || invited);
+                return (
+                  <tr key={duel.id.toString()}>
+                    <td>{duel.id.toString()}</td>
+                    <td>{mine ? 'You' : shortAddress(duel.creator)}</td>
+                    <td>{duel.opponent === ZERO_ADDRESS ? 'Anyone' : invited ? 'You' : shortAddress(duel.opponent)}</td>
+                    <td>
+                      {expired
+                        ? 'Expired'
+                        : deadline !== null && blockNumber !== undefined
+                          ? (deadline - blockNumber).toString()
+                          : '-'}
+                    </td>
+                    <td className="history-controls">
+                      {joinable && invited && (
+                        <button
+                          className="ghost"
+                          onClick={() => handleRevealStake(duel)}
+                          disabled={!canDecrypt || busyDuel !== null}
+                        >
+                          Reveal stake
+                        </button>
+                      )}
+                      {joinable && (
+                        <button
+                          className="secondary"
+                          onClick={() => handleStake(duel.id)}
+                          disabled={!canUseWallet || busyDuel !== null}
+                        >
+                          {busyDuel === duel.id ? 'Rolling...' : `Join with ${stake || '-'} pts`}
+                        </button>
+                      )}
+                      {(mine || expired) && (
+                        <button
+                          className="ghost"
+                          onClick={() => handleCancel(duel.id)}
+                          disabled={!canUseWallet || busyDuel !== null}
+                        >
+                          {busyDuel === duel.id ? 'Cancelling...' : 'Cancel'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="history-panel reveal" style={{ animationDelay: '0.5s' }}>
+        <div className="history-header">
+          <div>
+            <h3>My duels</h3>
+            <p>Your last {PAGE_SIZE} duels. Decrypting them takes one signature.</p>
+          </div>
+          <div className="history-controls">
+            <button className="secondary" onClick={loadMyDuels} disabled={!canDecrypt || isLoading.mine}>
+              {isLoading.mine ? 'Decrypting...' : myDuels === null ? 'Load duels' : 'Reload'}
+            </button>
+          </div>
+        </div>
+
+        {myDuels !== null && myDuels.length === 0 && <div className="helper">No duels yet.</div>}
+        {myDuels !== null && myDuels.length > 0 && (
+          <table className="history-table">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Against</th>
+                <th>Stake</th>
+                <th>Rolls</th>
+                <th>Result</th>
+                <th>Payout</th>
+              </tr>
+            </thead>
+            <tbody>
+              {myDuels.map((row) => (
+                <tr key={row.id.toString()}>
+                  <td>{row.id.toString()}</td>
+                  <td>{row.rival === ZERO_ADDRESS ? 'Anyone' : shortAddress(row.rival)}</td>
+                  <td>{formatPoints(row.stake)}</td>
+                  <td>{row.myRoll === null ? '-' : `${row.myRoll} vs ${row.rivalRoll}`}</td>
+                  <td>{describeResult(row)}</td>
+                  <td>{formatPoints(row.payout)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {(statusMessage || !isConfigured) && (
+        <section className="utility-row">
+          <div className="status-message">{statusMessage || 'Duels contract address not set.'}</div>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { CONTRACT_ADDRESS, CONTRACT_ABI, STATS_ABI } from '../config/contracts';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+// Critical values of the chi-square distribution with 5 degrees of freedom (six faces, minus one).
+const CHI_SQUARE_CRITICAL_5_PERCENT = 11.07;
+const CHI_SQUARE_CRITICAL_1_PERCENT = 15.086;
+
+type Snapshot = {
+  rounds: bigint;
+  blockNumber: bigint;
+  faceCounts: readonly string[];
+  wagered: string;
+  paidOut: string;
+};
+
+type Fairness = {
+  id: bigint;
+  rounds: bigint;
+  blockNumber: bigint;
+  counts: bigint[];
+  chiSquare: number;
+  wagered: bigint;
+  paidOut: bigint;
+};
+
+type FairnessPanelProps = {
+  disabled: boolean;
+  publicDecryptHandles: (handles: string[]) => Promise<Record<string, unknown>>;
+};
+
+function verdict(fairness: Fairness) {
+  const rolls = fairness.counts.reduce((a, b) => a + b, 0n);
+  if (rolls < 30n) return 'Too few rolls to judge yet.';
+  if (fairness.chiSquare > CHI_SQUARE_CRITICAL_1_PERCENT) return 'Not uniform at the 1% significance level.';
+  if (fairness.chiSquare > CHI_SQUARE_CRITICAL_5_PERCENT) return 'Suspicious: not uniform at the 5% significance level.';
+  return 'Consistent with a fair dice at the 5% significance level.';
+}
+
+export function FairnessPanel({ disabled, publicDecryptHandles }: FairnessPanelProps) {
+  const publicClient = usePublicClient();
+
+  const [fairness, setFairness] = useState<Fairness | null>(null);
+  const [roundsToReveal, setRoundsToReveal] = useState<bigint | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLatest = async () => {
+    if (!publicClient) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const statsAddress = (await publicClient.readContract({
+        address: CONTRACT_ADDRESS,
+        abi: CONTRACT_ABI,
+        functionName: 'stats',
+      })) as `0x${string}`;
+      if (statsAddress === ZERO_ADDRESS) {
+        setError('Roll statistics are not enabled for this game.');
+        return;
+      }
+
+      const [count, recorded, interval] = await Promise.all([
+        publicClient.readContract({
+          address: statsAddress,
+          abi: STATS_ABI,
+          functionName: 'getSnapshotCount',
+        }) as Promise<bigint>,
+        publicClient.readContract({
+          address: statsAddress,
+          abi: STATS_ABI,
+          functionName: 'roundsRecorded',
+        }) as Promise<bigint>,
+        publicClient.readContract({
+          address: statsAddress,
+          abi: STATS_ABI,
+          functionName: 'REVEAL_INTERVAL_ROUNDS',
+        }) as Promise<bigint>,
+      ]);
+      setRoundsToReveal(interval - (recorded % interval));
+      if (count === 0n) {
+        setFairness(null);
+        return;
+      }
+
+      const snapshot = (await publicClient.readContract({
+        address: statsAddress,
+        abi: STATS_ABI,
+        functionName: 'getSnapshot',
+        args: [count - 1n],
+      })) as Snapshot;
+
+      const handles = [snapshot.wagered, snapshot.paidOut, ...snapshot.faceCounts];
+      const clear = await publicDecryptHandles(handles);
+      const [wagered, paidOut, ...counts] = handles.map((handle) => BigInt(String(clear[handle] ?? '0')));
+
+      const expected = Number(counts.reduce((a, b) => a + b, 0n)) / 6;
+      const chiSquare =
+        expected > 0 ? counts.reduce((sum, faceCount) => sum + (Number(faceCount) - expected) ** 2 / expected, 0) : 0;
+
+      setFairness({
+        id: count - 1n,
+        rounds: snapshot.rounds,
+        blockNumber: snapshot.blockNumber,
+        counts,
+        chiSquare,
+        wagered,
+        paidOut,
+      });
+    } catch (loadError) {
+      console.error('Failed to load roll statistics:', loadError);
+      setError('Unable to load roll statistics.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const rolls = fairness ? fairness.counts.reduce((a, b) => a + b, 0n) : 0n;
+  const highest = fairness ? fairness.counts.reduce((a, b) => (b > a ? b : a), 1n) : 1n;
+  // Where a perfectly fair dice would put every bar, relative to the tallest one.
+  const expectedHeight = rolls > 0n ? (Number(rolls) / 6 / Number(highest)) * 100 : 0;
+
+  return (
+    <section className="fairness-panel reveal" style={{ animationDelay: '0.65s' }}>
+      <div className="history-header">
+        <div>
+          <h3>Fairness</h3>
+          <p>
+            Face counts and house totals are aggregated encrypted and revealed every few rounds, so anyone can audit
+            the dice without seeing a single roll.
+          </p>
+        </div>
+        <div className="history-controls">
+          <button className="secondary" onClick={loadLatest} disabled={disabled || isLoading}>
+            {isLoading ? 'Decrypting...' : fairness ? 'Reload' : 'Load statistics'}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="status-message">{error}</div>}
+      {roundsToReveal !== null && !fairness && !error && (
+        <div className="helper">No snapshot yet: {roundsToReveal.toString()} more rounds until the first reveal.</div>
+      )}
+      {fairness && (
+        <>
+          <div className="fairness-chart">
+            <div className="fairness-expected" style={{ bottom: `${expectedHeight}%` }} />
+            {fairness.counts.map((faceCount, i) => (
+              <div className="fairness-column" key={i}>
+                <span className="fairness-count">{faceCount.toString()}</span>
+                <div
+                  className="fairness-bar"
+                  style={{ height: `${(Number(faceCount) / Number(highest)) * 100}%` }}
+                />
+                <span className="stat-label">Face {i + 1}</span>
+              </div>
+            ))}
+          </div>
+          <div className="session-stats">
+            <div className="stat-card">
+              <span className="stat-label">Chi-square (5 df)</span>
+              <span className="stat-value">{fairness.chiSquare.toFixed(2)}</span>
+            </div>
+            <div className="stat-card">
+              <span className="stat-label">Wagered</span>
+              <span className="stat-value">{fairness.wagered.toLocaleString('en-US')}</span>
+            </div>
+            <div className="stat-card">
+              <span className="stat-label">Paid out</span>
+              <span className="stat-value">{fairness.paidOut.toLocaleString('en-US')}</span>
+            </div>
+            <div className="stat-card">
+              <span className="stat-label">House P/L</span>
+              <span className="stat-value">{(fairness.wagered - fairness.paidOut).toLocaleString('en-US')}</span>
+            </div>
+          </div>
+          <div className="helper">
+            {verdict(fairness)} Snapshot #{fairness.id.toString()}: {fairness.rounds.toString()} rounds, as of block{' '}
+            {fairness.blockNumber.toString()}; next reveal in {roundsToReveal?.toString()} rounds.
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -1,12 +1,78 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { useAccount, usePublicClient } from 'wagmi';
-import { Contract, parseEther } from 'ethers';
+import { useAccount, useBlockNumber, usePublicClient } from 'wagmi';
+import {
+  Contract,
+  Interface,
+  type JsonRpcSigner,
+  type TransactionReceipt,
+  formatEther,
+  isAddress,
+  parseEther,
+  parseUnits,
+} from 'ethers';
 import { useEthersSigner } from '../hooks/useEthersSigner';
 import { useZamaInstance } from '../hooks/useZamaInstance';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../config/contracts';
+import {
+  CONTRACT_ADDRESS,
+  CONTRACT_ABI,
+  ERC20_ABI,
+  JACKPOT_ABI,
+  POINTS_ABI,
+  TIMELOCK_ABI,
+  TOKEN_SALE_ABI,
+} from '../config/contracts';
+import { isGaslessConfigured, relayGameCall } from '../config/gasless';
+import { type Bet, type Payouts, DEFAULT_BET, describeBet, encodeBet, formatMultiplier } from '../config/bets';
+import { BetBuilder } from './BetBuilder';
+import { FairnessPanel } from './FairnessPanel';
+import { HistoryPanel } from './HistoryPanel';
+import { ViewersPanel } from './ViewersPanel';
+import { type SessionState, SessionPanel } from './SessionPanel';
 import '../styles/GameApp.css';
 
 const ZERO_HASH = `0x${'0'.repeat(64)}`;
+const ZERO_ADDRESS = `0x${'0'.repeat(40)}`;
+// Used only to turn a block countdown into an approximate time.
+const BLOCK_TIME_SECONDS = 12;
+// How long the game may move the player's points once approved as an operator on the ledger.
+const OPERATOR_DURATION_SECONDS = 30 * 24 * 60 * 60;
+
+type Economics = {
+  pointsPerEth: bigint;
+  minWager: bigint;
+  maxWager: bigint;
+  payouts: Payouts;
+};
+
+type PendingEconomics = Economics & { effectiveAt: number };
+
+type RoundStatus = readonly [active: boolean, startBlock: bigint, deadline: bigint, expired: boolean];
+
+type SessionInfo = readonly [active: boolean, rounds: bigint, exposure: bigint, streak: string, pot: string];
+
+type JackpotInfo = {
+  address: `0x${string}`;
+  odds: bigint;
+  // The publicly revealed pool and the block it dates from, or null before the first reveal.
+  pool: string | null;
+  revealedAt: bigint;
+};
+
+// An ERC-20 token the token sale currently accepts.
+type PaymentToken = {
+  address: `0x${string}`;
+  symbol: string;
+  decimals: number;
+  pointsPerToken: bigint;
+};
+
+// Points are bought with ETH from the game, or with a payment token from the token sale.
+type PayWith = 'ETH' | `0x${string}`;
+
+const jackpotInterface = new Interface(JACKPOT_ABI);
+
+// startGame plays a single round; startSession and rollAgain play the rounds of a streak session.
+type StartFunction = 'startGame' | 'startSession' | 'rollAgain';
 
 const formatToken = (value: string | null, fallback = '-') => {
   if (!value) return fallback;
@@ -17,14 +83,30 @@ const formatToken = (value: string | null, fallback = '-') => {
   }
 };
 
+const formatCountdown = (blocks: bigint) => {
+  const seconds = Number(blocks) * BLOCK_TIME_SECONDS;
+  const minutes = Math.floor(seconds / 60);
+  return `${blocks} blocks (~${minutes}:${String(seconds % 60).padStart(2, '0')})`;
+};
+
 export function GameApp() {
   const { address, isConnected } = useAccount();
   const publicClient = usePublicClient();
+  const { data: blockNumber } = useBlockNumber({ watch: true });
   const signerPromise = useEthersSigner();
   const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
 
-  const [ethAmount, setEthAmount] = useState('0.01');
-  const [guess, setGuess] = useState<'big' | 'small'>('big');
+  const [buyAmount, setBuyAmount] = useState('0.01');
+  const [payWith, setPayWith] = useState<PayWith>('ETH');
+  const [wagerAmount, setWagerAmount] = useState('100');
+  const [redeemAmount, setRedeemAmount] = useState('1000');
+  const [sendTo, setSendTo] = useState('');
+  const [sendAmount, setSendAmount] = useState('100');
+  const [bet, setBet] = useState<Bet>(DEFAULT_BET);
+  // Quick play charges, rolls and settles in one transaction; the two-step flow bets once the dice is rolled.
+  const [quickPlay, setQuickPlay] = useState(true);
+  // Gasless rounds are signed by the player and submitted, and paid for, by the relayer.
+  const [gasless, setGasless] = useState(false);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
 
   const [balance, setBalance] = useState<string | null>(null);
@@ -32,32 +114,55 @@ export function GameApp() {
   const [lastOutcome, setLastOutcome] = useState<boolean | null>(null);
   const [lastReward, setLastReward] = useState<string | null>(null);
   const [gameActive, setGameActive] = useState<boolean>(false);
+  const [roundDeadline, setRoundDeadline] = useState<bigint | null>(null);
+  const [session, setSession] = useState<SessionState | null>(null);
 
   const [pointsPerEth, setPointsPerEth] = useState<string>('');
-  const [playCost, setPlayCost] = useState<string>('');
-  const [winReward, setWinReward] = useState<string>('');
+  const [minWager, setMinWager] = useState<string>('');
+  const [maxWager, setMaxWager] = useState<string>('');
+  const [payouts, setPayouts] = useState<Payouts | null>(null);
+  const [pointsAddress, setPointsAddress] = useState<`0x${string}` | null>(null);
+  const [pendingEconomics, setPendingEconomics] = useState<PendingEconomics | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [jackpot, setJackpot] = useState<JackpotInfo | null>(null);
+  const [tokenSaleAddress, setTokenSaleAddress] = useState<`0x${string}` | null>(null);
+  const [paymentTokens, setPaymentTokens] = useState<PaymentToken[]>([]);
 
   const [isBusy, setIsBusy] = useState({
     refresh: false,
     buy: false,
     start: false,
     guess: false,
+    play: false,
+    redeem: false,
+    expire: false,
+    send: false,
+    bank: false,
   });
 
   const isConfigured = CONTRACT_ADDRESS !== ZERO_HASH;
   const canUseWallet = Boolean(isConfigured && isConnected && address && publicClient);
   const canDecrypt = Boolean(canUseWallet && instance && signerPromise && !zamaLoading);
+  // A bet lands in the next block at the earliest, so the round is lost once the deadline block is reached.
+  const blocksLeft =
+    gameActive && roundDeadline !== null && blockNumber !== undefined ? roundDeadline - blockNumber : null;
+  const roundExpired = blocksLeft !== null && blocksLeft <= 0n;
+  const paymentToken = paymentTokens.find((token) => token.address === payWith) ?? null;
 
+  // `handles` belong to the game, `ledgerHandles` to the points ledger; both are decrypted under one signature.
   const decryptHandles = useCallback(
-    async (handles: string[]) => {
+    async (handles: string[], ledgerHandles: string[] = []) => {
       if (!instance || !address) {
         return {} as Record<string, string>;
       }
+      if (ledgerHandles.length > 0 && !pointsAddress) {
+        throw new Error('Points ledger not loaded');
+      }
 
       const keypair = instance.generateKeypair();
       const startTimeStamp = Math.floor(Date.now() / 1000).toString();
       const durationDays = '7';
-      const contractAddresses = [CONTRACT_ADDRESS];
+      const contractAddresses = pointsAddress ? [CONTRACT_ADDRESS, pointsAddress] : [CONTRACT_ADDRESS];
 
       const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimeStamp, durationDays);
       const resolvedSigner = await signerPromise;
@@ -73,10 +178,10 @@ export function GameApp() {
         eip712.message,
       );
 
-      const handleContractPairs = handles.map((handle) => ({
-        handle,
-        contractAddress: CONTRACT_ADDRESS,
-      }));
+      const handleContractPairs = [
+        ...handles.map((handle) => ({ handle, contractAddress: CONTRACT_ADDRESS })),
+        ...ledgerHandles.map((handle) => ({ handle, contractAddress: pointsAddress as string })),
+      ];
 
       return instance.userDecrypt(
         handleContractPairs,
@@ -89,22 +194,34 @@ export function GameApp() {
         durationDays,
       );
     },
-    [address, instance, signerPromise],
+    [address, instance, pointsAddress, signerPromise],
+  );
+
+  const publicDecryptHandles = useCallback(
+    async (handles: string[]) => {
+      if (!instance) {
+        return {} as Record<string, string>;
+      }
+      const { clearValues } = await instance.publicDecrypt(handles);
+      return clearValues as Record<string, unknown>;
+    },
+    [instance],
   );
 
   const refreshPlayerData = useCallback(async () => {
-    if (!canUseWallet || !publicClient || !address) {
+    if (!canUseWallet || !publicClient || !address || !pointsAddress) {
       return;
     }
 
     setIsBusy((prev) => ({ ...prev, refresh: true }));
 
     try {
-      const [encryptedBalance, encryptedRoll, encryptedOutcome, encryptedReward, active] = await Promise.all([
+      const [encryptedBalance, encryptedRoll, encryptedOutcome, encryptedReward, roundStatus, sessionInfo] =
+        await Promise.all([
         publicClient.readContract({
-          address: CONTRACT_ADDRESS,
-          abi: CONTRACT_ABI,
-          functionName: 'getBalance',
+          address: pointsAddress,
+          abi: POINTS_ABI,
+          functionName: 'confidentialBalanceOf',
           args: [address],
         }) as Promise<string>,
         publicClient.readContract({
@@ -128,12 +245,25 @@ export function GameApp() {
         publicClient.readContract({
           address: CONTRACT_ADDRESS,
           abi: CONTRACT_ABI,
-          functionName: 'isGameActive',
+          functionName: 'getRoundStatus',
           args: [address],
-        }) as Promise<boolean>,
+        }) as Promise<RoundStatus>,
+        publicClient.readContract({
+          address: CONTRACT_ADDRESS,
+          abi: CONTRACT_ABI,
+          functionName: 'getSession',
+          args: [address],
+        }) as Promise<SessionInfo>,
       ]);
 
+      const [active, , deadline] = roundStatus;
       setGameActive(active);
+      setRoundDeadline(active ? deadline : null);
+
+      const [sessionActive, sessionRounds, sessionExposure, encryptedStreak, encryptedPot] = sessionInfo;
+      const sessionHandles = sessionActive ? [encryptedStreak, encryptedPot] : [];
+      const sessionState = { active: sessionActive, rounds: sessionRounds, exposure: sessionExposure };
+      setSession({ ...sessionState, streak: null, pot: null });
 
       if (!canDecrypt) {
         setBalance(null);
@@ -143,11 +273,12 @@ export function GameApp() {
         return;
       }
 
-      const handlesToDecrypt = [encryptedBalance, encryptedRoll, encryptedOutcome, encryptedReward].filter(
+      const handlesToDecrypt = [encryptedRoll, encryptedOutcome, encryptedReward, ...sessionHandles].filter(
         (handle) => handle !== ZERO_HASH,
       );
+      const ledgerHandlesToDecrypt = encryptedBalance !== ZERO_HASH ? [encryptedBalance] : [];
 
-      if (handlesToDecrypt.length === 0) {
+      if (handlesToDecrypt.length === 0 && ledgerHandlesToDecrypt.length === 0) {
         setBalance('0');
         setLastRoll(null);
         setLastOutcome(null);
@@ -155,7 +286,7 @@ export function GameApp() {
         return;
       }
 
-      const decryptedValues = await decryptHandles(handlesToDecrypt);
+      const decryptedValues = await decryptHandles(handlesToDecrypt, ledgerHandlesToDecrypt);
 
       if (encryptedBalance !== ZERO_HASH) {
         setBalance(decryptedValues[encryptedBalance] ?? '0');
@@ -181,52 +312,225 @@ export function GameApp() {
       } else {
         setLastReward('0');
       }
+      if (sessionActive) {
+        setSession({
+          ...sessionState,
+          streak: String(decryptedValues[encryptedStreak] ?? '0'),
+          pot: String(decryptedValues[encryptedPot] ?? '0'),
+        });
+      }
     } catch (error) {
       console.error('Failed to refresh player data:', error);
       setStatusMessage('Unable to refresh encrypted data.');
     } finally {
       setIsBusy((prev) => ({ ...prev, refresh: false }));
     }
-  }, [address, canDecrypt, canUseWallet, decryptHandles, publicClient]);
+  }, [address, canDecrypt, canUseWallet, decryptHandles, pointsAddress, publicClient]);
 
   const refreshConstants = useCallback(async () => {
     if (!publicClient || !isConfigured) return;
 
     try {
-      const [points, cost, reward] = await Promise.all([
+      const [points, minimum, maximum, currentPayouts, timelockAddress, ledger, isPaused] = await Promise.all([
         publicClient.readContract({
           address: CONTRACT_ADDRESS,
           abi: CONTRACT_ABI,
-          functionName: 'POINTS_PER_ETH',
+          functionName: 'pointsPerEth',
         }) as Promise<bigint>,
         publicClient.readContract({
           address: CONTRACT_ADDRESS,
           abi: CONTRACT_ABI,
-          functionName: 'PLAY_COST',
+          functionName: 'minWager',
         }) as Promise<bigint>,
         publicClient.readContract({
           address: CONTRACT_ADDRESS,
           abi: CONTRACT_ABI,
-          functionName: 'WIN_REWARD',
+          functionName: 'maxWager',
         }) as Promise<bigint>,
+        publicClient.readContract({
+          address: CONTRACT_ADDRESS,
+          abi: CONTRACT_ABI,
+          functionName: 'getPayouts',
+        }) as Promise<Payouts>,
+        publicClient.readContract({
+          address: CONTRACT_ADDRESS,
+          abi: CONTRACT_ABI,
+          functionName: 'timelock',
+        }) as Promise<`0x${string}`>,
+        publicClient.readContract({
+          address: CONTRACT_ADDRESS,
+          abi: CONTRACT_ABI,
+          functionName: 'points',
+        }) as Promise<`0x${string}`>,
+        publicClient.readContract({
+          address: CONTRACT_ADDRESS,
+          abi: CONTRACT_ABI,
+          functionName: 'paused',
+        }) as Promise<boolean>,
       ]);
+      const [pending, effectiveAt] =
+        timelockAddress === ZERO_ADDRESS
+          ? [null, 0n]
+          : ((await publicClient.readContract({
+              address: timelockAddress,
+              abi: TIMELOCK_ABI,
+              functionName: 'getPendingEconomics',
+            })) as readonly [Economics, bigint]);
 
       setPointsPerEth(points.toString());
-      setPlayCost(cost.toString());
-      setWinReward(reward.toString());
+      setMinWager(minimum.toString());
+      setMaxWager(maximum.toString());
+      setPayouts(currentPayouts);
+      setPendingEconomics(pending === null || effectiveAt === 0n ? null : { ...pending, effectiveAt: Number(effectiveAt) });
+      setPointsAddress(ledger);
+      setPaused(isPaused);
     } catch (error) {
       console.error('Failed to load constants:', error);
     }
   }, [publicClient]);
 
+  // The pool size is only ever public as of its last scheduled reveal.
+  const refreshJackpot = useCallback(async () => {
+    if (!publicClient || !isConfigured || !instance) return;
+
+    try {
+      const jackpotAddress = (await publicClient.readContract({
+        address: CONTRACT_ADDRESS,
+        abi: CONTRACT_ABI,
+        functionName: 'jackpot',
+      })) as `0x${string}`;
+      if (jackpotAddress === ZERO_ADDRESS) {
+        setJackpot(null);
+        return;
+      }
+
+      const [odds, revealedPool, revealedAt] = await Promise.all([
+        publicClient.readContract({
+          address: jackpotAddress,
+          abi: JACKPOT_ABI,
+          functionName: 'JACKPOT_ODDS',
+        }) as Promise<number>,
+        publicClient.readContract({
+          address: jackpotAddress,
+          abi: JACKPOT_ABI,
+          functionName: 'getRevealedPool',
+        }) as Promise<string>,
+        publicClient.readContract({
+          address: jackpotAddress,
+          abi: JACKPOT_ABI,
+          functionName: 'revealedAt',
+        }) as Promise<bigint>,
+      ]);
+
+      let pool: string | null = null;
+      if (revealedPool !== ZERO_HASH) {
+        const { clearValues } = await instance.publicDecrypt([revealedPool]);
+        pool = clearValues[revealedPool]?.toString() ?? null;
+      }
+      setJackpot({ address: jackpotAddress, odds: BigInt(odds), pool, revealedAt });
+    } catch (error) {
+      console.error('Failed to load the jackpot:', error);
+    }
+  }, [instance, isConfigured, publicClient]);
+
+  // Delisted tokens stay on the sale's list for their proceeds, so only tokens with a rate are offered.
+  const refreshPaymentTokens = useCallback(async () => {
+    if (!publicClient || !isConfigured) return;
+
+    try {
+      const saleAddress = (await publicClient.readContract({
+        address: CONTRACT_ADDRESS,
+        abi: CONTRACT_ABI,
+        functionName: 'tokenSale',
+      })) as `0x${string}`;
+      if (saleAddress === ZERO_ADDRESS) {
+        setTokenSaleAddress(null);
+        setPaymentTokens([]);
+        return;
+      }
+
+      const tokenAddresses = (await publicClient.readContract({
+        address: saleAddress,
+        abi: TOKEN_SALE_ABI,
+        functionName: 'getPaymentTokens',
+      })) as readonly `0x${string}`[];
+      const tokens = await Promise.all(
+        tokenAddresses.map(async (tokenAddress) => {
+          const [{ pointsPerToken, decimals }, symbol] = await Promise.all([
+            publicClient.readContract({
+              address: saleAddress,
+              abi: TOKEN_SALE_ABI,
+              functionName: 'getPaymentToken',
+              args: [tokenAddress],
+            }) as Promise<{ pointsPerToken: bigint; decimals: number }>,
+            publicClient.readContract({
+              address: tokenAddress,
+              abi: ERC20_ABI,
+              functionName: 'symbol',
+            }) as Promise<string>,
+          ]);
+          return { address: tokenAddress, symbol, decimals, pointsPerToken };
+        }),
+      );
+      setTokenSaleAddress(saleAddress);
+      setPaymentTokens(tokens.filter((token) => token.pointsPerToken > 0n));
+    } catch (error) {
+      console.error('Failed to load the payment tokens:', error);
+    }
+  }, [isConfigured, publicClient]);
+
   useEffect(() => {
     void refreshConstants();
   }, [refreshConstants]);
 
+  useEffect(() => {
+    void refreshPaymentTokens();
+  }, [refreshPaymentTokens]);
+
+  useEffect(() => {
+    void refreshJackpot();
+  }, [refreshJackpot]);
+
   useEffect(() => {
     void refreshPlayerData();
   }, [refreshPlayerData]);
 
+  // The game charges wagers and burns redemptions through the ledger, which needs the game approved as an operator.
+  const ensureOperator = async (signer: NonNullable<Awaited<typeof signerPromise>>) => {
+    if (!publicClient || !address || !pointsAddress) {
+      throw new Error('Points ledger not loaded');
+    }
+
+    const approved = (await publicClient.readContract({
+      address: pointsAddress,
+      abi: POINTS_ABI,
+      functionName: 'isOperator',
+      args: [address, CONTRACT_ADDRESS],
+    })) as boolean;
+    if (approved) return;
+
+    setStatusMessage('Approve PrivyPlay to move your points...');
+    const points = new Contract(pointsAddress, POINTS_ABI, signer);
+    const tx = await points.setOperator(CONTRACT_ADDRESS, Math.floor(Date.now() / 1000) + OPERATOR_DURATION_SECONDS);
+    await tx.wait();
+  };
+
+  const sendGameCall = async (
+    signer: JsonRpcSigner,
+    method: StartFunction | 'playRound' | 'submitGuess',
+    args: unknown[],
+  ): Promise<TransactionReceipt | null> => {
+    const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+    if (!gasless) {
+      const tx = await contract[method](...args);
+      return tx.wait();
+    }
+
+    setStatusMessage('Sign the request for the relayer...');
+    const hash = await relayGameCall(signer, contract.interface.encodeFunctionData(method, args));
+    return signer.provider.waitForTransaction(hash);
+  };
+
   const handleBuyPoints = async () => {
     if (!isConfigured) {
       setStatusMessage('Contract address not set.');
@@ -246,15 +550,31 @@ export function GameApp() {
         throw new Error('Signer not available');
       }
 
-      const amount = Number(ethAmount);
+      const amount = Number(buyAmount);
       if (!Number.isFinite(amount) || amount <= 0) {
-        setStatusMessage('Enter a valid ETH amount.');
+        setStatusMessage(`Enter a valid ${paymentToken?.symbol ?? 'ETH'} amount.`);
+        return;
+      }
+      if (payWith !== 'ETH' && !paymentToken) {
+        setStatusMessage('This token is no longer accepted.');
         return;
       }
 
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, resolvedSigner);
-      const tx = await contract.buyPoints({ value: parseEther(ethAmount) });
-      await tx.wait();
+      if (paymentToken && tokenSaleAddress) {
+        const tokenAmount = parseUnits(buyAmount, paymentToken.decimals);
+        const token = new Contract(paymentToken.address, ERC20_ABI, resolvedSigner);
+        if ((await token.allowance(address, tokenSaleAddress)) < tokenAmount) {
+          setStatusMessage(`Approve the token sale to spend your ${paymentToken.symbol}...`);
+          await (await token.approve(tokenSaleAddress, tokenAmount)).wait();
+        }
+        const sale = new Contract(tokenSaleAddress, TOKEN_SALE_ABI, resolvedSigner);
+        const tx = await sale.buyPointsWithToken(paymentToken.address, tokenAmount);
+        await tx.wait();
+      } else {
+        const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, resolvedSigner);
+        const tx = await contract.buyPoints({ value: parseEther(buyAmount) });
+        await tx.wait();
+      }
       setStatusMessage('Points credited.');
       await refreshPlayerData();
     } catch (error) {
@@ -265,29 +585,36 @@ export function GameApp() {
     }
   };
 
-  const handleStartGame = async () => {
+  const handleStartGame = async (start: StartFunction = 'startGame') => {
     if (!isConfigured) {
       setStatusMessage('Contract address not set.');
       return;
     }
-    if (!address || !signerPromise) {
+    if (!address || !instance || !signerPromise) {
       setStatusMessage('Connect a wallet before starting a round.');
       return;
     }
+    if (!/^\d+$/.test(wagerAmount) || BigInt(wagerAmount) === 0n) {
+      setStatusMessage('Enter a whole number of points to wager.');
+      return;
+    }
 
     setIsBusy((prev) => ({ ...prev, start: true }));
     setStatusMessage(null);
 
     try {
+      const input = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
+      input.add64(BigInt(wagerAmount));
+      const encryptedInput = await input.encrypt();
+
       const resolvedSigner = await signerPromise;
       if (!resolvedSigner) {
         throw new Error('Signer not available');
       }
 
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, resolvedSigner);
-      const tx = await contract.startGame();
-      await tx.wait();
-      setStatusMessage('Dice rolled. Submit your guess.');
+      await ensureOperator(resolvedSigner);
+      await sendGameCall(resolvedSigner, start, [encryptedInput.handles[0], encryptedInput.inputProof]);
+      setStatusMessage('Dice rolled. Place your bet.');
       await refreshPlayerData();
     } catch (error) {
       console.error('Start game failed:', error);
@@ -297,13 +624,143 @@ export function GameApp() {
     }
   };
 
+  const handleExpireRound = async () => {
+    if (!isConfigured) {
+      setStatusMessage('Contract address not set.');
+      return;
+    }
+    if (!address || !signerPromise) {
+      setStatusMessage('Connect a wallet before closing a round.');
+      return;
+    }
+
+    setIsBusy((prev) => ({ ...prev, expire: true }));
+    setStatusMessage(null);
+
+    try {
+      const resolvedSigner = await signerPromise;
+      if (!resolvedSigner) {
+        throw new Error('Signer not available');
+      }
+
+      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, resolvedSigner);
+      const tx = await contract.expireRound(address);
+      await tx.wait();
+      setStatusMessage('Expired round forfeited. You can start a new one.');
+      await refreshPlayerData();
+    } catch (error) {
+      console.error('Expire round failed:', error);
+      setStatusMessage('Unable to close the expired round.');
+    } finally {
+      setIsBusy((prev) => ({ ...prev, expire: false }));
+    }
+  };
+
+  const handleBankSession = async () => {
+    if (!isConfigured) {
+      setStatusMessage('Contract address not set.');
+      return;
+    }
+    if (!address || !signerPromise) {
+      setStatusMessage('Connect a wallet before banking a session.');
+      return;
+    }
+
+    setIsBusy((prev) => ({ ...prev, bank: true }));
+    setStatusMessage(null);
+
+    try {
+      const resolvedSigner = await signerPromise;
+      if (!resolvedSigner) {
+        throw new Error('Signer not available');
+      }
+
+      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, resolvedSigner);
+      const tx = await contract.bankSession(address);
+      await tx.wait();
+      setStatusMessage('Session banked. The pot was added to your balance.');
+      await refreshPlayerData();
+    } catch (error) {
+      console.error('Bank session failed:', error);
+      setStatusMessage('Unable to bank the session.');
+    } finally {
+      setIsBusy((prev) => ({ ...prev, bank: false }));
+    }
+  };
+
+  // Every settled round draws the jackpot; its outcome is public, the amount is not.
+  const describeSettlement = async (logs: readonly Parameters<Interface['parseLog']>[0][]) => {
+    const drawn = logs
+      .map((log) => jackpotInterface.parseLog(log))
+      .find((event) => event?.name === 'JackpotDrawn');
+    let hitJackpot = false;
+    if (drawn && instance) {
+      const { clearValues } = await instance.publicDecrypt([drawn.args.hit]);
+      hitJackpot = clearValues[drawn.args.hit] === true;
+    }
+
+    return hitJackpot
+      ? `Bet settled: ${describeBet(bet)}. Jackpot! The whole pool was added to your balance.`
+      : `Bet settled: ${describeBet(bet)}.`;
+  };
+
+  const handlePlayRound = async () => {
+    if (!isConfigured) {
+      setStatusMessage('Contract address not set.');
+      return;
+    }
+    if (!address || !instance || !signerPromise) {
+      setStatusMessage('Connect a wallet before playing a round.');
+      return;
+    }
+    if (!/^\d+$/.test(wagerAmount) || BigInt(wagerAmount) === 0n) {
+      setStatusMessage('Enter a whole number of points to wager.');
+      return;
+    }
+
+    setIsBusy((prev) => ({ ...prev, play: true }));
+    setStatusMessage(null);
+
+    try {
+      // The wager and the bet share one input proof.
+      const input = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
+      const [kind, low, high] = encodeBet(bet);
+      input.add64(BigInt(wagerAmount));
+      input.add8(kind);
+      input.add8(low);
+      input.add8(high);
+      const encryptedInput = await input.encrypt();
+
+      const resolvedSigner = await signerPromise;
+      if (!resolvedSigner) {
+        throw new Error('Signer not available');
+      }
+
+      await ensureOperator(resolvedSigner);
+      const receipt = await sendGameCall(resolvedSigner, 'playRound', [
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        encryptedInput.handles[3],
+        encryptedInput.inputProof,
+      ]);
+      setStatusMessage(await describeSettlement(receipt?.logs ?? []));
+      await Promise.all([refreshPlayerData(), refreshJackpot()]);
+    } catch (error) {
+      console.error('Play round failed:', error);
+      setStatusMessage('Unable to play the round.');
+    } finally {
+      setIsBusy((prev) => ({ ...prev, play: false }));
+    }
+  };
+
   const handleSubmitGuess = async () => {
     if (!isConfigured) {
       setStatusMessage('Contract address not set.');
       return;
     }
     if (!address || !instance || !signerPromise) {
-      setStatusMessage('Connect a wallet before guessing.');
+      setStatusMessage('Connect a wallet before betting.');
       return;
     }
 
@@ -312,7 +769,10 @@ export function GameApp() {
 
     try {
       const input = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
-      input.addBool(guess === 'big');
+      const [kind, low, high] = encodeBet(bet);
+      input.add8(kind);
+      input.add8(low);
+      input.add8(high);
       const encryptedInput = await input.encrypt();
 
       const resolvedSigner = await signerPromise;
@@ -320,41 +780,174 @@ export function GameApp() {
         throw new Error('Signer not available');
       }
 
-      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, resolvedSigner);
-      const tx = await contract.submitGuess(encryptedInput.handles[0], encryptedInput.inputProof);
+      const receipt = await sendGameCall(resolvedSigner, 'submitGuess', [
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        encryptedInput.inputProof,
+      ]);
+      setStatusMessage(await describeSettlement(receipt?.logs ?? []));
+      await Promise.all([refreshPlayerData(), refreshJackpot()]);
+    } catch (error) {
+      console.error('Submit bet failed:', error);
+      setStatusMessage('Bet failed. Try again.');
+    } finally {
+      setIsBusy((prev) => ({ ...prev, guess: false }));
+    }
+  };
+
+  const handleSendPoints = async () => {
+    if (!isConfigured) {
+      setStatusMessage('Contract address not set.');
+      return;
+    }
+    if (!address || !instance || !signerPromise || !pointsAddress) {
+      setStatusMessage('Connect a wallet before sending points.');
+      return;
+    }
+    if (!isAddress(sendTo)) {
+      setStatusMessage('Enter a valid recipient address.');
+      return;
+    }
+    if (!/^\d+$/.test(sendAmount) || BigInt(sendAmount) === 0n) {
+      setStatusMessage('Enter a whole number of points to send.');
+      return;
+    }
+
+    setIsBusy((prev) => ({ ...prev, send: true }));
+    setStatusMessage(null);
+
+    try {
+      const input = instance.createEncryptedInput(pointsAddress, address);
+      input.add64(BigInt(sendAmount));
+      const encryptedInput = await input.encrypt();
+
+      const resolvedSigner = await signerPromise;
+      if (!resolvedSigner) {
+        throw new Error('Signer not available');
+      }
+
+      const points = new Contract(pointsAddress, POINTS_ABI, resolvedSigner);
+      const tx = await points.confidentialTransfer(sendTo, encryptedInput.handles[0], encryptedInput.inputProof);
       await tx.wait();
+      setStatusMessage('Transfer sent. Nothing moves if it exceeded your balance; check it after refreshing.');
+      await refreshPlayerData();
+    } catch (error) {
+      console.error('Send points failed:', error);
+      setStatusMessage('Transfer failed. Please retry.');
+    } finally {
+      setIsBusy((prev) => ({ ...prev, send: false }));
+    }
+  };
+
+  const handleCashOut = async () => {
+    if (!isConfigured) {
+      setStatusMessage('Contract address not set.');
+      return;
+    }
+    if (!address || !instance || !signerPromise || !publicClient) {
+      setStatusMessage('Connect a wallet before cashing out.');
+      return;
+    }
+    if (!/^\d+$/.test(redeemAmount) || BigInt(redeemAmount) === 0n) {
+      setStatusMessage('Enter a whole number of points.');
+      return;
+    }
+
+    setIsBusy((prev) => ({ ...prev, redeem: true }));
+    setStatusMessage(null);
 
-      setStatusMessage('Guess recorded.');
+    try {
+      const resolvedSigner = await signerPromise;
+      if (!resolvedSigner) {
+        throw new Error('Signer not available');
+      }
+
+      const contract = new Contract(CONTRACT_ADDRESS, CONTRACT_ABI, resolvedSigner);
+      const readPending = () =>
+        publicClient.readContract({
+          address: CONTRACT_ADDRESS,
+          abi: CONTRACT_ABI,
+          functionName: 'getPendingRedemption',
+          args: [address],
+        }) as Promise<string>;
+
+      // A previous request may still be waiting for its payout; settle it before burning more points.
+      let pending = await readPending();
+      if (pending === ZERO_HASH) {
+        const input = instance.createEncryptedInput(CONTRACT_ADDRESS, address);
+        input.add64(BigInt(redeemAmount));
+        const encryptedInput = await input.encrypt();
+
+        await ensureOperator(resolvedSigner);
+        const requestTx = await contract.requestRedemption(encryptedInput.handles[0], encryptedInput.inputProof);
+        await requestTx.wait();
+        pending = await readPending();
+      }
+
+      setStatusMessage('Waiting for public decryption...');
+      const { clearValues, abiEncodedClearValues, decryptionProof } = await instance.publicDecrypt([pending]);
+
+      const finalizeTx = await contract.finalizeRedemption(address, abiEncodedClearValues, decryptionProof);
+      await finalizeTx.wait();
+
+      const redeemed = clearValues[pending]?.toString() ?? '0';
+      setStatusMessage(
+        redeemed === '0'
+          ? 'Not enough points outside those bought with tokens, nothing was redeemed.'
+          : `Redeemed ${formatToken(redeemed)} pts.`,
+      );
       await refreshPlayerData();
     } catch (error) {
-      console.error('Submit guess failed:', error);
-      setStatusMessage('Guess failed. Try again.');
+      console.error('Cash out failed:', error);
+      setStatusMessage('Cash out failed. Please retry.');
     } finally {
-      setIsBusy((prev) => ({ ...prev, guess: false }));
+      setIsBusy((prev) => ({ ...prev, redeem: false }));
     }
   };
 
   const projectedPoints = useMemo(() => {
-    if (!pointsPerEth || !ethAmount) return '';
-    const parsed = Number(ethAmount);
+    if (!buyAmount) return '';
+    const parsed = Number(buyAmount);
     if (!Number.isFinite(parsed) || parsed <= 0) return '';
     try {
+      if (paymentToken) {
+        // As the sale computes it: rounded down, per whole token.
+        const tokenAmount = parseUnits(buyAmount, paymentToken.decimals);
+        return ((tokenAmount * paymentToken.pointsPerToken) / 10n ** BigInt(paymentToken.decimals)).toString();
+      }
+      if (!pointsPerEth) return '';
       const points = (BigInt(pointsPerEth) * BigInt(Math.round(parsed * 1e6))) / BigInt(1e6);
       return points.toString();
     } catch {
       return '';
     }
-  }, [ethAmount, pointsPerEth]);
+  }, [buyAmount, paymentToken, pointsPerEth]);
+
+  const projectedEth = useMemo(() => {
+    if (!pointsPerEth || !/^\d+$/.test(redeemAmount)) return '';
+    try {
+      return formatEther((BigInt(redeemAmount) * 10n ** 18n) / BigInt(pointsPerEth));
+    } catch {
+      return '';
+    }
+  }, [pointsPerEth, redeemAmount]);
 
   return (
     <div className="game-app">
+      {paused && (
+        <section className="paused-banner">
+          <strong>The game is paused.</strong> Buying points and starting rounds are disabled for now. You can still
+          settle your open round, bank your session and cash out.
+        </section>
+      )}
       <section className="hero-panel reveal" style={{ animationDelay: '0.1s' }}>
         <div className="hero-copy">
           <p className="hero-eyebrow">Encrypted Dice Studio</p>
           <h2>Play bold. Keep your guess private.</h2>
           <p className="hero-description">
-            Swap ETH for encrypted points, roll a confidential dice, and guess big or small. The chain decides the
-            outcome, the relayer keeps your data sealed.
+            Swap ETH for encrypted points, roll a confidential dice, and bet on a face, odd or even, or any range.
+            The chain decides the outcome, the relayer keeps your data sealed.
           </p>
           <div className="hero-meta">
             <div>
@@ -362,14 +955,39 @@ export function GameApp() {
               <span className="meta-value">1 ETH -- {formatToken(pointsPerEth, '-')} pts</span>
             </div>
             <div>
-              <span className="meta-label">Round cost</span>
-              <span className="meta-value">{formatToken(playCost, '-')} pts</span>
+              <span className="meta-label">Wager range</span>
+              <span className="meta-value">
+                {formatToken(minWager, '-')} - {formatToken(maxWager, '-')} pts
+              </span>
             </div>
             <div>
-              <span className="meta-label">Win reward</span>
-              <span className="meta-value">{formatToken(winReward, '-')} pts</span>
+              <span className="meta-label">Big/small pays</span>
+              <span className="meta-value">{payouts ? `${formatMultiplier(payouts.range[2])} wager` : '-'}</span>
             </div>
+            {jackpot && (
+              <div title={jackpot.pool === null ? undefined : `As revealed in block ${jackpot.revealedAt}`}>
+                <span className="meta-label">Jackpot · 1 in {jackpot.odds.toString()} rounds</span>
+                <span className="meta-value">{formatToken(jackpot.pool, '0')} pts</span>
+              </div>
+            )}
           </div>
+          {pendingEconomics && (
+            <div className="economics-notice">
+              <span className="meta-label">
+                {pendingEconomics.effectiveAt * 1000 <= Date.now()
+                  ? 'Upcoming change (awaiting activation)'
+                  : `Upcoming change from ${new Date(pendingEconomics.effectiveAt * 1000).toLocaleString()}`}
+              </span>
+              <span className="meta-value">
+                1 ETH -- {formatToken(pendingEconomics.pointsPerEth.toString())} pts, wagers{' '}
+                {formatToken(pendingEconomics.minWager.toString())} -{' '}
+                {formatToken(pendingEconomics.maxWager.toString())} pts, face pays{' '}
+                {formatMultiplier(pendingEconomics.payouts.exactFace)}, odd/even pays{' '}
+                {formatMultiplier(pendingEconomics.payouts.oddEven)}, big/small pays{' '}
+                {formatMultiplier(pendingEconomics.payouts.range[2])}
+              </span>
+            </div>
+          )}
         </div>
         <div className="hero-stats">
           <div className="stat-card">
@@ -396,68 +1014,210 @@ export function GameApp() {
       <section className="actions-grid">
         <div className="action-card reveal" style={{ animationDelay: '0.2s' }}>
           <h3>Buy points</h3>
-          <p>Fund your encrypted balance with ETH.</p>
+          <p>
+            {paymentTokens.length > 0
+              ? 'Fund your encrypted balance with ETH or an accepted stablecoin.'
+              : 'Fund your encrypted balance with ETH.'}
+          </p>
           <div className="input-row">
+            {paymentTokens.length > 0 && (
+              <select
+                className="pay-with"
+                value={payWith}
+                onChange={(event) => setPayWith(event.target.value as PayWith)}
+                aria-label="Pay with"
+              >
+                <option value="ETH">ETH</option>
+                {paymentTokens.map((token) => (
+                  <option key={token.address} value={token.address}>
+                    {token.symbol}
+                  </option>
+                ))}
+              </select>
+            )}
             <input
               type="number"
               min="0"
-              step="0.001"
-              value={ethAmount}
-              onChange={(event) => setEthAmount(event.target.value)}
-              placeholder="0.01"
+              step={paymentToken ? '1' : '0.001'}
+              value={buyAmount}
+              onChange={(event) => setBuyAmount(event.target.value)}
+              placeholder={paymentToken ? '25' : '0.01'}
             />
             <button
               className="primary"
               onClick={handleBuyPoints}
-              disabled={!canUseWallet || isBusy.buy}
+              disabled={!canUseWallet || paused || isBusy.buy}
             >
               {isBusy.buy ? 'Buying...' : 'Buy points'}
             </button>
           </div>
-          <div className="helper">Projected: {projectedPoints ? formatToken(projectedPoints) : '-'} pts</div>
+          <div className="helper">
+            Projected: {projectedPoints ? formatToken(projectedPoints) : '-'} pts
+            {paymentToken && ` at ${paymentToken.pointsPerToken.toString()} pts per ${paymentToken.symbol}`}
+            {paymentToken && ', to play with: points bought with tokens cannot be cashed out or sent.'}
+          </div>
         </div>
 
         <div className="action-card reveal" style={{ animationDelay: '0.3s' }}>
-          <h3>Start a round</h3>
-          <p>Spend points to generate a private dice roll.</p>
-          <button
-            className="secondary"
-            onClick={handleStartGame}
-            disabled={!canUseWallet || isBusy.start || gameActive}
-          >
-            {gameActive ? 'Round active' : isBusy.start ? 'Rolling...' : 'Start game'}
-          </button>
-          <div className="status-pill">{gameActive ? 'Waiting for guess' : 'Ready for a new round'}</div>
-        </div>
-
-        <div className="action-card reveal" style={{ animationDelay: '0.4s' }}>
-          <h3>Submit your guess</h3>
-          <p>Pick big (4-6) or small (1-3), encrypted on-chain.</p>
+          <h3>{quickPlay ? 'Play a round' : 'Start a round'}</h3>
+          <p>
+            {quickPlay
+              ? 'Wager encrypted points on your bet: the dice is rolled and the bet settled in one transaction.'
+              : 'Wager encrypted points to generate a private dice roll.'}
+          </p>
           <div className="toggle-row">
+            <button className={quickPlay ? 'toggle active' : 'toggle'} onClick={() => setQuickPlay(true)}>
+              Quick play
+            </button>
+            <button className={quickPlay ? 'toggle' : 'toggle active'} onClick={() => setQuickPlay(false)}>
+              Two steps
+            </button>
+          </div>
+          {isGaslessConfigured && (
+            <div className="toggle-row">
+              <button className={gasless ? 'toggle' : 'toggle active'} onClick={() => setGasless(false)}>
+                Pay gas
+              </button>
+              <button className={gasless ? 'toggle active' : 'toggle'} onClick={() => setGasless(true)}>
+                Gasless
+              </button>
+            </div>
+          )}
+          {gasless && (
+            <div className="helper">
+              The relayer pays for your rounds. Approving the game on your points still takes one transaction.
+            </div>
+          )}
+          <div className="input-row">
+            <input
+              type="number"
+              min={minWager || '1'}
+              max={maxWager || undefined}
+              step="1"
+              value={wagerAmount}
+              onChange={(event) => setWagerAmount(event.target.value)}
+              placeholder="100"
+            />
             <button
-              className={guess === 'big' ? 'toggle active' : 'toggle'}
-              onClick={() => setGuess('big')}
+              className="secondary"
+              onClick={() => (quickPlay ? handlePlayRound() : handleStartGame())}
+              disabled={!canUseWallet || paused || isBusy.start || isBusy.play || gameActive || session?.active}
             >
-              Big
+              {gameActive
+                ? 'Round active'
+                : session?.active
+                  ? 'Session open'
+                  : isBusy.start || isBusy.play
+                    ? 'Rolling...'
+                    : quickPlay
+                      ? 'Roll and settle'
+                      : 'Start game'}
+            </button>
+          </div>
+          <div className="helper">
+            Wagers are clamped to {formatToken(minWager)} - {formatToken(maxWager)} pts and stay encrypted.
+          </div>
+          <div className={roundExpired ? 'status-pill expired' : 'status-pill'}>
+            {!gameActive
+              ? 'Ready for a new round'
+              : roundExpired
+                ? 'Round expired'
+                : blocksLeft !== null
+                  ? `Waiting for bet · ${formatCountdown(blocksLeft)} left`
+                  : 'Waiting for bet'}
+          </div>
+          {roundExpired && (
+            <button className="ghost" onClick={handleExpireRound} disabled={!canUseWallet || isBusy.expire}>
+              {isBusy.expire ? 'Closing...' : 'Forfeit expired round'}
             </button>
+          )}
+        </div>
+
+        <div className="action-card reveal" style={{ animationDelay: '0.4s' }}>
+          <h3>Place your bet</h3>
+          <p>Pick an exact face, odd or even, or a range. The kind of bet is encrypted too.</p>
+          <BetBuilder bet={bet} payouts={payouts} onChange={setBet} />
+          {quickPlay && !gameActive ? (
+            <div className="helper">Quick play sends this bet with your wager.</div>
+          ) : (
             <button
-              className={guess === 'small' ? 'toggle active' : 'toggle'}
-              onClick={() => setGuess('small')}
+              className="primary"
+              onClick={handleSubmitGuess}
+              disabled={!canUseWallet || !gameActive || roundExpired || isBusy.guess}
             >
-              Small
+              {isBusy.guess ? 'Submitting...' : 'Send encrypted bet'}
+            </button>
+          )}
+        </div>
+
+        <div className="action-card reveal" style={{ animationDelay: '0.5s' }}>
+          <h3>Cash out</h3>
+          <p>Burn encrypted points and receive ETH once the amount is publicly decrypted.</p>
+          <div className="input-row">
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={redeemAmount}
+              onChange={(event) => setRedeemAmount(event.target.value)}
+              placeholder="1000"
+            />
+            <button className="primary" onClick={handleCashOut} disabled={!canUseWallet || isBusy.redeem}>
+              {isBusy.redeem ? 'Cashing out...' : 'Cash out'}
+            </button>
+          </div>
+          <div className="helper">Payout: {projectedEth || '-'} ETH</div>
+        </div>
+
+        <div className="action-card reveal" style={{ animationDelay: '0.55s' }}>
+          <h3>Send points</h3>
+          <p>
+            Points are an ERC-7984 confidential token, so any wallet can hold them. The amount stays encrypted for
+            everyone else.
+          </p>
+          <div className="input-row">
+            <input
+              type="text"
+              value={sendTo}
+              onChange={(event) => setSendTo(event.target.value.trim())}
+              placeholder="Recipient 0x..."
+            />
+          </div>
+          <div className="input-row">
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={sendAmount}
+              onChange={(event) => setSendAmount(event.target.value)}
+              placeholder="100"
+            />
+            <button className="secondary" onClick={handleSendPoints} disabled={!canUseWallet || isBusy.send}>
+              {isBusy.send ? 'Sending...' : 'Send points'}
             </button>
           </div>
-          <button
-            className="primary"
-            onClick={handleSubmitGuess}
-            disabled={!canUseWallet || !gameActive || isBusy.guess}
-          >
-            {isBusy.guess ? 'Submitting...' : 'Send encrypted guess'}
-          </button>
         </div>
       </section>
 
-      <section className="utility-row reveal" style={{ animationDelay: '0.5s' }}>
+      <SessionPanel
+        session={session}
+        gameActive={gameActive}
+        disabled={!canUseWallet}
+        paused={paused}
+        isStarting={isBusy.start}
+        isBanking={isBusy.bank}
+        onStart={() => handleStartGame('startSession')}
+        onRollAgain={() => handleStartGame('rollAgain')}
+        onBank={handleBankSession}
+      />
+
+      <HistoryPanel address={address} disabled={!canDecrypt} decryptHandles={decryptHandles} />
+
+      <ViewersPanel address={address} pointsAddress={pointsAddress} disabled={!canUseWallet || !pointsAddress} />
+
+      <FairnessPanel disabled={!isConfigured || !instance || zamaLoading} publicDecryptHandles={publicDecryptHandles} />
+
+      <section className="utility-row reveal" style={{ animationDelay: '0.7s' }}>
         <div className="utility-card">
           <div>
             <h4>Encryption status</h4>
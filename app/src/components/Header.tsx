@@ -1,7 +1,21 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '../styles/Header.css';
 
-export function Header() {
+export type Screen = 'dice' | 'duels' | 'leaderboard' | 'limits';
+
+const SCREENS: { id: Screen; label: string }[] = [
+  { id: 'dice', label: 'Dice' },
+  { id: 'duels', label: 'Duels' },
+  { id: 'leaderboard', label: 'Leaderboard' },
+  { id: 'limits', label: 'Limits' },
+];
+
+type HeaderProps = {
+  screen: Screen;
+  onScreenChange: (screen: Screen) => void;
+};
+
+export function Header({ screen, onScreenChange }: HeaderProps) {
   return (
     <header className="header">
       <div className="header-container">
@@ -13,6 +27,17 @@ export function Header() {
               <p className="header-subtitle">Confidential dice on Sepolia</p>
             </div>
           </div>
+          <nav className="header-tabs">
+            {SCREENS.map(({ id, label }) => (
+              <button
+                key={id}
+                className={screen === id ? 'header-tab active' : 'header-tab'}
+                onClick={() => onScreenChange(id)}
+              >
+                {label}
+              </button>
+            ))}
+          </nav>
           <ConnectButton />
         </div>
       </div>
@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { CONTRACT_ADDRESS, CONTRACT_ABI, HISTORY_ABI } from '../config/contracts';
+import { type Bet, decodeBet, describeBet } from '../config/bets';
+import { roundCommitment, roundLineage } from '../config/lineage';
+
+const ZERO_HASH = `0x${'0'.repeat(64)}`;
+const PAGE_SIZE = 10;
+
+type RoundRecord = {
+  id: bigint;
+  blockNumber: bigint;
+  expired: boolean;
+  wager: string;
+  roll: string;
+  betKind: string;
+  betLow: string;
+  betHigh: string;
+  outcome: string;
+  reward: string;
+};
+
+type HistoryRow = {
+  id: bigint;
+  blockNumber: bigint;
+  expired: boolean;
+  wager: string | null;
+  roll: string | null;
+  bet: Bet | null;
+  won: boolean | null;
+  reward: string | null;
+  // Why the round's handles do not match what was committed when it started, or null when they do.
+  mismatch: string | null;
+};
+
+type HistoryPanelProps = {
+  address: `0x${string}` | undefined;
+  disabled: boolean;
+  decryptHandles: (handles: string[]) => Promise<Record<string, unknown>>;
+};
+
+const formatPoints = (value: string | null) => (value === null ? '-' : BigInt(value).toLocaleString('en-US'));
+
+export function HistoryPanel({ address, disabled, decryptHandles }: HistoryPanelProps) {
+  const publicClient = usePublicClient();
+
+  // Page 0 holds the most recent rounds.
+  const [page, setPage] = useState(0);
+  const [total, setTotal] = useState<bigint | null>(null);
+  const [rows, setRows] = useState<HistoryRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = async (nextPage: number) => {
+    if (!publicClient || !address) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const historyAddress = (await publicClient.readContract({
+        address: CONTRACT_ADDRESS,
+        abi: CONTRACT_ABI,
+        functionName: 'history',
+      })) as `0x${string}`;
+      const count = (await publicClient.readContract({
+        address: historyAddress,
+        abi: HISTORY_ABI,
+        functionName: 'getRoundCount',
+        args: [address],
+      })) as bigint;
+
+      const end = count - BigInt(nextPage * PAGE_SIZE);
+      const offset = end > BigInt(PAGE_SIZE) ? end - BigInt(PAGE_SIZE) : 0n;
+      const records =
+        end > 0n
+          ? ((await publicClient.readContract({
+              address: historyAddress,
+              abi: HISTORY_ABI,
+              functionName: 'getRoundHistory',
+              args: [address, offset, end - offset],
+            })) as readonly RoundRecord[])
+          : [];
+
+      const [lineages, expiryBlocks] = await Promise.all([
+        publicClient.readContract({
+          address: historyAddress,
+          abi: HISTORY_ABI,
+          functionName: 'getRoundLineage',
+          args: [address, offset, end - offset],
+        }) as Promise<readonly string[]>,
+        publicClient.readContract({
+          address: CONTRACT_ADDRESS,
+          abi: CONTRACT_ABI,
+          functionName: 'roundExpiryBlocks',
+        }) as Promise<bigint>,
+      ]);
+
+      // Re-derive each round's lineage from its record, and check it against the commitment emitted when the round
+      // started and the lineage stored when it closed.
+      const mismatches = await Promise.all(
+        records.map(async (record, index) => {
+          // A bet is placed at most `roundExpiryBlocks` after the start; an expired round may be closed much later.
+          const fromBlock =
+            record.expired || record.blockNumber < expiryBlocks ? 0n : record.blockNumber - expiryBlocks;
+          const [started] = await publicClient.getContractEvents({
+            address: CONTRACT_ADDRESS,
+            abi: CONTRACT_ABI,
+            eventName: 'GameStarted',
+            args: { player: address, roundId: record.id },
+            fromBlock,
+            toBlock: record.blockNumber,
+          });
+          if (!started) return 'No start event found for this round.';
+          if (started.args.commitment !== roundCommitment(address, record)) {
+            return 'The wager or roll differs from the one committed when the round started.';
+          }
+          if (lineages[index] !== roundLineage(address, record)) {
+            return 'The bet, outcome or reward differs from the recorded lineage.';
+          }
+          return null;
+        }),
+      );
+
+      // A single userDecrypt call (and signature) covers every handle of the page.
+      const handles = new Set<string>();
+      for (const record of records) {
+        for (const handle of [
+          record.wager,
+          record.roll,
+          record.betKind,
+          record.betLow,
+          record.betHigh,
+          record.outcome,
+          record.reward,
+        ]) {
+          if (handle !== ZERO_HASH) handles.add(handle);
+        }
+      }
+      const clear = handles.size > 0 ? await decryptHandles([...handles]) : {};
+      const value = (handle: string) => (handle === ZERO_HASH ? null : String(clear[handle] ?? '0'));
+
+      setTotal(count);
+      setPage(nextPage);
+      setRows(
+        records
+          .map((record, index) => {
+            const kind = value(record.betKind);
+            const won = value(record.outcome);
+            return {
+              id: record.id,
+              blockNumber: record.blockNumber,
+              expired: record.expired,
+              wager: value(record.wager),
+              roll: value(record.roll),
+              bet:
+                kind === null
+                  ? null
+                  : decodeBet(Number(kind), Number(value(record.betLow)), Number(value(record.betHigh))),
+              won: won === null ? null : won === 'true' || won === '1',
+              reward: value(record.reward),
+              mismatch: mismatches[index],
+            };
+          })
+          .reverse(),
+      );
+    } catch (loadError) {
+      console.error('Failed to load round history:', loadError);
+      setError('Unable to load round history.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const pageCount = total === null ? 0 : Math.ceil(Number(total) / PAGE_SIZE);
+
+  return (
+    <section className="history-panel reveal" style={{ animationDelay: '0.6s' }}>
+      <div className="history-header">
+        <div>
+          <h3>History</h3>
+          <p>
+            Every settled round is kept on-chain, encrypted for you alone. Decrypting a page takes one signature, and
+            checks that each round was settled with the very roll it started with.
+          </p>
+        </div>
+        <div className="history-controls">
+          <button
+            className="ghost"
+            onClick={() => loadPage(page + 1)}
+            disabled={disabled || isLoading || total === null || page + 1 >= pageCount}
+          >
+            Older
+          </button>
+          <button className="ghost" onClick={() => loadPage(page - 1)} disabled={disabled || isLoading || page === 0}>
+            Newer
+          </button>
+          <button
+            className="secondary"
+            onClick={() => loadPage(total === null ? 0 : page)}
+            disabled={disabled || isLoading}
+          >
+            {isLoading ? 'Decrypting...' : total === null ? 'Load history' : 'Reload'}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="status-message">{error}</div>}
+      {total !== null && rows.length === 0 && <div className="helper">No rounds played yet.</div>}
+      {rows.length > 0 && (
+        <table className="history-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Block</th>
+              <th>Wager</th>
+              <th>Roll</th>
+              <th>Bet</th>
+              <th>Outcome</th>
+              <th>Reward</th>
+              <th>Lineage</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.id.toString()}>
+                <td>{row.id.toString()}</td>
+                <td>{row.blockNumber.toString()}</td>
+                <td>{formatPoints(row.wager)}</td>
+                <td>{row.roll ?? '-'}</td>
+                <td>{row.expired ? 'Expired' : row.bet ? describeBet(row.bet) : 'Unknown'}</td>
+                <td>{row.expired ? 'Forfeited' : row.won ? 'Win' : 'Miss'}</td>
+                <td>{formatPoints(row.reward)}</td>
+                <td
+                  className={row.mismatch ? 'lineage-mismatch' : 'lineage-verified'}
+                  title={row.mismatch ?? undefined}
+                >
+                  {row.mismatch ? 'Mismatch' : 'Verified'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {total !== null && pageCount > 1 && (
+        <div className="helper">
+          Page {page + 1} of {pageCount}
+        </div>
+      )}
+    </section>
+  );
+}
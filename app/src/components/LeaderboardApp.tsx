@@ -0,0 +1,429 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, useBlockNumber, usePublicClient } from 'wagmi';
+import { Contract } from 'ethers';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { CONTRACT_ADDRESS, CONTRACT_ABI, LEADERBOARD_ABI } from '../config/contracts';
+import '../styles/GameApp.css';
+
+const ZERO_ADDRESS = `0x${'0'.repeat(40)}`;
+const ZERO_HASH = `0x${'0'.repeat(64)}`;
+const PAGE_SIZE = 100n;
+
+type Entry = {
+  wins: string;
+  wagered: string;
+  paidOut: string;
+  published: boolean;
+  publishedWins: string;
+  publishedNet: string;
+};
+
+type LeaderboardInfo = {
+  address: `0x${string}`;
+  epochBlocks: bigint;
+  bucketSize: bigint;
+  startBlock: bigint;
+  optedIn: boolean;
+};
+
+type RankingRow = {
+  player: `0x${string}`;
+  // Null until the entry is published.
+  wins: bigint | null;
+  net: bigint | null;
+};
+
+type MyEntry = {
+  wins: string;
+  wagered: string;
+  paidOut: string;
+};
+
+const shortAddress = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+// Published rows first, by net winnings then wins.
+const compareRows = (a: RankingRow, b: RankingRow) => {
+  if (a.net === null || b.net === null) return a.net === null ? (b.net === null ? 0 : 1) : -1;
+  if (a.net !== b.net) return b.net > a.net ? 1 : -1;
+  return Number((b.wins ?? 0n) - (a.wins ?? 0n));
+};
+
+export function LeaderboardApp() {
+  const { address, isConnected } = useAccount();
+  const publicClient = usePublicClient();
+  const { data: blockNumber } = useBlockNumber({ watch: true });
+  const signerPromise = useEthersSigner();
+  const { instance, isLoading: zamaLoading } = useZamaInstance();
+
+  // Undefined until loaded, null when the game has no leaderboard.
+  const [leaderboard, setLeaderboard] = useState<LeaderboardInfo | null | undefined>(undefined);
+  const [epochInput, setEpochInput] = useState('');
+  const [ranking, setRanking] = useState<{ epoch: bigint; rows: RankingRow[] } | null>(null);
+  const [myEntry, setMyEntry] = useState<MyEntry | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState<'consent' | 'ranking' | 'mine' | `0x${string}` | null>(null);
+
+  const isConfigured = CONTRACT_ADDRESS !== ZERO_ADDRESS;
+  const canUseWallet = Boolean(isConfigured && isConnected && address && publicClient && leaderboard);
+  const canDecrypt = Boolean(canUseWallet && instance && signerPromise && !zamaLoading);
+
+  const currentEpoch =
+    leaderboard && blockNumber !== undefined ? (blockNumber - leaderboard.startBlock) / leaderboard.epochBlocks : null;
+  const blocksLeft =
+    leaderboard && currentEpoch !== null && blockNumber !== undefined
+      ? leaderboard.startBlock + (currentEpoch + 1n) * leaderboard.epochBlocks - blockNumber
+      : null;
+
+  const refreshLeaderboard = useCallback(async () => {
+    if (!publicClient || !isConfigured) return;
+
+    try {
+      const leaderboardAddress = (await publicClient.readContract({
+        address: CONTRACT_ADDRESS,
+        abi: CONTRACT_ABI,
+        functionName: 'leaderboard',
+      })) as `0x${string}`;
+      if (leaderboardAddress === ZERO_ADDRESS) {
+        setLeaderboard(null);
+        return;
+      }
+
+      const [epochBlocks, bucketSize, startBlock, optedIn] = await Promise.all([
+        publicClient.readContract({
+          address: leaderboardAddress,
+          abi: LEADERBOARD_ABI,
+          functionName: 'EPOCH_BLOCKS',
+        }) as Promise<bigint>,
+        publicClient.readContract({
+          address: leaderboardAddress,
+          abi: LEADERBOARD_ABI,
+          functionName: 'BUCKET_SIZE',
+        }) as Promise<bigint>,
+        publicClient.readContract({
+          address: leaderboardAddress,
+          abi: LEADERBOARD_ABI,
+          functionName: 'START_BLOCK',
+        }) as Promise<bigint>,
+        address
+          ? (publicClient.readContract({
+              address: leaderboardAddress,
+              abi: LEADERBOARD_ABI,
+              functionName: 'optedIn',
+              args: [address],
+            }) as Promise<boolean>)
+          : Promise.resolve(false),
+      ]);
+      setLeaderboard({ address: leaderboardAddress, epochBlocks, bucketSize, startBlock, optedIn });
+    } catch (error) {
+      console.error('Failed to load the leaderboard:', error);
+      setStatusMessage('Unable to load the leaderboard.');
+    }
+  }, [address, isConfigured, publicClient]);
+
+  useEffect(() => {
+    void refreshLeaderboard();
+  }, [refreshLeaderboard]);
+
+  const readEntry = async (epoch: bigint, player: `0x${string}`) =>
+    (await publicClient!.readContract({
+      address: leaderboard!.address,
+      abi: LEADERBOARD_ABI,
+      functionName: 'getEntry',
+      args: [epoch, player],
+    })) as Entry;
+
+  const loadRanking = async () => {
+    if (!publicClient || !leaderboard || !instance || currentEpoch === null) return;
+    if (currentEpoch === 0n && epochInput === '') {
+      setStatusMessage('The first epoch is still running.');
+      return;
+    }
+    if (epochInput !== '' && !/^\d+$/.test(epochInput)) {
+      setStatusMessage('Enter an epoch number.');
+      return;
+    }
+    const epoch = epochInput === '' ? currentEpoch - 1n : BigInt(epochInput);
+    if (epoch >= currentEpoch) {
+      setStatusMessage(`Epoch ${epoch} is not over yet.`);
+      return;
+    }
+
+    setBusy('ranking');
+    setStatusMessage(null);
+
+    try {
+      const count = (await publicClient.readContract({
+        address: leaderboard.address,
+        abi: LEADERBOARD_ABI,
+        functionName: 'getPlayerCount',
+      })) as bigint;
+      const players: `0x${string}`[] = [];
+      for (let offset = 0n; offset < count; offset += PAGE_SIZE) {
+        players.push(
+          ...((await publicClient.readContract({
+            address: leaderboard.address,
+            abi: LEADERBOARD_ABI,
+            functionName: 'getPlayers',
+            args: [offset, PAGE_SIZE],
+          })) as readonly `0x${string}`[]),
+        );
+      }
+
+      const entries = await Promise.all(players.map((player) => readEntry(epoch, player)));
+      // Players who did not play in the epoch have no entry.
+      const played = players
+        .map((player, index) => ({ player, entry: entries[index] }))
+        .filter(({ entry }) => entry.wagered !== ZERO_HASH);
+
+      const handles = played
+        .filter(({ entry }) => entry.published)
+        .flatMap(({ entry }) => [entry.publishedWins, entry.publishedNet]);
+      const clear = handles.length > 0 ? (await instance.publicDecrypt(handles)).clearValues : {};
+      const value = (handle: string) => BigInt(String((clear as Record<string, unknown>)[handle] ?? '0'));
+
+      setRanking({
+        epoch,
+        rows: played
+          .map(({ player, entry }) => ({
+            player,
+            wins: entry.published ? value(entry.publishedWins) : null,
+            net: entry.published ? value(entry.publishedNet) : null,
+          }))
+          .sort(compareRows),
+      });
+    } catch (error) {
+      console.error('Failed to load the ranking:', error);
+      setStatusMessage('Unable to load the ranking.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const sendTransaction = async (
+    action: typeof busy,
+    send: (contract: Contract) => Promise<{ wait: () => Promise<unknown> }>,
+    success: string,
+    failure: string,
+  ) => {
+    if (!leaderboard || !signerPromise) {
+      setStatusMessage('Connect a wallet first.');
+      return false;
+    }
+
+    setBusy(action);
+    setStatusMessage(null);
+
+    try {
+      const resolvedSigner = await signerPromise;
+      if (!resolvedSigner) {
+        throw new Error('Signer not available');
+      }
+
+      const tx = await send(new Contract(leaderboard.address, LEADERBOARD_ABI, resolvedSigner));
+      await tx.wait();
+      setStatusMessage(success);
+      return true;
+    } catch (error) {
+      console.error('Leaderboard transaction failed:', error);
+      setStatusMessage(failure);
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleConsent = async () => {
+    const joining = !leaderboard?.optedIn;
+    const done = await sendTransaction(
+      'consent',
+      (contract) => (joining ? contract.optIn() : contract.optOut()),
+      joining
+        ? 'You joined the leaderboard. Your rounds count from now on.'
+        : 'You left the leaderboard. Your unpublished results stay private.',
+      joining ? 'Unable to join the leaderboard.' : 'Unable to leave the leaderboard.',
+    );
+    if (done) await refreshLeaderboard();
+  };
+
+  const handlePublish = async (player: `0x${string}`) => {
+    if (!ranking) return;
+    const done = await sendTransaction(
+      player,
+      (contract) => contract.publishEntry(ranking.epoch, player),
+      'Entry published.',
+      'Unable to publish the entry.',
+    );
+    if (done) await loadRanking();
+  };
+
+  // The running epoch's entry is only decryptable by its player.
+  const loadMyEntry = async () => {
+    if (!leaderboard || !instance || !address || currentEpoch === null) return;
+
+    setBusy('mine');
+    setStatusMessage(null);
+
+    try {
+      const entry = await readEntry(currentEpoch, address);
+      const handles = [entry.wins, entry.wagered, entry.paidOut].filter((handle) => handle !== ZERO_HASH);
+      if (handles.length === 0) {
+        setMyEntry({ wins: '0', wagered: '0', paidOut: '0' });
+        return;
+      }
+
+      const keypair = instance.generateKeypair();
+      const startTimeStamp = Math.floor(Date.now() / 1000).toString();
+      const durationDays = '7';
+      const contractAddresses = [leaderboard.address];
+      const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimeStamp, durationDays);
+      const resolvedSigner = await signerPromise;
+      if (!resolvedSigner) {
+        throw new Error('Signer not available');
+      }
+      const signature = await resolvedSigner.signTypedData(
+        eip712.domain,
+        {
+          UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+        },
+        eip712.message,
+      );
+      const clear = await instance.userDecrypt(
+        handles.map((handle) => ({ handle, contractAddress: leaderboard.address })),
+        keypair.privateKey,
+        keypair.publicKey,
+        signature.replace('0x', ''),
+        contractAddresses,
+        address,
+        startTimeStamp,
+        durationDays,
+      );
+      const value = (handle: string) => (handle === ZERO_HASH ? '0' : String(clear[handle] ?? '0'));
+      setMyEntry({ wins: value(entry.wins), wagered: value(entry.wagered), paidOut: value(entry.paidOut) });
+    } catch (error) {
+      console.error('Failed to decrypt the entry:', error);
+      setStatusMessage('Unable to decrypt your results.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="game-app">
+      <section className="hero-panel reveal" style={{ animationDelay: '0.1s' }}>
+        <div className="hero-copy">
+          <p className="hero-eyebrow">Opt-in Leaderboard</p>
+          <h2>Compete without showing your balance.</h2>
+          <p className="hero-description">
+            Players who opt in are ranked per epoch on their wins and their net winnings, rounded down to buckets of{' '}
+            {leaderboard ? leaderboard.bucketSize.toLocaleString('en-US') : '-'} points. Results only become public
+            once the epoch is over and while you are still opted in; balances and single rounds stay encrypted.
+          </p>
+        </div>
+        <div className="action-card">
+          <h3>{leaderboard?.optedIn ? 'You are on the leaderboard' : 'Join the leaderboard'}</h3>
+          <div className="session-stats">
+            <div className="stat-card">
+              <span className="stat-label">Epoch</span>
+              <span className="stat-value">{currentEpoch?.toString() ?? '-'}</span>
+            </div>
+            <div className="stat-card">
+              <span className="stat-label">Blocks left</span>
+              <span className="stat-value">{blocksLeft?.toString() ?? '-'}</span>
+            </div>
+          </div>
+          <div className="input-row">
+            <button
+              className={leaderboard?.optedIn ? 'ghost' : 'primary'}
+              onClick={handleConsent}
+              disabled={!canUseWallet || busy !== null}
+            >
+              {busy === 'consent' ? 'Confirming...' : leaderboard?.optedIn ? 'Leave leaderboard' : 'Opt in'}
+            </button>
+            <button className="secondary" onClick={loadMyEntry} disabled={!canDecrypt || busy !== null}>
+              {busy === 'mine' ? 'Decrypting...' : 'My epoch so far'}
+            </button>
+          </div>
+          {myEntry && (
+            <div className="helper">
+              {myEntry.wins} wins, {BigInt(myEntry.wagered).toLocaleString('en-US')} pts wagered,{' '}
+              {BigInt(myEntry.paidOut).toLocaleString('en-US')} pts paid out this epoch.
+            </div>
+          )}
+        </div>
+      </section>
+
+      <section className="history-panel reveal" style={{ animationDelay: '0.3s' }}>
+        <div className="history-header">
+          <div>
+            <h3>Ranking</h3>
+            <p>Anyone can publish the entry of an opted-in player once its epoch is over.</p>
+          </div>
+          <div className="history-controls">
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={epochInput}
+              onChange={(event) => setEpochInput(event.target.value)}
+              placeholder="Last epoch"
+            />
+            <button
+              className="secondary"
+              onClick={loadRanking}
+              disabled={!leaderboard || !instance || busy !== null}
+            >
+              {busy === 'ranking' ? 'Loading...' : 'Load ranking'}
+            </button>
+          </div>
+        </div>
+
+        {ranking !== null && ranking.rows.length === 0 && (
+          <div className="helper">No opted-in player played in epoch {ranking.epoch.toString()}.</div>
+        )}
+        {ranking !== null && ranking.rows.length > 0 && (
+          <table className="history-table">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Player</th>
+                <th>Wins</th>
+                <th>Net winnings</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {ranking.rows.map((row, index) => (
+                <tr key={row.player}>
+                  <td>{row.net === null ? '-' : index + 1}</td>
+                  <td>{row.player.toLowerCase() === address?.toLowerCase() ? 'You' : shortAddress(row.player)}</td>
+                  <td>{row.wins?.toString() ?? '-'}</td>
+                  <td>{row.net === null ? '-' : `${row.net.toLocaleString('en-US')}+ pts`}</td>
+                  <td className="history-controls">
+                    {row.net === null && (
+                      <button
+                        className="ghost"
+                        onClick={() => handlePublish(row.player)}
+                        disabled={!canUseWallet || busy !== null}
+                      >
+                        {busy === row.player ? 'Publishing...' : 'Publish'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {(statusMessage || !isConfigured || leaderboard === null) && (
+        <section className="utility-row">
+          <div className="status-message">
+            {statusMessage || (!isConfigured ? 'Game contract address not set.' : 'The leaderboard is not enabled.')}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,434 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import { Contract } from 'ethers';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useZamaInstance } from '../hooks/useZamaInstance';
+import { CONTRACT_ADDRESS, CONTRACT_ABI, LIMITS_ABI } from '../config/contracts';
+import '../styles/GameApp.css';
+
+const ZERO_ADDRESS = `0x${'0'.repeat(40)}`;
+const ZERO_HASH = `0x${'0'.repeat(64)}`;
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+const COOL_OFFS = [
+  { label: '24 hours', seconds: DAY },
+  { label: '1 week', seconds: 7 * DAY },
+  { label: '6 weeks', seconds: 42 * DAY },
+];
+const EXCLUSIONS = [
+  { label: '6 months', seconds: 180 * DAY },
+  { label: '1 year', seconds: 365 * DAY },
+  { label: '5 years', seconds: 5 * 365 * DAY },
+];
+
+type Limits = {
+  dailyRounds: number;
+  hasSpendCap: boolean;
+  dailySpendCap: string;
+  pendingDailyRounds: number;
+  pendingDailyRoundsAt: bigint;
+  pendingSpendCap: string;
+  pendingSpendCapAt: bigint;
+  coolOffUntil: bigint;
+  excludedUntil: bigint;
+  day: bigint;
+  roundsToday: number;
+  spentToday: string;
+};
+
+type LimitsInfo = {
+  address: `0x${string}`;
+  loosenDelay: bigint;
+  now: bigint;
+  limits: Limits | null;
+};
+
+type Spending = {
+  cap: string | null;
+  pendingCap: string | null;
+  spentToday: string;
+};
+
+const formatTime = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toLocaleString();
+
+const formatDelay = (seconds: bigint) =>
+  seconds >= BigInt(DAY)
+    ? `${Number(seconds) / DAY} days`
+    : seconds >= BigInt(HOUR)
+      ? `${Number(seconds) / HOUR} hours`
+      : `${seconds} seconds`;
+
+export function LimitsApp() {
+  const { address, isConnected } = useAccount();
+  const publicClient = usePublicClient();
+  const signerPromise = useEthersSigner();
+  const { instance, isLoading: zamaLoading } = useZamaInstance();
+
+  // Undefined until loaded, null when the game has no limits contract.
+  const [info, setInfo] = useState<LimitsInfo | null | undefined>(undefined);
+  const [roundsInput, setRoundsInput] = useState('');
+  const [capInput, setCapInput] = useState('');
+  const [spending, setSpending] = useState<Spending | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const isConfigured = CONTRACT_ADDRESS !== ZERO_ADDRESS;
+  const canUseWallet = Boolean(isConfigured && isConnected && address && publicClient && info);
+  const canEncrypt = Boolean(canUseWallet && instance && signerPromise && !zamaLoading);
+
+  const refreshLimits = useCallback(async () => {
+    if (!publicClient || !isConfigured) return;
+
+    try {
+      const limitsAddress = (await publicClient.readContract({
+        address: CONTRACT_ADDRESS,
+        abi: CONTRACT_ABI,
+        functionName: 'limits',
+      })) as `0x${string}`;
+      if (limitsAddress === ZERO_ADDRESS) {
+        setInfo(null);
+        return;
+      }
+
+      const [loosenDelay, block, limits] = await Promise.all([
+        publicClient.readContract({
+          address: limitsAddress,
+          abi: LIMITS_ABI,
+          functionName: 'LOOSEN_DELAY',
+        }) as Promise<bigint>,
+        publicClient.getBlock(),
+        address
+          ? (publicClient.readContract({
+              address: limitsAddress,
+              abi: LIMITS_ABI,
+              functionName: 'getLimits',
+              args: [address],
+            }) as Promise<Limits>)
+          : Promise.resolve(null),
+      ]);
+      setInfo({ address: limitsAddress, loosenDelay, now: block.timestamp, limits });
+    } catch (error) {
+      console.error('Failed to load limits:', error);
+      setStatusMessage('Unable to load your limits.');
+    }
+  }, [address, isConfigured, publicClient]);
+
+  useEffect(() => {
+    void refreshLimits();
+  }, [refreshLimits]);
+
+  const sendTransaction = async (
+    action: string,
+    send: (contract: Contract) => Promise<{ wait: () => Promise<unknown> }>,
+    success: string,
+    failure: string,
+  ) => {
+    if (!info || !signerPromise) {
+      setStatusMessage('Connect a wallet first.');
+      return;
+    }
+
+    setBusy(action);
+    setStatusMessage(null);
+
+    try {
+      const resolvedSigner = await signerPromise;
+      if (!resolvedSigner) {
+        throw new Error('Signer not available');
+      }
+
+      const tx = await send(new Contract(info.address, LIMITS_ABI, resolvedSigner));
+      await tx.wait();
+      setStatusMessage(success);
+      setSpending(null);
+    } catch (error) {
+      console.error('Limits transaction failed:', error);
+      setStatusMessage(failure);
+    } finally {
+      setBusy(null);
+    }
+    await refreshLimits();
+  };
+
+  const delayText = info ? formatDelay(info.loosenDelay) : 'a delay';
+
+  const handleRoundLimit = async () => {
+    if (!/^\d+$/.test(roundsInput)) {
+      setStatusMessage('Enter a whole number of rounds, or 0 for no limit.');
+      return;
+    }
+    const rounds = Number(roundsInput);
+    const current = info?.limits?.dailyRounds ?? 0;
+    const stricter = rounds !== 0 && (current === 0 || rounds <= current);
+    await sendTransaction(
+      'rounds',
+      (contract) => contract.setDailyRoundLimit(rounds),
+      stricter
+        ? `Daily round limit set to ${rounds}.`
+        : `Your round limit loosens in ${delayText}. Until then, the current one applies.`,
+      'Unable to set the round limit.',
+    );
+  };
+
+  const handleSpendCap = async () => {
+    if (!info || !address || !instance) return;
+    if (!/^\d+$/.test(capInput)) {
+      setStatusMessage('Enter a whole number of points.');
+      return;
+    }
+
+    setBusy('cap');
+    try {
+      const input = instance.createEncryptedInput(info.address, address);
+      input.add64(BigInt(capInput));
+      const encryptedInput = await input.encrypt();
+      await sendTransaction(
+        'cap',
+        (contract) => contract.setDailySpendCap(encryptedInput.handles[0], encryptedInput.inputProof),
+        info.limits?.hasSpendCap
+          ? `Spend cap updated. A lower cap applies now; a higher one in ${delayText}.`
+          : 'Daily spend cap set.',
+        'Unable to set the spend cap.',
+      );
+    } catch (error) {
+      console.error('Spend cap encryption failed:', error);
+      setStatusMessage('Unable to encrypt the spend cap.');
+      setBusy(null);
+    }
+  };
+
+  const handleRemoveCap = () =>
+    sendTransaction(
+      'remove-cap',
+      (contract) => contract.removeDailySpendCap(),
+      `Your spend cap will be lifted in ${delayText}.`,
+      'Unable to lift the spend cap.',
+    );
+
+  const handleCoolOff = (label: string, seconds: number) =>
+    sendTransaction(
+      `cool-off-${seconds}`,
+      (contract) => contract.coolOff(seconds),
+      `Taking a ${label} break. You can still settle an open round, bank a session and cash out.`,
+      'Unable to start the cool-off.',
+    );
+
+  const handleSelfExclude = async (label: string, seconds: number) => {
+    if (!window.confirm(`Exclude yourself from starting rounds for ${label}? This cannot be undone.`)) return;
+    await sendTransaction(
+      `exclude-${seconds}`,
+      (contract) => contract.selfExclude(seconds),
+      `You are excluded for ${label}. You can still cash out your points.`,
+      'Unable to self-exclude.',
+    );
+  };
+
+  // The cap and the day's spending are only decryptable by the player.
+  const decryptSpending = async () => {
+    const limits = info?.limits;
+    if (!info || !limits || !instance || !address) return;
+
+    setBusy('decrypt');
+    setStatusMessage(null);
+
+    try {
+      const handles = [limits.dailySpendCap, limits.pendingSpendCap, limits.spentToday].filter(
+        (handle) => handle !== ZERO_HASH,
+      );
+      let clear: Record<string, unknown> = {};
+      if (handles.length > 0) {
+        const keypair = instance.generateKeypair();
+        const startTimeStamp = Math.floor(Date.now() / 1000).toString();
+        const durationDays = '7';
+        const contractAddresses = [info.address];
+        const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimeStamp, durationDays);
+        const resolvedSigner = await signerPromise;
+        if (!resolvedSigner) {
+          throw new Error('Signer not available');
+        }
+        const signature = await resolvedSigner.signTypedData(
+          eip712.domain,
+          {
+            UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+          },
+          eip712.message,
+        );
+        clear = await instance.userDecrypt(
+          handles.map((handle) => ({ handle, contractAddress: info.address })),
+          keypair.privateKey,
+          keypair.publicKey,
+          signature.replace('0x', ''),
+          contractAddresses,
+          address,
+          startTimeStamp,
+          durationDays,
+        );
+      }
+      const value = (handle: string) => (handle === ZERO_HASH ? null : String(clear[handle] ?? '0'));
+      setSpending({
+        cap: limits.hasSpendCap ? value(limits.dailySpendCap) : null,
+        pendingCap: value(limits.pendingSpendCap),
+        spentToday: value(limits.spentToday) ?? '0',
+      });
+    } catch (error) {
+      console.error('Failed to decrypt spending:', error);
+      setStatusMessage('Unable to decrypt your spending.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const limits = info?.limits ?? null;
+  const now = info?.now ?? 0n;
+  const excluded = limits !== null && limits.excludedUntil > now;
+  const coolingOff = limits !== null && limits.coolOffUntil > now;
+
+  return (
+    <div className="game-app">
+      <section className="hero-panel reveal" style={{ animationDelay: '0.1s' }}>
+        <div className="hero-copy">
+          <p className="hero-eyebrow">Responsible gaming</p>
+          <h2>Set your own limits.</h2>
+          <p className="hero-description">
+            Limit the rounds you play and the points you wager each day, or take a break. Stricter limits apply at
+            once; looser ones only after {delayText}, and breaks cannot be ended early. Your spend cap stays
+            encrypted: rounds beyond it are simply not charged and cannot win.
+          </p>
+        </div>
+        <div className="action-card">
+          <h3>{excluded ? 'Self-excluded' : coolingOff ? 'Cooling off' : 'Today'}</h3>
+          {excluded && <div className="helper">No new rounds until {formatTime(limits.excludedUntil)}.</div>}
+          {!excluded && coolingOff && (
+            <div className="helper">No new rounds until {formatTime(limits.coolOffUntil)}.</div>
+          )}
+          <div className="session-stats">
+            <div className="stat-card">
+              <span className="stat-label">Rounds</span>
+              <span className="stat-value">
+                {limits ? `${limits.roundsToday}${limits.dailyRounds ? ` / ${limits.dailyRounds}` : ''}` : '-'}
+              </span>
+            </div>
+            <div className="stat-card">
+              <span className="stat-label">Wagered</span>
+              <span className="stat-value">
+                {spending ? `${BigInt(spending.spentToday).toLocaleString('en-US')} pts` : '***'}
+              </span>
+            </div>
+            <div className="stat-card">
+              <span className="stat-label">Spend cap</span>
+              <span className="stat-value">
+                {!limits?.hasSpendCap
+                  ? 'None'
+                  : spending?.cap
+                    ? `${BigInt(spending.cap).toLocaleString('en-US')} pts`
+                    : '***'}
+              </span>
+            </div>
+          </div>
+          <button className="secondary" onClick={decryptSpending} disabled={!canEncrypt || busy !== null}>
+            {busy === 'decrypt' ? 'Decrypting...' : 'Decrypt spending'}
+          </button>
+        </div>
+      </section>
+
+      <section className="actions-grid">
+        <div className="action-card reveal" style={{ animationDelay: '0.2s' }}>
+          <h3>Daily round limit</h3>
+          <p>{limits?.dailyRounds ? `At most ${limits.dailyRounds} rounds a day.` : 'No round limit.'}</p>
+          {limits && limits.pendingDailyRoundsAt !== 0n && (
+            <div className="helper">
+              Becomes {limits.pendingDailyRounds ? limits.pendingDailyRounds : 'unlimited'} on{' '}
+              {formatTime(limits.pendingDailyRoundsAt)}.
+            </div>
+          )}
+          <div className="input-row">
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={roundsInput}
+              onChange={(event) => setRoundsInput(event.target.value)}
+              placeholder="Rounds (0 = none)"
+            />
+            <button className="primary" onClick={handleRoundLimit} disabled={!canUseWallet || busy !== null}>
+              {busy === 'rounds' ? 'Saving...' : 'Set'}
+            </button>
+          </div>
+        </div>
+
+        <div className="action-card reveal" style={{ animationDelay: '0.3s' }}>
+          <h3>Daily spend cap</h3>
+          <p>The most points you can wager per day, encrypted so only you can read it.</p>
+          {limits && limits.pendingSpendCapAt !== 0n && (
+            <div className="helper">
+              {limits.pendingSpendCap === ZERO_HASH
+                ? 'Lifted'
+                : `Becomes ${spending?.pendingCap ? `${BigInt(spending.pendingCap).toLocaleString('en-US')} pts` : 'a new cap'}`}{' '}
+              on {formatTime(limits.pendingSpendCapAt)}.
+            </div>
+          )}
+          <div className="input-row">
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={capInput}
+              onChange={(event) => setCapInput(event.target.value)}
+              placeholder="Points per day"
+            />
+            <button className="primary" onClick={handleSpendCap} disabled={!canEncrypt || busy !== null}>
+              {busy === 'cap' ? 'Encrypting...' : 'Set'}
+            </button>
+          </div>
+          {limits?.hasSpendCap && (
+            <button className="ghost" onClick={handleRemoveCap} disabled={!canUseWallet || busy !== null}>
+              {busy === 'remove-cap' ? 'Saving...' : 'Lift cap'}
+            </button>
+          )}
+        </div>
+
+        <div className="action-card reveal" style={{ animationDelay: '0.4s' }}>
+          <h3>Take a break</h3>
+          <p>
+            A cool-off or a self-exclusion stops you from starting rounds. You can still settle an open round, bank a
+            session and cash out.
+          </p>
+          <div className="input-row">
+            {COOL_OFFS.map(({ label, seconds }) => (
+              <button
+                key={seconds}
+                className="secondary"
+                onClick={() => handleCoolOff(label, seconds)}
+                disabled={!canUseWallet || busy !== null}
+              >
+                {busy === `cool-off-${seconds}` ? 'Saving...' : label}
+              </button>
+            ))}
+          </div>
+          <span className="stat-label">Self-exclusion</span>
+          <div className="input-row">
+            {EXCLUSIONS.map(({ label, seconds }) => (
+              <button
+                key={seconds}
+                className="ghost"
+                onClick={() => handleSelfExclude(label, seconds)}
+                disabled={!canUseWallet || busy !== null}
+              >
+                {busy === `exclude-${seconds}` ? 'Saving...' : label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </section>
+
+      {(statusMessage || !isConfigured || info === null) && (
+        <section className="utility-row">
+          <div className="status-message">
+            {statusMessage || (!isConfigured ? 'Game contract address not set.' : 'Limits are not enabled.')}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { formatMultiplier } from '../config/bets';
+
+// Mirrors STREAK_BONUS_PERCENT, MAX_STREAK_BONUS_STEPS and MAX_SESSION_ROUNDS in PrivyPlay.
+const STREAK_BONUS_PERCENT = 25n;
+const MAX_STREAK_BONUS_STEPS = 4n;
+export const MAX_SESSION_ROUNDS = 10n;
+
+export type SessionState = {
+  active: boolean;
+  rounds: bigint;
+  exposure: bigint;
+  // Decrypted values, or null until the player has decrypted them.
+  streak: string | null;
+  pot: string | null;
+};
+
+type SessionPanelProps = {
+  session: SessionState | null;
+  gameActive: boolean;
+  disabled: boolean;
+  // New rounds are blocked while the game is paused; banking is not.
+  paused: boolean;
+  isStarting: boolean;
+  isBanking: boolean;
+  onStart: () => void;
+  onRollAgain: () => void;
+  onBank: () => void;
+};
+
+const streakMultiplier = (streak: string | null) => {
+  if (streak === null) return null;
+  const steps = BigInt(streak) < MAX_STREAK_BONUS_STEPS ? BigInt(streak) : MAX_STREAK_BONUS_STEPS;
+  return 100n + STREAK_BONUS_PERCENT * steps;
+};
+
+export function SessionPanel({
+  session,
+  gameActive,
+  disabled,
+  paused,
+  isStarting,
+  isBanking,
+  onStart,
+  onRollAgain,
+  onBank,
+}: SessionPanelProps) {
+  const active = session?.active ?? false;
+  const full = active && session !== null && session.rounds >= MAX_SESSION_ROUNDS;
+
+  return (
+    <section className="session-panel reveal" style={{ animationDelay: '0.58s' }}>
+      <div className="history-header">
+        <div>
+          <h3>Streak session</h3>
+          <p>
+            Session wins go into an encrypted pot instead of your balance. Each consecutive win raises the next
+            payout by {STREAK_BONUS_PERCENT.toString()}%, up to {formatMultiplier(streakMultiplier('4'))}; a miss
+            empties the pot. Bank it whenever you like.
+          </p>
+        </div>
+        <div className="history-controls">
+          {active ? (
+            <>
+              <button
+                className="secondary"
+                onClick={onRollAgain}
+                disabled={disabled || paused || gameActive || full || isStarting}
+              >
+                {isStarting ? 'Rolling...' : 'Roll again'}
+              </button>
+              <button className="primary" onClick={onBank} disabled={disabled || gameActive || isBanking}>
+                {isBanking ? 'Banking...' : 'Bank pot'}
+              </button>
+            </>
+          ) : (
+            <button className="secondary" onClick={onStart} disabled={disabled || paused || gameActive || isStarting}>
+              {isStarting ? 'Rolling...' : 'Start session'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {active && session && (
+        <div className="session-stats">
+          <div className="stat-card">
+            <span className="stat-label">Rounds</span>
+            <span className="stat-value">
+              {session.rounds.toString()} / {MAX_SESSION_ROUNDS.toString()}
+            </span>
+          </div>
+          <div className="stat-card">
+            <span className="stat-label">Streak</span>
+            <span className="stat-value">{session.streak ?? '-'}</span>
+          </div>
+          <div className="stat-card">
+            <span className="stat-label">Next win pays</span>
+            <span className="stat-value">{formatMultiplier(streakMultiplier(session.streak))}</span>
+          </div>
+          <div className="stat-card">
+            <span className="stat-label">Pot</span>
+            <span className="stat-value">
+              {session.pot === null ? '-' : `${BigInt(session.pot).toLocaleString('en-US')} pts`}
+            </span>
+          </div>
+        </div>
+      )}
+      {active && gameActive && <div className="helper">Place your bet to settle the current round.</div>}
+      {full && !gameActive && <div className="helper">This session has played its last round. Bank the pot.</div>}
+      {!active && (
+        <div className="helper">Uses the wager of the Start a round card for every round of the session.</div>
+      )}
+    </section>
+  );
+}
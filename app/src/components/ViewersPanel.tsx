@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { Contract, isAddress } from 'ethers';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { POINTS_ABI } from '../config/contracts';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+type Viewer = {
+  address: `0x${string}`;
+  until: bigint;
+};
+
+type ViewersPanelProps = {
+  address: `0x${string}` | undefined;
+  pointsAddress: `0x${string}` | null;
+  disabled: boolean;
+};
+
+const shortAddress = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+const formatExpiry = (until: bigint) => new Date(Number(until) * 1000).toLocaleString();
+
+export function ViewersPanel({ address, pointsAddress, disabled }: ViewersPanelProps) {
+  const publicClient = usePublicClient();
+  const signerPromise = useEthersSigner();
+
+  // Null until loaded.
+  const [viewers, setViewers] = useState<Viewer[] | null>(null);
+  const [now, setNow] = useState(0n);
+  const [viewerInput, setViewerInput] = useState('');
+  const [daysInput, setDaysInput] = useState('3');
+  const [busy, setBusy] = useState<'load' | 'grant' | `0x${string}` | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  const loadViewers = async () => {
+    if (!publicClient || !address || !pointsAddress) return;
+
+    setBusy('load');
+    try {
+      const [[list, until], block] = await Promise.all([
+        publicClient.readContract({
+          address: pointsAddress,
+          abi: POINTS_ABI,
+          functionName: 'getViewers',
+          args: [address],
+        }) as Promise<readonly [readonly `0x${string}`[], readonly number[]]>,
+        publicClient.getBlock(),
+      ]);
+      setNow(block.timestamp);
+      setViewers(list.map((viewer, i) => ({ address: viewer, until: BigInt(until[i]) })));
+    } catch (error) {
+      console.error('Failed to load viewers:', error);
+      setStatusMessage('Unable to load your viewers.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const sendTransaction = async (
+    action: typeof busy,
+    send: (points: Contract) => Promise<{ wait: () => Promise<unknown> }>,
+    success: string,
+    failure: string,
+  ) => {
+    if (!pointsAddress || !signerPromise) {
+      setStatusMessage('Connect a wallet first.');
+      return;
+    }
+
+    setBusy(action);
+    setStatusMessage(null);
+
+    try {
+      const resolvedSigner = await signerPromise;
+      if (!resolvedSigner) {
+        throw new Error('Signer not available');
+      }
+
+      const tx = await send(new Contract(pointsAddress, POINTS_ABI, resolvedSigner));
+      await tx.wait();
+      setStatusMessage(success);
+    } catch (error) {
+      console.error('Viewer transaction failed:', error);
+      setStatusMessage(failure);
+    } finally {
+      setBusy(null);
+    }
+    await loadViewers();
+  };
+
+  const handleGrant = async () => {
+    const days = Number(daysInput);
+    if (!isAddress(viewerInput) || viewerInput.toLowerCase() === address?.toLowerCase()) {
+      setStatusMessage('Enter the address of someone else.');
+      return;
+    }
+    if (!Number.isFinite(days) || days <= 0) {
+      setStatusMessage('Enter a duration in days.');
+      return;
+    }
+
+    const block = await publicClient?.getBlock();
+    const until = Number(block?.timestamp ?? BigInt(Math.floor(Date.now() / 1000))) + Math.round(days * DAY_SECONDS);
+    await sendTransaction(
+      'grant',
+      (points) => points.grantViewer(viewerInput, until),
+      `${shortAddress(viewerInput)} can view your balance and history until ${formatExpiry(BigInt(until))}.`,
+      'Unable to grant viewing rights.',
+    );
+    setViewerInput('');
+  };
+
+  const handleRevoke = (viewer: `0x${string}`) =>
+    sendTransaction(
+      viewer,
+      (points) => points.revokeViewer(viewer),
+      `${shortAddress(viewer)} can no longer view your points. What they already decrypted stays known to them.`,
+      'Unable to revoke viewing rights.',
+    );
+
+  return (
+    <section className="viewers-panel reveal" style={{ animationDelay: '0.62s' }}>
+      <div className="history-header">
+        <div>
+          <h3>Viewing rights</h3>
+          <p>
+            Let someone you trust, such as support staff looking into a dispute, decrypt your balance and round history
+            for a limited time. Grants and revocations are recorded on-chain.
+          </p>
+        </div>
+        <div className="history-controls">
+          <button className="secondary" onClick={loadViewers} disabled={disabled || busy !== null}>
+            {busy === 'load' ? 'Loading...' : viewers === null ? 'Load viewers' : 'Reload'}
+          </button>
+        </div>
+      </div>
+
+      <div className="input-row">
+        <input
+          type="text"
+          value={viewerInput}
+          onChange={(event) => setViewerInput(event.target.value)}
+          placeholder="Viewer 0x..."
+        />
+        <input
+          className="viewers-days"
+          type="number"
+          min="1"
+          step="1"
+          value={daysInput}
+          onChange={(event) => setDaysInput(event.target.value)}
+          placeholder="Days"
+        />
+        <button className="primary" onClick={handleGrant} disabled={disabled || busy !== null}>
+          {busy === 'grant' ? 'Granting...' : 'Grant'}
+        </button>
+      </div>
+
+      {statusMessage && <div className="status-message">{statusMessage}</div>}
+      {viewers !== null && viewers.length === 0 && <div className="helper">Nobody can view your points.</div>}
+      {viewers !== null && viewers.length > 0 && (
+        <table className="history-table">
+          <thead>
+            <tr>
+              <th>Viewer</th>
+              <th>Status</th>
+              <th>Until</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {viewers.map((viewer) => (
+              <tr key={viewer.address}>
+                <td title={viewer.address}>{shortAddress(viewer.address)}</td>
+                <td>{viewer.until >= now ? 'Active' : 'Expired'}</td>
+                <td>{formatExpiry(viewer.until)}</td>
+                <td>
+                  <button
+                    className="ghost"
+                    onClick={() => handleRevoke(viewer.address)}
+                    disabled={disabled || busy !== null}
+                  >
+                    {busy === viewer.address ? 'Revoking...' : 'Revoke'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <div className="helper">
+        Viewers see your balance as it changes and pull your round history while their grant lasts. Revoking stops
+        that, but cannot hide what was already shared.
+      </div>
+    </section>
+  );
+}
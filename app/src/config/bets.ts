@@ -0,0 +1,84 @@
+// Mirrors the BET_* constants of the PrivyPlay contract.
+export const BET_EXACT_FACE = 0;
+export const BET_ODD_EVEN = 1;
+export const BET_RANGE = 2;
+
+export type Bet =
+  | { kind: 'exactFace'; face: number }
+  | { kind: 'oddEven'; odd: boolean }
+  | { kind: 'range'; low: number; high: number };
+
+// Payouts are expressed in percent of the wager, as returned by `getPayouts`.
+export type Payouts = {
+  exactFace: bigint;
+  oddEven: bigint;
+  range: readonly bigint[];
+};
+
+export const DEFAULT_BET: Bet = { kind: 'range', low: 4, high: 6 };
+
+// Returns the (kind, low, high) triple encrypted for `submitGuess`.
+export const encodeBet = (bet: Bet): [number, number, number] => {
+  switch (bet.kind) {
+    case 'exactFace':
+      return [BET_EXACT_FACE, bet.face, 0];
+    case 'oddEven':
+      return [BET_ODD_EVEN, bet.odd ? 1 : 0, 0];
+    case 'range':
+      return [BET_RANGE, bet.low, bet.high];
+  }
+};
+
+// Number of faces out of six that win the bet.
+export const winningFaces = (bet: Bet) => {
+  switch (bet.kind) {
+    case 'exactFace':
+      return 1;
+    case 'oddEven':
+      return 3;
+    case 'range':
+      return Math.max(0, bet.high - bet.low + 1);
+  }
+};
+
+export const payoutPercent = (bet: Bet, payouts: Payouts | null) => {
+  if (!payouts) return null;
+  switch (bet.kind) {
+    case 'exactFace':
+      return payouts.exactFace;
+    case 'oddEven':
+      return payouts.oddEven;
+    case 'range': {
+      const faces = winningFaces(bet);
+      return faces > 0 ? payouts.range[faces - 1] : 0n;
+    }
+  }
+};
+
+export const formatMultiplier = (percent: bigint | null) =>
+  percent === null ? '-' : `${(Number(percent) / 100).toLocaleString('en-US', { maximumFractionDigits: 2 })}x`;
+
+export const describeBet = (bet: Bet) => {
+  switch (bet.kind) {
+    case 'exactFace':
+      return `Exactly ${bet.face}`;
+    case 'oddEven':
+      return bet.odd ? 'Odd' : 'Even';
+    case 'range':
+      return bet.low === bet.high ? `Exactly ${bet.low}` : `${bet.low} to ${bet.high}`;
+  }
+};
+
+// Inverse of `encodeBet` for decrypted bets; returns null for kinds the contract never pays.
+export const decodeBet = (kind: number, low: number, high: number): Bet | null => {
+  switch (kind) {
+    case BET_EXACT_FACE:
+      return { kind: 'exactFace', face: low };
+    case BET_ODD_EVEN:
+      return { kind: 'oddEven', odd: low % 2 === 1 };
+    case BET_RANGE:
+      return { kind: 'range', low, high };
+    default:
+      return null;
+  }
+};
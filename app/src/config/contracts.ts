@@ -1,9 +1,4180 @@
 // Replace with the deployed PrivyPlay address from deployments/sepolia.
 export const CONTRACT_ADDRESS = '0xB0D9509b37753c34DAe22B2750945a09d4cd833b';
+// Replace with the deployed PrivyDuels address from deployments/sepolia.
+export const DUELS_ADDRESS = '0x0000000000000000000000000000000000000000';
+// Replace with the deployed PrivyForwarder address from deployments/sepolia.
+export const FORWARDER_ADDRESS = '0x0000000000000000000000000000000000000000';
+// The relayer that submits gasless requests, e.g. `task:privyplay:relayer` running against a local node.
+export const RELAYER_URL = 'http://localhost:8547';
 
 export const CONTRACT_ABI = [
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'trustedForwarder_',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'constructor',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'batch',
+        type: 'address',
+      },
+    ],
+    name: 'BatchSet',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'uint256',
+        name: 'version',
+        type: 'uint256',
+      },
+      {
+        components: [
+          {
+            internalType: 'uint256',
+            name: 'pointsPerEth',
+            type: 'uint256',
+          },
+          {
+            internalType: 'uint64',
+            name: 'minWager',
+            type: 'uint64',
+          },
+          {
+            internalType: 'uint64',
+            name: 'maxWager',
+            type: 'uint64',
+          },
+          {
+            components: [
+              {
+                internalType: 'uint64',
+                name: 'exactFace',
+                type: 'uint64',
+              },
+              {
+                internalType: 'uint64',
+                name: 'oddEven',
+                type: 'uint64',
+              },
+              {
+                internalType: 'uint64[6]',
+                name: 'range',
+                type: 'uint64[6]',
+              },
+            ],
+            internalType: 'struct PrivyPlay.Payouts',
+            name: 'payouts',
+            type: 'tuple',
+          },
+        ],
+        indexed: false,
+        internalType: 'struct PrivyPlay.Economics',
+        name: 'economics',
+        type: 'tuple',
+      },
+    ],
+    name: 'EconomicsUpdated',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: true,
+        internalType: 'uint256',
+        name: 'roundId',
+        type: 'uint256',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'economicsVersion',
+        type: 'uint256',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'deadline',
+        type: 'uint256',
+      },
+      {
+        indexed: false,
+        internalType: 'euint64',
+        name: 'wager',
+        type: 'bytes32',
+      },
+      {
+        indexed: false,
+        internalType: 'euint8',
+        name: 'roll',
+        type: 'bytes32',
+      },
+      {
+        indexed: false,
+        internalType: 'bytes32',
+        name: 'commitment',
+        type: 'bytes32',
+      },
+    ],
+    name: 'GameStarted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: true,
+        internalType: 'uint256',
+        name: 'roundId',
+        type: 'uint256',
+      },
+      {
+        indexed: false,
+        internalType: 'euint8',
+        name: 'betKind',
+        type: 'bytes32',
+      },
+      {
+        indexed: false,
+        internalType: 'euint8',
+        name: 'betLow',
+        type: 'bytes32',
+      },
+      {
+        indexed: false,
+        internalType: 'euint8',
+        name: 'betHigh',
+        type: 'bytes32',
+      },
+    ],
+    name: 'GuessSubmitted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'history',
+        type: 'address',
+      },
+    ],
+    name: 'HistorySet',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'funder',
+        type: 'address',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'ethAmount',
+        type: 'uint256',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'points',
+        type: 'uint256',
+      },
+    ],
+    name: 'HouseReserveFunded',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: 'uint64',
+        name: 'version',
+        type: 'uint64',
+      },
+    ],
+    name: 'Initialized',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'jackpot',
+        type: 'address',
+      },
+    ],
+    name: 'JackpotSet',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'leaderboard',
+        type: 'address',
+      },
+    ],
+    name: 'LeaderboardSet',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'limits',
+        type: 'address',
+      },
+    ],
+    name: 'LimitsSet',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'previousOwner',
+        type: 'address',
+      },
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'newOwner',
+        type: 'address',
+      },
+    ],
+    name: 'OwnershipTransferStarted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'previousOwner',
+        type: 'address',
+      },
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'newOwner',
+        type: 'address',
+      },
+    ],
+    name: 'OwnershipTransferred',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'account',
+        type: 'address',
+      },
+    ],
+    name: 'Paused',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'pauser',
+        type: 'address',
+      },
+    ],
+    name: 'PauserSet',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'successor',
+        type: 'address',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'points',
+        type: 'uint256',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'ethAmount',
+        type: 'uint256',
+      },
+    ],
+    name: 'PointsExported',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'ethAmount',
+        type: 'uint256',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'points',
+        type: 'uint256',
+      },
+    ],
+    name: 'PointsPurchased',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'points',
+        type: 'uint256',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'ethAmount',
+        type: 'uint256',
+      },
+    ],
+    name: 'PointsRedeemed',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: 'bytes32[]',
+        name: 'handlesList',
+        type: 'bytes32[]',
+      },
+      {
+        indexed: false,
+        internalType: 'bytes',
+        name: 'abiEncodedCleartexts',
+        type: 'bytes',
+      },
+    ],
+    name: 'PublicDecryptionVerified',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: false,
+        internalType: 'euint64',
+        name: 'amount',
+        type: 'bytes32',
+      },
+    ],
+    name: 'RedemptionRequested',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: true,
+        internalType: 'uint256',
+        name: 'roundId',
+        type: 'uint256',
+      },
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'caller',
+        type: 'address',
+      },
+    ],
+    name: 'RoundExpired',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: true,
+        internalType: 'uint256',
+        name: 'roundId',
+        type: 'uint256',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'economicsVersion',
+        type: 'uint256',
+      },
+      {
+        components: [
+          {
+            internalType: 'uint64',
+            name: 'exactFace',
+            type: 'uint64',
+          },
+          {
+            internalType: 'uint64',
+            name: 'oddEven',
+            type: 'uint64',
+          },
+          {
+            internalType: 'uint64[6]',
+            name: 'range',
+            type: 'uint64[6]',
+          },
+        ],
+        indexed: false,
+        internalType: 'struct PrivyPlay.Payouts',
+        name: 'payouts',
+        type: 'tuple',
+      },
+      {
+        indexed: false,
+        internalType: 'euint8',
+        name: 'roll',
+        type: 'bytes32',
+      },
+      {
+        indexed: false,
+        internalType: 'ebool',
+        name: 'outcome',
+        type: 'bytes32',
+      },
+      {
+        indexed: false,
+        internalType: 'euint64',
+        name: 'reward',
+        type: 'bytes32',
+      },
+    ],
+    name: 'RoundSettled',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'caller',
+        type: 'address',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'rounds',
+        type: 'uint256',
+      },
+      {
+        indexed: false,
+        internalType: 'euint64',
+        name: 'pot',
+        type: 'bytes32',
+      },
+    ],
+    name: 'SessionBanked',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'SessionStarted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'stats',
+        type: 'address',
+      },
+    ],
+    name: 'StatsSet',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'successor',
+        type: 'address',
+      },
+    ],
+    name: 'SuccessorSet',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'timelock',
+        type: 'address',
+      },
+    ],
+    name: 'TimelockSet',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'tokenSale',
+        type: 'address',
+      },
+    ],
+    name: 'TokenSaleSet',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'treasurer',
+        type: 'address',
+      },
+    ],
+    name: 'TreasurerSet',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'account',
+        type: 'address',
+      },
+    ],
+    name: 'Unpaused',
+    type: 'event',
+  },
+  {
+    inputs: [],
+    name: 'BET_EXACT_FACE',
+    outputs: [
+      {
+        internalType: 'uint8',
+        name: '',
+        type: 'uint8',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'BET_ODD_EVEN',
+    outputs: [
+      {
+        internalType: 'uint8',
+        name: '',
+        type: 'uint8',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'BET_RANGE',
+    outputs: [
+      {
+        internalType: 'uint8',
+        name: '',
+        type: 'uint8',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'MAX_SESSION_ROUNDS',
+    outputs: [
+      {
+        internalType: 'uint32',
+        name: '',
+        type: 'uint32',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'MAX_STREAK_BONUS_STEPS',
+    outputs: [
+      {
+        internalType: 'uint8',
+        name: '',
+        type: 'uint8',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'MAX_STREAK_PERCENT',
+    outputs: [
+      {
+        internalType: 'uint64',
+        name: '',
+        type: 'uint64',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'STREAK_BONUS_PERCENT',
+    outputs: [
+      {
+        internalType: 'uint64',
+        name: '',
+        type: 'uint64',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'acceptOwnership',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'bankSession',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'batch',
+    outputs: [
+      {
+        internalType: 'contract PrivyBatch',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'buyPoints',
+    outputs: [],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'buyPointsFor',
+    outputs: [],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'confidentialProtocolId',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'economicsVersion',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'expireRound',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'contract PrivyPlay',
+        name: 'target',
+        type: 'address',
+      },
+      {
+        internalType: 'externalEuint64',
+        name: 'amount',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'bytes',
+        name: 'inputProof',
+        type: 'bytes',
+      },
+    ],
+    name: 'exportPoints',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        internalType: 'bytes',
+        name: 'abiEncodedCleartexts',
+        type: 'bytes',
+      },
+      {
+        internalType: 'bytes',
+        name: 'decryptionProof',
+        type: 'bytes',
+      },
+    ],
+    name: 'finalizeRedemption',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'fundHouseReserve',
+    outputs: [],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getHouseReserve',
+    outputs: [
+      {
+        internalType: 'euint64',
+        name: '',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'getLastEligible',
+    outputs: [
+      {
+        internalType: 'ebool',
+        name: '',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'getLastOutcome',
+    outputs: [
+      {
+        internalType: 'ebool',
+        name: '',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'getLastReward',
+    outputs: [
+      {
+        internalType: 'euint64',
+        name: '',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'getLastRoll',
+    outputs: [
+      {
+        internalType: 'euint8',
+        name: '',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'getLastWager',
+    outputs: [
+      {
+        internalType: 'euint64',
+        name: '',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getPayouts',
+    outputs: [
+      {
+        components: [
+          {
+            internalType: 'uint64',
+            name: 'exactFace',
+            type: 'uint64',
+          },
+          {
+            internalType: 'uint64',
+            name: 'oddEven',
+            type: 'uint64',
+          },
+          {
+            internalType: 'uint64[6]',
+            name: 'range',
+            type: 'uint64[6]',
+          },
+        ],
+        internalType: 'struct PrivyPlay.Payouts',
+        name: '',
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'getPendingRedemption',
+    outputs: [
+      {
+        internalType: 'euint64',
+        name: '',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'getRoundStatus',
+    outputs: [
+      {
+        internalType: 'bool',
+        name: 'active',
+        type: 'bool',
+      },
+      {
+        internalType: 'uint256',
+        name: 'startBlock',
+        type: 'uint256',
+      },
+      {
+        internalType: 'uint256',
+        name: 'deadline',
+        type: 'uint256',
+      },
+      {
+        internalType: 'bool',
+        name: 'expired',
+        type: 'bool',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'getSession',
+    outputs: [
+      {
+        internalType: 'bool',
+        name: 'active',
+        type: 'bool',
+      },
+      {
+        internalType: 'uint256',
+        name: 'rounds',
+        type: 'uint256',
+      },
+      {
+        internalType: 'uint64',
+        name: 'exposure',
+        type: 'uint64',
+      },
+      {
+        internalType: 'euint8',
+        name: 'streak',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'euint64',
+        name: 'pot',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getTotalLiabilities',
+    outputs: [
+      {
+        internalType: 'euint64',
+        name: '',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'history',
+    outputs: [
+      {
+        internalType: 'contract PrivyHistory',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'contract PrivyPoints',
+        name: 'pointsLedger',
+        type: 'address',
+      },
+      {
+        components: [
+          {
+            internalType: 'uint256',
+            name: 'pointsPerEth',
+            type: 'uint256',
+          },
+          {
+            internalType: 'uint64',
+            name: 'minWager',
+            type: 'uint64',
+          },
+          {
+            internalType: 'uint64',
+            name: 'maxWager',
+            type: 'uint64',
+          },
+          {
+            components: [
+              {
+                internalType: 'uint64',
+                name: 'exactFace',
+                type: 'uint64',
+              },
+              {
+                internalType: 'uint64',
+                name: 'oddEven',
+                type: 'uint64',
+              },
+              {
+                internalType: 'uint64[6]',
+                name: 'range',
+                type: 'uint64[6]',
+              },
+            ],
+            internalType: 'struct PrivyPlay.Payouts',
+            name: 'payouts',
+            type: 'tuple',
+          },
+        ],
+        internalType: 'struct PrivyPlay.Economics',
+        name: 'initialEconomics',
+        type: 'tuple',
+      },
+      {
+        internalType: 'uint256',
+        name: 'expiryBlocks',
+        type: 'uint256',
+      },
+    ],
+    name: 'initialize',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'forwarder',
+        type: 'address',
+      },
+    ],
+    name: 'isTrustedForwarder',
+    outputs: [
+      {
+        internalType: 'bool',
+        name: '',
+        type: 'bool',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'jackpot',
+    outputs: [
+      {
+        internalType: 'contract PrivyJackpot',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'leaderboard',
+    outputs: [
+      {
+        internalType: 'contract PrivyLeaderboard',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'limits',
+    outputs: [
+      {
+        internalType: 'contract PrivyLimits',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'maxRoundPayout',
+    outputs: [
+      {
+        internalType: 'uint64',
+        name: '',
+        type: 'uint64',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'maxWager',
+    outputs: [
+      {
+        internalType: 'uint64',
+        name: '',
+        type: 'uint64',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'minWager',
+    outputs: [
+      {
+        internalType: 'uint64',
+        name: '',
+        type: 'uint64',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        internalType: 'uint64',
+        name: 'amount',
+        type: 'uint64',
+      },
+    ],
+    name: 'mintPurchase',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'openExposure',
+    outputs: [
+      {
+        internalType: 'uint64',
+        name: '',
+        type: 'uint64',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'owner',
+    outputs: [
+      {
+        internalType: 'address',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'pause',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'paused',
+    outputs: [
+      {
+        internalType: 'bool',
+        name: '',
+        type: 'bool',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'pauser',
+    outputs: [
+      {
+        internalType: 'address',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'pendingOwner',
+    outputs: [
+      {
+        internalType: 'address',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'externalEuint64',
+        name: 'wager',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'externalEuint8',
+        name: 'betKind',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'externalEuint8',
+        name: 'low',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'externalEuint8',
+        name: 'high',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'bytes',
+        name: 'inputProof',
+        type: 'bytes',
+      },
+    ],
+    name: 'playRound',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'points',
+    outputs: [
+      {
+        internalType: 'contract PrivyPoints',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'pointsPerEth',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'externalEuint64',
+        name: 'amount',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'bytes',
+        name: 'inputProof',
+        type: 'bytes',
+      },
+    ],
+    name: 'requestRedemption',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'externalEuint64',
+        name: 'wager',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'bytes',
+        name: 'inputProof',
+        type: 'bytes',
+      },
+    ],
+    name: 'rollAgain',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'roundCount',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'roundExpiryBlocks',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'contract PrivyBatch',
+        name: 'batch_',
+        type: 'address',
+      },
+    ],
+    name: 'setBatch',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'contract PrivyHistory',
+        name: 'history_',
+        type: 'address',
+      },
+    ],
+    name: 'setHistory',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'contract PrivyJackpot',
+        name: 'jackpot_',
+        type: 'address',
+      },
+    ],
+    name: 'setJackpot',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'contract PrivyLeaderboard',
+        name: 'leaderboard_',
+        type: 'address',
+      },
+    ],
+    name: 'setLeaderboard',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'contract PrivyLimits',
+        name: 'limits_',
+        type: 'address',
+      },
+    ],
+    name: 'setLimits',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'pauser_',
+        type: 'address',
+      },
+    ],
+    name: 'setPauser',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'contract PrivyStats',
+        name: 'stats_',
+        type: 'address',
+      },
+    ],
+    name: 'setStats',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'contract PrivyPlay',
+        name: 'successor_',
+        type: 'address',
+      },
+    ],
+    name: 'setSuccessor',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'contract PrivyTimelock',
+        name: 'timelock_',
+        type: 'address',
+      },
+    ],
+    name: 'setTimelock',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'contract PrivyTokenSale',
+        name: 'tokenSale_',
+        type: 'address',
+      },
+    ],
+    name: 'setTokenSale',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'treasurer_',
+        type: 'address',
+      },
+    ],
+    name: 'setTreasurer',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        internalType: 'uint32',
+        name: 'rounds',
+        type: 'uint32',
+      },
+      {
+        internalType: 'euint64',
+        name: 'stake',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'euint64',
+        name: 'reward',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'uint64',
+        name: 'exposure',
+        type: 'uint64',
+      },
+    ],
+    name: 'settleBatch',
+    outputs: [
+      {
+        internalType: 'ebool',
+        name: 'eligible',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'externalEuint64',
+        name: 'wager',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'bytes',
+        name: 'inputProof',
+        type: 'bytes',
+      },
+    ],
+    name: 'startGame',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'externalEuint64',
+        name: 'wager',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'bytes',
+        name: 'inputProof',
+        type: 'bytes',
+      },
+    ],
+    name: 'startSession',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'stats',
+    outputs: [
+      {
+        internalType: 'contract PrivyStats',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'externalEuint8',
+        name: 'betKind',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'externalEuint8',
+        name: 'low',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'externalEuint8',
+        name: 'high',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'bytes',
+        name: 'inputProof',
+        type: 'bytes',
+      },
+    ],
+    name: 'submitGuess',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'successor',
+    outputs: [
+      {
+        internalType: 'contract PrivyPlay',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'timelock',
+    outputs: [
+      {
+        internalType: 'contract PrivyTimelock',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'tokenSale',
+    outputs: [
+      {
+        internalType: 'contract PrivyTokenSale',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'newOwner',
+        type: 'address',
+      },
+    ],
+    name: 'transferOwnership',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'treasurer',
+    outputs: [
+      {
+        internalType: 'address',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'trustedForwarder',
+    outputs: [
+      {
+        internalType: 'address',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'unpause',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: 'uint256',
+            name: 'pointsPerEth',
+            type: 'uint256',
+          },
+          {
+            internalType: 'uint64',
+            name: 'minWager',
+            type: 'uint64',
+          },
+          {
+            internalType: 'uint64',
+            name: 'maxWager',
+            type: 'uint64',
+          },
+          {
+            components: [
+              {
+                internalType: 'uint64',
+                name: 'exactFace',
+                type: 'uint64',
+              },
+              {
+                internalType: 'uint64',
+                name: 'oddEven',
+                type: 'uint64',
+              },
+              {
+                internalType: 'uint64[6]',
+                name: 'range',
+                type: 'uint64[6]',
+              },
+            ],
+            internalType: 'struct PrivyPlay.Payouts',
+            name: 'payouts',
+            type: 'tuple',
+          },
+        ],
+        internalType: 'struct PrivyPlay.Economics',
+        name: 'next',
+        type: 'tuple',
+      },
+    ],
+    name: 'updateEconomics',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: 'uint256',
+            name: 'pointsPerEth',
+            type: 'uint256',
+          },
+          {
+            internalType: 'uint64',
+            name: 'minWager',
+            type: 'uint64',
+          },
+          {
+            internalType: 'uint64',
+            name: 'maxWager',
+            type: 'uint64',
+          },
+          {
+            components: [
+              {
+                internalType: 'uint64',
+                name: 'exactFace',
+                type: 'uint64',
+              },
+              {
+                internalType: 'uint64',
+                name: 'oddEven',
+                type: 'uint64',
+              },
+              {
+                internalType: 'uint64[6]',
+                name: 'range',
+                type: 'uint64[6]',
+              },
+            ],
+            internalType: 'struct PrivyPlay.Payouts',
+            name: 'payouts',
+            type: 'tuple',
+          },
+        ],
+        internalType: 'struct PrivyPlay.Economics',
+        name: 'next',
+        type: 'tuple',
+      },
+    ],
+    name: 'validateEconomics',
+    outputs: [
+      {
+        internalType: 'uint64',
+        name: '',
+        type: 'uint64',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'uint64',
+        name: 'amount',
+        type: 'uint64',
+      },
+    ],
+    name: 'withdrawHouseReserve',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+// The part of the PrivyPoints (ERC-7984) ledger used by the app. Its address is read from `points()` on PrivyPlay.
+export const POINTS_ABI = [
+  {
+    inputs: [],
+    name: 'MAX_VIEWERS',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'account',
+        type: 'address',
+      },
+    ],
+    name: 'confidentialBalanceOf',
+    outputs: [
+      {
+        internalType: 'euint64',
+        name: '',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'to',
+        type: 'address',
+      },
+      {
+        internalType: 'externalEuint64',
+        name: 'encryptedAmount',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'bytes',
+        name: 'inputProof',
+        type: 'bytes',
+      },
+    ],
+    name: 'confidentialTransfer',
+    outputs: [
+      {
+        internalType: 'euint64',
+        name: '',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'holder',
+        type: 'address',
+      },
+    ],
+    name: 'getViewers',
+    outputs: [
+      {
+        internalType: 'address[]',
+        name: 'list',
+        type: 'address[]',
+      },
+      {
+        internalType: 'uint48[]',
+        name: 'until',
+        type: 'uint48[]',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'viewer',
+        type: 'address',
+      },
+      {
+        internalType: 'uint48',
+        name: 'until',
+        type: 'uint48',
+      },
+    ],
+    name: 'grantViewer',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'holder',
+        type: 'address',
+      },
+      {
+        internalType: 'address',
+        name: 'spender',
+        type: 'address',
+      },
+    ],
+    name: 'isOperator',
+    outputs: [
+      {
+        internalType: 'bool',
+        name: '',
+        type: 'bool',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'viewer',
+        type: 'address',
+      },
+    ],
+    name: 'revokeViewer',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'operator',
+        type: 'address',
+      },
+      {
+        internalType: 'uint48',
+        name: 'until',
+        type: 'uint48',
+      },
+    ],
+    name: 'setOperator',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'symbol',
+    outputs: [
+      {
+        internalType: 'string',
+        name: '',
+        type: 'string',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+export const DUELS_ABI = [
+  {
+    inputs: [
+      {
+        internalType: 'contract PrivyPoints',
+        name: 'pointsLedger',
+        type: 'address',
+      },
+      {
+        internalType: 'uint256',
+        name: 'duelExpiryBlocks',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'constructor',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'uint256',
+        name: 'duelId',
+        type: 'uint256',
+      },
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'caller',
+        type: 'address',
+      },
+    ],
+    name: 'DuelCancelled',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'uint256',
+        name: 'duelId',
+        type: 'uint256',
+      },
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'creator',
+        type: 'address',
+      },
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'opponent',
+        type: 'address',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'deadline',
+        type: 'uint256',
+      },
+    ],
+    name: 'DuelOpened',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'uint256',
+        name: 'duelId',
+        type: 'uint256',
+      },
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'creator',
+        type: 'address',
+      },
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'opponent',
+        type: 'address',
+      },
+      {
+        indexed: false,
+        internalType: 'euint8',
+        name: 'creatorRoll',
+        type: 'bytes32',
+      },
+      {
+        indexed: false,
+        internalType: 'euint8',
+        name: 'opponentRoll',
+        type: 'bytes32',
+      },
+      {
+        indexed: false,
+        internalType: 'euint64',
+        name: 'creatorPayout',
+        type: 'bytes32',
+      },
+      {
+        indexed: false,
+        internalType: 'euint64',
+        name: 'opponentPayout',
+        type: 'bytes32',
+      },
+    ],
+    name: 'DuelSettled',
+    type: 'event',
+  },
+  {
+    inputs: [],
+    name: 'DUEL_EXPIRY_BLOCKS',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'uint256',
+        name: 'duelId',
+        type: 'uint256',
+      },
+    ],
+    name: 'cancelDuel',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'confidentialProtocolId',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'duelCount',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'uint256',
+        name: 'duelId',
+        type: 'uint256',
+      },
+    ],
+    name: 'getDuel',
+    outputs: [
+      {
+        components: [
+          {
+            internalType: 'address',
+            name: 'creator',
+            type: 'address',
+          },
+          {
+            internalType: 'address',
+            name: 'opponent',
+            type: 'address',
+          },
+          {
+            internalType: 'enum PrivyDuels.DuelStatus',
+            name: 'status',
+            type: 'uint8',
+          },
+          {
+            internalType: 'uint256',
+            name: 'openedBlock',
+            type: 'uint256',
+          },
+          {
+            internalType: 'euint64',
+            name: 'creatorStake',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint64',
+            name: 'opponentStake',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint8',
+            name: 'creatorRoll',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint8',
+            name: 'opponentRoll',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint64',
+            name: 'creatorPayout',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint64',
+            name: 'opponentPayout',
+            type: 'bytes32',
+          },
+        ],
+        internalType: 'struct PrivyDuels.Duel',
+        name: '',
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getOpenDuelCount',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'uint256',
+        name: 'offset',
+        type: 'uint256',
+      },
+      {
+        internalType: 'uint256',
+        name: 'limit',
+        type: 'uint256',
+      },
+    ],
+    name: 'getOpenDuels',
+    outputs: [
+      {
+        internalType: 'uint256[]',
+        name: 'page',
+        type: 'uint256[]',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'getPlayerDuelCount',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        internalType: 'uint256',
+        name: 'offset',
+        type: 'uint256',
+      },
+      {
+        internalType: 'uint256',
+        name: 'limit',
+        type: 'uint256',
+      },
+    ],
+    name: 'getPlayerDuels',
+    outputs: [
+      {
+        internalType: 'uint256[]',
+        name: 'page',
+        type: 'uint256[]',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'uint256',
+        name: 'duelId',
+        type: 'uint256',
+      },
+      {
+        internalType: 'externalEuint64',
+        name: 'stake',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'bytes',
+        name: 'inputProof',
+        type: 'bytes',
+      },
+    ],
+    name: 'joinDuel',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'opponent',
+        type: 'address',
+      },
+      {
+        internalType: 'externalEuint64',
+        name: 'stake',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'bytes',
+        name: 'inputProof',
+        type: 'bytes',
+      },
+    ],
+    name: 'openDuel',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: 'duelId',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'points',
+    outputs: [
+      {
+        internalType: 'contract PrivyPoints',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+export const JACKPOT_ABI = [
+  {
+    inputs: [
+      {
+        internalType: 'contract PrivyPoints',
+        name: 'pointsLedger',
+        type: 'address',
+      },
+      {
+        internalType: 'address',
+        name: 'game_',
+        type: 'address',
+      },
+      {
+        internalType: 'uint64',
+        name: 'contributionPercent',
+        type: 'uint64',
+      },
+      {
+        internalType: 'uint16',
+        name: 'jackpotOdds',
+        type: 'uint16',
+      },
+      {
+        internalType: 'uint256',
+        name: 'revealIntervalBlocks',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'constructor',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'uint256',
+        name: 'roundId',
+        type: 'uint256',
+      },
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: false,
+        internalType: 'ebool',
+        name: 'hit',
+        type: 'bytes32',
+      },
+    ],
+    name: 'JackpotDrawn',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'uint256',
+        name: 'roundId',
+        type: 'uint256',
+      },
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: false,
+        internalType: 'euint64',
+        name: 'amount',
+        type: 'bytes32',
+      },
+    ],
+    name: 'JackpotWon',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'uint256',
+        name: 'blockNumber',
+        type: 'uint256',
+      },
+      {
+        indexed: false,
+        internalType: 'euint64',
+        name: 'pool',
+        type: 'bytes32',
+      },
+    ],
+    name: 'PoolRevealed',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: 'bytes32[]',
+        name: 'handlesList',
+        type: 'bytes32[]',
+      },
+      {
+        indexed: false,
+        internalType: 'bytes',
+        name: 'abiEncodedCleartexts',
+        type: 'bytes',
+      },
+    ],
+    name: 'PublicDecryptionVerified',
+    type: 'event',
+  },
+  {
+    inputs: [],
+    name: 'CONTRIBUTION_PERCENT',
+    outputs: [
+      {
+        internalType: 'uint64',
+        name: '',
+        type: 'uint64',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'JACKPOT_ODDS',
+    outputs: [
+      {
+        internalType: 'uint16',
+        name: '',
+        type: 'uint16',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'MAX_CONTRIBUTION_PERCENT',
+    outputs: [
+      {
+        internalType: 'uint64',
+        name: '',
+        type: 'uint64',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'REVEAL_INTERVAL_BLOCKS',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'uint256',
+        name: 'roundId',
+        type: 'uint256',
+      },
+      {
+        internalType: 'bytes',
+        name: 'abiEncodedCleartexts',
+        type: 'bytes',
+      },
+      {
+        internalType: 'bytes',
+        name: 'decryptionProof',
+        type: 'bytes',
+      },
+    ],
+    name: 'announceWin',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'confidentialProtocolId',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'euint64',
+        name: 'wager',
+        type: 'bytes32',
+      },
+    ],
+    name: 'contribute',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        internalType: 'uint256',
+        name: 'roundId',
+        type: 'uint256',
+      },
+      {
+        internalType: 'ebool',
+        name: 'eligible',
+        type: 'bytes32',
+      },
+    ],
+    name: 'draw',
+    outputs: [
+      {
+        internalType: 'euint64',
+        name: 'won',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'game',
+    outputs: [
+      {
+        internalType: 'address',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'uint256',
+        name: 'roundId',
+        type: 'uint256',
+      },
+    ],
+    name: 'getDraw',
+    outputs: [
+      {
+        components: [
+          {
+            internalType: 'address',
+            name: 'player',
+            type: 'address',
+          },
+          {
+            internalType: 'ebool',
+            name: 'hit',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint64',
+            name: 'amount',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'bool',
+            name: 'announced',
+            type: 'bool',
+          },
+        ],
+        internalType: 'struct PrivyJackpot.Draw',
+        name: '',
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getPool',
+    outputs: [
+      {
+        internalType: 'euint64',
+        name: '',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getRevealedPool',
+    outputs: [
+      {
+        internalType: 'euint64',
+        name: '',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'owner',
+    outputs: [
+      {
+        internalType: 'address',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'points',
+    outputs: [
+      {
+        internalType: 'contract PrivyPoints',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'revealedAt',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+export const STATS_ABI = [
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'game_',
+        type: 'address',
+      },
+      {
+        internalType: 'uint256',
+        name: 'revealIntervalRounds',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'constructor',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'uint256',
+        name: 'snapshotId',
+        type: 'uint256',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'rounds',
+        type: 'uint256',
+      },
+    ],
+    name: 'StatsRevealed',
+    type: 'event',
+  },
+  {
+    inputs: [],
+    name: 'MIN_REVEAL_INTERVAL_ROUNDS',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'REVEAL_INTERVAL_ROUNDS',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'confidentialProtocolId',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'game',
+    outputs: [
+      {
+        internalType: 'address',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'uint256',
+        name: 'snapshotId',
+        type: 'uint256',
+      },
+    ],
+    name: 'getSnapshot',
+    outputs: [
+      {
+        components: [
+          {
+            internalType: 'uint256',
+            name: 'rounds',
+            type: 'uint256',
+          },
+          {
+            internalType: 'uint256',
+            name: 'blockNumber',
+            type: 'uint256',
+          },
+          {
+            internalType: 'euint32[6]',
+            name: 'faceCounts',
+            type: 'bytes32[6]',
+          },
+          {
+            internalType: 'euint64',
+            name: 'wagered',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint64',
+            name: 'paidOut',
+            type: 'bytes32',
+          },
+        ],
+        internalType: 'struct PrivyStats.Snapshot',
+        name: '',
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getSnapshotCount',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getStats',
+    outputs: [
+      {
+        internalType: 'euint32[6]',
+        name: 'counts',
+        type: 'bytes32[6]',
+      },
+      {
+        internalType: 'euint64',
+        name: 'totalWagered',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'euint64',
+        name: 'totalPaidOut',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'owner',
+    outputs: [
+      {
+        internalType: 'address',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'euint64',
+        name: 'amount',
+        type: 'bytes32',
+      },
+    ],
+    name: 'recordPayout',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'euint8',
+        name: 'roll',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'euint64',
+        name: 'wager',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'ebool',
+        name: 'charged',
+        type: 'bytes32',
+      },
+    ],
+    name: 'recordRound',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'roundsRecorded',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+export const LEADERBOARD_ABI = [
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'game_',
+        type: 'address',
+      },
+      {
+        internalType: 'uint256',
+        name: 'epochBlocks',
+        type: 'uint256',
+      },
+      {
+        internalType: 'uint64',
+        name: 'bucketSize',
+        type: 'uint64',
+      },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'constructor',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'uint256',
+        name: 'epoch',
+        type: 'uint256',
+      },
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: false,
+        internalType: 'euint32',
+        name: 'wins',
+        type: 'bytes32',
+      },
+      {
+        indexed: false,
+        internalType: 'euint64',
+        name: 'net',
+        type: 'bytes32',
+      },
+    ],
+    name: 'EntryPublished',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'OptedIn',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'OptedOut',
+    type: 'event',
+  },
+  {
+    inputs: [],
+    name: 'BUCKET_SIZE',
+    outputs: [
+      {
+        internalType: 'uint64',
+        name: '',
+        type: 'uint64',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'EPOCH_BLOCKS',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'START_BLOCK',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'confidentialProtocolId',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'currentEpoch',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'game',
+    outputs: [
+      {
+        internalType: 'address',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'uint256',
+        name: 'epoch',
+        type: 'uint256',
+      },
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'getEntry',
+    outputs: [
+      {
+        components: [
+          {
+            internalType: 'euint32',
+            name: 'wins',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint64',
+            name: 'wagered',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint64',
+            name: 'paidOut',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'bool',
+            name: 'published',
+            type: 'bool',
+          },
+          {
+            internalType: 'euint32',
+            name: 'publishedWins',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint64',
+            name: 'publishedNet',
+            type: 'bytes32',
+          },
+        ],
+        internalType: 'struct PrivyLeaderboard.Entry',
+        name: '',
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getPlayerCount',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'uint256',
+        name: 'offset',
+        type: 'uint256',
+      },
+      {
+        internalType: 'uint256',
+        name: 'limit',
+        type: 'uint256',
+      },
+    ],
+    name: 'getPlayers',
+    outputs: [
+      {
+        internalType: 'address[]',
+        name: 'page',
+        type: 'address[]',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'optIn',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'optOut',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: '',
+        type: 'address',
+      },
+    ],
+    name: 'optedIn',
+    outputs: [
+      {
+        internalType: 'bool',
+        name: '',
+        type: 'bool',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'uint256',
+        name: 'epoch',
+        type: 'uint256',
+      },
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'publishEntry',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        internalType: 'euint64',
+        name: 'amount',
+        type: 'bytes32',
+      },
+    ],
+    name: 'recordPayout',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        internalType: 'ebool',
+        name: 'won',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'euint64',
+        name: 'wager',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'ebool',
+        name: 'charged',
+        type: 'bytes32',
+      },
+    ],
+    name: 'recordRound',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+export const LIMITS_ABI = [
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'game_',
+        type: 'address',
+      },
+      {
+        internalType: 'uint256',
+        name: 'loosenDelay',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'constructor',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'until',
+        type: 'uint256',
+      },
+    ],
+    name: 'CoolOffStarted',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: false,
+        internalType: 'uint32',
+        name: 'rounds',
+        type: 'uint32',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'effectiveAt',
+        type: 'uint256',
+      },
+    ],
+    name: 'DailyRoundLimitSet',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'effectiveAt',
+        type: 'uint256',
+      },
+    ],
+    name: 'DailySpendCapRemoved',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'effectiveAt',
+        type: 'uint256',
+      },
+    ],
+    name: 'DailySpendCapSet',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'until',
+        type: 'uint256',
+      },
+    ],
+    name: 'SelfExcluded',
+    type: 'event',
+  },
+  {
+    inputs: [],
+    name: 'LOOSEN_DELAY',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'MAX_COOL_OFF',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'MAX_SELF_EXCLUSION',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'MIN_SELF_EXCLUSION',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'checkBreak',
+    outputs: [],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        internalType: 'uint32',
+        name: 'rounds',
+        type: 'uint32',
+      },
+      {
+        internalType: 'euint64',
+        name: 'cost',
+        type: 'bytes32',
+      },
+    ],
+    name: 'checkRound',
+    outputs: [
+      {
+        internalType: 'ebool',
+        name: 'withinCap',
+        type: 'bytes32',
+      },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'confidentialProtocolId',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'uint256',
+        name: 'duration',
+        type: 'uint256',
+      },
+    ],
+    name: 'coolOff',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'game',
+    outputs: [
+      {
+        internalType: 'address',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+    ],
+    name: 'getLimits',
+    outputs: [
+      {
+        components: [
+          {
+            internalType: 'uint32',
+            name: 'dailyRounds',
+            type: 'uint32',
+          },
+          {
+            internalType: 'bool',
+            name: 'hasSpendCap',
+            type: 'bool',
+          },
+          {
+            internalType: 'euint64',
+            name: 'dailySpendCap',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'uint32',
+            name: 'pendingDailyRounds',
+            type: 'uint32',
+          },
+          {
+            internalType: 'uint64',
+            name: 'pendingDailyRoundsAt',
+            type: 'uint64',
+          },
+          {
+            internalType: 'euint64',
+            name: 'pendingSpendCap',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'uint64',
+            name: 'pendingSpendCapAt',
+            type: 'uint64',
+          },
+          {
+            internalType: 'uint64',
+            name: 'coolOffUntil',
+            type: 'uint64',
+          },
+          {
+            internalType: 'uint64',
+            name: 'excludedUntil',
+            type: 'uint64',
+          },
+          {
+            internalType: 'uint64',
+            name: 'day',
+            type: 'uint64',
+          },
+          {
+            internalType: 'uint32',
+            name: 'roundsToday',
+            type: 'uint32',
+          },
+          {
+            internalType: 'euint64',
+            name: 'spentToday',
+            type: 'bytes32',
+          },
+        ],
+        internalType: 'struct PrivyLimits.Limits',
+        name: '',
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        internalType: 'euint64',
+        name: 'charged',
+        type: 'bytes32',
+      },
+    ],
+    name: 'recordSpend',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'removeDailySpendCap',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'uint256',
+        name: 'duration',
+        type: 'uint256',
+      },
+    ],
+    name: 'selfExclude',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'uint32',
+        name: 'rounds',
+        type: 'uint32',
+      },
+    ],
+    name: 'setDailyRoundLimit',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'externalEuint64',
+        name: 'cap',
+        type: 'bytes32',
+      },
+      {
+        internalType: 'bytes',
+        name: 'inputProof',
+        type: 'bytes',
+      },
+    ],
+    name: 'setDailySpendCap',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+export const TIMELOCK_ABI = [
+  {
+    inputs: [
+      {
+        internalType: 'contract PrivyPlay',
+        name: 'game_',
+        type: 'address',
+      },
+      {
+        internalType: 'uint256',
+        name: 'economicsDelay',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'constructor',
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: 'EconomicsUpdateCancelled',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        components: [
+          {
+            internalType: 'uint256',
+            name: 'pointsPerEth',
+            type: 'uint256',
+          },
+          {
+            internalType: 'uint64',
+            name: 'minWager',
+            type: 'uint64',
+          },
+          {
+            internalType: 'uint64',
+            name: 'maxWager',
+            type: 'uint64',
+          },
+          {
+            components: [
+              {
+                internalType: 'uint64',
+                name: 'exactFace',
+                type: 'uint64',
+              },
+              {
+                internalType: 'uint64',
+                name: 'oddEven',
+                type: 'uint64',
+              },
+              {
+                internalType: 'uint64[6]',
+                name: 'range',
+                type: 'uint64[6]',
+              },
+            ],
+            internalType: 'struct PrivyPlay.Payouts',
+            name: 'payouts',
+            type: 'tuple',
+          },
+        ],
+        indexed: false,
+        internalType: 'struct PrivyPlay.Economics',
+        name: 'economics',
+        type: 'tuple',
+      },
+      {
+        indexed: false,
+        internalType: 'uint256',
+        name: 'effectiveAt',
+        type: 'uint256',
+      },
+    ],
+    name: 'EconomicsUpdateScheduled',
+    type: 'event',
+  },
+  {
+    inputs: [],
+    name: 'ECONOMICS_DELAY',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'applyEconomicsUpdate',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'cancelEconomicsUpdate',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'game',
+    outputs: [
+      {
+        internalType: 'contract PrivyPlay',
+        name: '',
+        type: 'address',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getPendingEconomics',
+    outputs: [
+      {
+        components: [
+          {
+            internalType: 'uint256',
+            name: 'pointsPerEth',
+            type: 'uint256',
+          },
+          {
+            internalType: 'uint64',
+            name: 'minWager',
+            type: 'uint64',
+          },
+          {
+            internalType: 'uint64',
+            name: 'maxWager',
+            type: 'uint64',
+          },
+          {
+            components: [
+              {
+                internalType: 'uint64',
+                name: 'exactFace',
+                type: 'uint64',
+              },
+              {
+                internalType: 'uint64',
+                name: 'oddEven',
+                type: 'uint64',
+              },
+              {
+                internalType: 'uint64[6]',
+                name: 'range',
+                type: 'uint64[6]',
+              },
+            ],
+            internalType: 'struct PrivyPlay.Payouts',
+            name: 'payouts',
+            type: 'tuple',
+          },
+        ],
+        internalType: 'struct PrivyPlay.Economics',
+        name: 'economics',
+        type: 'tuple',
+      },
+      {
+        internalType: 'uint256',
+        name: 'effectiveAt',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [],
+    name: 'pendingEconomicsEffectiveAt',
+    outputs: [
+      {
+        internalType: 'uint256',
+        name: '',
+        type: 'uint256',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: 'uint256',
+            name: 'pointsPerEth',
+            type: 'uint256',
+          },
+          {
+            internalType: 'uint64',
+            name: 'minWager',
+            type: 'uint64',
+          },
+          {
+            internalType: 'uint64',
+            name: 'maxWager',
+            type: 'uint64',
+          },
+          {
+            components: [
+              {
+                internalType: 'uint64',
+                name: 'exactFace',
+                type: 'uint64',
+              },
+              {
+                internalType: 'uint64',
+                name: 'oddEven',
+                type: 'uint64',
+              },
+              {
+                internalType: 'uint64[6]',
+                name: 'range',
+                type: 'uint64[6]',
+              },
+            ],
+            internalType: 'struct PrivyPlay.Payouts',
+            name: 'payouts',
+            type: 'tuple',
+          },
+        ],
+        internalType: 'struct PrivyPlay.Economics',
+        name: 'next',
+        type: 'tuple',
+      },
+    ],
+    name: 'scheduleEconomicsUpdate',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+export const HISTORY_ABI = [
+  {
+    inputs: [
+      {
+        internalType: 'contract PrivyPoints',
+        name: 'pointsLedger',
+        type: 'address',
+      },
+      {
+        internalType: 'address',
+        name: 'game_',
+        type: 'address',
+      },
+    ],
     stateMutability: 'nonpayable',
     type: 'constructor',
   },
@@ -17,50 +4188,56 @@ export const CONTRACT_ABI = [
         type: 'address',
       },
       {
-        indexed: false,
+        indexed: true,
         internalType: 'uint256',
-        name: 'ethAmount',
+        name: 'roundId',
         type: 'uint256',
       },
       {
         indexed: false,
+        internalType: 'bytes32',
+        name: 'lineage',
+        type: 'bytes32',
+      },
+    ],
+    name: 'RoundRecorded',
+    type: 'event',
+  },
+  {
+    inputs: [],
+    name: 'confidentialProtocolId',
+    outputs: [
+      {
         internalType: 'uint256',
-        name: 'points',
+        name: '',
         type: 'uint256',
       },
     ],
-    name: 'PointsPurchased',
-    type: 'event',
+    stateMutability: 'view',
+    type: 'function',
   },
   {
-    anonymous: false,
-    inputs: [
+    inputs: [],
+    name: 'game',
+    outputs: [
       {
-        indexed: true,
         internalType: 'address',
-        name: 'player',
+        name: '',
         type: 'address',
       },
     ],
-    name: 'GameStarted',
-    type: 'event',
+    stateMutability: 'view',
+    type: 'function',
   },
   {
-    anonymous: false,
     inputs: [
       {
-        indexed: true,
         internalType: 'address',
         name: 'player',
         type: 'address',
       },
     ],
-    name: 'GuessSubmitted',
-    type: 'event',
-  },
-  {
-    inputs: [],
-    name: 'POINTS_PER_ETH',
+    name: 'getRoundCount',
     outputs: [
       {
         internalType: 'uint256',
@@ -72,13 +4249,110 @@ export const CONTRACT_ABI = [
     type: 'function',
   },
   {
-    inputs: [],
-    name: 'PLAY_COST',
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        internalType: 'uint256',
+        name: 'offset',
+        type: 'uint256',
+      },
+      {
+        internalType: 'uint256',
+        name: 'limit',
+        type: 'uint256',
+      },
+    ],
+    name: 'getRoundHistory',
     outputs: [
       {
-        internalType: 'uint64',
-        name: '',
-        type: 'uint64',
+        components: [
+          {
+            internalType: 'uint256',
+            name: 'id',
+            type: 'uint256',
+          },
+          {
+            internalType: 'uint256',
+            name: 'blockNumber',
+            type: 'uint256',
+          },
+          {
+            internalType: 'bool',
+            name: 'expired',
+            type: 'bool',
+          },
+          {
+            internalType: 'euint64',
+            name: 'wager',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint8',
+            name: 'roll',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint8',
+            name: 'betKind',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint8',
+            name: 'betLow',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint8',
+            name: 'betHigh',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'ebool',
+            name: 'outcome',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint64',
+            name: 'reward',
+            type: 'bytes32',
+          },
+        ],
+        internalType: 'struct PrivyHistory.RoundRecord[]',
+        name: 'page',
+        type: 'tuple[]',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        internalType: 'uint256',
+        name: 'offset',
+        type: 'uint256',
+      },
+      {
+        internalType: 'uint256',
+        name: 'limit',
+        type: 'uint256',
+      },
+    ],
+    name: 'getRoundLineage',
+    outputs: [
+      {
+        internalType: 'bytes32[]',
+        name: 'page',
+        type: 'bytes32[]',
       },
     ],
     stateMutability: 'view',
@@ -86,22 +4360,85 @@ export const CONTRACT_ABI = [
   },
   {
     inputs: [],
-    name: 'WIN_REWARD',
+    name: 'points',
     outputs: [
       {
-        internalType: 'uint64',
+        internalType: 'contract PrivyPoints',
         name: '',
-        type: 'uint64',
+        type: 'address',
       },
     ],
     stateMutability: 'view',
     type: 'function',
   },
   {
-    inputs: [],
-    name: 'buyPoints',
+    inputs: [
+      {
+        internalType: 'address',
+        name: 'player',
+        type: 'address',
+      },
+      {
+        components: [
+          {
+            internalType: 'uint256',
+            name: 'id',
+            type: 'uint256',
+          },
+          {
+            internalType: 'uint256',
+            name: 'blockNumber',
+            type: 'uint256',
+          },
+          {
+            internalType: 'bool',
+            name: 'expired',
+            type: 'bool',
+          },
+          {
+            internalType: 'euint64',
+            name: 'wager',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint8',
+            name: 'roll',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint8',
+            name: 'betKind',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint8',
+            name: 'betLow',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint8',
+            name: 'betHigh',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'ebool',
+            name: 'outcome',
+            type: 'bytes32',
+          },
+          {
+            internalType: 'euint64',
+            name: 'reward',
+            type: 'bytes32',
+          },
+        ],
+        internalType: 'struct PrivyHistory.RoundRecord',
+        name: 'record',
+        type: 'tuple',
+      },
+    ],
+    name: 'recordRound',
     outputs: [],
-    stateMutability: 'payable',
+    stateMutability: 'nonpayable',
     type: 'function',
   },
   {
@@ -111,14 +4448,65 @@ export const CONTRACT_ABI = [
         name: 'player',
         type: 'address',
       },
+      {
+        internalType: 'uint256',
+        name: 'offset',
+        type: 'uint256',
+      },
+      {
+        internalType: 'uint256',
+        name: 'limit',
+        type: 'uint256',
+      },
     ],
-    name: 'getBalance',
+    name: 'shareRoundHistory',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+// The part of the PrivyForwarder (ERC-2771) used to sign gasless requests; the relayer submits them.
+export const FORWARDER_ABI = [
+  {
+    inputs: [],
+    name: 'eip712Domain',
     outputs: [
       {
-        internalType: 'euint64',
-        name: '',
+        internalType: 'bytes1',
+        name: 'fields',
+        type: 'bytes1',
+      },
+      {
+        internalType: 'string',
+        name: 'name',
+        type: 'string',
+      },
+      {
+        internalType: 'string',
+        name: 'version',
+        type: 'string',
+      },
+      {
+        internalType: 'uint256',
+        name: 'chainId',
+        type: 'uint256',
+      },
+      {
+        internalType: 'address',
+        name: 'verifyingContract',
+        type: 'address',
+      },
+      {
+        internalType: 'bytes32',
+        name: 'salt',
         type: 'bytes32',
       },
+      {
+        internalType: 'uint256[]',
+        name: 'extensions',
+        type: 'uint256[]',
+      },
     ],
     stateMutability: 'view',
     type: 'function',
@@ -127,54 +4515,118 @@ export const CONTRACT_ABI = [
     inputs: [
       {
         internalType: 'address',
-        name: 'player',
+        name: 'owner',
         type: 'address',
       },
     ],
-    name: 'getLastOutcome',
+    name: 'nonces',
     outputs: [
       {
-        internalType: 'ebool',
+        internalType: 'uint256',
         name: '',
-        type: 'bytes32',
+        type: 'uint256',
       },
     ],
     stateMutability: 'view',
     type: 'function',
   },
+] as const;
+
+export const TOKEN_SALE_ABI = [
   {
     inputs: [
       {
-        internalType: 'address',
-        name: 'player',
+        internalType: 'contract IERC20Metadata',
+        name: 'token',
         type: 'address',
       },
+      {
+        internalType: 'uint256',
+        name: 'amount',
+        type: 'uint256',
+      },
     ],
-    name: 'getLastReward',
+    name: 'buyPointsWithToken',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        internalType: 'contract IERC20Metadata',
+        name: 'token',
+        type: 'address',
+      },
+    ],
+    name: 'getPaymentToken',
     outputs: [
       {
-        internalType: 'euint64',
+        components: [
+          {
+            internalType: 'uint256',
+            name: 'pointsPerToken',
+            type: 'uint256',
+          },
+          {
+            internalType: 'uint8',
+            name: 'decimals',
+            type: 'uint8',
+          },
+          {
+            internalType: 'uint256',
+            name: 'received',
+            type: 'uint256',
+          },
+          {
+            internalType: 'uint256',
+            name: 'withdrawn',
+            type: 'uint256',
+          },
+        ],
+        internalType: 'struct PrivyTokenSale.PaymentToken',
         name: '',
-        type: 'bytes32',
+        type: 'tuple',
+      },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'getPaymentTokens',
+    outputs: [
+      {
+        internalType: 'contract IERC20Metadata[]',
+        name: '',
+        type: 'address[]',
       },
     ],
     stateMutability: 'view',
     type: 'function',
   },
+] as const;
+
+export const ERC20_ABI = [
   {
     inputs: [
       {
         internalType: 'address',
-        name: 'player',
+        name: 'owner',
+        type: 'address',
+      },
+      {
+        internalType: 'address',
+        name: 'spender',
         type: 'address',
       },
     ],
-    name: 'getLastRoll',
+    name: 'allowance',
     outputs: [
       {
-        internalType: 'euint8',
+        internalType: 'uint256',
         name: '',
-        type: 'bytes32',
+        type: 'uint256',
       },
     ],
     stateMutability: 'view',
@@ -184,11 +4636,16 @@ export const CONTRACT_ABI = [
     inputs: [
       {
         internalType: 'address',
-        name: 'player',
+        name: 'spender',
         type: 'address',
       },
+      {
+        internalType: 'uint256',
+        name: 'value',
+        type: 'uint256',
+      },
     ],
-    name: 'isGameActive',
+    name: 'approve',
     outputs: [
       {
         internalType: 'bool',
@@ -196,32 +4653,33 @@ export const CONTRACT_ABI = [
         type: 'bool',
       },
     ],
-    stateMutability: 'view',
+    stateMutability: 'nonpayable',
     type: 'function',
   },
   {
     inputs: [],
-    name: 'startGame',
-    outputs: [],
-    stateMutability: 'nonpayable',
+    name: 'decimals',
+    outputs: [
+      {
+        internalType: 'uint8',
+        name: '',
+        type: 'uint8',
+      },
+    ],
+    stateMutability: 'view',
     type: 'function',
   },
   {
-    inputs: [
-      {
-        internalType: 'externalEbool',
-        name: 'guess',
-        type: 'bytes32',
-      },
+    inputs: [],
+    name: 'symbol',
+    outputs: [
       {
-        internalType: 'bytes',
-        name: 'inputProof',
-        type: 'bytes',
+        internalType: 'string',
+        name: '',
+        type: 'string',
       },
     ],
-    name: 'submitGuess',
-    outputs: [],
-    stateMutability: 'nonpayable',
+    stateMutability: 'view',
     type: 'function',
   },
 ] as const;
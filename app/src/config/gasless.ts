@@ -0,0 +1,59 @@
+import { Contract, type JsonRpcSigner } from 'ethers';
+import { CONTRACT_ADDRESS, FORWARDER_ABI, FORWARDER_ADDRESS, RELAYER_URL } from './contracts';
+
+// Signed requests stay valid for this long, so a stalled relayer cannot hold on to them.
+const REQUEST_TTL_SECONDS = 10 * 60;
+// Gas the forwarder passes on to the game; settling a bet runs the whole homomorphic evaluation.
+const REQUEST_GAS = 5_000_000n;
+
+const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'gas', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint48' },
+    { name: 'data', type: 'bytes' },
+  ],
+};
+
+export const isGaslessConfigured = FORWARDER_ADDRESS !== `0x${'0'.repeat(40)}`;
+
+// Signs a call of the game with `data` and hands it to the relayer, which pays its gas. The game sees the signer as
+// the sender. Returns the hash of the relayer's transaction.
+export async function relayGameCall(signer: JsonRpcSigner, data: string): Promise<string> {
+  const forwarder = new Contract(FORWARDER_ADDRESS, FORWARDER_ABI, signer);
+  const [, name, version, chainId, verifyingContract] = await forwarder.eip712Domain();
+  const request = {
+    from: await signer.getAddress(),
+    to: CONTRACT_ADDRESS,
+    value: 0n,
+    gas: REQUEST_GAS,
+    nonce: (await forwarder.nonces(await signer.getAddress())) as bigint,
+    deadline: Math.floor(Date.now() / 1000) + REQUEST_TTL_SECONDS,
+    data,
+  };
+  const signature = await signer.signTypedData(
+    { name, version, chainId, verifyingContract },
+    FORWARD_REQUEST_TYPES,
+    request,
+  );
+
+  const response = await fetch(RELAYER_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      ...request,
+      value: request.value.toString(),
+      gas: request.gas.toString(),
+      nonce: request.nonce.toString(),
+      signature,
+    }),
+  });
+  const { hash, error } = (await response.json()) as { hash?: string; error?: string };
+  if (!hash) {
+    throw new Error(`Relayer rejected the request: ${error}`);
+  }
+  return hash;
+}
@@ -0,0 +1,28 @@
+import { AbiCoder, keccak256 } from 'ethers';
+
+// The handles of a round as kept by PrivyHistory.
+export type RoundHandles = {
+  id: bigint;
+  wager: string;
+  roll: string;
+  betKind: string;
+  betLow: string;
+  betHigh: string;
+  outcome: string;
+  reward: string;
+};
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+// Mirrors `RoundLineage.commitment`, emitted in the GameStarted event of the round.
+export const roundCommitment = (player: string, round: RoundHandles) =>
+  keccak256(abiCoder.encode(['address', 'uint256', 'bytes32', 'bytes32'], [player, round.id, round.wager, round.roll]));
+
+// Mirrors `RoundLineage.lineage`, stored by PrivyHistory when the round closes.
+export const roundLineage = (player: string, round: RoundHandles) =>
+  keccak256(
+    abiCoder.encode(
+      ['bytes32', 'bytes32', 'bytes32', 'bytes32', 'bytes32', 'bytes32'],
+      [roundCommitment(player, round), round.betKind, round.betLow, round.betHigh, round.outcome, round.reward],
+    ),
+  );
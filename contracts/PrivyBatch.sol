@@ -0,0 +1,173 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, euint8, euint64, ebool, externalEuint8, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {PrivyPlay} from "./PrivyPlay.sol";
+import {PrivyDice} from "./PrivyDice.sol";
+
+/// @title PrivyPlay Batch Table
+/// @notice Plays up to `MAX_BATCH_ROUNDS` rounds of the PrivyPlay game in a single transaction: one encrypted wager,
+///         applied to every round, and one encrypted bet per round, all under a single input proof. Each round rolls
+///         its own dice and is settled homomorphically with the rules and current payout tables of the game; only the
+///         aggregate of the batch, its number of wins and total reward, is recorded. Batches are left out of the round
+///         history, the statistics, the leaderboard and the jackpot.
+/// @dev The game charges the stake and pays the reward through `settleBatch`, so the player must have made the game an
+///      operator of their points, as for single rounds. The stake is charged as a whole: if the balance, the house
+///      reserve or the player's limits cannot cover it, the batch is not charged and wins nothing.
+contract PrivyBatch is ZamaEthereumConfig {
+    /// @notice An encrypted bet, encoded as for `PrivyPlay.submitGuess`.
+    struct Bet {
+        externalEuint8 kind;
+        externalEuint8 low;
+        externalEuint8 high;
+    }
+
+    /// @notice The aggregate of a batch, decryptable by its player. `wins` and `reward` are encrypted zeros if the
+    ///         stake could not be charged.
+    struct BatchResult {
+        uint256 id;
+        uint256 blockNumber;
+        uint32 rounds;
+        // The clamped wager of each round.
+        euint64 wager;
+        ebool charged;
+        euint8 wins;
+        euint64 reward;
+    }
+
+    /// @notice Largest number of rounds in a batch, which keeps a batch within the homomorphic compute limit of a
+    ///         transaction.
+    uint32 public constant MAX_BATCH_ROUNDS = 6;
+
+    /// @notice The game settling the batches.
+    PrivyPlay public immutable game;
+
+    /// @notice Number of batches ever played; the id of the latest batch.
+    uint256 public batchCount;
+
+    mapping(address => BatchResult[]) private results;
+
+    event BatchPlayed(
+        address indexed player,
+        uint256 indexed batchId,
+        uint32 rounds,
+        ebool charged,
+        euint8 wins,
+        euint64 reward
+    );
+
+    /// @param game_ The game to play, which must then register this contract with `setBatch`
+    constructor(PrivyPlay game_) {
+        require(address(game_) != address(0), "Invalid game");
+        game = game_;
+    }
+
+    /// @notice Play one round per bet, each with the same encrypted wager, and settle them all at once.
+    /// @dev The wager is clamped to the wager bounds of the game.
+    /// @param wager The encrypted wager of each round
+    /// @param bets The encrypted bet of each round
+    /// @param inputProof The input proof covering the wager and every bet
+    function playBatch(externalEuint64 wager, Bet[] calldata bets, bytes calldata inputProof) external {
+        require(bets.length > 0 && bets.length <= MAX_BATCH_ROUNDS, "Invalid batch size");
+        uint32 rounds = uint32(bets.length);
+
+        euint64 cost = PrivyDice.clampWager(FHE.fromExternal(wager, inputProof), game.minWager(), game.maxWager());
+        (euint8 wins, euint64 percent) = _playRounds(bets, inputProof);
+
+        // `maxWager` times any payout percentage is below `(maxRoundPayout + 1) * 100`, so the reward cannot wrap.
+        uint256 maxRoundPayout = game.maxRoundPayout();
+        require((maxRoundPayout + 1) * 100 * rounds <= type(uint64).max, "Batch too large");
+        euint64 stake = FHE.mul(cost, uint64(rounds));
+        euint64 reward = PrivyDice.payout(cost, percent);
+
+        FHE.allowTransient(stake, address(game));
+        FHE.allowTransient(reward, address(game));
+        ebool charged = game.settleBatch(msg.sender, rounds, stake, reward, uint64(maxRoundPayout * rounds));
+        wins = FHE.select(charged, wins, FHE.asEuint8(0));
+        reward = FHE.select(charged, reward, FHE.asEuint64(0));
+        _record(rounds, cost, charged, wins, reward);
+    }
+
+    /// @notice Return the number of batches a player has played.
+    function getBatchCount(address player) external view returns (uint256) {
+        return results[player].length;
+    }
+
+    /// @notice Return up to `limit` batches of a player, oldest first, starting at index `offset`.
+    /// @dev Every handle in a result is decryptable by the player.
+    function getBatches(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (BatchResult[] memory page) {
+        BatchResult[] storage batches = results[player];
+        if (offset >= batches.length) {
+            return page;
+        }
+        uint256 end = offset + limit > batches.length ? batches.length : offset + limit;
+        page = new BatchResult[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = batches[i];
+        }
+    }
+
+    /// @dev Rolls a dice for each bet and settles it with the current payout tables of the game.
+    /// @return wins The number of winning bets
+    /// @return percent The sum of the payouts of the winning bets, in percent of the wager; summing percentages takes
+    ///         a single multiplication for the whole batch
+    function _playRounds(
+        Bet[] calldata bets,
+        bytes calldata inputProof
+    ) private returns (euint8 wins, euint64 percent) {
+        PrivyPlay.Payouts memory payouts = game.getPayouts();
+        wins = FHE.asEuint8(0);
+        percent = FHE.asEuint64(0);
+        for (uint256 i = 0; i < bets.length; i++) {
+            (ebool isWin, euint64 payoutPercent) = _playRound(bets[i], inputProof, payouts);
+            wins = FHE.add(wins, FHE.asEuint8(isWin));
+            percent = FHE.add(percent, FHE.select(isWin, payoutPercent, FHE.asEuint64(0)));
+        }
+    }
+
+    function _playRound(
+        Bet calldata bet,
+        bytes calldata inputProof,
+        PrivyPlay.Payouts memory payouts
+    ) private returns (ebool isWin, euint64 payoutPercent) {
+        return
+            PrivyDice.evaluateBet(
+                PrivyDice.roll(),
+                FHE.fromExternal(bet.kind, inputProof),
+                FHE.fromExternal(bet.low, inputProof),
+                FHE.fromExternal(bet.high, inputProof),
+                payouts.exactFace,
+                payouts.oddEven,
+                payouts.range
+            );
+    }
+
+    function _record(uint32 rounds, euint64 cost, ebool charged, euint8 wins, euint64 reward) private {
+        FHE.allowThis(cost);
+        FHE.allow(cost, msg.sender);
+        FHE.allowThis(charged);
+        FHE.allow(charged, msg.sender);
+        FHE.allowThis(wins);
+        FHE.allow(wins, msg.sender);
+        FHE.allowThis(reward);
+        FHE.allow(reward, msg.sender);
+        results[msg.sender].push(
+            BatchResult({
+                id: ++batchCount,
+                blockNumber: block.number,
+                rounds: rounds,
+                wager: cost,
+                charged: charged,
+                wins: wins,
+                reward: reward
+            })
+        );
+
+        emit BatchPlayed(msg.sender, batchCount, rounds, charged, wins, reward);
+    }
+}
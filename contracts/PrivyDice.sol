@@ -0,0 +1,132 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, euint8, euint16, euint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title PrivyPlay Dice
+/// @notice The encrypted dice, bet and streak rules of the PrivyPlay game, shared with its batch table.
+/// @dev The functions are public, so the library is deployed once and linked: they run in the context of the calling
+///      contract, which owns the handles they return. Keeping them out of the game keeps it under the code size limit.
+library PrivyDice {
+    uint8 internal constant BET_EXACT_FACE = 0;
+    uint8 internal constant BET_ODD_EVEN = 1;
+    uint8 internal constant BET_RANGE = 2;
+    uint64 internal constant STREAK_BONUS_PERCENT = 25;
+    uint8 internal constant MAX_STREAK_BONUS_STEPS = 4;
+
+    /// @notice Roll an encrypted dice (1-6).
+    /// @dev The executor only draws below powers of two, so reduce a 16-bit draw modulo 6 (bias below 1/10,000).
+    function roll() public returns (euint8) {
+        euint16 draw = FHE.randEuint16();
+        return FHE.add(FHE.asEuint8(FHE.rem(draw, 6)), FHE.asEuint8(1));
+    }
+
+    /// @notice Evaluate an encrypted bet against an encrypted roll.
+    /// @dev Every bet kind is evaluated homomorphically, so the caller does not reveal which one was placed. `low` is
+    ///      the face for `BET_EXACT_FACE`, the parity (1 odd, 0 even) for `BET_ODD_EVEN`, and with `high` the inclusive
+    ///      bounds for `BET_RANGE`. Unknown kinds and empty ranges never win.
+    /// @param exactFace The exact-face payout, in percent of the wager
+    /// @param oddEven The odd/even payout, in percent of the wager
+    /// @param range The range payouts, in percent of the wager, indexed by the number of faces covered minus one
+    /// @return isWin Whether the bet wins
+    /// @return payoutPercent The payout of the bet kind, in percent of the wager, whether it wins or not
+    function evaluateBet(
+        euint8 diceRoll,
+        euint8 betKind,
+        euint8 low,
+        euint8 high,
+        uint64 exactFace,
+        uint64 oddEven,
+        uint64[6] memory range
+    ) public returns (ebool isWin, euint64 payoutPercent) {
+        (isWin, payoutPercent) = _evaluateRange(diceRoll, low, high, range);
+        isWin = FHE.and(FHE.eq(betKind, BET_RANGE), isWin);
+
+        ebool isOddEven = FHE.eq(betKind, BET_ODD_EVEN);
+        isWin = FHE.select(isOddEven, FHE.eq(FHE.and(diceRoll, 1), FHE.and(low, 1)), isWin);
+        payoutPercent = FHE.select(isOddEven, FHE.asEuint64(oddEven), payoutPercent);
+
+        ebool isExactFace = FHE.eq(betKind, BET_EXACT_FACE);
+        isWin = FHE.select(isExactFace, FHE.eq(diceRoll, low), isWin);
+        payoutPercent = FHE.select(isExactFace, FHE.asEuint64(exactFace), payoutPercent);
+    }
+
+    /// @notice Clamp an encrypted wager to [`minWager`, `maxWager`].
+    function clampWager(euint64 wager, uint64 minWager, uint64 maxWager) public returns (euint64) {
+        return FHE.max(FHE.min(wager, maxWager), minWager);
+    }
+
+    /// @notice Revert unless the wager bounds are valid and the payout tables can pay `maxWager` without wrapping and
+    ///         keep a house edge on every bet, and return the worst-case payout of a single round: `maxWager` at the
+    ///         highest payout.
+    /// @dev A bet keeps a house edge when its payout times its chance to win, out of six faces for an exact face, three
+    ///      for odd/even and one per face covered for a range, stays under 100%.
+    function checkPayouts(
+        uint64 minWager,
+        uint64 maxWager,
+        uint64 exactFace,
+        uint64 oddEven,
+        uint64[6] memory range
+    ) public pure returns (uint64 maxRoundPayout) {
+        require(minWager > 0 && minWager <= maxWager, "Invalid wager bounds");
+        uint256 maxPercent = exactFace > oddEven ? exactFace : oddEven;
+        for (uint256 i = 0; i < 6; i++) {
+            if (range[i] > maxPercent) maxPercent = range[i];
+        }
+        // Keeps `maxWager * payout percent`, boosted by the highest streak multiplier, within uint64.
+        uint256 maxStreakPercent = 100 + STREAK_BONUS_PERCENT * MAX_STREAK_BONUS_STEPS;
+        require((uint256(maxWager) * maxPercent * maxStreakPercent) / 100 <= type(uint64).max, "Payout overflow");
+
+        require(exactFace < 600 && uint256(oddEven) * 3 < 600, "No house edge");
+        for (uint256 i = 0; i < 6; i++) {
+            require(range[i] * (i + 1) < 600, "No house edge");
+        }
+        return uint64((uint256(maxWager) * maxPercent) / 100);
+    }
+
+    /// @notice Return `percent` percent of an encrypted wager.
+    /// @dev Callers keep `wager * percent` within uint64.
+    function payout(euint64 wager, euint64 percent) public returns (euint64) {
+        return FHE.div(FHE.mul(wager, percent), 100);
+    }
+
+    /// @notice Apply the streak multiplier to the reward of a session round and add it to the pot. A loss resets the
+    ///         streak and empties the pot; a round that could not be charged leaves both unchanged.
+    /// @return boosted The reward credited to the pot
+    /// @return nextStreak The streak after the round
+    /// @return nextPot The pot after the round
+    function settleStreak(
+        euint8 streak,
+        euint64 pot,
+        ebool isWin,
+        ebool eligible,
+        euint64 reward
+    ) public returns (euint64 boosted, euint8 nextStreak, euint64 nextPot) {
+        euint64 bonusSteps = FHE.asEuint64(FHE.min(streak, MAX_STREAK_BONUS_STEPS));
+        boosted = FHE.div(FHE.mul(reward, FHE.add(FHE.mul(bonusSteps, STREAK_BONUS_PERCENT), 100)), 100);
+
+        // Only a round that was charged extends the streak.
+        isWin = FHE.and(isWin, eligible);
+        nextStreak = FHE.select(isWin, FHE.add(streak, 1), FHE.select(eligible, FHE.asEuint8(0), streak));
+        nextPot = FHE.select(isWin, FHE.add(pot, boosted), FHE.select(eligible, FHE.asEuint64(0), pot));
+    }
+
+    /// @dev Clamps the range to real faces so that its width matches its odds. The width of an empty range wraps below
+    ///      zero and matches no entry of the table.
+    function _evaluateRange(
+        euint8 diceRoll,
+        euint8 low,
+        euint8 high,
+        uint64[6] memory range
+    ) private returns (ebool isWin, euint64 percent) {
+        euint8 rangeLow = FHE.max(low, 1);
+        euint8 rangeHigh = FHE.min(high, 6);
+        isWin = FHE.and(FHE.ge(diceRoll, rangeLow), FHE.le(diceRoll, rangeHigh));
+
+        euint8 widthMinusOne = FHE.sub(rangeHigh, rangeLow);
+        percent = FHE.asEuint64(0);
+        for (uint8 i = 0; i < 6; i++) {
+            percent = FHE.select(FHE.eq(widthMinusOne, i), FHE.asEuint64(range[i]), percent);
+        }
+    }
+}
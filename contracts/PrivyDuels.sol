@@ -0,0 +1,275 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, euint8, euint64, ebool, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {PrivyPoints} from "./PrivyPoints.sol";
+import {PrivyPlay} from "./PrivyPlay.sol";
+import {PrivyDice} from "./PrivyDice.sol";
+import {PrivyLimits} from "./PrivyLimits.sol";
+
+/// @title PrivyPlay Dice Duels
+/// @notice Head-to-head dice duels between two players. The creator escrows an encrypted stake, an opponent joins with
+///         the same encrypted stake, both get an encrypted roll (1-6), and the higher roll takes both stakes.
+/// @dev Stakes are escrowed in the game's `PrivyPoints` ledger, so both players make this contract an operator first.
+///      A tie refunds both stakes, as does a join whose stake does not match the creator's, without revealing which it
+///      was: stakes are matched homomorphically and never decrypted publicly, so only the players see them. New duels
+///      cannot be opened or joined while the game is paused, nor by a player on a cool-off or self-exclusion in the
+///      game's `PrivyLimits`; open ones can still be cancelled. Duels count against neither the daily round limit nor
+///      the spend cap. Play-only points, bought with tokens, cannot be staked.
+contract PrivyDuels is ZamaEthereumConfig {
+    enum DuelStatus {
+        None,
+        Open,
+        Settled,
+        Cancelled
+    }
+
+    /// @notice A duel. Each player can decrypt their own stake and payout, and both rolls once the duel is settled.
+    struct Duel {
+        address creator;
+        // The invited opponent while open (zero for anyone), then the player who joined.
+        address opponent;
+        DuelStatus status;
+        uint256 openedBlock;
+        euint64 creatorStake;
+        euint64 opponentStake;
+        euint8 creatorRoll;
+        euint8 opponentRoll;
+        euint64 creatorPayout;
+        euint64 opponentPayout;
+    }
+
+    /// @notice Number of blocks after which anyone can cancel a duel nobody joined.
+    uint256 public immutable DUEL_EXPIRY_BLOCKS;
+
+    /// @notice The game whose points are staked and whose pause applies to duels.
+    PrivyPlay public immutable game;
+
+    /// @notice The confidential point ledger holding the stakes.
+    PrivyPoints public immutable points;
+
+    /// @notice Number of duels ever opened; the id of the latest duel.
+    uint256 public duelCount;
+
+    mapping(uint256 => Duel) private duels;
+    mapping(address => uint256[]) private playerDuels;
+    uint256[] private openDuelIds;
+    // Position of an open duel in `openDuelIds`, plus one.
+    mapping(uint256 => uint256) private openDuelIndex;
+
+    event DuelOpened(uint256 indexed duelId, address indexed creator, address indexed opponent, uint256 deadline);
+    event DuelSettled(
+        uint256 indexed duelId,
+        address indexed creator,
+        address indexed opponent,
+        euint8 creatorRoll,
+        euint8 opponentRoll,
+        euint64 creatorPayout,
+        euint64 opponentPayout
+    );
+    event DuelCancelled(uint256 indexed duelId, address indexed caller);
+
+    modifier whenNotPaused() {
+        require(!game.paused(), "Paused");
+        _;
+    }
+
+    modifier whenNotOnBreak() {
+        PrivyLimits limits = game.limits();
+        if (address(limits) != address(0)) {
+            limits.checkBreak(msg.sender);
+        }
+        _;
+    }
+
+    /// @param game_ The game whose point ledger holds the stakes
+    /// @param duelExpiryBlocks The number of blocks an open duel waits for an opponent before anyone can cancel it
+    constructor(PrivyPlay game_, uint256 duelExpiryBlocks) {
+        require(address(game_) != address(0), "Invalid game");
+        require(duelExpiryBlocks > 0, "Invalid expiry window");
+        game = game_;
+        points = game_.points();
+        DUEL_EXPIRY_BLOCKS = duelExpiryBlocks;
+    }
+
+    /// @notice Open a duel by escrowing an encrypted stake.
+    /// @dev A stake above the balance escrows nothing, and such a duel can only end in refunds. An invited opponent
+    ///      can decrypt the stake to match it; the stake of a duel open to anyone stays private to the creator, and
+    ///      whoever joins stakes the amount agreed with them, refunded if it does not match.
+    /// @param opponent The only player allowed to join, or the zero address to let anyone join
+    /// @param stake The encrypted stake
+    /// @param inputProof The input proof
+    /// @return duelId The id of the new duel
+    function openDuel(
+        address opponent,
+        externalEuint64 stake,
+        bytes calldata inputProof
+    ) external whenNotPaused whenNotOnBreak returns (uint256 duelId) {
+        require(opponent != msg.sender, "Cannot duel yourself");
+
+        duelId = ++duelCount;
+        Duel storage duel = duels[duelId];
+        duel.creator = msg.sender;
+        duel.opponent = opponent;
+        duel.status = DuelStatus.Open;
+        duel.openedBlock = block.number;
+        duel.creatorStake = _escrow(msg.sender, FHE.fromExternal(stake, inputProof));
+        if (opponent != address(0)) {
+            FHE.allow(duel.creatorStake, opponent);
+        }
+
+        playerDuels[msg.sender].push(duelId);
+        openDuelIds.push(duelId);
+        openDuelIndex[duelId] = openDuelIds.length;
+
+        emit DuelOpened(duelId, msg.sender, opponent, block.number + DUEL_EXPIRY_BLOCKS);
+    }
+
+    /// @notice Join an open duel with a stake matching the creator's, and settle it.
+    /// @dev Both rolls use the game's dice (`PrivyDice.roll`). The winner takes both stakes; a tie or a mismatched
+    ///      stake refunds both.
+    /// @param duelId The duel to join
+    /// @param stake The encrypted stake, equal to the creator's
+    /// @param inputProof The input proof
+    function joinDuel(
+        uint256 duelId,
+        externalEuint64 stake,
+        bytes calldata inputProof
+    ) external whenNotPaused whenNotOnBreak {
+        Duel storage duel = duels[duelId];
+        require(duel.status == DuelStatus.Open, "Duel not open");
+        require(duel.creator != msg.sender, "Cannot duel yourself");
+        require(duel.opponent == address(0) || duel.opponent == msg.sender, "Not invited");
+        require(block.number <= duel.openedBlock + DUEL_EXPIRY_BLOCKS, "Duel expired");
+
+        duel.opponent = msg.sender;
+        duel.status = DuelStatus.Settled;
+        duel.opponentStake = _escrow(msg.sender, FHE.fromExternal(stake, inputProof));
+        playerDuels[msg.sender].push(duelId);
+        _removeOpenDuel(duelId);
+
+        duel.creatorRoll = PrivyDice.roll();
+        duel.opponentRoll = PrivyDice.roll();
+        _settle(duel);
+
+        emit DuelSettled(
+            duelId,
+            duel.creator,
+            msg.sender,
+            duel.creatorRoll,
+            duel.opponentRoll,
+            duel.creatorPayout,
+            duel.opponentPayout
+        );
+    }
+
+    /// @notice Cancel a duel nobody joined and refund the creator. Callable by the creator at any time, or by any
+    ///         keeper once `DUEL_EXPIRY_BLOCKS` have passed.
+    /// @param duelId The duel to cancel
+    function cancelDuel(uint256 duelId) external {
+        Duel storage duel = duels[duelId];
+        require(duel.status == DuelStatus.Open, "Duel not open");
+        require(msg.sender == duel.creator || block.number > duel.openedBlock + DUEL_EXPIRY_BLOCKS, "Duel not expired");
+
+        duel.status = DuelStatus.Cancelled;
+        _removeOpenDuel(duelId);
+        duel.creatorPayout = _pay(duel.creator, duel.creatorStake);
+
+        emit DuelCancelled(duelId, msg.sender);
+    }
+
+    /// @notice Return a duel.
+    function getDuel(uint256 duelId) external view returns (Duel memory) {
+        return duels[duelId];
+    }
+
+    /// @notice Return the number of duels waiting for an opponent.
+    function getOpenDuelCount() external view returns (uint256) {
+        return openDuelIds.length;
+    }
+
+    /// @notice Return up to `limit` ids of duels waiting for an opponent, starting at index `offset`.
+    /// @dev The order changes as duels are joined or cancelled.
+    function getOpenDuels(uint256 offset, uint256 limit) external view returns (uint256[] memory page) {
+        return _page(openDuelIds, offset, limit);
+    }
+
+    /// @notice Return the number of duels a player opened or joined.
+    function getPlayerDuelCount(address player) external view returns (uint256) {
+        return playerDuels[player].length;
+    }
+
+    /// @notice Return up to `limit` ids of duels a player opened or joined, oldest first, starting at index `offset`.
+    function getPlayerDuels(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory page) {
+        return _page(playerDuels[player], offset, limit);
+    }
+
+    /// @dev Computes both payouts of a joined duel and pays them out of escrow.
+    function _settle(Duel storage duel) private {
+        euint64 creatorStake = duel.creatorStake;
+        euint64 opponentStake = duel.opponentStake;
+        ebool matched = FHE.and(FHE.eq(creatorStake, opponentStake), FHE.ne(creatorStake, 0));
+        ebool creatorWins = FHE.and(matched, FHE.gt(duel.creatorRoll, duel.opponentRoll));
+        ebool opponentWins = FHE.and(matched, FHE.gt(duel.opponentRoll, duel.creatorRoll));
+
+        euint64 pot = FHE.add(creatorStake, opponentStake);
+        euint64 zero = FHE.asEuint64(0);
+        duel.creatorPayout = _pay(
+            duel.creator,
+            FHE.select(creatorWins, pot, FHE.select(opponentWins, zero, creatorStake))
+        );
+        duel.opponentPayout = _pay(
+            duel.opponent,
+            FHE.select(opponentWins, pot, FHE.select(creatorWins, zero, opponentStake))
+        );
+
+        // Once settled, both players may see both rolls.
+        FHE.allowThis(duel.creatorRoll);
+        FHE.allow(duel.creatorRoll, duel.creator);
+        FHE.allow(duel.creatorRoll, duel.opponent);
+        FHE.allowThis(duel.opponentRoll);
+        FHE.allow(duel.opponentRoll, duel.creator);
+        FHE.allow(duel.opponentRoll, duel.opponent);
+    }
+
+    /// @dev Moves `amount` from the player into escrow; the ledger moves nothing if the balance is short.
+    function _escrow(address player, euint64 amount) private returns (euint64 escrowed) {
+        FHE.allowTransient(amount, address(points));
+        escrowed = points.confidentialTransferFrom(player, address(this), amount);
+        FHE.allowThis(escrowed);
+        FHE.allow(escrowed, player);
+    }
+
+    /// @dev Pays `amount` out of escrow to the player.
+    function _pay(address player, euint64 amount) private returns (euint64 paid) {
+        FHE.allowTransient(amount, address(points));
+        paid = points.confidentialTransfer(player, amount);
+        FHE.allowThis(paid);
+        FHE.allow(paid, player);
+    }
+
+    function _removeOpenDuel(uint256 duelId) private {
+        uint256 index = openDuelIndex[duelId] - 1;
+        uint256 last = openDuelIds[openDuelIds.length - 1];
+        openDuelIds[index] = last;
+        openDuelIndex[last] = index + 1;
+        openDuelIds.pop();
+        delete openDuelIndex[duelId];
+    }
+
+    function _page(uint256[] storage ids, uint256 offset, uint256 limit) private view returns (uint256[] memory page) {
+        if (offset >= ids.length) {
+            return page;
+        }
+        uint256 end = offset + limit > ids.length ? ids.length : offset + limit;
+        page = new uint256[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = ids[i];
+        }
+    }
+}
@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {ERC2771Forwarder} from "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/// @title PrivyPlay Forwarder
+/// @notice The ERC-2771 forwarder trusted by the PrivyPlay game: a relayer submits requests signed by players and pays
+///         their gas, and the game attributes each request to the player who signed it.
+/// @dev The game verifies encrypted inputs against the player who signed the request, so they are encrypted for the
+///      player's address as in a direct call, and cannot be replayed in a request signed by anyone else.
+contract PrivyForwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("PrivyForwarder") {}
+}
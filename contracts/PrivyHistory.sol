@@ -0,0 +1,140 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, euint8, euint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {PrivyPoints} from "./PrivyPoints.sol";
+import {RoundLineage} from "./RoundLineage.sol";
+
+/// @title PrivyPlay Round History
+/// @notice The on-chain history of every settled or expired round of the PrivyPlay game, per player. Every handle in a
+///         record is decryptable by the player, and by the viewers the player lists on the points ledger once they ask
+///         for it with `shareRoundHistory`. Each record comes with its lineage (see `RoundLineage`), which chains the
+///         commitment emitted when the round started to the bet, outcome and reward it closed with.
+/// @dev The game grants this contract every handle it records, so that it can share them with viewers later on.
+contract PrivyHistory is ZamaEthereumConfig {
+    /// @notice A settled or expired round, identified by its global round id. Expired rounds have no bet; their outcome
+    ///         and reward are encrypted zeros.
+    struct RoundRecord {
+        uint256 id;
+        uint256 blockNumber;
+        bool expired;
+        euint64 wager;
+        euint8 roll;
+        euint8 betKind;
+        euint8 betLow;
+        euint8 betHigh;
+        ebool outcome;
+        euint64 reward;
+    }
+
+    /// @notice The confidential point ledger listing each player's viewers.
+    PrivyPoints public immutable points;
+    /// @notice The game whose rounds are recorded.
+    address public immutable game;
+
+    mapping(address => RoundRecord[]) private roundHistory;
+    mapping(address => bytes32[]) private roundLineage;
+
+    event RoundRecorded(address indexed player, uint256 indexed roundId, bytes32 lineage);
+
+    modifier onlyGame() {
+        require(msg.sender == game, "Not game");
+        _;
+    }
+
+    /// @param pointsLedger The point ledger listing each player's viewers
+    /// @param game_ The game to record, which must then register this contract with `setHistory`
+    constructor(PrivyPoints pointsLedger, address game_) {
+        require(address(pointsLedger) != address(0), "Invalid ledger");
+        require(game_ != address(0), "Invalid game");
+        points = pointsLedger;
+        game = game_;
+    }
+
+    /// @notice Append a closed round to a player's history.
+    /// @dev The game must have allowed this contract to use every handle of the record, bet handles excepted for an
+    ///      expired round.
+    /// @param player The player who played the round
+    /// @param record The round to append
+    function recordRound(address player, RoundRecord calldata record) external onlyGame {
+        roundHistory[player].push(record);
+        bytes32 lineage = RoundLineage.lineage(
+            RoundLineage.commitment(player, record.id, record.wager, record.roll),
+            record.betKind,
+            record.betLow,
+            record.betHigh,
+            record.outcome,
+            record.reward
+        );
+        roundLineage[player].push(lineage);
+
+        emit RoundRecorded(player, record.id, lineage);
+    }
+
+    /// @notice Grant the sender, an active viewer of `player` on the ledger (see `PrivyPoints.grantViewer`), every
+    ///         handle of a page of the player's round history.
+    /// @param player The player who granted the sender
+    /// @param offset The index of the first round to share
+    /// @param limit The maximum number of rounds to share
+    function shareRoundHistory(address player, uint256 offset, uint256 limit) external {
+        require(points.isViewer(player, msg.sender), "Not a viewer");
+        RoundRecord[] storage history = roundHistory[player];
+        uint256 end = offset + limit > history.length ? history.length : offset + limit;
+        for (uint256 i = offset; i < end; i++) {
+            RoundRecord storage record = history[i];
+            FHE.allow(record.wager, msg.sender);
+            FHE.allow(record.roll, msg.sender);
+            FHE.allow(record.outcome, msg.sender);
+            FHE.allow(record.reward, msg.sender);
+            if (!record.expired) {
+                FHE.allow(record.betKind, msg.sender);
+                FHE.allow(record.betLow, msg.sender);
+                FHE.allow(record.betHigh, msg.sender);
+            }
+        }
+    }
+
+    /// @notice Return the number of rounds in a player's history.
+    function getRoundCount(address player) external view returns (uint256) {
+        return roundHistory[player].length;
+    }
+
+    /// @notice Return up to `limit` rounds of a player's history, oldest first, starting at index `offset`.
+    /// @dev Every handle in a record is decryptable by the player.
+    function getRoundHistory(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (RoundRecord[] memory page) {
+        RoundRecord[] storage history = roundHistory[player];
+        if (offset >= history.length) {
+            return page;
+        }
+        uint256 end = offset + limit > history.length ? history.length : offset + limit;
+        page = new RoundRecord[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = history[i];
+        }
+    }
+
+    /// @notice Return the lineages of the same rounds as `getRoundHistory`.
+    /// @dev A record matches its lineage when `RoundLineage.lineage` of its handles, chained to
+    ///      `RoundLineage.commitment` of its player, id, wager and roll, equals it. That commitment must in turn equal
+    ///      the one emitted in the `GameStarted` event of the round.
+    function getRoundLineage(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (bytes32[] memory page) {
+        bytes32[] storage lineages = roundLineage[player];
+        if (offset >= lineages.length) {
+            return page;
+        }
+        uint256 end = offset + limit > lineages.length ? lineages.length : offset + limit;
+        page = new bytes32[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = lineages[i];
+        }
+    }
+}
@@ -0,0 +1,182 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, euint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {PrivyPoints} from "./PrivyPoints.sol";
+import {PrivyPlay} from "./PrivyPlay.sol";
+
+/// @title PrivyPlay Progressive Jackpot
+/// @notice A pool fed by a slice of every charged wager of the PrivyPlay game. Each settled round draws an encrypted
+///         number, and a round that was charged and draws zero wins the whole pool.
+/// @dev The pool is this contract's point balance on the `PrivyPoints` ledger, and the game makes it an operator of its
+///      own points so that slices can be pulled. The pool size is made publicly decryptable at most once every
+///      `REVEAL_INTERVAL_BLOCKS`, and only once `MIN_REVEAL_CONTRIBUTIONS` wagers fed it since the last reveal, as two
+///      consecutive reveals expose the sum of the slices between them. The outcome of every draw is publicly
+///      decryptable, so that winners can be announced with `announceWin` while the amount they won stays private.
+contract PrivyJackpot is ZamaEthereumConfig {
+    /// @notice The jackpot draw of a settled round.
+    struct Draw {
+        address player;
+        // Publicly decryptable.
+        ebool hit;
+        // The amount paid to the player, decryptable by them only; an encrypted zero unless the draw hit.
+        euint64 amount;
+        bool announced;
+    }
+
+    /// @notice Highest share of a wager, in percent, that can feed the pool.
+    uint64 public constant MAX_CONTRIBUTION_PERCENT = 20;
+    /// @notice Lowest number of contributions between two reveals of the pool size.
+    uint256 public constant MIN_REVEAL_CONTRIBUTIONS = 10;
+
+    /// @notice Share of every charged wager, in percent, moved into the pool.
+    uint64 public immutable CONTRIBUTION_PERCENT;
+    /// @notice A charged round wins the pool with a probability of one in `JACKPOT_ODDS`.
+    uint16 public immutable JACKPOT_ODDS;
+    /// @notice Minimum number of blocks between two public reveals of the pool size.
+    uint256 public immutable REVEAL_INTERVAL_BLOCKS;
+
+    /// @notice The confidential point ledger holding the pool.
+    PrivyPoints public immutable points;
+    /// @notice The game whose rounds feed and draw the pool.
+    address public immutable game;
+
+    /// @notice The block in which the pool size was last made publicly decryptable.
+    uint256 public revealedAt;
+    /// @notice Number of contributions since the pool size was last made publicly decryptable.
+    uint256 public contributionsSinceReveal;
+
+    euint64 private pool;
+    euint64 private revealedPool;
+    mapping(uint256 => Draw) private draws;
+
+    event JackpotDrawn(uint256 indexed roundId, address indexed player, ebool hit);
+    event JackpotWon(uint256 indexed roundId, address indexed player, euint64 amount);
+    event PoolRevealed(uint256 indexed blockNumber, euint64 pool);
+
+    modifier onlyGame() {
+        require(msg.sender == game, "Not game");
+        _;
+    }
+
+    /// @param pointsLedger The point ledger holding the pool
+    /// @param game_ The game feeding the pool, which must then register this contract with `setJackpot`
+    /// @param contributionPercent The share of every charged wager moved into the pool, in percent
+    /// @param jackpotOdds The odds against a charged round winning the pool; a power of two, at least 2
+    /// @param revealIntervalBlocks The minimum number of blocks between two public reveals of the pool size
+    constructor(
+        PrivyPoints pointsLedger,
+        address game_,
+        uint64 contributionPercent,
+        uint16 jackpotOdds,
+        uint256 revealIntervalBlocks
+    ) {
+        require(address(pointsLedger) != address(0), "Invalid ledger");
+        require(game_ != address(0), "Invalid game");
+        require(contributionPercent > 0 && contributionPercent <= MAX_CONTRIBUTION_PERCENT, "Invalid contribution");
+        // The executor only draws below powers of two, and needs at least one random bit.
+        require(jackpotOdds > 1 && jackpotOdds & (jackpotOdds - 1) == 0, "Invalid odds");
+        require(revealIntervalBlocks > 0, "Invalid reveal interval");
+        points = pointsLedger;
+        game = game_;
+        CONTRIBUTION_PERCENT = contributionPercent;
+        JACKPOT_ODDS = jackpotOdds;
+        REVEAL_INTERVAL_BLOCKS = revealIntervalBlocks;
+    }
+
+    /// @notice Move `CONTRIBUTION_PERCENT` of a charged wager from the game's points into the pool.
+    /// @dev The game must have allowed this contract to use `wager`.
+    /// @param wager The encrypted amount charged for the round
+    function contribute(euint64 wager) external onlyGame {
+        euint64 slice = FHE.div(FHE.mul(wager, CONTRIBUTION_PERCENT), 100);
+        FHE.allowTransient(slice, address(points));
+        points.confidentialTransferFrom(game, address(this), slice);
+        contributionsSinceReveal++;
+        _syncPool();
+    }
+
+    /// @notice Draw the jackpot for a settled round, paying the whole pool to the player on a hit.
+    /// @dev The game must have allowed this contract to use `eligible`. A round that was not charged never hits.
+    /// @param player The player of the round
+    /// @param roundId The game's id of the round
+    /// @param eligible Whether the round was charged (encrypted)
+    /// @return won The encrypted amount paid to the player, granted to the player
+    function draw(address player, uint256 roundId, ebool eligible) external onlyGame returns (euint64 won) {
+        ebool hit = FHE.and(eligible, FHE.eq(FHE.randEuint16(JACKPOT_ODDS), 0));
+        euint64 payout = FHE.select(hit, points.confidentialBalanceOf(address(this)), FHE.asEuint64(0));
+        FHE.allowTransient(payout, address(points));
+        won = points.confidentialTransfer(player, payout);
+        FHE.allowThis(won);
+        FHE.allow(won, player);
+
+        draws[roundId] = Draw({player: player, hit: FHE.makePubliclyDecryptable(hit), amount: won, announced: false});
+        FHE.allowThis(hit);
+        _syncPool();
+
+        emit JackpotDrawn(roundId, player, hit);
+    }
+
+    /// @notice Announce the winner of a draw using the public decryption of its outcome. Callable by anyone.
+    /// @param roundId The round whose draw hit
+    /// @param abiEncodedCleartexts The ABI-encoded decrypted outcome
+    /// @param decryptionProof The KMS public decryption proof
+    function announceWin(
+        uint256 roundId,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        Draw storage result = draws[roundId];
+        require(result.player != address(0), "Unknown draw");
+        require(!result.announced, "Already announced");
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(result.hit);
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
+        require(abi.decode(abiEncodedCleartexts, (bool)), "Not a winner");
+        result.announced = true;
+
+        emit JackpotWon(roundId, result.player, result.amount);
+    }
+
+    /// @notice The owner of the game, who can decrypt the live pool.
+    /// @dev Follows a transfer of the game's ownership; a new owner is granted the pool from its next movement on.
+    function owner() public view returns (address) {
+        return PrivyPlay(game).owner();
+    }
+
+    /// @notice Return the encrypted pool, decryptable by the owner and read by the game for its books.
+    function getPool() external view returns (euint64) {
+        return pool;
+    }
+
+    /// @notice Return the pool as of `revealedAt`, publicly decryptable (zero handle before the first reveal).
+    function getRevealedPool() external view returns (euint64) {
+        return revealedPool;
+    }
+
+    /// @notice Return the jackpot draw of a round.
+    function getDraw(uint256 roundId) external view returns (Draw memory) {
+        return draws[roundId];
+    }
+
+    /// @dev Snapshots the pool from the ledger after every movement, and reveals it once both the interval and the
+    ///      minimum number of contributions have passed.
+    function _syncPool() private {
+        pool = points.confidentialBalanceOf(address(this));
+        FHE.allowThis(pool);
+        FHE.allow(pool, game);
+        FHE.allow(pool, owner());
+
+        if (
+            contributionsSinceReveal >= MIN_REVEAL_CONTRIBUTIONS &&
+            (revealedAt == 0 || block.number >= revealedAt + REVEAL_INTERVAL_BLOCKS)
+        ) {
+            revealedPool = FHE.makePubliclyDecryptable(pool);
+            revealedAt = block.number;
+            contributionsSinceReveal = 0;
+
+            emit PoolRevealed(block.number, revealedPool);
+        }
+    }
+}
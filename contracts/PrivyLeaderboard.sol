@@ -0,0 +1,174 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, euint32, euint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @title PrivyPlay Leaderboard
+/// @notice An opt-in leaderboard for the PrivyPlay game. For every player who opted in, the game counts the rounds won
+///         and the points wagered and paid out in each epoch of `EPOCH_BLOCKS` blocks. Once an epoch is over, anyone
+///         can publish the entry of a player who is still opted in: the number of wins and the net winnings, rounded
+///         down to a multiple of `BUCKET_SIZE`, become publicly decryptable. Balances and individual rounds stay
+///         encrypted.
+/// @dev Epochs roll over with the block number: epoch `n` covers the blocks from `START_BLOCK + n * EPOCH_BLOCKS`.
+///      Net winnings are the points paid out minus the points wagered, floored at zero, so a losing epoch shows as
+///      zero. Session pots count as paid out in the epoch they are banked in.
+contract PrivyLeaderboard is ZamaEthereumConfig {
+    /// @notice A player's results over an epoch.
+    struct Entry {
+        // Decryptable by the player.
+        euint32 wins;
+        euint64 wagered;
+        euint64 paidOut;
+        bool published;
+        // Publicly decryptable once published.
+        euint32 publishedWins;
+        euint64 publishedNet;
+    }
+
+    /// @notice Number of blocks in an epoch.
+    uint256 public immutable EPOCH_BLOCKS;
+    /// @notice Published net winnings are rounded down to a multiple of this many points.
+    uint64 public immutable BUCKET_SIZE;
+    /// @notice The block in which the first epoch started.
+    uint256 public immutable START_BLOCK;
+
+    /// @notice The game whose rounds are recorded.
+    address public immutable game;
+
+    mapping(address => bool) public optedIn;
+    mapping(uint256 => mapping(address => Entry)) private entries;
+    address[] private players;
+    // Position of an opted-in player in `players`, plus one.
+    mapping(address => uint256) private playerIndex;
+
+    event OptedIn(address indexed player);
+    event OptedOut(address indexed player);
+    event EntryPublished(uint256 indexed epoch, address indexed player, euint32 wins, euint64 net);
+
+    modifier onlyGame() {
+        require(msg.sender == game, "Not game");
+        _;
+    }
+
+    /// @param game_ The game to record, which must then register this contract with `setLeaderboard`
+    /// @param epochBlocks The number of blocks in an epoch
+    /// @param bucketSize The granularity, in points, of the published net winnings
+    constructor(address game_, uint256 epochBlocks, uint64 bucketSize) {
+        require(game_ != address(0), "Invalid game");
+        require(epochBlocks > 0, "Invalid epoch length");
+        require(bucketSize > 0, "Invalid bucket size");
+        game = game_;
+        EPOCH_BLOCKS = epochBlocks;
+        BUCKET_SIZE = bucketSize;
+        START_BLOCK = block.number;
+    }
+
+    /// @notice Consent to appear on the leaderboard. Rounds are only recorded while opted in.
+    function optIn() external {
+        require(!optedIn[msg.sender], "Already opted in");
+        optedIn[msg.sender] = true;
+        players.push(msg.sender);
+        playerIndex[msg.sender] = players.length;
+
+        emit OptedIn(msg.sender);
+    }
+
+    /// @notice Withdraw consent. Entries already published stay public; the others can no longer be published.
+    function optOut() external {
+        require(optedIn[msg.sender], "Not opted in");
+        optedIn[msg.sender] = false;
+        uint256 index = playerIndex[msg.sender] - 1;
+        address last = players[players.length - 1];
+        players[index] = last;
+        playerIndex[last] = index + 1;
+        players.pop();
+        delete playerIndex[msg.sender];
+
+        emit OptedOut(msg.sender);
+    }
+
+    /// @notice Count a closed round of an opted-in player in the current epoch; ignored for other players.
+    /// @dev The game must have allowed this contract to use the three handles.
+    /// @param player The player of the round
+    /// @param won Whether the bet won (encrypted)
+    /// @param wager The encrypted wager of the round
+    /// @param charged Whether the wager was charged (encrypted); rounds that were not neither win nor wager
+    function recordRound(address player, ebool won, euint64 wager, ebool charged) external onlyGame {
+        if (!optedIn[player]) {
+            return;
+        }
+        Entry storage entry = entries[currentEpoch()][player];
+        entry.wins = FHE.add(entry.wins, FHE.asEuint32(FHE.and(won, charged)));
+        entry.wagered = FHE.add(entry.wagered, FHE.select(charged, wager, FHE.asEuint64(0)));
+        FHE.allowThis(entry.wins);
+        FHE.allow(entry.wins, player);
+        FHE.allowThis(entry.wagered);
+        FHE.allow(entry.wagered, player);
+    }
+
+    /// @notice Count points paid to an opted-in player in the current epoch; ignored for other players.
+    /// @dev The game must have allowed this contract to use `amount`.
+    /// @param player The player paid
+    /// @param amount The encrypted amount paid
+    function recordPayout(address player, euint64 amount) external onlyGame {
+        if (!optedIn[player]) {
+            return;
+        }
+        Entry storage entry = entries[currentEpoch()][player];
+        entry.paidOut = FHE.add(entry.paidOut, amount);
+        FHE.allowThis(entry.paidOut);
+        FHE.allow(entry.paidOut, player);
+    }
+
+    /// @notice Make the wins and bucketed net winnings of an opted-in player over an ended epoch publicly decryptable.
+    ///         Callable by anyone.
+    /// @param epoch The ended epoch
+    /// @param player The opted-in player
+    function publishEntry(uint256 epoch, address player) external {
+        require(epoch < currentEpoch(), "Epoch not over");
+        require(optedIn[player], "Not opted in");
+        Entry storage entry = entries[epoch][player];
+        require(FHE.isInitialized(entry.wagered), "No entry");
+        require(!entry.published, "Already published");
+
+        euint64 net = FHE.select(
+            FHE.ge(entry.paidOut, entry.wagered),
+            FHE.sub(entry.paidOut, entry.wagered),
+            FHE.asEuint64(0)
+        );
+        entry.published = true;
+        entry.publishedWins = FHE.makePubliclyDecryptable(entry.wins);
+        entry.publishedNet = FHE.makePubliclyDecryptable(FHE.mul(FHE.div(net, BUCKET_SIZE), BUCKET_SIZE));
+
+        emit EntryPublished(epoch, player, entry.publishedWins, entry.publishedNet);
+    }
+
+    /// @notice Return the index of the running epoch.
+    function currentEpoch() public view returns (uint256) {
+        return (block.number - START_BLOCK) / EPOCH_BLOCKS;
+    }
+
+    /// @notice Return a player's entry for an epoch.
+    function getEntry(uint256 epoch, address player) external view returns (Entry memory) {
+        return entries[epoch][player];
+    }
+
+    /// @notice Return the number of opted-in players.
+    function getPlayerCount() external view returns (uint256) {
+        return players.length;
+    }
+
+    /// @notice Return up to `limit` opted-in players, starting at index `offset`.
+    /// @dev The order changes as players opt out.
+    function getPlayers(uint256 offset, uint256 limit) external view returns (address[] memory page) {
+        if (offset >= players.length) {
+            return page;
+        }
+        uint256 end = offset + limit > players.length ? players.length : offset + limit;
+        page = new address[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = players[i];
+        }
+    }
+}
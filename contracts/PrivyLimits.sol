@@ -0,0 +1,231 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, euint64, ebool, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @title PrivyPlay Limits
+/// @notice Responsible-gaming limits that players set on themselves: a daily round limit, an encrypted daily spend cap,
+///         a cool-off and a self-exclusion. The game checks them whenever a round starts. A stricter limit applies at
+///         once, a looser one only `LOOSEN_DELAY` seconds later; cool-offs and exclusions can be extended but never
+///         ended early.
+/// @dev Days are UTC days (`block.timestamp / 1 days`). The spend cap is compared homomorphically with the wagers of
+///      the day: a round that would exceed it is not charged and cannot win, as if the balance were short. Whether a
+///      new cap is stricter is not known in the clear, so it applies at once as the minimum of the old and new caps,
+///      and in full after the delay. Only the wagers the game charges count towards the day's spending.
+contract PrivyLimits is ZamaEthereumConfig {
+    /// @notice A player's limits and play of the day. Zero values mean no limit.
+    struct Limits {
+        uint32 dailyRounds;
+        bool hasSpendCap;
+        euint64 dailySpendCap;
+        // A looser round limit or spend cap (an uninitialized cap removes it), applied from its timestamp on.
+        uint32 pendingDailyRounds;
+        uint64 pendingDailyRoundsAt;
+        euint64 pendingSpendCap;
+        uint64 pendingSpendCapAt;
+        uint64 coolOffUntil;
+        uint64 excludedUntil;
+        // Rounds started and wagers charged on `day`.
+        uint64 day;
+        uint32 roundsToday;
+        euint64 spentToday;
+    }
+
+    /// @notice Longest cool-off a player can take at once.
+    uint256 public constant MAX_COOL_OFF = 42 days;
+    /// @notice Shortest and longest self-exclusion.
+    uint256 public constant MIN_SELF_EXCLUSION = 180 days;
+    uint256 public constant MAX_SELF_EXCLUSION = 5 * 365 days;
+
+    /// @notice Seconds before a looser limit applies.
+    uint256 public immutable LOOSEN_DELAY;
+
+    /// @notice The game whose rounds are limited.
+    address public immutable game;
+
+    mapping(address => Limits) private limits;
+
+    event DailyRoundLimitSet(address indexed player, uint32 rounds, uint256 effectiveAt);
+    event DailySpendCapSet(address indexed player, uint256 effectiveAt);
+    event DailySpendCapRemoved(address indexed player, uint256 effectiveAt);
+    event CoolOffStarted(address indexed player, uint256 until);
+    event SelfExcluded(address indexed player, uint256 until);
+
+    modifier onlyGame() {
+        require(msg.sender == game, "Not game");
+        _;
+    }
+
+    /// @param game_ The game to limit, which must then register this contract with `setLimits`
+    /// @param loosenDelay The seconds before a looser limit applies
+    constructor(address game_, uint256 loosenDelay) {
+        require(game_ != address(0), "Invalid game");
+        require(loosenDelay > 0, "Invalid delay");
+        game = game_;
+        LOOSEN_DELAY = loosenDelay;
+    }
+
+    /// @notice Limit the rounds the sender can start per day, or lift the limit with zero. A lower limit applies at
+    ///         once and replaces any pending one; a higher one, or lifting it, after `LOOSEN_DELAY`.
+    /// @param rounds The maximum number of rounds per day, or zero for no limit
+    function setDailyRoundLimit(uint32 rounds) external {
+        Limits memory current = _current(msg.sender);
+        uint256 effectiveAt = block.timestamp;
+        if (rounds != 0 && (current.dailyRounds == 0 || rounds <= current.dailyRounds)) {
+            current.dailyRounds = rounds;
+            current.pendingDailyRounds = 0;
+            current.pendingDailyRoundsAt = 0;
+        } else {
+            effectiveAt += LOOSEN_DELAY;
+            current.pendingDailyRounds = rounds;
+            current.pendingDailyRoundsAt = uint64(effectiveAt);
+        }
+        limits[msg.sender] = current;
+
+        emit DailyRoundLimitSet(msg.sender, rounds, effectiveAt);
+    }
+
+    /// @notice Cap the points the sender can wager per day. The first cap applies at once; a later one applies at
+    ///         once as far as it is stricter than the current cap, and in full after `LOOSEN_DELAY`.
+    /// @param cap The encrypted maximum of points wagered per day
+    /// @param inputProof The input proof
+    function setDailySpendCap(externalEuint64 cap, bytes calldata inputProof) external {
+        Limits memory current = _current(msg.sender);
+        euint64 next = FHE.fromExternal(cap, inputProof);
+        uint256 effectiveAt = block.timestamp;
+        if (current.hasSpendCap) {
+            effectiveAt += LOOSEN_DELAY;
+            current.dailySpendCap = FHE.min(current.dailySpendCap, next);
+            current.pendingSpendCap = next;
+            current.pendingSpendCapAt = uint64(effectiveAt);
+            FHE.allowThis(next);
+            FHE.allow(next, msg.sender);
+        } else {
+            current.hasSpendCap = true;
+            current.dailySpendCap = next;
+        }
+        FHE.allowThis(current.dailySpendCap);
+        FHE.allow(current.dailySpendCap, msg.sender);
+        limits[msg.sender] = current;
+
+        emit DailySpendCapSet(msg.sender, effectiveAt);
+    }
+
+    /// @notice Lift the sender's daily spend cap after `LOOSEN_DELAY`.
+    function removeDailySpendCap() external {
+        Limits memory current = _current(msg.sender);
+        require(current.hasSpendCap, "No spend cap");
+        uint256 effectiveAt = block.timestamp + LOOSEN_DELAY;
+        current.pendingSpendCap = euint64.wrap(0);
+        current.pendingSpendCapAt = uint64(effectiveAt);
+        limits[msg.sender] = current;
+
+        emit DailySpendCapRemoved(msg.sender, effectiveAt);
+    }
+
+    /// @notice Stop the sender from starting rounds for `duration` seconds. Extends, never shortens, a running
+    ///         cool-off.
+    /// @param duration The length of the cool-off, up to `MAX_COOL_OFF`
+    function coolOff(uint256 duration) external {
+        require(duration > 0 && duration <= MAX_COOL_OFF, "Invalid cool-off");
+        Limits storage player = limits[msg.sender];
+        if (block.timestamp + duration > player.coolOffUntil) {
+            player.coolOffUntil = uint64(block.timestamp + duration);
+        }
+
+        emit CoolOffStarted(msg.sender, player.coolOffUntil);
+    }
+
+    /// @notice Exclude the sender from starting rounds for `duration` seconds. Extends, never shortens, a running
+    ///         exclusion.
+    /// @param duration The length of the exclusion, between `MIN_SELF_EXCLUSION` and `MAX_SELF_EXCLUSION`
+    function selfExclude(uint256 duration) external {
+        require(duration >= MIN_SELF_EXCLUSION && duration <= MAX_SELF_EXCLUSION, "Invalid exclusion");
+        Limits storage player = limits[msg.sender];
+        if (block.timestamp + duration > player.excludedUntil) {
+            player.excludedUntil = uint64(block.timestamp + duration);
+        }
+
+        emit SelfExcluded(msg.sender, player.excludedUntil);
+    }
+
+    /// @notice Count the rounds the player starts, reverting if a cool-off, an exclusion or the daily round limit
+    ///         forbids them, and check their wagers against the daily spend cap. The wagers count towards the day's
+    ///         spending only once charged, through `recordSpend`.
+    /// @dev The game must have allowed this contract to use `cost`.
+    /// @param player The player starting the rounds
+    /// @param rounds The number of rounds started: one, or the size of a batch
+    /// @param cost The encrypted total wager of the rounds
+    /// @return withinCap Whether the wager fits in the day's spend cap (encrypted), granted to the game for this
+    ///         transaction
+    function checkRound(address player, uint32 rounds, euint64 cost) external onlyGame returns (ebool withinCap) {
+        Limits memory current = _current(player);
+        _checkBreak(current);
+        require(
+            current.dailyRounds == 0 || current.roundsToday + rounds <= current.dailyRounds,
+            "Daily round limit reached"
+        );
+        current.roundsToday += rounds;
+        limits[player] = current;
+
+        if (current.hasSpendCap) {
+            withinCap = FHE.le(FHE.add(current.spentToday, cost), current.dailySpendCap);
+        } else {
+            withinCap = FHE.asEbool(true);
+        }
+        FHE.allowTransient(withinCap, msg.sender);
+    }
+
+    /// @notice Add what the game actually charged for the rounds just checked to the day's spending.
+    /// @dev The game must have allowed this contract to use `charged`, which is zero when the round was refused,
+    ///      whether by the spend cap, the balance or the house reserve.
+    /// @param player The player charged
+    /// @param charged The encrypted amount charged
+    function recordSpend(address player, euint64 charged) external onlyGame {
+        Limits storage current = limits[player];
+        current.spentToday = FHE.add(current.spentToday, charged);
+        FHE.allowThis(current.spentToday);
+        FHE.allow(current.spentToday, player);
+    }
+
+    /// @notice Revert if a cool-off or an exclusion stops the player from playing. Checked by other games over the
+    ///         same points, such as duels, which have no rounds to count.
+    /// @param player The player about to play
+    function checkBreak(address player) external view {
+        _checkBreak(limits[player]);
+    }
+
+    /// @notice Return a player's limits as they apply now, with the day's rounds and encrypted spending, decryptable
+    ///         by the player.
+    function getLimits(address player) external view returns (Limits memory) {
+        return _current(player);
+    }
+
+    function _checkBreak(Limits memory current) private view {
+        require(block.timestamp >= current.excludedUntil, "Self-excluded");
+        require(block.timestamp >= current.coolOffUntil, "Cooling off");
+    }
+
+    /// @dev Applies the pending limits whose time has come and resets the play of past days.
+    function _current(address player) private view returns (Limits memory current) {
+        current = limits[player];
+        if (current.pendingDailyRoundsAt != 0 && block.timestamp >= current.pendingDailyRoundsAt) {
+            current.dailyRounds = current.pendingDailyRounds;
+            current.pendingDailyRounds = 0;
+            current.pendingDailyRoundsAt = 0;
+        }
+        if (current.pendingSpendCapAt != 0 && block.timestamp >= current.pendingSpendCapAt) {
+            current.hasSpendCap = FHE.isInitialized(current.pendingSpendCap);
+            current.dailySpendCap = current.pendingSpendCap;
+            current.pendingSpendCap = euint64.wrap(0);
+            current.pendingSpendCapAt = 0;
+        }
+        uint64 today = uint64(block.timestamp / 1 days);
+        if (current.day != today) {
+            current.day = today;
+            current.roundsToday = 0;
+            current.spentToday = euint64.wrap(0);
+        }
+    }
+}
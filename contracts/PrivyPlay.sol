@@ -1,96 +1,804 @@
 // SPDX-License-Identifier: MIT
-pragma solidity ^0.8.24;
+pragma solidity ^0.8.27;
 
-import {FHE, euint8, euint64, ebool, externalEbool} from "@fhevm/solidity/lib/FHE.sol";
-import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, euint8, euint64, ebool, externalEuint8, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaConfig, ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {Impl, IFHEVMExecutor} from "@fhevm/solidity/lib/Impl.sol";
+import {FheType} from "@fhevm/solidity/lib/FheType.sol";
+import {Initializable} from "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import {ERC2771Context} from "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import {PrivyPoints} from "./PrivyPoints.sol";
+import {PrivyJackpot} from "./PrivyJackpot.sol";
+import {PrivyStats} from "./PrivyStats.sol";
+import {PrivyLeaderboard} from "./PrivyLeaderboard.sol";
+import {PrivyLimits} from "./PrivyLimits.sol";
+import {PrivyTimelock} from "./PrivyTimelock.sol";
+import {PrivyHistory} from "./PrivyHistory.sol";
+import {RoundLineage} from "./RoundLineage.sol";
+import {PrivyDice} from "./PrivyDice.sol";
+import {PrivyRecords} from "./PrivyRecords.sol";
+import {PrivyBatch} from "./PrivyBatch.sol";
+import {PrivyTokenSale} from "./PrivyTokenSale.sol";
 
 /// @title PrivyPlay Dice Game
-/// @notice Buy encrypted points, roll an encrypted dice, and guess big/small to win rewards.
-contract PrivyPlay is ZamaEthereumConfig {
-    uint256 public constant POINTS_PER_ETH = 1_000_000;
-    uint64 public constant PLAY_COST = 100;
-    uint64 public constant WIN_REWARD = 1_000;
+/// @notice Buy encrypted points, wager them on an encrypted dice, place an encrypted bet (exact face, odd/even or
+///         range) to win a multiple of the wager, and cash points out for ETH.
+/// @dev Points live in the `PrivyPoints` ledger, which this contract mints, burns and moves as its sole minter; players
+///      make the game an operator before wagering or redeeming. Winnings are paid out of a house reserve funded by the
+///      treasurer, the game's own point balance. Each open round locks the worst-case payout of its economics in
+///      `openExposure`, and a round is only eligible while the encrypted reserve covers every open round. Once the
+///      owner sets a `PrivyJackpot`, a slice of every charged wager feeds its pool and every bet draws it. Once the
+///      owner sets a `PrivyStats`, every closed round and every payout is counted in its publicly auditable aggregates,
+///      and once it sets a `PrivyLeaderboard`, in the epoch results of the players who opted in. Once it sets a
+///      `PrivyLimits`, every round start is checked against the responsible-gaming limits the player set, and once it
+///      sets a `PrivyHistory`, every closed round is appended to the player's history there. Once it sets a
+///      `PrivyBatch`, players can also play several rounds at once there, settled through `settleBatch`, and once it
+///      sets a `PrivyTokenSale`, buy points with allowlisted ERC-20 tokens there, minted through `mintPurchase`. The
+///      dice and bet rules live in the linked `PrivyDice` library. Players move to another deployment with
+///      `exportPoints`, which redeems their points like `requestRedemption` but sends the ETH to that deployment,
+///      which mints the points back at its own `pointsPerEth`.
+///      The owner updates the economics through a `PrivyTimelock`, and manages the add-ons and the other roles: the
+///      pauser, who can stop new purchases and rounds while letting open rounds settle and players cash out, and the
+///      treasurer, who funds the house reserve.
+///      The game is deployed behind a transparent proxy, so that it can be upgraded without abandoning the encrypted
+///      balances and permissions held by the proxy. New state variables must only ever be appended.
+///      Players can also play through the trusted ERC-2771 forwarder, which relays requests they signed: calls are
+///      attributed to `_msgSender()`, while the roles only ever act directly.
+contract PrivyPlay is ZamaEthereumConfig, Initializable, ERC2771Context {
+    /// @notice Winning payouts in percent of the wager, per bet kind.
+    struct Payouts {
+        uint64 exactFace;
+        uint64 oddEven;
+        // Indexed by the number of faces covered by the range, minus one.
+        uint64[6] range;
+    }
+
+    struct Economics {
+        uint256 pointsPerEth;
+        uint64 minWager;
+        uint64 maxWager;
+        Payouts payouts;
+    }
+
+    /// @notice A multi-round session. Winnings accumulate in an encrypted pot instead of the balance, each consecutive
+    ///         win raises the payout multiplier, and a loss empties the pot. `exposure` keeps the worst-case payouts of
+    ///         the session's settled rounds locked until it is banked.
+    struct Session {
+        bool active;
+        uint32 rounds;
+        uint64 exposure;
+        uint256 lastBlock;
+        euint8 streak;
+        euint64 pot;
+    }
+
+    uint8 public constant BET_EXACT_FACE = PrivyDice.BET_EXACT_FACE;
+    uint8 public constant BET_ODD_EVEN = PrivyDice.BET_ODD_EVEN;
+    uint8 public constant BET_RANGE = PrivyDice.BET_RANGE;
+
+    /// @notice Payout bonus, in percent, added for each consecutive win of a session.
+    uint64 public constant STREAK_BONUS_PERCENT = PrivyDice.STREAK_BONUS_PERCENT;
+    /// @notice Number of consecutive wins after which the streak bonus stops growing.
+    uint8 public constant MAX_STREAK_BONUS_STEPS = PrivyDice.MAX_STREAK_BONUS_STEPS;
+    /// @notice Highest session payout multiplier, in percent.
+    uint64 public constant MAX_STREAK_PERCENT = 100 + STREAK_BONUS_PERCENT * MAX_STREAK_BONUS_STEPS;
+    /// @notice Number of rounds after which a session must be banked.
+    uint32 public constant MAX_SESSION_ROUNDS = 10;
+
+    /// @notice Number of blocks after `startGame` during which the round can be settled.
+    uint256 public roundExpiryBlocks;
+
+    /// @notice The confidential point ledger.
+    PrivyPoints public points;
+    /// @notice The progressive jackpot, or the zero address until the owner sets it.
+    PrivyJackpot public jackpot;
+    /// @notice The roll statistics, or the zero address until the owner sets them.
+    PrivyStats public stats;
+    /// @notice The opt-in leaderboard, or the zero address until the owner sets it.
+    PrivyLeaderboard public leaderboard;
+    /// @notice The player-set limits checked on every round start, if any.
+    PrivyLimits public limits;
+    /// @notice The timelock through which the economics are updated, or the zero address until the owner sets it.
+    PrivyTimelock public timelock;
+    /// @notice The round history, or the zero address until the owner sets it.
+    PrivyHistory public history;
+
+    address public owner;
+    /// @notice The account that must call `acceptOwnership` to become the owner, if any.
+    address public pendingOwner;
+    /// @notice The account that can pause and unpause play.
+    address public pauser;
+    /// @notice The account that funds the house reserve.
+    address public treasurer;
+    /// @notice Whether buying points and starting rounds is blocked.
+    bool public paused;
+
+    uint256 public pointsPerEth;
+    uint64 public minWager;
+    uint64 public maxWager;
+    /// @notice Incremented on every economics update; rounds settle against the payouts of the version they started in.
+    uint256 public economicsVersion;
+    mapping(uint256 => Payouts) private payoutsByVersion;
+    /// @notice Worst-case payout of a single round under the current economics: `maxWager` at the highest payout.
+    uint64 public maxRoundPayout;
+
+    /// @notice Number of rounds ever started; the id of the latest round.
+    uint256 public roundCount;
+
+    /// @notice Sum of the worst-case payouts of all open rounds.
+    uint64 public openExposure;
+    euint64 private houseReserve;
+    euint64 private totalLiabilities;
 
-    mapping(address => euint64) private balances;
     mapping(address => euint8) private lastRoll;
     mapping(address => ebool) private lastOutcome;
     mapping(address => euint64) private lastReward;
     mapping(address => ebool) private roundEligible;
     mapping(address => bool) private gameActive;
+    mapping(address => uint256) private currentRoundId;
+    mapping(address => uint256) private roundStartBlock;
+    mapping(address => euint64) private roundWager;
+    mapping(address => uint256) private roundEconomicsVersion;
+    mapping(address => uint64) private roundExposure;
+    mapping(address => euint64) private pendingRedemption;
+    mapping(address => Session) private sessions;
+    /// @notice The batch table, or the zero address before it is set.
+    PrivyBatch public batch;
+    /// @notice The ERC-20 point sale, or the zero address before it is set.
+    PrivyTokenSale public tokenSale;
+    /// @dev The `pointsPerEth` of each player's pending redemption, as it was when the redemption was requested.
+    mapping(address => uint256) private redemptionRate;
+    // The deployment each player's pending redemption is exported to, or the zero address for an ETH payout.
+    mapping(address => PrivyPlay) private exportTarget;
+    /// @notice The deployment players can export their points to, or the zero address until the owner approves one.
+    PrivyPlay public successor;
 
     event PointsPurchased(address indexed player, uint256 ethAmount, uint256 points);
-    event GameStarted(address indexed player);
-    event GuessSubmitted(address indexed player);
+    /// @notice Emitted when a round starts. `commitment` binds the wager and roll handles to the round before any bet
+    ///         is placed (see `RoundLineage.commitment`).
+    event GameStarted(
+        address indexed player,
+        uint256 indexed roundId,
+        uint256 economicsVersion,
+        uint256 deadline,
+        euint64 wager,
+        euint8 roll,
+        bytes32 commitment
+    );
+    event GuessSubmitted(
+        address indexed player,
+        uint256 indexed roundId,
+        euint8 betKind,
+        euint8 betLow,
+        euint8 betHigh
+    );
+    /// @notice Emitted once per round, when it is settled by a bet or closed by `expireRound`.
+    event RoundSettled(
+        address indexed player,
+        uint256 indexed roundId,
+        uint256 economicsVersion,
+        Payouts payouts,
+        euint8 roll,
+        ebool outcome,
+        euint64 reward
+    );
+    event RoundExpired(address indexed player, uint256 indexed roundId, address indexed caller);
+    event SessionStarted(address indexed player);
+    event SessionBanked(address indexed player, address indexed caller, uint256 rounds, euint64 pot);
+    event RedemptionRequested(address indexed player, euint64 amount);
+    event PointsRedeemed(address indexed player, uint256 points, uint256 ethAmount);
+    event PointsExported(address indexed player, address indexed successor, uint256 points, uint256 ethAmount);
+    event EconomicsUpdated(uint256 indexed version, Economics economics);
+    event HouseReserveFunded(address indexed funder, uint256 ethAmount, uint256 points);
+    event JackpotSet(address indexed jackpot);
+    event StatsSet(address indexed stats);
+    event LeaderboardSet(address indexed leaderboard);
+    event LimitsSet(address indexed limits);
+    event TimelockSet(address indexed timelock);
+    event HistorySet(address indexed history);
+    event BatchSet(address indexed batch);
+    event TokenSaleSet(address indexed tokenSale);
+    event SuccessorSet(address indexed successor);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event PauserSet(address indexed pauser);
+    event TreasurerSet(address indexed treasurer);
+    event Paused(address indexed account);
+    event Unpaused(address indexed account);
+
+    // The checks of the modifiers live in functions rather than inline, which keeps the game under the code size limit.
+    modifier onlyOwner() {
+        _checkOwner();
+        _;
+    }
+
+    modifier onlyPauser() {
+        _checkPauser();
+        _;
+    }
+
+    modifier whenNotPaused() {
+        _requireNotPaused();
+        _;
+    }
+
+    /// @dev The implementation itself can never be initialized; only proxies pointing to it can. The forwarder is an
+    ///      immutable of the implementation, so an upgrade can replace it.
+    /// @param trustedForwarder_ The ERC-2771 forwarder relaying players' signed requests, or the zero address for none
+    constructor(address trustedForwarder_) ERC2771Context(trustedForwarder_) {
+        _disableInitializers();
+    }
+
+    /// @notice Initialize the game behind its proxy, with the caller as owner, pauser and treasurer.
+    /// @param pointsLedger The point ledger, whose minter must be set to this contract
+    /// @param initialEconomics The exchange rate, wager bounds and payout tables in effect at deployment, until the
+    ///        timelock updates them
+    /// @param expiryBlocks The number of blocks a started round stays open for a bet
+    function initialize(
+        PrivyPoints pointsLedger,
+        Economics memory initialEconomics,
+        uint256 expiryBlocks
+    ) external initializer {
+        require(address(pointsLedger) != address(0), "Invalid ledger");
+        require(expiryBlocks > 0, "Invalid expiry window");
+        // The inherited constructor only configured the implementation's storage.
+        FHE.setCoprocessor(ZamaConfig.getEthereumCoprocessorConfig());
+        points = pointsLedger;
+        roundExpiryBlocks = expiryBlocks;
+        owner = msg.sender;
+        pauser = msg.sender;
+        treasurer = msg.sender;
+        _setEconomics(initialEconomics);
+    }
 
     /// @notice Buy encrypted points with ETH.
     function buyPoints() external payable {
-        require(msg.value > 0, "No ETH sent");
+        _buyPoints(_msgSender());
+    }
 
-        uint256 pointsValue = (msg.value * POINTS_PER_ETH) / 1 ether;
-        require(pointsValue > 0, "Amount too small");
-        require(pointsValue <= type(uint64).max, "Points overflow");
+    /// @notice Buy encrypted points with ETH for another player, such as a player exporting points from a previous
+    ///         deployment.
+    /// @param player The player credited with the points
+    function buyPointsFor(address player) external payable {
+        _buyPoints(player);
+    }
+
+    /// @notice Add ETH to the house reserve that pays out winnings, at the current `pointsPerEth`.
+    function fundHouseReserve() external payable {
+        require(msg.sender == treasurer, "Not treasurer");
+        uint64 pointsValue = _pointsForEth();
+        _mint(address(this), pointsValue);
+        _syncHouse();
+
+        emit HouseReserveFunded(msg.sender, msg.value, pointsValue);
+    }
+
+    /// @notice Burn house points and queue them for an ETH payout to the treasurer, finalized like a redemption.
+    /// @dev Only the reserve that open rounds and sessions do not lock (`openExposure`) can be withdrawn; a larger
+    ///      amount burns nothing.
+    /// @param amount The points to withdraw
+    function withdrawHouseReserve(uint64 amount) external {
+        require(msg.sender == treasurer, "Not treasurer");
+        euint64 requested = FHE.select(_reserveCovers(amount), FHE.asEuint64(amount), FHE.asEuint64(0));
+        FHE.allowTransient(requested, address(points));
+        _queueRedemption(msg.sender, points.burnFrom(address(this), requested));
+    }
+
+    /// @notice Offer the ownership to `newOwner`, who takes it over with `acceptOwnership`. Replaces any pending offer;
+    ///         the zero address cancels it.
+    /// @param newOwner The proposed owner
+    function transferOwnership(address newOwner) external onlyOwner {
+        pendingOwner = newOwner;
+
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+
+    /// @notice Take over the ownership offered to the sender.
+    /// @dev The house aggregates are granted to the new owner from the next point movement on.
+    function acceptOwnership() external {
+        require(msg.sender == pendingOwner, "Not pending owner");
+        emit OwnershipTransferred(owner, msg.sender);
+        owner = msg.sender;
+        pendingOwner = address(0);
+    }
+
+    /// @notice Hand the pauser role to another account.
+    /// @param pauser_ The new pauser
+    function setPauser(address pauser_) external onlyOwner {
+        require(pauser_ != address(0), "Invalid pauser");
+        pauser = pauser_;
+
+        emit PauserSet(pauser_);
+    }
+
+    /// @notice Hand the treasurer role to another account.
+    /// @dev The house aggregates are granted to the new treasurer from the next point movement on.
+    /// @param treasurer_ The new treasurer
+    function setTreasurer(address treasurer_) external onlyOwner {
+        require(treasurer_ != address(0), "Invalid treasurer");
+        treasurer = treasurer_;
+
+        emit TreasurerSet(treasurer_);
+    }
+
+    /// @notice Block buying points and starting rounds or sessions, e.g. while a bug in settlement is investigated.
+    ///         Open rounds can still be settled or expired, sessions banked and points redeemed.
+    function pause() external onlyPauser {
+        _requireNotPaused();
+        paused = true;
+
+        emit Paused(msg.sender);
+    }
+
+    /// @notice Resume play after a pause.
+    function unpause() external onlyPauser {
+        require(paused, "Not paused");
+        paused = false;
+
+        emit Unpaused(msg.sender);
+    }
+
+    /// @notice Attach the progressive jackpot. Can only be done once.
+    /// @dev Makes the jackpot an operator of the game's points, so it can pull its slice of every charged wager.
+    /// @param jackpot_ A jackpot deployed for this game
+    function setJackpot(PrivyJackpot jackpot_) external onlyOwner {
+        require(address(jackpot) == address(0), "Jackpot already set");
+        require(jackpot_.game() == address(this), "Invalid jackpot");
+        jackpot = jackpot_;
+        points.setOperator(address(jackpot_), type(uint48).max);
+
+        emit JackpotSet(address(jackpot_));
+    }
+
+    /// @notice Attach the roll statistics. Can only be done once; rounds closed before are not counted.
+    /// @param stats_ A statistics contract deployed for this game
+    function setStats(PrivyStats stats_) external onlyOwner {
+        require(address(stats) == address(0), "Stats already set");
+        require(stats_.game() == address(this), "Invalid stats");
+        stats = stats_;
+
+        emit StatsSet(address(stats_));
+    }
+
+    /// @notice Attach the opt-in leaderboard. Can only be done once; rounds closed before are not counted.
+    /// @param leaderboard_ A leaderboard deployed for this game
+    function setLeaderboard(PrivyLeaderboard leaderboard_) external onlyOwner {
+        require(address(leaderboard) == address(0), "Leaderboard already set");
+        require(leaderboard_.game() == address(this), "Invalid leaderboard");
+        leaderboard = leaderboard_;
+
+        emit LeaderboardSet(address(leaderboard_));
+    }
+
+    /// @notice Attach the responsible-gaming limits. Can only be done once.
+    /// @param limits_ A limits contract deployed for this game
+    function setLimits(PrivyLimits limits_) external onlyOwner {
+        require(address(limits) == address(0), "Limits already set");
+        require(limits_.game() == address(this), "Invalid limits");
+        limits = limits_;
+
+        emit LimitsSet(address(limits_));
+    }
+
+    /// @notice Attach the economics timelock. Can only be done once; the economics cannot change before.
+    /// @param timelock_ A timelock deployed for this game
+    function setTimelock(PrivyTimelock timelock_) external onlyOwner {
+        require(address(timelock) == address(0), "Timelock already set");
+        require(address(timelock_.game()) == address(this), "Invalid timelock");
+        timelock = timelock_;
+
+        emit TimelockSet(address(timelock_));
+    }
+
+    /// @notice Attach the round history. Can only be done once; rounds closed before are not recorded.
+    /// @param history_ A history deployed for this game
+    function setHistory(PrivyHistory history_) external onlyOwner {
+        require(address(history) == address(0), "History already set");
+        require(history_.game() == address(this), "Invalid history");
+        history = history_;
+
+        emit HistorySet(address(history_));
+    }
+
+    /// @notice Attach the batch table. Can only be done once.
+    /// @param batch_ A batch table deployed for this game
+    function setBatch(PrivyBatch batch_) external onlyOwner {
+        require(address(batch) == address(0), "Batch already set");
+        require(address(batch_.game()) == address(this), "Invalid batch");
+        batch = batch_;
+
+        emit BatchSet(address(batch_));
+    }
+
+    /// @notice Attach the ERC-20 point sale. Can only be done once.
+    /// @param tokenSale_ A token sale deployed for this game
+    function setTokenSale(PrivyTokenSale tokenSale_) external onlyOwner {
+        require(address(tokenSale) == address(0), "Token sale already set");
+        require(address(tokenSale_.game()) == address(this), "Invalid token sale");
+        tokenSale = tokenSale_;
+
+        emit TokenSaleSet(address(tokenSale_));
+    }
+
+    /// @notice Approve the deployment players can export their points to. Can only be done once.
+    /// @param successor_ The new deployment of the game
+    function setSuccessor(PrivyPlay successor_) external onlyOwner {
+        require(address(successor) == address(0), "Successor already set");
+        require(address(successor_) != address(0) && successor_ != this, "Invalid successor");
+        successor = successor_;
+
+        emit SuccessorSet(address(successor_));
+    }
+
+    /// @notice Start a game round: charge an encrypted wager and roll an encrypted dice (1-6).
+    /// @dev The wager is clamped to [`minWager`, `maxWager`] and moved to the house reserve through the ledger, so the
+    ///      game must be an operator of the player. Nothing is charged, and the round cannot win, if the balance cannot
+    ///      cover the wager, the house reserve cannot cover the worst-case payout of every open round, or the wager
+    ///      would exceed the player's daily spend cap. Reverts while the player's other limits forbid a new round.
+    /// @param wager The encrypted wager
+    /// @param inputProof The input proof
+    function startGame(externalEuint64 wager, bytes calldata inputProof) external {
+        _startSingleRound(wager, inputProof);
+    }
+
+    /// @notice Open a session and play its first round, as `startGame` does.
+    /// @dev Session rounds pay into the encrypted pot with the streak multiplier. They lock the worst-case payout at
+    ///      `MAX_STREAK_PERCENT`, and keep it locked once settled, until the session is banked.
+    /// @param wager The encrypted wager of the first round
+    /// @param inputProof The input proof
+    function startSession(externalEuint64 wager, bytes calldata inputProof) external {
+        address player = _msgSender();
+        Session storage session = sessions[player];
+        require(!session.active, "Session active");
+        // `_startRound` rejects a player whose round is still open.
+        session.active = true;
+        session.rounds = 1;
+        session.streak = FHE.asEuint8(0);
+        session.pot = FHE.asEuint64(0);
+        _allowSession(player);
+
+        emit SessionStarted(player);
+        _startRound(wager, inputProof, _sessionRoundExposure());
+    }
+
+    /// @notice Risk the session pot on another round. A win adds to the pot with a higher multiplier, a loss empties
+    ///         it.
+    /// @param wager The encrypted wager of the round
+    /// @param inputProof The input proof
+    function rollAgain(externalEuint64 wager, bytes calldata inputProof) external {
+        address player = _msgSender();
+        Session storage session = _activeSession(player);
+        require(session.rounds < MAX_SESSION_ROUNDS, "Session full");
+        session.rounds++;
+        _startRound(wager, inputProof, _sessionRoundExposure());
+    }
+
+    /// @notice Pay the session pot to the player and close the session. Callable by the player between rounds, or by
+    ///         any keeper once the session has been idle for `roundExpiryBlocks`, to release its locked exposure.
+    /// @param player The player whose session is banked
+    function bankSession(address player) external {
+        Session storage session = _activeSession(player);
+        require(!gameActive[player], "Game already active");
+        address caller = _msgSender();
+        require(caller == player || block.number > session.lastBlock + roundExpiryBlocks, "Session not idle");
+
+        euint64 pot = session.pot;
+        uint32 rounds = session.rounds;
+        openExposure -= session.exposure;
+        delete sessions[player];
+
+        FHE.allowTransient(pot, address(points));
+        points.confidentialTransfer(player, pot);
+        _syncHouse();
+        PrivyRecords.recordPayout(stats, leaderboard, player, pot);
+
+        emit SessionBanked(player, caller, rounds, pot);
+    }
+
+    /// @dev Opens a round for the sender outside of any session, which locks the worst-case payout of a single round.
+    function _startSingleRound(externalEuint64 wager, bytes calldata inputProof) private {
+        require(!sessions[_msgSender()].active, "Session active");
+        _startRound(wager, inputProof, maxRoundPayout);
+    }
+
+    /// @dev Opens a round for the sender that locks `exposure` of the house reserve.
+    function _startRound(externalEuint64 wager, bytes calldata inputProof, uint64 exposure) private whenNotPaused {
+        address player = _msgSender();
+        require(!gameActive[player], "Game already active");
+        gameActive[player] = true;
+        currentRoundId[player] = ++roundCount;
+        roundStartBlock[player] = block.number;
+        roundEconomicsVersion[player] = economicsVersion;
+        roundExposure[player] = exposure;
+        openExposure += exposure;
+
+        euint64 cost = PrivyDice.clampWager(
+            euint64.wrap(_verifyInput(externalEuint64.unwrap(wager), inputProof, FheType.Uint64)),
+            minWager,
+            maxWager
+        );
+        _chargeWager(player, cost);
 
-        euint64 encryptedPoints = FHE.asEuint64(uint64(pointsValue));
-        balances[msg.sender] = FHE.add(balances[msg.sender], encryptedPoints);
+        euint8 diceRoll = PrivyDice.roll();
+        lastRoll[player] = diceRoll;
 
-        FHE.allowThis(balances[msg.sender]);
-        FHE.allow(balances[msg.sender], msg.sender);
+        FHE.allowThis(roundEligible[player]);
+        FHE.allow(roundEligible[player], player);
+        FHE.allowThis(roundWager[player]);
+        FHE.allow(roundWager[player], player);
+        FHE.allowThis(lastRoll[player]);
+        FHE.allow(lastRoll[player], player);
 
-        emit PointsPurchased(msg.sender, msg.value, pointsValue);
+        emit GameStarted(
+            player,
+            roundCount,
+            economicsVersion,
+            _roundDeadline(player),
+            roundWager[player],
+            diceRoll,
+            RoundLineage.commitment(player, roundCount, roundWager[player], diceRoll)
+        );
     }
 
-    /// @notice Start a game round: charge points and roll an encrypted dice (1-6).
-    function startGame() external {
-        require(!gameActive[msg.sender], "Game already active");
-        gameActive[msg.sender] = true;
+    /// @notice Settle the round with an encrypted bet.
+    /// @dev Every bet kind is evaluated homomorphically, so the transaction does not reveal which one was placed.
+    ///      `low` is the face for `BET_EXACT_FACE`, the parity (1 odd, 0 even) for `BET_ODD_EVEN`, and with `high`
+    ///      the inclusive bounds for `BET_RANGE`. Unknown kinds and empty ranges never win.
+    /// @param betKind The encrypted bet kind
+    /// @param low The encrypted face, parity or lower range bound
+    /// @param high The encrypted upper range bound (ignored by the other kinds)
+    /// @param inputProof The input proof
+    function submitGuess(
+        externalEuint8 betKind,
+        externalEuint8 low,
+        externalEuint8 high,
+        bytes calldata inputProof
+    ) external {
+        address player = _msgSender();
+        require(block.number <= _activeRoundDeadline(player), "Round expired");
+        _submitGuess(player, betKind, low, high, inputProof);
+    }
+
+    /// @notice Play a whole round in one transaction: charge the wager, roll the dice and settle the bet, as
+    ///         `startGame` then `submitGuess` do. The roll is encrypted either way, so betting before it is drawn
+    ///         changes nothing for the player; the round is closed when the transaction ends.
+    /// @param wager The encrypted wager
+    /// @param betKind The encrypted bet kind
+    /// @param low The encrypted face, parity or lower range bound
+    /// @param high The encrypted upper range bound (ignored by the other kinds)
+    /// @param inputProof The input proof covering the wager and the bet
+    function playRound(
+        externalEuint64 wager,
+        externalEuint8 betKind,
+        externalEuint8 low,
+        externalEuint8 high,
+        bytes calldata inputProof
+    ) external {
+        _startSingleRound(wager, inputProof);
+        _submitGuess(_msgSender(), betKind, low, high, inputProof);
+    }
+
+    /// @dev Settles the player's open round with their bet, draws the jackpot and records the round.
+    function _submitGuess(
+        address player,
+        externalEuint8 betKind,
+        externalEuint8 low,
+        externalEuint8 high,
+        bytes calldata inputProof
+    ) private {
+        _closeRound(player);
+
+        euint8 kind = euint8.wrap(_verifyInput(externalEuint8.unwrap(betKind), inputProof, FheType.Uint8));
+        euint8 betLow = euint8.wrap(_verifyInput(externalEuint8.unwrap(low), inputProof, FheType.Uint8));
+        euint8 betHigh = euint8.wrap(_verifyInput(externalEuint8.unwrap(high), inputProof, FheType.Uint8));
+        _settleBet(player, kind, betLow, betHigh);
+        _drawJackpot(player);
+        _recordRound(player, false, kind, betLow, betHigh);
+
+        emit GuessSubmitted(player, currentRoundId[player], kind, betLow, betHigh);
+        _emitRoundSettled(player);
+    }
+
+    /// @notice Close a round that was not settled before its deadline. Callable by the player or any keeper.
+    /// @dev The round is forfeited: the wager stays with the house, as for a losing bet, and a session loses its pot.
+    ///      Refunding it instead would let a player abandon every round whose roll they did not like.
+    /// @param player The player whose round expired
+    function expireRound(address player) external {
+        require(block.number > _activeRoundDeadline(player), "Round not expired");
+        _closeRound(player);
+
+        lastOutcome[player] = FHE.asEbool(false);
+        lastReward[player] = FHE.asEuint64(0);
+        Session storage session = sessions[player];
+        if (session.active) {
+            session.streak = FHE.asEuint8(0);
+            session.pot = FHE.asEuint64(0);
+            _allowSession(player);
+        }
+        _allowOutcome(player);
+        _recordRound(player, true, euint8.wrap(0), euint8.wrap(0), euint8.wrap(0));
+
+        emit RoundExpired(player, currentRoundId[player], _msgSender());
+        _emitRoundSettled(player);
+    }
 
-        euint64 cost = FHE.asEuint64(PLAY_COST);
-        ebool hasEnough = FHE.ge(balances[msg.sender], cost);
-        balances[msg.sender] = FHE.select(hasEnough, FHE.sub(balances[msg.sender], cost), balances[msg.sender]);
-        roundEligible[msg.sender] = hasEnough;
+    /// @notice Charge the stake of a batch of rounds played on the batch table and pay its reward. Only callable by the
+    ///         batch table.
+    /// @dev The stake is charged as a whole, like a single wager, against the player's balance and limits and the
+    ///      house reserve, with `exposure` the worst-case reward of the batch; if it cannot be charged, nothing is
+    ///      paid.
+    ///      Batches settle within the transaction, so they lock no exposure. They do not feed the jackpot, and are not
+    ///      counted in the statistics, the leaderboard or the history.
+    /// @param player The player of the batch, who must have made the game an operator
+    /// @param rounds The number of rounds in the batch
+    /// @param stake The encrypted total wager
+    /// @param reward The encrypted total reward
+    /// @param exposure The worst-case reward of the batch
+    /// @return eligible Whether the stake was charged, granted to the batch table for this transaction
+    function settleBatch(
+        address player,
+        uint32 rounds,
+        euint64 stake,
+        euint64 reward,
+        uint64 exposure
+    ) external whenNotPaused returns (ebool eligible) {
+        require(msg.sender == address(batch), "Not batch");
+        eligible = FHE.ne(_charge(player, rounds, stake, exposure), 0);
+        euint64 paid = FHE.select(eligible, reward, FHE.asEuint64(0));
+        FHE.allowTransient(paid, address(points));
+        points.confidentialTransfer(player, paid);
+        _syncHouse();
 
-        euint8 diceRoll = FHE.add(FHE.randEuint8(6), FHE.asEuint8(1));
-        lastRoll[msg.sender] = diceRoll;
+        FHE.allowTransient(eligible, msg.sender);
+    }
 
-        FHE.allowThis(balances[msg.sender]);
-        FHE.allow(balances[msg.sender], msg.sender);
-        FHE.allowThis(roundEligible[msg.sender]);
-        FHE.allowThis(lastRoll[msg.sender]);
-        FHE.allow(lastRoll[msg.sender], msg.sender);
+    /// @notice Mint the points a player bought on the token sale. Only callable by the token sale, which prices them
+    ///         and keeps the tokens paid for them.
+    /// @dev The points are play-only, as no ETH backs them: the player can wager them but not redeem them.
+    /// @param player The buyer
+    /// @param amount The points bought
+    function mintPurchase(address player, uint64 amount) external whenNotPaused {
+        require(msg.sender == address(tokenSale), "Not token sale");
+        euint64 encryptedAmount = FHE.asEuint64(amount);
+        FHE.allowTransient(encryptedAmount, address(points));
+        points.mintPlayOnly(player, encryptedAmount);
+        _syncHouse();
+    }
 
-        emit GameStarted(msg.sender);
+    /// @notice Burn an encrypted amount of points and queue it for an ETH payout.
+    /// @dev The game burns through the ledger, so it must be an operator of the player. Amounts above the balance
+    ///      burn nothing; the burned amount is made publicly decryptable so that `finalizeRedemption` can pay it out
+    ///      once the KMS has decrypted it.
+    /// @param amount The encrypted amount of points to redeem
+    /// @param inputProof The input proof
+    function requestRedemption(externalEuint64 amount, bytes calldata inputProof) external {
+        _requestRedemption(amount, inputProof);
     }
 
-    /// @notice Submit an encrypted guess (true for big, false for small).
-    /// @param guess The encrypted guess
+    /// @notice Burn an encrypted amount of points and queue it for export to the successor the owner approved.
+    ///         Finalized like a redemption, except that the ETH buys points for the player on the successor with
+    ///         `buyPointsFor`.
+    /// @dev The ETH behind the points moves with them, so the successor never mints points it was not paid for.
+    /// @param target The approved successor, which the player names so that they export where they expect to
+    /// @param amount The encrypted amount of points to export
     /// @param inputProof The input proof
-    function submitGuess(externalEbool guess, bytes calldata inputProof) external {
-        require(gameActive[msg.sender], "No active game");
-        gameActive[msg.sender] = false;
+    function exportPoints(PrivyPlay target, externalEuint64 amount, bytes calldata inputProof) external {
+        require(address(target) != address(0) && target == successor, "Invalid successor");
+        exportTarget[_msgSender()] = target;
+        _requestRedemption(amount, inputProof);
+    }
+
+    function _requestRedemption(externalEuint64 amount, bytes calldata inputProof) private {
+        address player = _msgSender();
+        euint64 requested = euint64.wrap(_verifyInput(externalEuint64.unwrap(amount), inputProof, FheType.Uint64));
+        FHE.allowTransient(requested, address(points));
+        _queueRedemption(player, points.burnFrom(player, requested));
+    }
+
+    function _queueRedemption(address player, euint64 burned) private {
+        require(!FHE.isInitialized(pendingRedemption[player]), "Redemption pending");
+        pendingRedemption[player] = FHE.makePubliclyDecryptable(burned);
+        redemptionRate[player] = pointsPerEth;
+        _syncHouse();
+
+        FHE.allowThis(pendingRedemption[player]);
+        FHE.allow(pendingRedemption[player], player);
+
+        emit RedemptionRequested(player, pendingRedemption[player]);
+    }
+
+    /// @notice Pay out a pending redemption or export using the public decryption of the burned amount, at the
+    ///         `pointsPerEth` in force when it was requested.
+    /// @param player The player whose redemption is settled
+    /// @param abiEncodedCleartexts The ABI-encoded decrypted burned amount
+    /// @param decryptionProof The KMS public decryption proof
+    function finalizeRedemption(
+        address player,
+        bytes calldata abiEncodedCleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        euint64 pending = pendingRedemption[player];
+        require(FHE.isInitialized(pending), "No pending redemption");
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(pending);
+        FHE.checkSignatures(handles, abiEncodedCleartexts, decryptionProof);
 
-        ebool encryptedGuess = FHE.fromExternal(guess, inputProof);
-        ebool isBig = FHE.ge(lastRoll[msg.sender], FHE.asEuint8(4));
-        ebool isWin = FHE.eq(isBig, encryptedGuess);
+        uint64 redeemed = abi.decode(abiEncodedCleartexts, (uint64));
+        uint256 ethAmount = (uint256(redeemed) * 1 ether) / redemptionRate[player];
+        pendingRedemption[player] = euint64.wrap(0);
+        delete redemptionRate[player];
 
-        euint64 rewardIfWin = FHE.select(isWin, FHE.asEuint64(WIN_REWARD), FHE.asEuint64(0));
-        euint64 reward = FHE.select(roundEligible[msg.sender], rewardIfWin, FHE.asEuint64(0));
-        balances[msg.sender] = FHE.add(balances[msg.sender], reward);
-        lastOutcome[msg.sender] = isWin;
-        lastReward[msg.sender] = reward;
+        PrivyPlay target = exportTarget[player];
+        if (address(target) != address(0)) {
+            delete exportTarget[player];
+            try target.buyPointsFor{value: ethAmount}(player) {
+                emit PointsExported(player, address(target), redeemed, ethAmount);
+                return;
+            } catch {
+                // The successor refused the ETH, e.g. while paused or for too few points: the points are already
+                // burned here, so the player is paid out in ETH instead.
+            }
+        }
+        if (ethAmount > 0) {
+            (bool sent, ) = payable(player).call{value: ethAmount}("");
+            require(sent, "ETH transfer failed");
+        }
+        emit PointsRedeemed(player, redeemed, ethAmount);
+    }
+
+    /// @notice Apply new economics. Only callable by the timelock, once their delay has elapsed.
+    /// @dev Rounds already started keep the wager and payout tables they were started with.
+    /// @param next The exchange rate, wager bounds and payout tables to apply
+    function updateEconomics(Economics memory next) external {
+        require(msg.sender == address(timelock), "Not timelock");
+        _setEconomics(next);
+    }
+
+    /// @notice Revert unless `next` is a valid update of the economics, and return the worst-case payout of a single
+    ///         round under them.
+    /// @dev The exchange rate prices every outstanding point, and lowering it would leave the ETH the game holds short
+    ///      of what they redeem for, so it can only change while the game holds no ETH, and so no point bought with it.
+    ///      The wager bounds and payout tables are checked by `PrivyDice.checkPayouts`.
+    function validateEconomics(Economics memory next) public view returns (uint64) {
+        require(next.pointsPerEth > 0, "Invalid exchange rate");
+        require(next.pointsPerEth == pointsPerEth || address(this).balance == 0, "Points outstanding");
+        return
+            PrivyDice.checkPayouts(
+                next.minWager,
+                next.maxWager,
+                next.payouts.exactFace,
+                next.payouts.oddEven,
+                next.payouts.range
+            );
+    }
+
+    /// @notice Return the payout tables currently offered to new rounds.
+    function getPayouts() external view returns (Payouts memory) {
+        return payoutsByVersion[economicsVersion];
+    }
+
+    /// @notice Return the encrypted house reserve (the game's point balance, less the play-only points wagered into
+    ///         it), decryptable by the owner and the treasurer.
+    function getHouseReserve() external view returns (euint64) {
+        return houseReserve;
+    }
 
-        FHE.allowThis(balances[msg.sender]);
-        FHE.allow(balances[msg.sender], msg.sender);
-        FHE.allowThis(lastOutcome[msg.sender]);
-        FHE.allow(lastOutcome[msg.sender], msg.sender);
-        FHE.allowThis(lastReward[msg.sender]);
-        FHE.allow(lastReward[msg.sender], msg.sender);
+    /// @notice Return the encrypted sum of all player balances (the point supply outside the reserve), decryptable by
+    ///         the owner and the treasurer.
+    /// @dev Points burned for a pending redemption are no longer counted; they are public once decrypted.
+    function getTotalLiabilities() external view returns (euint64) {
+        return totalLiabilities;
+    }
 
-        emit GuessSubmitted(msg.sender);
+    /// @notice Return the encrypted wager of the player's last round, after clamping.
+    function getLastWager(address player) external view returns (euint64) {
+        return roundWager[player];
     }
 
-    /// @notice Return the encrypted points balance for a player.
-    function getBalance(address player) external view returns (euint64) {
-        return balances[player];
+    /// @notice Return whether the player's last round was charged and could win (encrypted).
+    function getLastEligible(address player) external view returns (ebool) {
+        return roundEligible[player];
     }
 
     /// @notice Return the encrypted last dice roll for a player.
@@ -108,8 +816,296 @@ contract PrivyPlay is ZamaEthereumConfig {
         return lastReward[player];
     }
 
-    /// @notice Return whether a player has an active game round.
-    function isGameActive(address player) external view returns (bool) {
-        return gameActive[player];
+    /// @notice Return the encrypted amount awaiting redemption for a player (zero handle if none).
+    function getPendingRedemption(address player) external view returns (euint64) {
+        return pendingRedemption[player];
+    }
+
+    /// @notice Return a player's session: whether one is open, its number of rounds, the exposure its settled rounds
+    ///         keep locked, and its encrypted streak and pot, decryptable by the player.
+    function getSession(
+        address player
+    ) external view returns (bool active, uint256 rounds, uint64 exposure, euint8 streak, euint64 pot) {
+        Session storage session = sessions[player];
+        return (session.active, session.rounds, session.exposure, session.streak, session.pot);
+    }
+
+    /// @notice Return the status of a player's round: whether one is active, the block it started in, the last
+    ///         block in which it can be settled, and whether that deadline has passed.
+    function getRoundStatus(
+        address player
+    ) external view returns (bool active, uint256 startBlock, uint256 deadline, bool expired) {
+        active = gameActive[player];
+        if (!active) {
+            return (false, 0, 0, false);
+        }
+        startBlock = roundStartBlock[player];
+        deadline = _roundDeadline(player);
+        expired = block.number > deadline;
+    }
+
+    /// @dev Pays the bet of the player's round against the payout tables of the economics it started with, into the
+    ///      session pot if one is open.
+    function _settleBet(address player, euint8 kind, euint8 betLow, euint8 betHigh) private {
+        Payouts storage payouts = payoutsByVersion[roundEconomicsVersion[player]];
+        (ebool isWin, euint64 payoutPercent) = PrivyDice.evaluateBet(
+            lastRoll[player],
+            kind,
+            betLow,
+            betHigh,
+            payouts.exactFace,
+            payouts.oddEven,
+            payouts.range
+        );
+
+        euint64 winAmount = PrivyDice.payout(roundWager[player], payoutPercent);
+        euint64 rewardIfWin = FHE.select(isWin, winAmount, FHE.asEuint64(0));
+        euint64 reward = FHE.select(roundEligible[player], rewardIfWin, FHE.asEuint64(0));
+        if (sessions[player].active) {
+            reward = _settleSessionRound(player, isWin, reward);
+        } else {
+            // Always covered: eligible rounds only start while the reserve covers `openExposure`, and no reward
+            // exceeds the exposure its round locked.
+            FHE.allowTransient(reward, address(points));
+            points.confidentialTransfer(player, reward);
+            _syncHouse();
+            PrivyRecords.recordPayout(stats, leaderboard, player, reward);
+        }
+        lastOutcome[player] = isWin;
+        lastReward[player] = reward;
+
+        _allowOutcome(player);
+    }
+
+    /// @dev Applies the streak multiplier to the reward of the player's session round and adds it to the pot. A loss
+    ///      resets the streak and empties the pot; a round that could not be charged leaves both unchanged.
+    /// @return boosted The reward credited to the pot
+    function _settleSessionRound(address player, ebool isWin, euint64 reward) private returns (euint64 boosted) {
+        Session storage session = sessions[player];
+        (boosted, session.streak, session.pot) = PrivyDice.settleStreak(
+            session.streak,
+            session.pot,
+            isWin,
+            roundEligible[player],
+            reward
+        );
+        _allowSession(player);
+    }
+
+    function _allowOutcome(address player) private {
+        FHE.allowThis(lastOutcome[player]);
+        FHE.allow(lastOutcome[player], player);
+        FHE.allowThis(lastReward[player]);
+        FHE.allow(lastReward[player], player);
+    }
+
+    function _allowSession(address player) private {
+        FHE.allowThis(sessions[player].streak);
+        FHE.allow(sessions[player].streak, player);
+        FHE.allowThis(sessions[player].pot);
+        FHE.allow(sessions[player].pot, player);
+    }
+
+    /// @dev Returns the player's session, which must be open.
+    function _activeSession(address player) private view returns (Session storage session) {
+        session = sessions[player];
+        require(session.active, "No active session");
+    }
+
+    /// @dev Session rounds may pay up to `MAX_STREAK_PERCENT` of the worst-case payout of a single round.
+    function _sessionRoundExposure() private view returns (uint64) {
+        return uint64((uint256(maxRoundPayout) * MAX_STREAK_PERCENT) / 100);
+    }
+
+    /// @dev Appends the round that just closed to the player's history and counts it in the statistics and the
+    ///      leaderboard.
+    function _recordRound(address player, bool expired, euint8 kind, euint8 betLow, euint8 betHigh) private {
+        PrivyRecords.recordRound(
+            history,
+            stats,
+            leaderboard,
+            player,
+            PrivyHistory.RoundRecord({
+                id: currentRoundId[player],
+                blockNumber: block.number,
+                expired: expired,
+                wager: roundWager[player],
+                roll: lastRoll[player],
+                betKind: kind,
+                betLow: betLow,
+                betHigh: betHigh,
+                outcome: lastOutcome[player],
+                reward: lastReward[player]
+            }),
+            roundEligible[player]
+        );
+    }
+
+    function _emitRoundSettled(address player) private {
+        uint256 version = roundEconomicsVersion[player];
+        emit RoundSettled(
+            player,
+            currentRoundId[player],
+            version,
+            payoutsByVersion[version],
+            lastRoll[player],
+            lastOutcome[player],
+            lastReward[player]
+        );
+    }
+
+    function _roundDeadline(address player) private view returns (uint256) {
+        return roundStartBlock[player] + roundExpiryBlocks;
+    }
+
+    /// @dev Returns the deadline of the player's round, which must be open.
+    function _activeRoundDeadline(address player) private view returns (uint256) {
+        require(gameActive[player], "No active game");
+        return _roundDeadline(player);
+    }
+
+    /// @dev Marks the round as settled and releases the exposure it locked, or hands it to the session.
+    function _closeRound(address player) private {
+        gameActive[player] = false;
+        Session storage session = sessions[player];
+        if (session.active) {
+            session.exposure += roundExposure[player];
+            session.lastBlock = block.number;
+        } else {
+            openExposure -= roundExposure[player];
+        }
+        roundExposure[player] = 0;
+    }
+
+    /// @dev Charges the wager of the player's round, which `openExposure` already includes.
+    function _chargeWager(address player, euint64 cost) private {
+        euint64 charged = _charge(player, 1, cost, 0);
+        roundEligible[player] = FHE.ne(charged, 0);
+        roundWager[player] = cost;
+        if (address(jackpot) != address(0)) {
+            FHE.allowTransient(charged, address(jackpot));
+            jackpot.contribute(charged);
+        }
+        _syncHouse();
+    }
+
+    /// @dev Moves `cost` from the player's balance into the house reserve if the balance, the reserve (against
+    ///      `openExposure` plus `exposure`) and the player's limits allow it. Play-only points wagered into the house
+    ///      stay play-only there, so they never count towards the reserve. The ledger moves nothing when the balance
+    ///      is short, and `cost` is never zero, so a non-zero charge means the rounds are eligible. Only the charge
+    ///      counts towards the player's daily spending.
+    function _charge(address player, uint32 rounds, euint64 cost, uint64 exposure) private returns (euint64) {
+        ebool allowed = _reserveCovers(exposure);
+        if (address(limits) != address(0)) {
+            FHE.allowTransient(cost, address(limits));
+            allowed = FHE.and(allowed, limits.checkRound(player, rounds, cost));
+        }
+        euint64 requested = FHE.select(allowed, cost, FHE.asEuint64(0));
+        FHE.allowTransient(requested, address(points));
+        euint64 charged = points.confidentialTransferFrom(player, address(this), requested);
+        if (address(limits) != address(0)) {
+            FHE.allowTransient(charged, address(limits));
+            limits.recordSpend(player, charged);
+        }
+        return charged;
+    }
+
+    /// @dev Draws the jackpot for the player's settled round; only rounds that were charged can hit.
+    function _drawJackpot(address player) private {
+        if (address(jackpot) == address(0)) {
+            return;
+        }
+        FHE.allowTransient(roundEligible[player], address(jackpot));
+        jackpot.draw(player, currentRoundId[player], roundEligible[player]);
+        _syncHouse();
+    }
+
+    /// @dev Verifies an encrypted input as `FHE.fromExternal` does, but for `_msgSender()`: `FHE.fromExternal` binds it
+    ///      to `msg.sender`, which is the forwarder on a relayed request, so anyone could relay a player's input as
+    ///      their own and be granted its value. Handles without a proof are not accepted.
+    function _verifyInput(bytes32 handle, bytes calldata inputProof, FheType inputType) private returns (bytes32) {
+        return
+            IFHEVMExecutor(Impl.getCoprocessorConfig().CoprocessorAddress).verifyInput(
+                handle,
+                _msgSender(),
+                inputProof,
+                inputType
+            );
+    }
+
+    function _buyPoints(address player) private whenNotPaused {
+        require(msg.value > 0, "No ETH sent");
+
+        uint64 pointsValue = _pointsForEth();
+        _mint(player, pointsValue);
+        _syncHouse();
+
+        emit PointsPurchased(player, msg.value, pointsValue);
+    }
+
+    /// @dev The points bought by the ETH sent with the call, at the current `pointsPerEth`.
+    function _pointsForEth() private view returns (uint64) {
+        uint256 pointsValue = (msg.value * pointsPerEth) / 1 ether;
+        require(pointsValue > 0, "Amount too small");
+        require(pointsValue <= type(uint64).max, "Points overflow");
+        return uint64(pointsValue);
+    }
+
+    function _mint(address to, uint64 amount) private {
+        euint64 encryptedAmount = FHE.asEuint64(amount);
+        FHE.allowTransient(encryptedAmount, address(points));
+        points.mint(to, encryptedAmount);
+    }
+
+    /// @dev Whether the backed reserve covers `openExposure` plus `amount`.
+    function _reserveCovers(uint64 amount) private returns (ebool) {
+        return FHE.ge(_backedReserve(), openExposure + amount);
+    }
+
+    /// @dev The points the house can pay out: its balance, less the play-only points wagered into it, which no ETH
+    ///      backs.
+    function _backedReserve() private returns (euint64) {
+        return FHE.sub(points.confidentialBalanceOf(address(this)), points.playOnlyBalanceOf(address(this)));
+    }
+
+    /// @dev Snapshots the house aggregates from the ledger after every point movement and grants them to the owner and
+    ///      the treasurer.
+    ///      The jackpot pool is owed to future winners, not to current players, and the play-only points of the house
+    ///      to no one, so they count as neither.
+    function _syncHouse() private {
+        houseReserve = _backedReserve();
+        totalLiabilities = FHE.sub(points.confidentialTotalSupply(), points.confidentialBalanceOf(address(this)));
+        if (address(jackpot) != address(0)) {
+            totalLiabilities = FHE.sub(totalLiabilities, jackpot.getPool());
+        }
+        FHE.allowThis(houseReserve);
+        FHE.allow(houseReserve, owner);
+        FHE.allow(houseReserve, treasurer);
+        FHE.allowThis(totalLiabilities);
+        FHE.allow(totalLiabilities, owner);
+        FHE.allow(totalLiabilities, treasurer);
+    }
+
+    function _setEconomics(Economics memory next) private {
+        maxRoundPayout = validateEconomics(next);
+        pointsPerEth = next.pointsPerEth;
+        minWager = next.minWager;
+        maxWager = next.maxWager;
+        economicsVersion++;
+        payoutsByVersion[economicsVersion] = next.payouts;
+
+        emit EconomicsUpdated(economicsVersion, next);
+    }
+
+    function _checkOwner() private view {
+        require(msg.sender == owner, "Not owner");
+    }
+
+    function _checkPauser() private view {
+        require(msg.sender == pauser, "Not pauser");
+    }
+
+    function _requireNotPaused() private view {
+        require(!paused, "Paused");
     }
 }
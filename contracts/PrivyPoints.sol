@@ -0,0 +1,207 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, euint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {ERC7984} from "@openzeppelin/confidential-contracts/token/ERC7984/ERC7984.sol";
+import {PrivyPlay} from "./PrivyPlay.sol";
+
+/// @title PrivyPlay Points
+/// @notice The confidential point ledger (ERC-7984). Points are minted against ETH and burned on redemption by a single
+///         minter, the PrivyPlay game; every other movement goes through the standard transfer and operator flows.
+///         Holders can also grant time-bounded viewing rights to a few addresses, such as an auditor or support staff,
+///         who can then decrypt the holder's balance and, through the game, their round history.
+///         Points bought with tokens are play-only: they can only go back to the game as wagers, so they never redeem
+///         for ETH that was not paid in, and no other movement can take them. Wagered, they stay play-only in the
+///         game's balance, which can pay out only the points it holds beyond them.
+///         Players move to a new deployment through the game (`PrivyPlay.exportPoints`), which burns their points here
+///         and buys them back there with the ETH behind them. The owner is the game's owner once the game is the
+///         minter, and the deployer until then; it can only name the minter.
+/// @dev A viewer is granted every balance handle the holder has while the grant is active. ACL grants are permanent:
+///      revoking a grant, or letting it expire, stops sharing new handles but cannot take back the ones already shared.
+contract PrivyPoints is ERC7984, ZamaEthereumConfig {
+    address public minter;
+
+    /// @notice Maximum number of viewers a holder can list at once, so every balance update stays cheap.
+    uint256 public constant MAX_VIEWERS = 5;
+
+    // Last second each viewer can see a holder's handles; zero if not listed.
+    mapping(address holder => mapping(address viewer => uint48 until)) private viewerUntil;
+    mapping(address holder => address[] viewers) private viewers;
+
+    address private immutable deployer;
+
+    // Play-only points of each holder, the game included, never more than their balance.
+    mapping(address holder => euint64 amount) private playOnly;
+
+    event MinterSet(address indexed minter);
+    event ViewerGranted(address indexed holder, address indexed viewer, uint48 until);
+    event ViewerRevoked(address indexed holder, address indexed viewer);
+
+    modifier onlyMinter() {
+        require(msg.sender == minter, "Not minter");
+        _;
+    }
+
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        string memory contractURI_
+    ) ERC7984(name_, symbol_, contractURI_) {
+        deployer = msg.sender;
+    }
+
+    /// @notice The owner of the game once it is the minter, so that the ledger follows a transfer of the game's
+    ///         ownership; the deployer until then.
+    function owner() public view returns (address) {
+        return minter == address(0) ? deployer : PrivyPlay(minter).owner();
+    }
+
+    /// @notice Points are whole units.
+    function decimals() public pure override returns (uint8) {
+        return 0;
+    }
+
+    /// @notice Hand minting and burning to the game. Can only be done once, so the owner can never mint; points only
+    ///         come from the game.
+    /// @param minter_ The contract allowed to mint and burn points
+    function setMinter(address minter_) external {
+        require(msg.sender == owner(), "Not owner");
+        require(minter == address(0), "Minter already set");
+        require(minter_ != address(0), "Invalid minter");
+        minter = minter_;
+
+        emit MinterSet(minter_);
+    }
+
+    /// @notice Mint points to `to`.
+    /// @dev The caller must have allowed this contract to use `amount`.
+    /// @return minted The encrypted amount minted, granted to the minter
+    function mint(address to, euint64 amount) external onlyMinter returns (euint64 minted) {
+        minted = _mint(to, amount);
+        FHE.allow(minted, msg.sender);
+    }
+
+    /// @notice Mint play-only points to `to`, which are spent first by transfers to the minter and cannot move
+    ///         otherwise.
+    /// @dev The caller must have allowed this contract to use `amount`.
+    /// @return minted The encrypted amount minted, granted to the minter
+    function mintPlayOnly(address to, euint64 amount) external onlyMinter returns (euint64 minted) {
+        minted = _mint(to, amount);
+        playOnly[to] = FHE.add(playOnly[to], minted);
+        _allowPlayOnly(to);
+        FHE.allow(minted, msg.sender);
+    }
+
+    /// @notice Burn up to `amount` points of `from`, who must have made the minter an operator. Burns nothing if the
+    ///         balance is too low.
+    /// @dev The caller must have allowed this contract to use `amount`.
+    /// @return burned The encrypted amount burned, granted to the minter
+    function burnFrom(address from, euint64 amount) external onlyMinter returns (euint64 burned) {
+        require(isOperator(from, msg.sender), ERC7984UnauthorizedSpender(from, msg.sender));
+        burned = _burn(from, amount);
+        FHE.allow(burned, msg.sender);
+    }
+
+    /// @notice Let `viewer` decrypt the sender's balance, and their round history in the game, until `until` (a
+    ///         timestamp). Granting again to a listed viewer moves the expiry.
+    /// @param viewer The address allowed to view, such as an auditor or support staff
+    /// @param until The last second of the grant
+    function grantViewer(address viewer, uint48 until) external {
+        require(viewer != address(0) && viewer != msg.sender, "Invalid viewer");
+        require(until >= block.timestamp, "Invalid expiry");
+        if (viewerUntil[msg.sender][viewer] == 0) {
+            require(viewers[msg.sender].length < MAX_VIEWERS, "Too many viewers");
+            viewers[msg.sender].push(viewer);
+        }
+        viewerUntil[msg.sender][viewer] = until;
+        euint64 balance = confidentialBalanceOf(msg.sender);
+        if (FHE.isInitialized(balance)) {
+            FHE.allow(balance, viewer);
+        }
+
+        emit ViewerGranted(msg.sender, viewer, until);
+    }
+
+    /// @notice Remove a viewer from the sender's list, whether its grant is active or expired. Handles already shared
+    ///         stay decryptable by the viewer.
+    /// @param viewer A listed viewer
+    function revokeViewer(address viewer) external {
+        require(viewerUntil[msg.sender][viewer] != 0, "Not a viewer");
+        delete viewerUntil[msg.sender][viewer];
+        address[] storage list = viewers[msg.sender];
+        for (uint256 i = 0; i < list.length; i++) {
+            if (list[i] == viewer) {
+                list[i] = list[list.length - 1];
+                list.pop();
+                break;
+            }
+        }
+
+        emit ViewerRevoked(msg.sender, viewer);
+    }
+
+    /// @notice Return the play-only points of `holder`, decryptable by the holder; zero if they never bought any.
+    function playOnlyBalanceOf(address holder) external view returns (euint64) {
+        return playOnly[holder];
+    }
+
+    /// @notice Return whether `viewer` holds an active grant from `holder`.
+    function isViewer(address holder, address viewer) public view returns (bool) {
+        return block.timestamp <= viewerUntil[holder][viewer];
+    }
+
+    /// @notice Return the viewers listed by `holder` and the expiry of each grant, including expired ones.
+    function getViewers(address holder) external view returns (address[] memory list, uint48[] memory until) {
+        list = viewers[holder];
+        until = new uint48[](list.length);
+        for (uint256 i = 0; i < list.length; i++) {
+            until[i] = viewerUntil[holder][list[i]];
+        }
+    }
+
+    /// @dev Keeps play-only points in until they are wagered: a transfer to the minter spends them first and hands them
+    ///      to the minter as play-only, and any other movement, burns and the minter's payouts included, moves nothing
+    ///      if it would dip into them. Also lets the minter read the
+    ///      total supply, from which the game derives what it owes to players, and shares the new balances with their
+    ///      viewers.
+    function _update(address from, address to, euint64 amount) internal override returns (euint64 transferred) {
+        euint64 locked = playOnly[from];
+        bool spendsPlayOnly = FHE.isInitialized(locked) && to == minter;
+        if (FHE.isInitialized(locked) && !spendsPlayOnly) {
+            ebool free = FHE.le(amount, FHE.sub(confidentialBalanceOf(from), locked));
+            amount = FHE.select(free, amount, FHE.asEuint64(0));
+        }
+        transferred = super._update(from, to, amount);
+        if (spendsPlayOnly) {
+            euint64 spent = FHE.min(locked, transferred);
+            playOnly[from] = FHE.sub(locked, spent);
+            playOnly[to] = FHE.add(playOnly[to], spent);
+            _allowPlayOnly(from);
+            _allowPlayOnly(to);
+        }
+        if (minter != address(0)) {
+            FHE.allow(confidentialTotalSupply(), minter);
+        }
+        _allowViewers(from);
+        _allowViewers(to);
+    }
+
+    function _allowPlayOnly(address holder) private {
+        FHE.allowThis(playOnly[holder]);
+        FHE.allow(playOnly[holder], holder);
+    }
+
+    /// @dev Grants the new balance of `holder` to every viewer with an active grant.
+    function _allowViewers(address holder) private {
+        if (holder == address(0)) {
+            return;
+        }
+        address[] storage list = viewers[holder];
+        for (uint256 i = 0; i < list.length; i++) {
+            if (isViewer(holder, list[i])) {
+                FHE.allow(confidentialBalanceOf(holder), list[i]);
+            }
+        }
+    }
+}
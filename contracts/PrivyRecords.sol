@@ -0,0 +1,74 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, euint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {PrivyHistory} from "./PrivyHistory.sol";
+import {PrivyStats} from "./PrivyStats.sol";
+import {PrivyLeaderboard} from "./PrivyLeaderboard.sol";
+
+/// @title PrivyPlay Records
+/// @notice Reports the settled rounds and payouts of the PrivyPlay game to its history, statistics and leaderboard.
+/// @dev Linked like `PrivyDice`: the functions run in the context of the game, which grants the handles they share.
+///      An add-on set to the zero address is skipped.
+library PrivyRecords {
+    /// @notice Append a closed round to the player's history and count it in the statistics and the leaderboard.
+    /// @dev The wager, roll, outcome and reward handles of `round` are already granted to the player; the bet handles
+    ///      of a played round are granted here.
+    /// @param eligible Whether the round was charged
+    function recordRound(
+        PrivyHistory history,
+        PrivyStats stats,
+        PrivyLeaderboard leaderboard,
+        address player,
+        PrivyHistory.RoundRecord memory round,
+        ebool eligible
+    ) public {
+        if (!round.expired) {
+            FHE.allowThis(round.betKind);
+            FHE.allow(round.betKind, player);
+            FHE.allowThis(round.betLow);
+            FHE.allow(round.betLow, player);
+            FHE.allowThis(round.betHigh);
+            FHE.allow(round.betHigh, player);
+        }
+
+        if (address(history) != address(0)) {
+            // Persistently, so that the history can share the round with the player's viewers.
+            FHE.allow(round.wager, address(history));
+            FHE.allow(round.roll, address(history));
+            FHE.allow(round.outcome, address(history));
+            FHE.allow(round.reward, address(history));
+            if (!round.expired) {
+                FHE.allow(round.betKind, address(history));
+                FHE.allow(round.betLow, address(history));
+                FHE.allow(round.betHigh, address(history));
+            }
+            history.recordRound(player, round);
+        }
+
+        if (address(stats) != address(0)) {
+            FHE.allowTransient(round.roll, address(stats));
+            FHE.allowTransient(round.wager, address(stats));
+            FHE.allowTransient(eligible, address(stats));
+            stats.recordRound(round.roll, round.wager, eligible);
+        }
+        if (address(leaderboard) != address(0)) {
+            FHE.allowTransient(round.outcome, address(leaderboard));
+            FHE.allowTransient(round.wager, address(leaderboard));
+            FHE.allowTransient(eligible, address(leaderboard));
+            leaderboard.recordRound(player, round.outcome, round.wager, eligible);
+        }
+    }
+
+    /// @notice Count points paid out to the player in the statistics and the leaderboard.
+    function recordPayout(PrivyStats stats, PrivyLeaderboard leaderboard, address player, euint64 amount) public {
+        if (address(stats) != address(0)) {
+            FHE.allowTransient(amount, address(stats));
+            stats.recordPayout(amount);
+        }
+        if (address(leaderboard) != address(0)) {
+            FHE.allowTransient(amount, address(leaderboard));
+            leaderboard.recordPayout(player, amount);
+        }
+    }
+}
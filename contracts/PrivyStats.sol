@@ -0,0 +1,142 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, euint8, euint32, euint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {PrivyPlay} from "./PrivyPlay.sol";
+
+/// @title PrivyPlay Roll Statistics
+/// @notice Encrypted aggregates of every closed round of the PrivyPlay game: how often each face was rolled, how much
+///         was wagered and how much was paid out. Every `REVEAL_INTERVAL_ROUNDS` rounds the aggregates are snapshotted
+///         and made publicly decryptable, so that anyone can check the dice distribution and the house profit and loss
+///         without learning any individual roll.
+/// @dev Two consecutive snapshots reveal the totals of the rounds between them, hence the interval is at least
+///      `MIN_REVEAL_INTERVAL_ROUNDS`. Wagers count at round close and only if they were charged; payouts count when
+///      points leave the house, which for a session is when it is banked. Jackpot contributions and wins go through
+///      `PrivyJackpot` and are not part of these totals.
+contract PrivyStats is ZamaEthereumConfig {
+    /// @notice The aggregates as of a closed round, all publicly decryptable.
+    struct Snapshot {
+        uint256 rounds;
+        uint256 blockNumber;
+        // Indexed by face, minus one.
+        euint32[6] faceCounts;
+        euint64 wagered;
+        euint64 paidOut;
+    }
+
+    /// @notice Lowest number of rounds between two snapshots.
+    uint256 public constant MIN_REVEAL_INTERVAL_ROUNDS = 10;
+
+    /// @notice Number of closed rounds between two snapshots.
+    uint256 public immutable REVEAL_INTERVAL_ROUNDS;
+
+    /// @notice The game whose rounds are recorded.
+    address public immutable game;
+
+    /// @notice Number of rounds recorded so far.
+    uint256 public roundsRecorded;
+
+    euint32[6] private faceCounts;
+    euint64 private wagered;
+    euint64 private paidOut;
+    Snapshot[] private snapshots;
+
+    event StatsRevealed(uint256 indexed snapshotId, uint256 rounds);
+
+    modifier onlyGame() {
+        require(msg.sender == game, "Not game");
+        _;
+    }
+
+    /// @param game_ The game to record, which must then register this contract with `setStats`
+    /// @param revealIntervalRounds The number of closed rounds between two public snapshots
+    constructor(address game_, uint256 revealIntervalRounds) {
+        require(game_ != address(0), "Invalid game");
+        require(revealIntervalRounds >= MIN_REVEAL_INTERVAL_ROUNDS, "Invalid reveal interval");
+        game = game_;
+        REVEAL_INTERVAL_ROUNDS = revealIntervalRounds;
+
+        // Start from encrypted zeros, so that every snapshot has handles to decrypt.
+        for (uint256 i = 0; i < 6; i++) {
+            faceCounts[i] = FHE.asEuint32(0);
+        }
+        wagered = FHE.asEuint64(0);
+        paidOut = FHE.asEuint64(0);
+        _allowTotals();
+        FHE.allowThis(paidOut);
+        FHE.allow(paidOut, owner());
+    }
+
+    /// @notice Count the roll and the wager of a closed round, and take a snapshot every `REVEAL_INTERVAL_ROUNDS`.
+    /// @dev The game must have allowed this contract to use the three handles.
+    /// @param roll The encrypted face rolled (1-6)
+    /// @param wager The encrypted wager of the round
+    /// @param charged Whether the wager was charged (encrypted)
+    function recordRound(euint8 roll, euint64 wager, ebool charged) external onlyGame {
+        for (uint256 i = 0; i < 6; i++) {
+            faceCounts[i] = FHE.add(faceCounts[i], FHE.asEuint32(FHE.eq(roll, uint8(i + 1))));
+        }
+        wagered = FHE.add(wagered, FHE.select(charged, wager, FHE.asEuint64(0)));
+        _allowTotals();
+
+        if (++roundsRecorded % REVEAL_INTERVAL_ROUNDS == 0) {
+            _reveal();
+        }
+    }
+
+    /// @notice Count points paid out of the house reserve.
+    /// @dev The game must have allowed this contract to use `amount`.
+    /// @param amount The encrypted amount paid to a player
+    function recordPayout(euint64 amount) external onlyGame {
+        paidOut = FHE.add(paidOut, amount);
+        FHE.allowThis(paidOut);
+        FHE.allow(paidOut, owner());
+    }
+
+    /// @notice The owner of the game, who can decrypt the live aggregates.
+    /// @dev Follows a transfer of the game's ownership; a new owner is granted each total from its next update on.
+    function owner() public view returns (address) {
+        return PrivyPlay(game).owner();
+    }
+
+    /// @notice Return the live aggregates, decryptable by the owner.
+    function getStats() external view returns (euint32[6] memory counts, euint64 totalWagered, euint64 totalPaidOut) {
+        return (faceCounts, wagered, paidOut);
+    }
+
+    /// @notice Return the number of snapshots taken so far.
+    function getSnapshotCount() external view returns (uint256) {
+        return snapshots.length;
+    }
+
+    /// @notice Return a snapshot, oldest first.
+    function getSnapshot(uint256 snapshotId) external view returns (Snapshot memory) {
+        require(snapshotId < snapshots.length, "Unknown snapshot");
+        return snapshots[snapshotId];
+    }
+
+    function _reveal() private {
+        Snapshot storage snapshot = snapshots.push();
+        snapshot.rounds = roundsRecorded;
+        snapshot.blockNumber = block.number;
+        for (uint256 i = 0; i < 6; i++) {
+            snapshot.faceCounts[i] = FHE.makePubliclyDecryptable(faceCounts[i]);
+        }
+        snapshot.wagered = FHE.makePubliclyDecryptable(wagered);
+        snapshot.paidOut = FHE.makePubliclyDecryptable(paidOut);
+
+        emit StatsRevealed(snapshots.length - 1, roundsRecorded);
+    }
+
+    /// @dev Grants the face counts and the wagered total, which change together, to this contract and the owner.
+    function _allowTotals() private {
+        address owner_ = owner();
+        for (uint256 i = 0; i < 6; i++) {
+            FHE.allowThis(faceCounts[i]);
+            FHE.allow(faceCounts[i], owner_);
+        }
+        FHE.allowThis(wagered);
+        FHE.allow(wagered, owner_);
+    }
+}
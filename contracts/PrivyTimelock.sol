@@ -0,0 +1,73 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {PrivyPlay} from "./PrivyPlay.sol";
+
+/// @title PrivyPlay Economics Timelock
+/// @notice The only way to change the exchange rate, wager bounds and payout tables of the PrivyPlay game: the game's
+///         owner schedules an update, which anyone can apply once `ECONOMICS_DELAY` has elapsed, so players always see
+///         a change coming.
+/// @dev The game validates updates with `validateEconomics` when they are scheduled and again when they are applied.
+contract PrivyTimelock {
+    /// @notice Minimum time between scheduling an economics update and applying it.
+    uint256 public immutable ECONOMICS_DELAY;
+
+    /// @notice The game whose economics are updated.
+    PrivyPlay public immutable game;
+
+    PrivyPlay.Economics private pendingEconomics;
+    uint256 public pendingEconomicsEffectiveAt;
+
+    event EconomicsUpdateScheduled(PrivyPlay.Economics economics, uint256 effectiveAt);
+    event EconomicsUpdateCancelled();
+
+    modifier onlyOwner() {
+        require(msg.sender == game.owner(), "Not owner");
+        _;
+    }
+
+    /// @param game_ The game to update, which must then register this contract with `setTimelock`
+    /// @param economicsDelay The timelock applied to every economics update, which cannot be zero
+    constructor(PrivyPlay game_, uint256 economicsDelay) {
+        require(address(game_) != address(0), "Invalid game");
+        require(economicsDelay > 0, "Invalid delay");
+        game = game_;
+        ECONOMICS_DELAY = economicsDelay;
+    }
+
+    /// @notice Schedule new economics, applicable once `ECONOMICS_DELAY` has elapsed. Replaces any pending update.
+    /// @dev Rounds already started keep the wager and payout tables they were started with.
+    /// @param next The exchange rate, wager bounds and payout tables to apply
+    function scheduleEconomicsUpdate(PrivyPlay.Economics calldata next) external onlyOwner {
+        game.validateEconomics(next);
+        pendingEconomics = next;
+        pendingEconomicsEffectiveAt = block.timestamp + ECONOMICS_DELAY;
+
+        emit EconomicsUpdateScheduled(next, pendingEconomicsEffectiveAt);
+    }
+
+    /// @notice Drop the pending economics update.
+    function cancelEconomicsUpdate() external onlyOwner {
+        require(pendingEconomicsEffectiveAt != 0, "No pending update");
+        delete pendingEconomics;
+        pendingEconomicsEffectiveAt = 0;
+
+        emit EconomicsUpdateCancelled();
+    }
+
+    /// @notice Apply the pending economics update once its timelock has elapsed. Callable by anyone.
+    function applyEconomicsUpdate() external {
+        require(pendingEconomicsEffectiveAt != 0, "No pending update");
+        require(block.timestamp >= pendingEconomicsEffectiveAt, "Update not yet effective");
+
+        PrivyPlay.Economics memory next = pendingEconomics;
+        delete pendingEconomics;
+        pendingEconomicsEffectiveAt = 0;
+        game.updateEconomics(next);
+    }
+
+    /// @notice Return the pending economics update and when it can be applied (zero if none).
+    function getPendingEconomics() external view returns (PrivyPlay.Economics memory economics, uint256 effectiveAt) {
+        return (pendingEconomics, pendingEconomicsEffectiveAt);
+    }
+}
@@ -0,0 +1,122 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {PrivyPlay} from "./PrivyPlay.sol";
+
+/// @title PrivyPlay Token Sale
+/// @notice Sells points of the PrivyPlay game for allowlisted ERC-20 tokens, such as stablecoins, each at a fixed
+///         rate set by the game's owner. The tokens paid are kept here, accounted per token, until the game's
+///         treasurer withdraws them.
+/// @dev The game mints the points through `mintPurchase`, so purchases stop while it is paused. Points bought with
+///      tokens are play-only on the ledger: they can be wagered, but not redeemed, exported or transferred, so they
+///      never take out ETH that was not paid in. Tokens that charge a fee on transfer or rebase are not supported.
+contract PrivyTokenSale {
+    using SafeERC20 for IERC20Metadata;
+
+    /// @notice A payment token, and the totals it was paid and withdrawn in, in its base units. The sale holds the
+    ///         difference.
+    struct PaymentToken {
+        // Points per whole token, i.e. per `10 ** decimals` base units; zero once delisted.
+        uint256 pointsPerToken;
+        uint8 decimals;
+        uint256 received;
+        uint256 withdrawn;
+    }
+
+    /// @notice Largest number of decimals of a payment token, which keeps the price of a whole token in range.
+    uint8 public constant MAX_DECIMALS = 36;
+
+    /// @notice The game whose points are sold.
+    PrivyPlay public immutable game;
+
+    // Every token ever listed, including delisted ones that may still hold proceeds.
+    IERC20Metadata[] private tokens;
+    mapping(IERC20Metadata => bool) private listed;
+    mapping(IERC20Metadata => PaymentToken) private paymentTokens;
+
+    event PaymentTokenSet(IERC20Metadata indexed token, uint256 pointsPerToken, uint8 decimals);
+    event PointsPurchasedWithToken(
+        address indexed player,
+        IERC20Metadata indexed token,
+        uint256 tokenAmount,
+        uint256 points
+    );
+    event ProceedsWithdrawn(IERC20Metadata indexed token, address indexed to, uint256 amount);
+
+    modifier onlyOwner() {
+        require(msg.sender == game.owner(), "Not owner");
+        _;
+    }
+
+    /// @param game_ The game to sell points of, which must then register this contract with `setTokenSale`
+    constructor(PrivyPlay game_) {
+        require(address(game_) != address(0), "Invalid game");
+        game = game_;
+    }
+
+    /// @notice Accept a token at a new rate, or stop accepting it with a rate of zero.
+    /// @dev The decimals of the token are read when it is first listed. Delisting keeps its proceeds withdrawable.
+    /// @param token The ERC-20 payment token
+    /// @param pointsPerToken The points bought by one whole token
+    function setPaymentToken(IERC20Metadata token, uint256 pointsPerToken) external onlyOwner {
+        require(address(token) != address(0), "Invalid token");
+        PaymentToken storage paymentToken = paymentTokens[token];
+        if (!listed[token]) {
+            uint8 decimals = token.decimals();
+            require(decimals <= MAX_DECIMALS, "Unsupported decimals");
+            listed[token] = true;
+            tokens.push(token);
+            paymentToken.decimals = decimals;
+        }
+        paymentToken.pointsPerToken = pointsPerToken;
+
+        emit PaymentTokenSet(token, pointsPerToken, paymentToken.decimals);
+    }
+
+    /// @notice Buy encrypted points with an accepted token, at its rate. The sale must be allowed to spend `amount`.
+    /// @param token The payment token
+    /// @param amount The amount of the token to pay, in its base units
+    function buyPointsWithToken(IERC20Metadata token, uint256 amount) external {
+        PaymentToken storage paymentToken = paymentTokens[token];
+        require(paymentToken.pointsPerToken > 0, "Token not accepted");
+        require(amount > 0, "No tokens sent");
+
+        uint256 pointsValue = (amount * paymentToken.pointsPerToken) / 10 ** paymentToken.decimals;
+        require(pointsValue > 0, "Amount too small");
+        require(pointsValue <= type(uint64).max, "Points overflow");
+
+        paymentToken.received += amount;
+        token.safeTransferFrom(msg.sender, address(this), amount);
+        game.mintPurchase(msg.sender, uint64(pointsValue));
+
+        emit PointsPurchasedWithToken(msg.sender, token, amount, pointsValue);
+    }
+
+    /// @notice Withdraw proceeds of a token. Only callable by the game's treasurer.
+    /// @param token The payment token
+    /// @param to The recipient
+    /// @param amount The amount to withdraw, in base units, at most what was received and not yet withdrawn
+    function withdrawProceeds(IERC20Metadata token, address to, uint256 amount) external {
+        require(msg.sender == game.treasurer(), "Not treasurer");
+        require(to != address(0), "Invalid recipient");
+        PaymentToken storage paymentToken = paymentTokens[token];
+        require(amount <= paymentToken.received - paymentToken.withdrawn, "Insufficient proceeds");
+
+        paymentToken.withdrawn += amount;
+        token.safeTransfer(to, amount);
+
+        emit ProceedsWithdrawn(token, to, amount);
+    }
+
+    /// @notice Return every token ever listed, accepted or not.
+    function getPaymentTokens() external view returns (IERC20Metadata[] memory) {
+        return tokens;
+    }
+
+    /// @notice Return the rate, decimals and totals of a token; all zero if it was never listed.
+    function getPaymentToken(IERC20Metadata token) external view returns (PaymentToken memory) {
+        return paymentTokens[token];
+    }
+}
@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {euint8, euint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title PrivyPlay Round Lineage
+/// @notice The hashes binding the ciphertexts of a round together, so that a player can show which handles a round
+///         was actually played with. The commitment is emitted by the game when the round starts, before any bet is
+///         placed, and the lineage is stored by the history when the round closes.
+/// @dev Both are hashes of handles, not of clear values: they reveal nothing about the round.
+library RoundLineage {
+    /// @notice Return the commitment to the wager and roll of a round, emitted in `PrivyPlay.GameStarted`.
+    function commitment(address player, uint256 roundId, euint64 wager, euint8 roll) internal pure returns (bytes32) {
+        return keccak256(abi.encode(player, roundId, wager, roll));
+    }
+
+    /// @notice Return the lineage of a closed round: its start commitment followed by its bet, outcome and reward.
+    /// @dev The bet handles of an expired round are zero.
+    function lineage(
+        bytes32 roundCommitment,
+        euint8 betKind,
+        euint8 betLow,
+        euint8 betHigh,
+        ebool outcome,
+        euint64 reward
+    ) internal pure returns (bytes32) {
+        return keccak256(abi.encode(roundCommitment, betKind, betLow, betHigh, outcome, reward));
+    }
+}
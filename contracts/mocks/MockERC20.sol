@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @title Mock ERC-20
+/// @notice A stand-in for a stablecoin on local networks and in tests, with configurable decimals and a public faucet.
+/// @dev Anyone can mint, so it must never be accepted by a sale on a live network.
+contract MockERC20 is ERC20 {
+    uint8 private immutable _decimals;
+
+    constructor(string memory name_, string memory symbol_, uint8 decimals_) ERC20(name_, symbol_) {
+        _decimals = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    /// @notice Mint `amount` base units to `to`.
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -1,17 +1,287 @@
+import * as fs from "fs";
+import * as path from "path";
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
+type NetworkConfig = {
+  economics: {
+    pointsPerEth: string;
+    minWager: string;
+    maxWager: string;
+    payouts: {
+      exactFace: string;
+      oddEven: string;
+      range: string[];
+    };
+  };
+  economicsDelay: number;
+  roundExpiryBlocks: number;
+  duelExpiryBlocks: number;
+  jackpot: {
+    contributionPercent: number;
+    // A power of two.
+    odds: number;
+    revealIntervalBlocks: number;
+  };
+  // At least 10.
+  statsRevealIntervalRounds: number;
+  leaderboard: {
+    epochBlocks: number;
+    bucketSize: number;
+  };
+  // Seconds before a player's looser limit applies.
+  limitsLoosenDelay: number;
+  // ETH funded into the house reserve on first deployment.
+  houseReserve: string;
+  // ERC-20 tokens the token sale accepts, at points per whole token. Tokens without an address are deployed as mocks
+  // with the given decimals, for local networks.
+  paymentTokens: { symbol: string; pointsPerToken: string; address?: string; decimals?: number }[];
+};
+
+type StorageEntry = { label: string; slot: string; offset: number; type: string };
+
+type StorageLayout = {
+  storage: StorageEntry[];
+  types: Record<
+    string,
+    { label: string; numberOfBytes: string; members?: StorageEntry[]; key?: string; value?: string; base?: string }
+  > | null;
+};
+
+// Type identifiers embed AST ids, which change from one compilation to the next: compare what they describe instead.
+function describeType(layout: StorageLayout, typeId: string): string {
+  const type = layout.types?.[typeId];
+  if (!type) {
+    return typeId;
+  }
+  const parts = [type.label, type.numberOfBytes];
+  if (type.members) {
+    parts.push(`{ ${type.members.map((member) => describeEntry(layout, member)).join(", ")} }`);
+  }
+  for (const inner of [type.key, type.value, type.base]) {
+    if (inner) {
+      parts.push(describeType(layout, inner));
+    }
+  }
+  return parts.join(" ");
+}
+
+function describeEntry(layout: StorageLayout, entry: StorageEntry): string {
+  return `${entry.label} at ${entry.slot}:${entry.offset} (${describeType(layout, entry.type)})`;
+}
+
+// An upgrade must keep every state variable of the deployed implementation under the same name, in the same slot and
+// with the same type; new variables can only be appended. A rename is refused too: a variable renamed in place most
+// likely holds something else now.
+function assertStorageCompatible(name: string, deployed: StorageLayout, next: StorageLayout) {
+  const fail = (reason: string) => {
+    throw new Error(`Incompatible storage layout for ${name}: ${reason}`);
+  };
+  deployed.storage.forEach((entry, i) => {
+    const before = describeEntry(deployed, entry);
+    const replacement = next.storage[i];
+    if (!replacement) {
+      fail(`${before} would be removed`);
+    } else if (replacement.label !== entry.label) {
+      fail(`${before} would be renamed to ${replacement.label}`);
+    } else if (replacement.slot !== entry.slot || replacement.offset !== entry.offset) {
+      fail(`${before} would move to ${replacement.slot}:${replacement.offset}`);
+    } else if (describeType(next, replacement.type) !== describeType(deployed, entry.type)) {
+      fail(`${before} would become ${describeEntry(next, replacement)}`);
+    }
+  });
+}
+
+function loadNetworkConfig(networkName: string): NetworkConfig {
+  const configPath = path.join(__dirname, "..", "config", `${networkName}.json`);
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Missing deployment config for network '${networkName}' (expected ${configPath})`);
+  }
+  return JSON.parse(fs.readFileSync(configPath, "utf8")) as NetworkConfig;
+}
+
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
+  const { deploy, execute, fetchIfDifferent, getExtendedArtifact, getOrNull, read } = hre.deployments;
+
+  const networkConfig = loadNetworkConfig(hre.network.name);
+
+  const deployedPrivyPoints = await deploy("PrivyPoints", {
+    from: deployer,
+    args: ["PrivyPlay Points", "PPT", ""],
+    log: true,
+  });
+
+  console.log(`PrivyPoints contract: `, deployedPrivyPoints.address);
+
+  // The game lives behind a proxy, so that upgrades keep its state and the permissions granted to it on ciphertexts.
+  const firstDeployment = (await getOrNull("PrivyPlay")) === null;
+  const deployedImplementation = await getOrNull("PrivyPlay_Implementation");
+  if (deployedImplementation?.storageLayout) {
+    const { storageLayout } = await getExtendedArtifact("PrivyPlay");
+    assertStorageCompatible("PrivyPlay", deployedImplementation.storageLayout, storageLayout);
+  }
+
+  // Relays the signed requests of players without ETH for gas. The game trusts it from its implementation, so a new
+  // forwarder only takes effect with an upgrade.
+  const deployedPrivyForwarder = await deploy("PrivyForwarder", { from: deployer, log: true });
+
+  console.log(`PrivyForwarder contract: `, deployedPrivyForwarder.address);
+
+  // The dice and bet rules are linked into the game, the batch table and the duels, and the reporting of rounds to the
+  // add-ons into the game, which keeps it under the size limit.
+  const deployedPrivyDice = await deploy("PrivyDice", { from: deployer, log: true });
+  const deployedPrivyRecords = await deploy("PrivyRecords", { from: deployer, log: true });
 
   const deployedPrivyPlay = await deploy("PrivyPlay", {
     from: deployer,
+    args: [deployedPrivyForwarder.address],
+    libraries: { PrivyDice: deployedPrivyDice.address, PrivyRecords: deployedPrivyRecords.address },
+    proxy: {
+      proxyContract: "OpenZeppelinTransparentProxy",
+      execute: {
+        init: {
+          methodName: "initialize",
+          args: [deployedPrivyPoints.address, networkConfig.economics, networkConfig.roundExpiryBlocks],
+        },
+      },
+    },
     log: true,
   });
 
   console.log(`PrivyPlay contract: `, deployedPrivyPlay.address);
+
+  // The game keeps the ledger it was initialized with, so a ledger redeployed under it would never be used.
+  const gamePoints = await read("PrivyPlay", "points");
+  if (gamePoints !== deployedPrivyPoints.address) {
+    throw new Error(
+      `PrivyPoints at ${deployedPrivyPoints.address} is not the ledger of the game, which uses ${gamePoints}: ` +
+        "restore the deployment of the game's ledger, or move the players to a new game (see Migration)",
+    );
+  }
+  if (deployedPrivyPoints.newlyDeployed) {
+    await execute("PrivyPoints", { from: deployer, log: true }, "setMinter", deployedPrivyPlay.address);
+  }
+
+  // The game takes each add-on once. An add-on changed since it was attached would be redeployed and never used, so
+  // the script stops before deploying it.
+  async function deployAddOn(
+    name: string,
+    slot: "timelock" | "history" | "jackpot" | "stats" | "leaderboard" | "limits" | "batch" | "tokenSale",
+    setter: string,
+    options: { args: unknown[]; libraries?: Record<string, string> },
+  ) {
+    const deployOptions = { ...options, from: deployer, log: true };
+    const attached: string = await read("PrivyPlay", slot);
+    if (attached !== hre.ethers.ZeroAddress) {
+      const { differences, address } = await fetchIfDifferent(name, deployOptions);
+      if (differences || address !== attached) {
+        throw new Error(
+          `${name} differs from the one attached to the game at ${attached}, which cannot be replaced: ` +
+            `revert the changes to ${name} and its config, or move the players to a new game (see Migration)`,
+        );
+      }
+    }
+
+    const deployed = await deploy(name, deployOptions);
+    console.log(`${name} contract: `, deployed.address);
+
+    if (attached === hre.ethers.ZeroAddress) {
+      await execute("PrivyPlay", { from: deployer, log: true }, setter, deployed.address);
+    }
+  }
+
+  await deployAddOn("PrivyTimelock", "timelock", "setTimelock", {
+    args: [deployedPrivyPlay.address, networkConfig.economicsDelay],
+  });
+
+  await deployAddOn("PrivyHistory", "history", "setHistory", {
+    args: [deployedPrivyPoints.address, deployedPrivyPlay.address],
+  });
+
+  await deployAddOn("PrivyJackpot", "jackpot", "setJackpot", {
+    args: [
+      deployedPrivyPoints.address,
+      deployedPrivyPlay.address,
+      networkConfig.jackpot.contributionPercent,
+      networkConfig.jackpot.odds,
+      networkConfig.jackpot.revealIntervalBlocks,
+    ],
+  });
+
+  await deployAddOn("PrivyStats", "stats", "setStats", {
+    args: [deployedPrivyPlay.address, networkConfig.statsRevealIntervalRounds],
+  });
+
+  await deployAddOn("PrivyLeaderboard", "leaderboard", "setLeaderboard", {
+    args: [deployedPrivyPlay.address, networkConfig.leaderboard.epochBlocks, networkConfig.leaderboard.bucketSize],
+  });
+
+  await deployAddOn("PrivyLimits", "limits", "setLimits", {
+    args: [deployedPrivyPlay.address, networkConfig.limitsLoosenDelay],
+  });
+
+  await deployAddOn("PrivyBatch", "batch", "setBatch", {
+    args: [deployedPrivyPlay.address],
+    libraries: { PrivyDice: deployedPrivyDice.address },
+  });
+
+  await deployAddOn("PrivyTokenSale", "tokenSale", "setTokenSale", { args: [deployedPrivyPlay.address] });
+
+  // Rates are applied whenever they differ from the config, so that redeploying lists new tokens and reprices others.
+  for (const paymentToken of networkConfig.paymentTokens) {
+    const tokenAddress =
+      paymentToken.address ??
+      (
+        await deploy(`Mock${paymentToken.symbol}`, {
+          contract: "MockERC20",
+          from: deployer,
+          args: [`Mock ${paymentToken.symbol}`, paymentToken.symbol, paymentToken.decimals ?? 18],
+          log: true,
+        })
+      ).address;
+    const { pointsPerToken } = await read("PrivyTokenSale", "getPaymentToken", tokenAddress);
+    if (pointsPerToken !== BigInt(paymentToken.pointsPerToken)) {
+      await execute(
+        "PrivyTokenSale",
+        { from: deployer, log: true },
+        "setPaymentToken",
+        tokenAddress,
+        paymentToken.pointsPerToken,
+      );
+    }
+    console.log(`${paymentToken.symbol} payment token: `, tokenAddress);
+  }
+
+  const deployedPrivyDuels = await deploy("PrivyDuels", {
+    from: deployer,
+    args: [deployedPrivyPlay.address, networkConfig.duelExpiryBlocks],
+    libraries: { PrivyDice: deployedPrivyDice.address },
+    log: true,
+  });
+
+  console.log(`PrivyDuels contract: `, deployedPrivyDuels.address);
+
+  const houseReserve = hre.ethers.parseEther(networkConfig.houseReserve);
+  if (firstDeployment && houseReserve > 0n) {
+    await execute("PrivyPlay", { from: deployer, value: houseReserve.toString(), log: true }, "fundHouseReserve");
+  }
 };
 export default func;
 func.id = "deploy_privyplay"; // id required to prevent reexecution
-func.tags = ["PrivyPlay"];
+func.tags = [
+  "PrivyPlay",
+  "PrivyPoints",
+  "PrivyTimelock",
+  "PrivyHistory",
+  "PrivyJackpot",
+  "PrivyStats",
+  "PrivyLeaderboard",
+  "PrivyLimits",
+  "PrivyDice",
+  "PrivyRecords",
+  "PrivyBatch",
+  "PrivyDuels",
+  "PrivyForwarder",
+  "PrivyTokenSale",
+];
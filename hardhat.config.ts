@@ -10,13 +10,40 @@ import * as dotenv from "dotenv";
 import "solidity-coverage";
 
 import "./tasks/accounts";
+import "./tasks/PrivyBatch";
+import "./tasks/PrivyDuels";
+import "./tasks/PrivyForwarder";
+import "./tasks/PrivyJackpot";
+import "./tasks/PrivyLeaderboard";
+import "./tasks/PrivyLimits";
 import "./tasks/PrivyPlay";
+import "./tasks/PrivyStats";
+import "./tasks/PrivyTokenSale";
 
 dotenv.config();
 
 const INFURA_API_KEY = process.env.INFURA_API_KEY || "";
 const PRIVATE_KEY = process.env.PRIVATE_KEY || "";
 
+function solcSettings(runs: number) {
+  return {
+    metadata: {
+      // Not including the metadata hash
+      // https://github.com/paulrberg/hardhat-template/issues/31
+      bytecodeHash: "none",
+    },
+    // Disable the optimizer when debugging
+    // https://hardhat.org/hardhat-network/#solidity-optimizer-support
+    optimizer: {
+      enabled: true,
+      runs,
+    },
+    evmVersion: "cancun",
+    // The deploy script checks the storage layout of the game before upgrading it.
+    outputSelection: { "*": { "*": ["storageLayout"] } },
+  } as const;
+}
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   namedAccounts: {
@@ -53,20 +80,22 @@ const config: HardhatUserConfig = {
     tests: "./test",
   },
   solidity: {
-    version: "0.8.27",
-    settings: {
-      metadata: {
-        // Not including the metadata hash
-        // https://github.com/paulrberg/hardhat-template/issues/31
-        bytecodeHash: "none",
-      },
-      // Disable the optimizer when debugging
-      // https://hardhat.org/hardhat-network/#solidity-optimizer-support
-      optimizer: {
-        enabled: true,
-        runs: 800,
-      },
-      evmVersion: "cancun",
+    compilers: [{ version: "0.8.27", settings: solcSettings(800) }],
+    overrides: {
+      // The game sits close to the 24 KiB code size limit, so it is optimized for size rather than for call cost. The
+      // point ledger, the timelock, the jackpot, the statistics, the batch table, the token sale and the duels import
+      // it, and the history and the PrivyRecords library import it through the ledger and the statistics, so they are
+      // all compiled with the same settings.
+      "contracts/PrivyPlay.sol": { version: "0.8.27", settings: solcSettings(1) },
+      "contracts/PrivyPoints.sol": { version: "0.8.27", settings: solcSettings(1) },
+      "contracts/PrivyTimelock.sol": { version: "0.8.27", settings: solcSettings(1) },
+      "contracts/PrivyJackpot.sol": { version: "0.8.27", settings: solcSettings(1) },
+      "contracts/PrivyStats.sol": { version: "0.8.27", settings: solcSettings(1) },
+      "contracts/PrivyBatch.sol": { version: "0.8.27", settings: solcSettings(1) },
+      "contracts/PrivyTokenSale.sol": { version: "0.8.27", settings: solcSettings(1) },
+      "contracts/PrivyDuels.sol": { version: "0.8.27", settings: solcSettings(1) },
+      "contracts/PrivyHistory.sol": { version: "0.8.27", settings: solcSettings(1) },
+      "contracts/PrivyRecords.sol": { version: "0.8.27", settings: solcSettings(1) },
     },
   },
   typechain: {
@@ -0,0 +1,101 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { ensureOperator, parseBet } from "./PrivyPlay";
+
+async function getBatch(hre: HardhatRuntimeEnvironment, address?: string) {
+  const { ethers, deployments } = hre;
+
+  const deployment = address ? { address } : await deployments.get("PrivyBatch");
+  console.log(`PrivyBatch: ${deployment.address}`);
+
+  return { address: deployment.address, contract: await ethers.getContractAt("PrivyBatch", deployment.address) };
+}
+
+/**
+ * Plays one round per bet in a single transaction, each with the same wager. The game settles the batch, so it must
+ * be an operator of the signer's points, as for single rounds.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:batch --wager 500 --bets big,odd,face:3
+ */
+task("task:privyplay:batch", "Play and settle several rounds in one transaction")
+  .addOptionalParam("address", "Optionally specify the PrivyBatch contract address")
+  .addParam("wager", "The amount of points to wager on each round (clamped to the game's wager bounds)")
+  .addParam("bets", "Comma-separated bets, each big, small, odd, even, face:<n> or range:<low>-<high>")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, contract } = await getBatch(hre, taskArguments.address);
+    const signers = await ethers.getSigners();
+
+    const bets = String(taskArguments.bets).split(",").map(parseBet);
+    const input = fhevm.createEncryptedInput(address, signers[0].address).add64(BigInt(taskArguments.wager));
+    for (const [kind, low, high] of bets) {
+      input.add8(kind).add8(low).add8(high);
+    }
+    const encryptedInput = await input.encrypt();
+    const encryptedBets = bets.map((_bet, i) => ({
+      kind: encryptedInput.handles[1 + 3 * i],
+      low: encryptedInput.handles[2 + 3 * i],
+      high: encryptedInput.handles[3 + 3 * i],
+    }));
+
+    await ensureOperator(hre, await contract.game(), signers[0]);
+    const tx = await contract
+      .connect(signers[0])
+      .playBatch(encryptedInput.handles[0], encryptedBets, encryptedInput.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status} gasUsed=${receipt?.gasUsed}`);
+
+    const played = receipt?.logs
+      .map((log) => contract.interface.parseLog(log))
+      .find((event) => event?.name === "BatchPlayed");
+    if (played) {
+      if (!(await fhevm.userDecryptEbool(played.args.charged, address, signers[0]))) {
+        console.log(`Batch ${played.args.batchId} not charged: the balance, house reserve or limits fall short`);
+        return;
+      }
+      const wins = await fhevm.userDecryptEuint(FhevmType.euint8, played.args.wins, address, signers[0]);
+      const reward = await fhevm.userDecryptEuint(FhevmType.euint64, played.args.reward, address, signers[0]);
+      console.log(`Batch ${played.args.batchId}: ${played.args.rounds} rounds, ${wins} won, reward ${reward}`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:batches --limit 5
+ */
+task("task:privyplay:batches", "Decrypt a page of the signer's batches")
+  .addOptionalParam("address", "Optionally specify the PrivyBatch contract address")
+  .addOptionalParam("offset", "Index of the first batch to print", "0")
+  .addOptionalParam("limit", "Maximum number of batches to print", "10")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, contract } = await getBatch(hre, taskArguments.address);
+    const signers = await ethers.getSigners();
+
+    const count = await contract.getBatchCount(signers[0].address);
+    const batches = await contract.getBatches(signers[0].address, taskArguments.offset, taskArguments.limit);
+    console.log(`Batches played: ${count}`);
+
+    for (const batch of batches) {
+      const wager = await fhevm.userDecryptEuint(FhevmType.euint64, batch.wager, address, signers[0]);
+      const charged = await fhevm.userDecryptEbool(batch.charged, address, signers[0]);
+      if (!charged) {
+        console.log(`#${batch.id} block ${batch.blockNumber}: ${batch.rounds} x ${wager}, not charged`);
+        continue;
+      }
+
+      const wins = await fhevm.userDecryptEuint(FhevmType.euint8, batch.wins, address, signers[0]);
+      const reward = await fhevm.userDecryptEuint(FhevmType.euint64, batch.reward, address, signers[0]);
+      console.log(`#${batch.id} block ${batch.blockNumber}: ${batch.rounds} x ${wager}, ${wins} won, reward ${reward}`);
+    }
+  });
@@ -0,0 +1,209 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+const OPERATOR_HOURS = 24;
+const DUEL_STATUS = ["None", "Open", "Settled", "Cancelled"];
+
+/**
+ * Makes the duels contract an operator of the signer's points for a day, unless it already is. Stakes are escrowed
+ * through the ledger.
+ */
+async function ensureOperator(hre: HardhatRuntimeEnvironment, duelsAddress: string, signer: HardhatEthersSigner) {
+  const duels = await hre.ethers.getContractAt("PrivyDuels", duelsAddress);
+  const points = await hre.ethers.getContractAt("PrivyPoints", await duels.points());
+  if (await points.isOperator(signer.address, duelsAddress)) {
+    return;
+  }
+
+  const until = Math.floor(Date.now() / 1000) + OPERATOR_HOURS * 3600;
+  const tx = await points.connect(signer).setOperator(duelsAddress, until);
+  console.log(`Approving the duels as operator until ${new Date(until * 1000).toISOString()}, tx:${tx.hash}...`);
+  await tx.wait();
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:open-duel --stake 1000
+ *   - npx hardhat --network sepolia task:privyplay:open-duel --stake 1000 --opponent 0x...
+ */
+task("task:privyplay:open-duel", "Open a duel with an encrypted stake")
+  .addOptionalParam("address", "Optionally specify the PrivyDuels contract address")
+  .addParam("stake", "The amount of points to stake")
+  .addOptionalParam("opponent", "The only player allowed to join (defaults to anyone)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyDuels");
+    console.log(`PrivyDuels: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyDuels", deployment.address);
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(deployment.address, signers[0].address)
+      .add64(BigInt(taskArguments.stake))
+      .encrypt();
+
+    await ensureOperator(hre, deployment.address, signers[0]);
+    const tx = await contract
+      .connect(signers[0])
+      .openDuel(taskArguments.opponent ?? ethers.ZeroAddress, encryptedInput.handles[0], encryptedInput.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const opened = receipt?.logs
+      .map((log) => contract.interface.parseLog(log))
+      .find((event) => event?.name === "DuelOpened");
+    if (opened) {
+      console.log(`Duel ${opened.args.duelId} opened, open until block ${opened.args.deadline}`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:join-duel --id 1 --stake 1000
+ */
+task("task:privyplay:join-duel", "Join an open duel with a matching encrypted stake")
+  .addOptionalParam("address", "Optionally specify the PrivyDuels contract address")
+  .addParam("id", "The duel id")
+  .addParam("stake", "The amount of points to stake, equal to the creator's")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyDuels");
+    console.log(`PrivyDuels: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyDuels", deployment.address);
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(deployment.address, signers[0].address)
+      .add64(BigInt(taskArguments.stake))
+      .encrypt();
+
+    await ensureOperator(hre, deployment.address, signers[0]);
+    const tx = await contract
+      .connect(signers[0])
+      .joinDuel(taskArguments.id, encryptedInput.handles[0], encryptedInput.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Cancels a duel of the signer, or any duel nobody joined in time.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:cancel-duel --id 1
+ */
+task("task:privyplay:cancel-duel", "Cancel an open duel and refund its creator")
+  .addOptionalParam("address", "Optionally specify the PrivyDuels contract address")
+  .addParam("id", "The duel id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyDuels");
+    console.log(`PrivyDuels: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyDuels", deployment.address);
+
+    const tx = await contract.connect(signers[0]).cancelDuel(taskArguments.id);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Duels open to anyone publish their stake, so the lobby prints it; an invite's stake is for the invited player only.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:duel-lobby --offset 0 --limit 10
+ */
+task("task:privyplay:duel-lobby", "Prints a page of the duels waiting for an opponent")
+  .addOptionalParam("address", "Optionally specify the PrivyDuels contract address")
+  .addOptionalParam("offset", "Index of the first duel to print", "0")
+  .addOptionalParam("limit", "Maximum number of duels to print", "10")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyDuels");
+    console.log(`PrivyDuels: ${deployment.address}`);
+
+    const contract = await ethers.getContractAt("PrivyDuels", deployment.address);
+
+    const count = await contract.getOpenDuelCount();
+    const ids = await contract.getOpenDuels(taskArguments.offset, taskArguments.limit);
+    const expiry = await contract.DUEL_EXPIRY_BLOCKS();
+    console.log(`Open duels: ${count}`);
+
+    for (const id of ids) {
+      const duel = await contract.getDuel(id);
+      const deadline = duel.openedBlock + expiry;
+      if (duel.opponent !== ethers.ZeroAddress) {
+        console.log(`#${id} by ${duel.creator}, open to ${duel.opponent}, until block ${deadline}`);
+        continue;
+      }
+      console.log(`#${id} by ${duel.creator}, open to anyone, until block ${deadline}`);
+    }
+  });
+
+/**
+ * Decrypts the signer's side of a duel.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:duel-result --id 1
+ */
+task("task:privyplay:duel-result", "Decrypt the signer's stake, rolls and payout in a duel")
+  .addOptionalParam("address", "Optionally specify the PrivyDuels contract address")
+  .addParam("id", "The duel id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyDuels");
+    console.log(`PrivyDuels: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyDuels", deployment.address);
+
+    const duel = await contract.getDuel(taskArguments.id);
+    const isCreator = duel.creator === signers[0].address;
+    if (!isCreator && duel.opponent !== signers[0].address) {
+      console.log(`Not a player of duel ${taskArguments.id}`);
+      return;
+    }
+
+    const decrypt = (type: FhevmType.euint8 | FhevmType.euint64, handle: string) =>
+      fhevm.userDecryptEuint(type, handle, deployment.address, signers[0]);
+    console.log(`Status     : ${DUEL_STATUS[Number(duel.status)]}`);
+    if (!isCreator && duel.status === 1n) {
+      // An invited opponent sees the stake to match.
+      console.log(`Stake      : ${await decrypt(FhevmType.euint64, duel.creatorStake)} pts to match`);
+      return;
+    }
+    const stake = await decrypt(FhevmType.euint64, isCreator ? duel.creatorStake : duel.opponentStake);
+    console.log(`Your stake : ${stake} pts`);
+    if (duel.status === 2n) {
+      const yourRoll = await decrypt(FhevmType.euint8, isCreator ? duel.creatorRoll : duel.opponentRoll);
+      const theirRoll = await decrypt(FhevmType.euint8, isCreator ? duel.opponentRoll : duel.creatorRoll);
+      console.log(`Rolls      : you ${yourRoll}, opponent ${theirRoll}`);
+    }
+    if (isCreator ? duel.creatorPayout !== ethers.ZeroHash : duel.opponentPayout !== ethers.ZeroHash) {
+      const payout = await decrypt(FhevmType.euint64, isCreator ? duel.creatorPayout : duel.opponentPayout);
+      console.log(`Your payout: ${payout} pts`);
+    }
+  });
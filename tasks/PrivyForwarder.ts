@@ -0,0 +1,200 @@
+import * as http from "http";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import type { ERC2771Forwarder, PrivyForwarder } from "../types";
+import { ensureOperator, parseBet } from "./PrivyPlay";
+
+const DEFAULT_RELAYER_PORT = 8547;
+// Signed requests stay valid for this long, so a stalled relayer cannot hold on to them.
+const REQUEST_TTL_SECONDS = 10 * 60;
+// Gas forwarded to the game for a relayed round; settling a bet runs the whole homomorphic evaluation.
+const DEFAULT_REQUEST_GAS = 5_000_000n;
+
+const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+async function getForwarder(hre: HardhatRuntimeEnvironment, address?: string) {
+  const { ethers, deployments } = hre;
+
+  const deployment = address ? { address } : await deployments.get("PrivyForwarder");
+  console.log(`PrivyForwarder: ${deployment.address}`);
+
+  return { address: deployment.address, contract: await ethers.getContractAt("PrivyForwarder", deployment.address) };
+}
+
+/**
+ * Signs a call of `to` with `data` as `signer`, for any relayer to submit through the forwarder. The signer pays no
+ * gas, and the target sees the signer as the sender.
+ */
+export async function signForwardRequest(
+  forwarder: PrivyForwarder,
+  signer: HardhatEthersSigner,
+  to: string,
+  data: string,
+  gas = DEFAULT_REQUEST_GAS,
+): Promise<ERC2771Forwarder.ForwardRequestDataStruct> {
+  const { name, version, chainId, verifyingContract } = await forwarder.eip712Domain();
+  const request = {
+    from: signer.address,
+    to,
+    value: 0n,
+    gas,
+    nonce: await forwarder.nonces(signer.address),
+    deadline: Math.floor(Date.now() / 1000) + REQUEST_TTL_SECONDS,
+    data,
+  };
+  const signature = await signer.signTypedData(
+    { name, version, chainId, verifyingContract },
+    FORWARD_REQUEST_TYPES,
+    request,
+  );
+
+  return { ...request, signature };
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * A reference relayer for local development: it serves `POST /` with a signed forward request as JSON, checks that it
+ * calls the game, carries no ETH and has a valid signature, then submits it and pays its gas. It relays for anyone, so
+ * it must not hold more than test ETH.
+ *
+ * Example:
+ *   - npx hardhat node
+ *   - npx hardhat --network localhost task:privyplay:relayer --port 8547
+ */
+task("task:privyplay:relayer", "Relay players' signed requests to the game, paying their gas")
+  .addOptionalParam("address", "Optionally specify the PrivyForwarder contract address")
+  .addOptionalParam("game", "Optionally specify the PrivyPlay contract address")
+  .addOptionalParam("port", "The port to listen on", String(DEFAULT_RELAYER_PORT))
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const { contract: forwarder } = await getForwarder(hre, taskArguments.address);
+    const game = taskArguments.game ?? (await deployments.get("PrivyPlay")).address;
+    const [relayer] = await ethers.getSigners();
+    console.log(`Relaying to PrivyPlay ${game} from ${relayer.address}`);
+
+    const relay = async (body: string) => {
+      const parsed = JSON.parse(body) as ERC2771Forwarder.ForwardRequestDataStruct;
+      const request = { ...parsed, value: BigInt(parsed.value), gas: BigInt(parsed.gas) };
+      if (String(request.to).toLowerCase() !== game.toLowerCase()) {
+        throw new Error("Only calls to the game are relayed");
+      }
+      if (request.value !== 0n) {
+        throw new Error("Requests carrying ETH are not relayed");
+      }
+      if (!(await forwarder.verify(request))) {
+        throw new Error("Invalid, expired or already relayed request");
+      }
+
+      const tx = await forwarder.connect(relayer).execute(request);
+      console.log(`Relaying for ${request.from}, tx:${tx.hash}`);
+      return tx.hash;
+    };
+
+    const server = http.createServer(async (req, res) => {
+      // The app runs on another origin.
+      res.setHeader("Access-Control-Allow-Origin", "*");
+      res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+      if (req.method === "OPTIONS") {
+        res.writeHead(204).end();
+        return;
+      }
+      if (req.method !== "POST") {
+        res.writeHead(405).end();
+        return;
+      }
+
+      try {
+        const hash = await relay(await readBody(req));
+        res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ hash }));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.log(`Rejected request: ${message}`);
+        res.writeHead(400, { "Content-Type": "application/json" }).end(JSON.stringify({ error: message }));
+      }
+    });
+
+    await new Promise<void>((resolve) => server.listen(Number(taskArguments.port), resolve));
+    console.log(`Relayer listening on http://localhost:${taskArguments.port}`);
+    await new Promise((resolve) => server.on("close", resolve));
+  });
+
+/**
+ * Plays a round without paying gas: the signer signs the `playRound` call and a relayer submits it. Encrypted inputs
+ * are bound to the signer, as for a direct call. The game must already be an operator of the signer's points, which
+ * takes one transaction of the signer's own.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:privyplay:gasless-play --wager 500 --bet big
+ */
+task("task:privyplay:gasless-play", "Play a round through a relayer, without paying gas")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addOptionalParam("forwarder", "Optionally specify the PrivyForwarder contract address")
+  .addOptionalParam("relayer", "The relayer URL", `http://localhost:${DEFAULT_RELAYER_PORT}`)
+  .addParam("wager", "The amount of points to wager (clamped to the contract's wager bounds)")
+  .addParam("bet", "big, small, odd, even, face:<n> or range:<low>-<high>")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const { contract: forwarder } = await getForwarder(hre, taskArguments.forwarder);
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+
+    const [kind, low, high] = parseBet(taskArguments.bet);
+    const encryptedInput = await fhevm
+      .createEncryptedInput(deployment.address, signers[0].address)
+      .add64(BigInt(taskArguments.wager))
+      .add8(kind)
+      .add8(low)
+      .add8(high)
+      .encrypt();
+
+    await ensureOperator(hre, deployment.address, signers[0]);
+    const data = contract.interface.encodeFunctionData("playRound", [
+      encryptedInput.handles[0],
+      encryptedInput.handles[1],
+      encryptedInput.handles[2],
+      encryptedInput.handles[3],
+      encryptedInput.inputProof,
+    ]);
+    const request = await signForwardRequest(forwarder, signers[0], deployment.address, data);
+
+    const response = await fetch(taskArguments.relayer, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request, (_key, value) => (typeof value === "bigint" ? value.toString() : value)),
+    });
+    const { hash, error } = (await response.json()) as { hash?: string; error?: string };
+    if (!hash) {
+      throw new Error(`Relayer rejected the request: ${error}`);
+    }
+    console.log(`Wait for tx:${hash}...`);
+
+    const receipt = await ethers.provider.waitForTransaction(hash);
+    console.log(`tx:${hash} status=${receipt?.status}`);
+    console.log(`Decrypt the round with task:privyplay:history`);
+  });
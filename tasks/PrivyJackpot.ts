@@ -0,0 +1,97 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+/**
+ * Prints the last publicly revealed pool size, and the live pool when the signer is the jackpot owner.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:jackpot
+ */
+task("task:privyplay:jackpot", "Prints the jackpot pool as last revealed")
+  .addOptionalParam("address", "Optionally specify the PrivyJackpot contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("PrivyJackpot");
+    console.log(`PrivyJackpot: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyJackpot", deployment.address);
+
+    console.log(`Contribution: ${await contract.CONTRIBUTION_PERCENT()}% of every charged wager`);
+    console.log(`Odds        : 1 in ${await contract.JACKPOT_ODDS()} per round`);
+
+    const revealed = await contract.getRevealedPool();
+    if (revealed === ethers.ZeroHash) {
+      const pending = await contract.contributionsSinceReveal();
+      console.log(
+        `Pool        : not revealed yet (${pending}/${await contract.MIN_REVEAL_CONTRIBUTIONS()} contributions)`,
+      );
+    } else {
+      const clearPool = await fhevm.publicDecryptEuint(FhevmType.euint64, revealed);
+      console.log(`Pool        : ${clearPool} pts as of block ${await contract.revealedAt()}`);
+    }
+
+    if ((await contract.owner()) === signers[0].address) {
+      const livePool = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await contract.getPool(),
+        deployment.address,
+        signers[0],
+      );
+      console.log(`Live pool   : ${livePool} pts`);
+    }
+  });
+
+/**
+ * Publicly decrypts the outcome of a round's jackpot draw and announces the winner if it hit.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:announce-jackpot --round 42
+ */
+task("task:privyplay:announce-jackpot", "Announce the winner of a round's jackpot draw")
+  .addOptionalParam("address", "Optionally specify the PrivyJackpot contract address")
+  .addParam("round", "The round id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("PrivyJackpot");
+    console.log(`PrivyJackpot: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyJackpot", deployment.address);
+
+    const draw = await contract.getDraw(taskArguments.round);
+    if (draw.player === ethers.ZeroAddress) {
+      console.log(`Round ${taskArguments.round} has no jackpot draw`);
+      return;
+    }
+
+    const decryption = await fhevm.publicDecrypt([draw.hit]);
+    if (decryption.clearValues[draw.hit as `0x${string}`] !== true) {
+      console.log(`Round ${taskArguments.round} of ${draw.player} did not hit the jackpot`);
+      return;
+    }
+    if (draw.announced) {
+      console.log(`Round ${taskArguments.round} of ${draw.player} hit the jackpot, already announced`);
+      return;
+    }
+
+    const tx = await contract
+      .connect(signers[0])
+      .announceWin(taskArguments.round, decryption.abiEncodedClearValues, decryption.decryptionProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`${draw.player} won the jackpot in round ${taskArguments.round}`);
+  });
@@ -0,0 +1,114 @@
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+const PAGE_SIZE = 100;
+
+/**
+ * Opts the signer in to the leaderboard, or out with --out.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:leaderboard-consent
+ *   - npx hardhat --network sepolia task:privyplay:leaderboard-consent --out
+ */
+task("task:privyplay:leaderboard-consent", "Opt in to (or out of) the leaderboard")
+  .addOptionalParam("address", "Optionally specify the PrivyLeaderboard contract address")
+  .addFlag("out", "Withdraw consent instead")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("PrivyLeaderboard");
+    console.log(`PrivyLeaderboard: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyLeaderboard", deployment.address);
+
+    const tx = taskArguments.out
+      ? await contract.connect(signers[0]).optOut()
+      : await contract.connect(signers[0]).optIn();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`${signers[0].address} ${taskArguments.out ? "left" : "joined"} the leaderboard`);
+  });
+
+/**
+ * Prints the ranking of an ended epoch from the published entries of the opted-in players, publishing the missing
+ * ones first with --publish.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:leaderboard
+ *   - npx hardhat --network sepolia task:privyplay:leaderboard --epoch 3 --publish
+ */
+task("task:privyplay:leaderboard", "Prints the leaderboard of an ended epoch")
+  .addOptionalParam("address", "Optionally specify the PrivyLeaderboard contract address")
+  .addOptionalParam("epoch", "The ended epoch (defaults to the last one)")
+  .addFlag("publish", "Publish the entries of opted-in players that are not public yet")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("PrivyLeaderboard");
+    console.log(`PrivyLeaderboard: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyLeaderboard", deployment.address);
+
+    const currentEpoch = await contract.currentEpoch();
+    if (currentEpoch === 0n && taskArguments.epoch === undefined) {
+      console.log(`The first epoch is still running (${await contract.EPOCH_BLOCKS()} blocks per epoch)`);
+      return;
+    }
+    const epoch = taskArguments.epoch !== undefined ? BigInt(taskArguments.epoch) : currentEpoch - 1n;
+    if (epoch >= currentEpoch) {
+      console.log(`Epoch ${epoch} is not over yet`);
+      return;
+    }
+
+    const players: string[] = [];
+    const playerCount = await contract.getPlayerCount();
+    for (let offset = 0n; offset < playerCount; offset += BigInt(PAGE_SIZE)) {
+      players.push(...(await contract.getPlayers(offset, PAGE_SIZE)));
+    }
+
+    const rows: { player: string; wins: bigint; net: bigint }[] = [];
+    for (const player of players) {
+      let entry = await contract.getEntry(epoch, player);
+      if (entry.wagered === ethers.ZeroHash) {
+        continue;
+      }
+      if (!entry.published) {
+        if (!taskArguments.publish) {
+          console.log(`${player}: not published yet (use --publish)`);
+          continue;
+        }
+        const tx = await contract.connect(signers[0]).publishEntry(epoch, player);
+        console.log(`Publishing ${player}, tx:${tx.hash}...`);
+        await tx.wait();
+        entry = await contract.getEntry(epoch, player);
+      }
+
+      const { clearValues } = await fhevm.publicDecrypt([entry.publishedWins, entry.publishedNet]);
+      rows.push({
+        player,
+        wins: clearValues[entry.publishedWins as `0x${string}`] as bigint,
+        net: clearValues[entry.publishedNet as `0x${string}`] as bigint,
+      });
+    }
+
+    // Higher net winnings first, then more wins.
+    rows.sort((a, b) => (a.net !== b.net ? (b.net > a.net ? 1 : -1) : Number(b.wins - a.wins)));
+
+    console.log(`Epoch ${epoch} (net winnings in buckets of ${await contract.BUCKET_SIZE()} pts):`);
+    if (rows.length === 0) {
+      console.log("  No published entries");
+    }
+    rows.forEach((row, i) => {
+      console.log(`  ${i + 1}. ${row.player}  net >= ${row.net} pts  wins ${row.wins}`);
+    });
+  });
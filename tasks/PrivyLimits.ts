@@ -0,0 +1,144 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+async function getLimits(hre: HardhatRuntimeEnvironment, address?: string) {
+  const { ethers, deployments } = hre;
+
+  const deployment = address ? { address } : await deployments.get("PrivyLimits");
+  console.log(`PrivyLimits: ${deployment.address}`);
+
+  return { address: deployment.address, contract: await ethers.getContractAt("PrivyLimits", deployment.address) };
+}
+
+const formatTime = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toISOString();
+
+/**
+ * Prints the signer's limits as they apply now, decrypting the daily spend cap and the points wagered today.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:limits
+ */
+task("task:privyplay:limits", "Prints the signer's responsible-gaming limits")
+  .addOptionalParam("address", "Optionally specify the PrivyLimits contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, contract } = await getLimits(hre, taskArguments.address);
+    const signers = await ethers.getSigners();
+    const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+
+    const limits = await contract.getLimits(signers[0].address);
+    const decrypt = async (handle: string) =>
+      handle === ethers.ZeroHash ? 0n : fhevm.userDecryptEuint(FhevmType.euint64, handle, address, signers[0]);
+
+    if (limits.excludedUntil > now) {
+      console.log(`Self-excluded until ${formatTime(limits.excludedUntil)}`);
+    }
+    if (limits.coolOffUntil > now) {
+      console.log(`Cooling off until ${formatTime(limits.coolOffUntil)}`);
+    }
+    const dailyRounds = limits.dailyRounds === 0n ? "none" : limits.dailyRounds.toString();
+    console.log(`Daily round limit: ${dailyRounds} (${limits.roundsToday} played today)`);
+    if (limits.pendingDailyRoundsAt !== 0n) {
+      const pending = limits.pendingDailyRounds === 0n ? "none" : limits.pendingDailyRounds.toString();
+      console.log(`  becomes ${pending} at ${formatTime(limits.pendingDailyRoundsAt)}`);
+    }
+
+    const cap = limits.hasSpendCap ? `${await decrypt(limits.dailySpendCap)} pts` : "none";
+    console.log(`Daily spend cap  : ${cap} (${await decrypt(limits.spentToday)} pts wagered today)`);
+    if (limits.pendingSpendCapAt !== 0n) {
+      const pending =
+        limits.pendingSpendCap === ethers.ZeroHash ? "none" : `${await decrypt(limits.pendingSpendCap)} pts`;
+      console.log(`  becomes ${pending} at ${formatTime(limits.pendingSpendCapAt)}`);
+    }
+  });
+
+/**
+ * Sets the signer's daily round limit (0 lifts it) and encrypted daily spend cap, or lifts the cap with
+ * --remove-spend-cap. Stricter limits apply at once, looser ones after the contract's LOOSEN_DELAY.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:set-limits --rounds 20 --spend-cap 5000
+ *   - npx hardhat --network sepolia task:privyplay:set-limits --remove-spend-cap
+ */
+task("task:privyplay:set-limits", "Set the signer's daily round limit and spend cap")
+  .addOptionalParam("address", "Optionally specify the PrivyLimits contract address")
+  .addOptionalParam("rounds", "The maximum number of rounds per day (0 for no limit)")
+  .addOptionalParam("spendCap", "The maximum number of points wagered per day")
+  .addFlag("removeSpendCap", "Lift the daily spend cap")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, contract } = await getLimits(hre, taskArguments.address);
+    const signers = await ethers.getSigners();
+
+    const txs = [];
+    if (taskArguments.rounds !== undefined) {
+      txs.push(await contract.connect(signers[0]).setDailyRoundLimit(taskArguments.rounds));
+    }
+    if (taskArguments.spendCap !== undefined) {
+      const encryptedCap = await fhevm
+        .createEncryptedInput(address, signers[0].address)
+        .add64(BigInt(taskArguments.spendCap))
+        .encrypt();
+      txs.push(await contract.connect(signers[0]).setDailySpendCap(encryptedCap.handles[0], encryptedCap.inputProof));
+    }
+    if (taskArguments.removeSpendCap) {
+      txs.push(await contract.connect(signers[0]).removeDailySpendCap());
+    }
+    if (txs.length === 0) {
+      console.log("Nothing to set: use --rounds, --spend-cap or --remove-spend-cap");
+      return;
+    }
+
+    for (const tx of txs) {
+      console.log(`Wait for tx:${tx.hash}...`);
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+      for (const log of receipt!.logs) {
+        const event = contract.interface.parseLog(log);
+        if (event) {
+          console.log(`${event.name}: effective at ${formatTime(event.args.effectiveAt)}`);
+        }
+      }
+    }
+  });
+
+/**
+ * Stops the signer from starting rounds for a while: a cool-off of up to 42 days with --hours, or a self-exclusion of
+ * 180 days to 5 years with --days. Neither can be ended early.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:take-break --hours 24
+ *   - npx hardhat --network sepolia task:privyplay:take-break --days 365
+ */
+task("task:privyplay:take-break", "Start a cool-off or a self-exclusion")
+  .addOptionalParam("address", "Optionally specify the PrivyLimits contract address")
+  .addOptionalParam("hours", "The length of a cool-off")
+  .addOptionalParam("days", "The length of a self-exclusion")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    if ((taskArguments.hours === undefined) === (taskArguments.days === undefined)) {
+      throw new Error("Use either --hours (cool-off) or --days (self-exclusion)");
+    }
+
+    const { contract } = await getLimits(hre, taskArguments.address);
+    const signers = await ethers.getSigners();
+
+    const tx =
+      taskArguments.hours !== undefined
+        ? await contract.connect(signers[0]).coolOff(Number(taskArguments.hours) * 3600)
+        : await contract.connect(signers[0]).selfExclude(Number(taskArguments.days) * 86400);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    const event = receipt!.logs.map((log) => contract.interface.parseLog(log)).find(Boolean);
+    console.log(`No new rounds until ${formatTime(event!.args.until)}`);
+  });
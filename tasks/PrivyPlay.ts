@@ -1,6 +1,128 @@
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import { AbiCoder, keccak256 } from "ethers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import type { PrivyHistory } from "../types";
+
+const BET_EXACT_FACE = 0;
+const BET_ODD_EVEN = 1;
+const BET_RANGE = 2;
+
+/**
+ * Parses "big", "small", "odd", "even", "face:<n>" or "range:<low>-<high>" into the (kind, low, high) triple
+ * expected by `submitGuess`.
+ */
+export function parseBet(bet: string): [number, number, number] {
+  const [name, value] = bet.split(":");
+  switch (name) {
+    case "big":
+      return [BET_RANGE, 4, 6];
+    case "small":
+      return [BET_RANGE, 1, 3];
+    case "odd":
+      return [BET_ODD_EVEN, 1, 0];
+    case "even":
+      return [BET_ODD_EVEN, 0, 0];
+    case "face":
+      return [BET_EXACT_FACE, Number(value), 0];
+    case "range": {
+      const [low, high] = (value ?? "").split("-").map(Number);
+      return [BET_RANGE, low, high];
+    }
+    default:
+      throw new Error(`Unknown bet '${bet}'`);
+  }
+}
+
+const OPERATOR_HOURS = 24;
+
+/**
+ * Makes the game an operator of the signer's points for `hours`, unless it already is. The game moves points through
+ * the ledger to charge wagers and burn redemptions.
+ */
+export async function ensureOperator(
+  hre: HardhatRuntimeEnvironment,
+  gameAddress: string,
+  signer: HardhatEthersSigner,
+  hours = OPERATOR_HOURS,
+  force = false,
+) {
+  const game = await hre.ethers.getContractAt("PrivyPlay", gameAddress);
+  const points = await hre.ethers.getContractAt("PrivyPoints", await game.points());
+  if (!force && (await points.isOperator(signer.address, gameAddress))) {
+    return;
+  }
+
+  const until = hours > 0 ? Math.floor(Date.now() / 1000) + hours * 3600 : 0;
+  const tx = await points.connect(signer).setOperator(gameAddress, until);
+  console.log(
+    until > 0
+      ? `Approving the game as operator until ${new Date(until * 1000).toISOString()}, tx:${tx.hash}...`
+      : `Revoking the game as operator, tx:${tx.hash}...`,
+  );
+  await tx.wait();
+}
+
+type RoundRecord = Awaited<ReturnType<PrivyHistory["getRoundHistory"]>>[number];
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+/**
+ * Mirrors `RoundLineage.commitment`: the hash of the wager and roll handles emitted when the round started.
+ */
+function roundCommitment(player: string, record: RoundRecord) {
+  return keccak256(
+    abiCoder.encode(["address", "uint256", "bytes32", "bytes32"], [player, record.id, record.wager, record.roll]),
+  );
+}
+
+/**
+ * Mirrors `RoundLineage.lineage`: the start commitment chained to the bet, outcome and reward handles of the round.
+ */
+function roundLineage(player: string, record: RoundRecord) {
+  return keccak256(
+    abiCoder.encode(
+      ["bytes32", "bytes32", "bytes32", "bytes32", "bytes32", "bytes32"],
+      [roundCommitment(player, record), record.betKind, record.betLow, record.betHigh, record.outcome, record.reward],
+    ),
+  );
+}
+
+/**
+ * Decrypts and prints history records, as the player or as one of their viewers.
+ */
+async function printRounds(
+  hre: HardhatRuntimeEnvironment,
+  gameAddress: string,
+  records: RoundRecord[],
+  signer: HardhatEthersSigner,
+) {
+  const { fhevm } = hre;
+
+  const decrypt = (type: FhevmType.euint8 | FhevmType.euint64, handle: string) =>
+    fhevm.userDecryptEuint(type, handle, gameAddress, signer);
+  for (const record of records) {
+    const wager = await decrypt(FhevmType.euint64, record.wager);
+    const roll = await decrypt(FhevmType.euint8, record.roll);
+    if (record.expired) {
+      console.log(`#${record.id} block ${record.blockNumber}: wager ${wager}, roll ${roll}, expired`);
+      continue;
+    }
+
+    const bet = [
+      await decrypt(FhevmType.euint8, record.betKind),
+      await decrypt(FhevmType.euint8, record.betLow),
+      await decrypt(FhevmType.euint8, record.betHigh),
+    ];
+    const won = await fhevm.userDecryptEbool(record.outcome, gameAddress, signer);
+    const reward = await decrypt(FhevmType.euint64, record.reward);
+    console.log(
+      `#${record.id} block ${record.blockNumber}: wager ${wager}, roll ${roll}, bet (${bet.join(", ")}), ` +
+        `${won ? "win" : "miss"}, reward ${reward}`,
+    );
+  }
+}
 
 /**
  * Example:
@@ -11,13 +133,15 @@ task("task:privyplay:address", "Prints the PrivyPlay address").setAction(async f
 
   const privyPlay = await deployments.get("PrivyPlay");
   console.log("PrivyPlay address is " + privyPlay.address);
+  const privyPoints = await deployments.get("PrivyPoints");
+  console.log("PrivyPoints address is " + privyPoints.address);
 });
 
 /**
  * Example:
  *   - npx hardhat --network sepolia task:privyplay:balance --player 0x...
  */
-task("task:privyplay:balance", "Decrypt a player's encrypted balance")
+task("task:privyplay:balance", "Decrypt a player's encrypted point balance")
   .addParam("player", "The player address")
   .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
   .setAction(async function (taskArguments: TaskArguments, hre) {
@@ -30,20 +154,17 @@ task("task:privyplay:balance", "Decrypt a player's encrypted balance")
 
     const signers = await ethers.getSigners();
     const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+    const pointsAddress = await contract.points();
+    const points = await ethers.getContractAt("PrivyPoints", pointsAddress);
 
-    const encryptedBalance = await contract.getBalance(taskArguments.player);
+    const encryptedBalance = await points.confidentialBalanceOf(taskArguments.player);
     if (encryptedBalance === ethers.ZeroHash) {
       console.log(`encrypted balance: ${encryptedBalance}`);
       console.log("clear balance    : 0");
       return;
     }
 
-    const clearBalance = await fhevm.userDecryptEuint(
-      FhevmType.euint64,
-      encryptedBalance,
-      deployment.address,
-      signers[0],
-    );
+    const clearBalance = await fhevm.userDecryptEuint(FhevmType.euint64, encryptedBalance, pointsAddress, signers[0]);
 
     console.log(`Encrypted balance: ${encryptedBalance}`);
     console.log(`Clear balance    : ${clearBalance}`);
@@ -74,33 +195,180 @@ task("task:privyplay:buy", "Buy points with ETH")
 
 /**
  * Example:
- *   - npx hardhat --network sepolia task:privyplay:start
+ *   - npx hardhat --network sepolia task:privyplay:transfer --to 0x... --amount 500
+ */
+task("task:privyplay:transfer", "Send an encrypted amount of points to another player")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addParam("to", "The recipient address")
+  .addParam("amount", "The amount of points to send (nothing moves if it exceeds the balance)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+    const pointsAddress = await contract.points();
+    const points = await ethers.getContractAt("PrivyPoints", pointsAddress);
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(pointsAddress, signers[0].address)
+      .add64(BigInt(taskArguments.amount))
+      .encrypt();
+
+    const tx = await points
+      .connect(signers[0])
+      ["confidentialTransfer(address,bytes32,bytes)"](
+        taskArguments.to,
+        encryptedInput.handles[0],
+        encryptedInput.inputProof,
+      );
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const transferred = receipt?.logs
+      .map((log) => points.interface.parseLog(log))
+      .find((event) => event?.name === "ConfidentialTransfer");
+    if (transferred) {
+      const clearAmount = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        transferred.args.amount,
+        pointsAddress,
+        signers[0],
+      );
+      console.log(`Points sent: ${clearAmount}`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:approve --hours 48
  */
-task("task:privyplay:start", "Start a new game round")
+task("task:privyplay:approve", "Make the game an operator of the signer's points (needed to wager and redeem)")
   .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addOptionalParam("hours", "How long the approval lasts (0 revokes it)", String(OPERATOR_HOURS))
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments } = hre;
 
     const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
     console.log(`PrivyPlay: ${deployment.address}`);
 
+    const signers = await ethers.getSigners();
+    await ensureOperator(hre, deployment.address, signers[0], Number(taskArguments.hours), true);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:start --wager 500
+ *   - npx hardhat --network sepolia task:privyplay:start --wager 500 --session
+ */
+task("task:privyplay:start", "Start a new game round with an encrypted wager")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addParam("wager", "The amount of points to wager (clamped to the contract's wager bounds)")
+  .addFlag("session", "Play the round in a session: opens one, or rolls again in the open one")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(deployment.address, signers[0].address)
+      .add64(BigInt(taskArguments.wager))
+      .encrypt();
+
+    await ensureOperator(hre, deployment.address, signers[0]);
+    let start = contract.connect(signers[0]).startGame;
+    if (taskArguments.session) {
+      const session = await contract.getSession(signers[0].address);
+      start = session.active ? contract.connect(signers[0]).rollAgain : contract.connect(signers[0]).startSession;
+      console.log(session.active ? `Rolling again (round ${session.rounds + 1n})` : "Opening a session");
+    }
+    const tx = await start(encryptedInput.handles[0], encryptedInput.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const started = receipt?.logs
+      .map((log) => contract.interface.parseLog(log))
+      .find((event) => event?.name === "GameStarted");
+    if (started) {
+      console.log(`Round ${started.args.roundId} started, bet by block ${started.args.deadline}`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:guess --bet big
+ *   - npx hardhat --network sepolia task:privyplay:guess --bet face:6
+ *   - npx hardhat --network sepolia task:privyplay:guess --bet range:2-5
+ */
+task("task:privyplay:guess", "Submit an encrypted bet")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addParam("bet", "big, small, odd, even, face:<n> or range:<low>-<high>")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
     const signers = await ethers.getSigners();
     const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
 
-    const tx = await contract.connect(signers[0]).startGame();
+    const [kind, low, high] = parseBet(taskArguments.bet);
+    const encryptedInput = await fhevm
+      .createEncryptedInput(deployment.address, signers[0].address)
+      .add8(kind)
+      .add8(low)
+      .add8(high)
+      .encrypt();
+
+    const tx = await contract
+      .connect(signers[0])
+      .submitGuess(
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        encryptedInput.inputProof,
+      );
     console.log(`Wait for tx:${tx.hash}...`);
 
     const receipt = await tx.wait();
     console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const settled = receipt?.logs
+      .map((log) => contract.interface.parseLog(log))
+      .find((event) => event?.name === "RoundSettled");
+    if (settled) {
+      console.log(`Round ${settled.args.roundId} settled, reward handle: ${settled.args.reward}`);
+    }
   });
 
 /**
+ * Plays a whole round in one transaction, and decrypts its roll, outcome and reward. `start` then `guess` play the same
+ * round in two.
+ *
  * Example:
- *   - npx hardhat --network sepolia task:privyplay:guess --big true
+ *   - npx hardhat --network sepolia task:privyplay:play --wager 500 --bet big
+ *   - npx hardhat --network sepolia task:privyplay:play --wager 500 --bet face:6
  */
-task("task:privyplay:guess", "Submit an encrypted guess")
+task("task:privyplay:play", "Play a round in one transaction: charge an encrypted wager, roll and settle a bet")
   .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
-  .addParam("big", "true for big, false for small")
+  .addParam("wager", "The amount of points to wager (clamped to the contract's wager bounds)")
+  .addParam("bet", "big, small, odd, even, face:<n> or range:<low>-<high>")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments, fhevm } = hre;
 
@@ -112,15 +380,947 @@ task("task:privyplay:guess", "Submit an encrypted guess")
     const signers = await ethers.getSigners();
     const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
 
-    const guess = taskArguments.big === "true";
+    const [kind, low, high] = parseBet(taskArguments.bet);
     const encryptedInput = await fhevm
       .createEncryptedInput(deployment.address, signers[0].address)
-      .addBool(guess)
+      .add64(BigInt(taskArguments.wager))
+      .add8(kind)
+      .add8(low)
+      .add8(high)
       .encrypt();
 
-    const tx = await contract.connect(signers[0]).submitGuess(encryptedInput.handles[0], encryptedInput.inputProof);
+    await ensureOperator(hre, deployment.address, signers[0]);
+    const tx = await contract
+      .connect(signers[0])
+      .playRound(
+        encryptedInput.handles[0],
+        encryptedInput.handles[1],
+        encryptedInput.handles[2],
+        encryptedInput.handles[3],
+        encryptedInput.inputProof,
+      );
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const settled = receipt?.logs
+      .map((log) => contract.interface.parseLog(log))
+      .find((event) => event?.name === "RoundSettled");
+    if (settled) {
+      const roll = await fhevm.userDecryptEuint(FhevmType.euint8, settled.args.roll, deployment.address, signers[0]);
+      const won = await fhevm.userDecryptEbool(settled.args.outcome, deployment.address, signers[0]);
+      const reward = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        settled.args.reward,
+        deployment.address,
+        signers[0],
+      );
+      console.log(`Round ${settled.args.roundId}: rolled ${roll}, ${won ? "win" : "miss"}, reward ${reward}`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:round --player 0x...
+ */
+task("task:privyplay:round", "Prints a player's round status and deadline")
+  .addParam("player", "The player address")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+
+    const status = await contract.getRoundStatus(taskArguments.player);
+    if (!status.active) {
+      console.log("No active round");
+      return;
+    }
+
+    const currentBlock = await ethers.provider.getBlockNumber();
+    console.log(`Started in block: ${status.startBlock}`);
+    console.log(`Deadline block  : ${status.deadline} (current ${currentBlock})`);
+    console.log(`Expired         : ${status.expired}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:expire --player 0x...
+ */
+task("task:privyplay:expire", "Forfeit a player's round once its deadline has passed")
+  .addParam("player", "The player address")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+
+    const tx = await contract.connect(signers[0]).expireRound(taskArguments.player);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Decrypts the session of the first signer.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:session
+ */
+task("task:privyplay:session", "Decrypt the signer's session streak and pot")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+
+    const session = await contract.getSession(signers[0].address);
+    if (!session.active) {
+      console.log("No open session");
+      return;
+    }
+
+    const streak = await fhevm.userDecryptEuint(FhevmType.euint8, session.streak, deployment.address, signers[0]);
+    const pot = await fhevm.userDecryptEuint(FhevmType.euint64, session.pot, deployment.address, signers[0]);
+    console.log(`Rounds  : ${session.rounds} of ${await contract.MAX_SESSION_ROUNDS()}`);
+    console.log(`Streak  : ${streak}`);
+    console.log(`Pot     : ${pot} pts`);
+    console.log(`Exposure: ${session.exposure} pts locked`);
+  });
+
+/**
+ * Banks the signer's session, or an idle session of another player with --player.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:bank
+ */
+task("task:privyplay:bank", "Pay a session pot to its player and close the session")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addOptionalParam("player", "The player whose idle session is banked (defaults to the signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+
+    const tx = await contract.connect(signers[0]).bankSession(taskArguments.player ?? signers[0].address);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Decrypts the rounds of the first signer.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:history --offset 0 --limit 10
+ */
+task("task:privyplay:history", "Decrypt a page of the signer's round history")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addOptionalParam("offset", "Index of the first round to print", "0")
+  .addOptionalParam("limit", "Maximum number of rounds to print", "10")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+    const history = await ethers.getContractAt("PrivyHistory", await contract.history());
+
+    const count = await history.getRoundCount(signers[0].address);
+    const records = await history.getRoundHistory(signers[0].address, taskArguments.offset, taskArguments.limit);
+    console.log(`Rounds played: ${count}`);
+
+    await printRounds(hre, deployment.address, records, signers[0]);
+  });
+
+/**
+ * Re-derives the lineage of one of a player's rounds from its history record, and checks it against the commitment
+ * emitted when the round started, the handles emitted when it was bet on and settled, and the lineage the history
+ * stored. Any mismatch means a handle was swapped after the round started.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:verify-round --player 0x... --round 42
+ */
+task("task:privyplay:verify-round", "Check the ciphertext lineage of a round, from its start to its history record")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addParam("player", "The player address")
+  .addParam("round", "The round id")
+  .addOptionalParam("fromBlock", "The block the game was deployed at", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+    const history = await ethers.getContractAt("PrivyHistory", await contract.history());
+    const player: string = taskArguments.player;
+    const roundId = BigInt(taskArguments.round);
+    const fromBlock = Number(taskArguments.fromBlock);
+
+    const count = await history.getRoundCount(player);
+    let index = -1;
+    let record: RoundRecord | undefined;
+    for (let offset = 0n; offset < count && record === undefined; offset += 50n) {
+      const records = await history.getRoundHistory(player, offset, 50);
+      const found = records.findIndex((candidate) => candidate.id === roundId);
+      if (found >= 0) {
+        index = Number(offset) + found;
+        record = records[found];
+      }
+    }
+    if (record === undefined) {
+      throw new Error(`Round ${roundId} is not in the history of ${player}`);
+    }
+
+    let mismatches = 0;
+    const check = (label: string, actual: string | undefined, expected: string) => {
+      if (actual === expected) {
+        console.log(`ok       ${label}`);
+        return;
+      }
+      console.log(`MISMATCH ${label}: ${actual ?? "missing"}, expected ${expected}`);
+      mismatches++;
+    };
+
+    const [started] = await contract.queryFilter(contract.filters.GameStarted(player, roundId), fromBlock);
+    check("start commitment", started?.args.commitment, roundCommitment(player, record));
+    check("start wager", started?.args.wager, record.wager);
+    check("start roll", started?.args.roll, record.roll);
+
+    if (!record.expired) {
+      const [guessed] = await contract.queryFilter(contract.filters.GuessSubmitted(player, roundId), fromBlock);
+      check("bet kind", guessed?.args.betKind, record.betKind);
+      check("bet low", guessed?.args.betLow, record.betLow);
+      check("bet high", guessed?.args.betHigh, record.betHigh);
+    }
+
+    const [settled] = await contract.queryFilter(contract.filters.RoundSettled(player, roundId), fromBlock);
+    check("settled roll", settled?.args.roll, record.roll);
+    check("settled outcome", settled?.args.outcome, record.outcome);
+    check("settled reward", settled?.args.reward, record.reward);
+
+    const [lineage] = await history.getRoundLineage(player, index, 1);
+    check("recorded lineage", lineage, roundLineage(player, record));
+
+    // The last roll is only kept until the player starts another round.
+    if (BigInt(index) === count - 1n && !(await contract.getRoundStatus(player)).active) {
+      check("last roll", await contract.getLastRoll(player), record.roll);
+    }
+
+    if (mismatches > 0) {
+      throw new Error(`${mismatches} mismatch(es) in the lineage of round ${roundId}`);
+    }
+    console.log(`Round ${roundId} is consistent from its start to its history record`);
+  });
+
+/**
+ * Lets another address, such as an auditor or support staff, decrypt the signer's balance and round history for
+ * `hours`, or lists the signer's viewers with --list. Granting again moves the expiry; --revoke ends the grant, but
+ * the viewer keeps what was already shared.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:viewer --viewer 0x... --hours 72
+ *   - npx hardhat --network sepolia task:privyplay:viewer --viewer 0x... --revoke
+ *   - npx hardhat --network sepolia task:privyplay:viewer --list
+ */
+task("task:privyplay:viewer", "Grant, revoke or list the viewers of the signer's balance and history")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addOptionalParam("viewer", "The address to grant or revoke")
+  .addOptionalParam("hours", "How long the grant lasts", "72")
+  .addFlag("revoke", "Revoke the grant instead")
+  .addFlag("list", "List the signer's viewers")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+    const points = await ethers.getContractAt("PrivyPoints", await contract.points());
+
+    if (taskArguments.list) {
+      const [viewers, until] = await points.getViewers(signers[0].address);
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      if (viewers.length === 0) {
+        console.log("No viewers");
+      }
+      viewers.forEach((viewer, i) => {
+        const expiry = new Date(Number(until[i]) * 1000).toISOString();
+        console.log(`${viewer}: ${until[i] >= BigInt(now) ? "until" : "expired"} ${expiry}`);
+      });
+      return;
+    }
+    if (!taskArguments.viewer) {
+      throw new Error("Missing --viewer");
+    }
+
+    let tx;
+    if (taskArguments.revoke) {
+      tx = await points.connect(signers[0]).revokeViewer(taskArguments.viewer);
+    } else {
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      tx = await points.connect(signers[0]).grantViewer(taskArguments.viewer, now + Number(taskArguments.hours) * 3600);
+    }
     console.log(`Wait for tx:${tx.hash}...`);
 
     const receipt = await tx.wait();
     console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`${taskArguments.viewer} ${taskArguments.revoke ? "can no longer view" : "can now view"} your points`);
+  });
+
+/**
+ * Run by a viewer the player granted: pulls a page of the player's round history from the game, then decrypts it
+ * along with the player's balance.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:inspect --player 0x... --offset 0 --limit 10
+ */
+task("task:privyplay:inspect", "Decrypt the balance and round history of a player who granted the signer")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addParam("player", "The player who granted the signer")
+  .addOptionalParam("offset", "Index of the first round to print", "0")
+  .addOptionalParam("limit", "Maximum number of rounds to print", "10")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+    const pointsAddress = await contract.points();
+    const points = await ethers.getContractAt("PrivyPoints", pointsAddress);
+
+    if (!(await points.isViewer(taskArguments.player, signers[0].address))) {
+      console.log(`${signers[0].address} is not an active viewer of ${taskArguments.player}`);
+      return;
+    }
+
+    const encryptedBalance = await points.confidentialBalanceOf(taskArguments.player);
+    const clearBalance =
+      encryptedBalance === ethers.ZeroHash
+        ? 0n
+        : await fhevm.userDecryptEuint(FhevmType.euint64, encryptedBalance, pointsAddress, signers[0]);
+    console.log(`Balance of ${taskArguments.player}: ${clearBalance}`);
+
+    const history = await ethers.getContractAt("PrivyHistory", await contract.history());
+    const tx = await history
+      .connect(signers[0])
+      .shareRoundHistory(taskArguments.player, taskArguments.offset, taskArguments.limit);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+
+    const count = await history.getRoundCount(taskArguments.player);
+    const records = await history.getRoundHistory(taskArguments.player, taskArguments.offset, taskArguments.limit);
+    console.log(`Rounds played: ${count}`);
+    await printRounds(hre, deployment.address, records, signers[0]);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:redeem --points 1000
+ */
+task("task:privyplay:redeem", "Redeem encrypted points back to ETH")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addParam("points", "The amount of points to redeem")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+
+    const points = BigInt(taskArguments.points);
+    const encryptedInput = await fhevm
+      .createEncryptedInput(deployment.address, signers[0].address)
+      .add64(points)
+      .encrypt();
+
+    await ensureOperator(hre, deployment.address, signers[0]);
+    let tx = await contract.connect(signers[0]).requestRedemption(encryptedInput.handles[0], encryptedInput.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    let receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const pending = await contract.getPendingRedemption(signers[0].address);
+    console.log(`Public decryption of ${pending}...`);
+    const decryption = await fhevm.publicDecrypt([pending]);
+    console.log(`Burned points    : ${decryption.clearValues[pending as `0x${string}`]}`);
+
+    tx = await contract
+      .connect(signers[0])
+      .finalizeRedemption(signers[0].address, decryption.abiEncodedClearValues, decryption.decryptionProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:economics
+ */
+task("task:privyplay:economics", "Prints the current and pending game economics")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+
+    const payouts = await contract.getPayouts();
+    console.log(`Version        : ${await contract.economicsVersion()}`);
+    console.log(`Points per ETH : ${await contract.pointsPerEth()}`);
+    console.log(`Min wager      : ${await contract.minWager()}`);
+    console.log(`Max wager      : ${await contract.maxWager()}`);
+    console.log(
+      `Payouts (%)    : face=${payouts.exactFace} odd/even=${payouts.oddEven} range=${payouts.range.join(",")}`,
+    );
+
+    const timelockAddress = await contract.timelock();
+    if (timelockAddress === ethers.ZeroAddress) {
+      console.log("No timelock attached: the economics cannot change");
+      return;
+    }
+    const timelock = await ethers.getContractAt("PrivyTimelock", timelockAddress);
+    console.log(`Timelock       : ${timelockAddress} (${await timelock.ECONOMICS_DELAY()}s)`);
+
+    const [pending, effectiveAt] = await timelock.getPendingEconomics();
+    if (effectiveAt === 0n) {
+      console.log("No pending update");
+      return;
+    }
+
+    console.log(`Pending update effective at ${new Date(Number(effectiveAt) * 1000).toISOString()}:`);
+    console.log(`  Points per ETH : ${pending.pointsPerEth}`);
+    console.log(`  Min wager      : ${pending.minWager}`);
+    console.log(`  Max wager      : ${pending.maxWager}`);
+    console.log(
+      `  Payouts (%)    : face=${pending.payouts.exactFace} odd/even=${pending.payouts.oddEven} ` +
+        `range=${pending.payouts.range.join(",")}`,
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:schedule-economics --points-per-eth 1000000 --min-wager 100
+ *     --max-wager 10000 --exact-face 580 --odd-even 195 --range 580,290,195,145,116,97
+ */
+task("task:privyplay:schedule-economics", "Schedule a timelocked economics update (owner only)")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addParam("pointsPerEth", "Points credited per ETH")
+  .addParam("minWager", "Smallest wager per round, in points")
+  .addParam("maxWager", "Largest wager per round, in points")
+  .addParam("exactFace", "Exact-face payout, in percent of the wager")
+  .addParam("oddEven", "Odd/even payout, in percent of the wager")
+  .addParam("range", "Comma-separated range payouts in percent of the wager, for ranges of 1 to 6 faces")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+    const timelock = await ethers.getContractAt("PrivyTimelock", await contract.timelock());
+
+    const tx = await timelock.connect(signers[0]).scheduleEconomicsUpdate({
+      pointsPerEth: taskArguments.pointsPerEth,
+      minWager: taskArguments.minWager,
+      maxWager: taskArguments.maxWager,
+      payouts: {
+        exactFace: taskArguments.exactFace,
+        oddEven: taskArguments.oddEven,
+        range: taskArguments.range.split(","),
+      },
+    });
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:apply-economics
+ */
+task("task:privyplay:apply-economics", "Apply a pending economics update once its timelock has elapsed")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+    const timelock = await ethers.getContractAt("PrivyTimelock", await contract.timelock());
+
+    const tx = await timelock.connect(signers[0]).applyEconomicsUpdate();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:cancel-economics
+ */
+task("task:privyplay:cancel-economics", "Cancel the pending economics update (owner only)")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+    const timelock = await ethers.getContractAt("PrivyTimelock", await contract.timelock());
+
+    const tx = await timelock.connect(signers[0]).cancelEconomicsUpdate();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:fund-house --value 0.5
+ */
+task("task:privyplay:fund-house", "Add ETH to the house reserve (treasurer only)")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addParam("value", "ETH amount to send")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+
+    const tx = await contract.connect(signers[0]).fundHouseReserve({ value: ethers.parseEther(taskArguments.value) });
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Burns house points for ETH, paid to the treasurer once the burned amount is publicly decrypted. Only the reserve that
+ * open rounds do not lock can be withdrawn; a larger amount withdraws nothing.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:withdraw-house --points 100000
+ */
+task("task:privyplay:withdraw-house", "Withdraw free house reserve points as ETH (treasurer only)")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addParam("points", "The amount of points to withdraw")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+
+    let tx = await contract.connect(signers[0]).withdrawHouseReserve(BigInt(taskArguments.points));
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    let receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const pending = await contract.getPendingRedemption(signers[0].address);
+    console.log(`Public decryption of ${pending}...`);
+    const decryption = await fhevm.publicDecrypt([pending]);
+    console.log(`Burned points    : ${decryption.clearValues[pending as `0x${string}`]}`);
+
+    tx = await contract
+      .connect(signers[0])
+      .finalizeRedemption(signers[0].address, decryption.abiEncodedClearValues, decryption.decryptionProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Decrypts the house aggregates, so it must run with the owner or the treasurer as first signer.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:exposure
+ */
+task("task:privyplay:exposure", "Prints the house reserve, player liabilities and open round exposure")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+
+    const decrypt = async (handle: string) =>
+      handle === ethers.ZeroHash
+        ? 0n
+        : fhevm.userDecryptEuint(FhevmType.euint64, handle, deployment.address, signers[0]);
+    const reserve = await decrypt(await contract.getHouseReserve());
+    const liabilities = await decrypt(await contract.getTotalLiabilities());
+    const openExposure = await contract.openExposure();
+    const maxRoundPayout = await contract.maxRoundPayout();
+    const pointsPerEth = await contract.pointsPerEth();
+    const ethBalance = await ethers.provider.getBalance(deployment.address);
+    const ethPoints = (ethBalance * pointsPerEth) / ethers.WeiPerEther;
+
+    console.log(`House reserve     : ${reserve} pts`);
+    console.log(`Player liabilities: ${liabilities} pts`);
+    console.log(`Open exposure     : ${openExposure} pts`);
+    console.log(`Max round payout  : ${maxRoundPayout} pts`);
+    console.log(`Free reserve      : ${reserve > openExposure ? reserve - openExposure : 0n} pts`);
+    console.log(
+      `New rounds        : ${reserve >= openExposure + maxRoundPayout ? "covered" : "refused until the reserve is funded"}`,
+    );
+    console.log(`Contract ETH      : ${ethers.formatEther(ethBalance)} ETH (${ethPoints} pts)`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:roles
+ */
+task("task:privyplay:roles", "Prints the owner, pauser and treasurer of the game, and whether it is paused")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+
+    const pendingOwner = await contract.pendingOwner();
+    console.log(`Owner    : ${await contract.owner()}`);
+    if (pendingOwner !== ethers.ZeroAddress) {
+      console.log(`  offered to ${pendingOwner}`);
+    }
+    console.log(`Pauser   : ${await contract.pauser()}`);
+    console.log(`Treasurer: ${await contract.treasurer()}`);
+    console.log(`Paused   : ${await contract.paused()}`);
+  });
+
+/**
+ * Offers the ownership to another account, which takes it over with task:privyplay:accept-ownership. Use the zero
+ * address to withdraw the offer.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:transfer-ownership --to 0x...
+ */
+task("task:privyplay:transfer-ownership", "Offer the ownership of the game to another account (owner only)")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addParam("to", "The proposed owner")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+
+    const tx = await contract.connect(signers[0]).transferOwnership(taskArguments.to);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:accept-ownership
+ */
+task("task:privyplay:accept-ownership", "Take over the ownership of the game offered to the signer")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+
+    const tx = await contract.connect(signers[0]).acceptOwnership();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:set-role --role pauser --account 0x...
+ *   - npx hardhat --network sepolia task:privyplay:set-role --role treasurer --account 0x...
+ */
+task("task:privyplay:set-role", "Hand the pauser or treasurer role to another account (owner only)")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addParam("role", "pauser or treasurer")
+  .addParam("account", "The account to hand the role to")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    if (!["pauser", "treasurer"].includes(taskArguments.role)) {
+      throw new Error(`Unknown role '${taskArguments.role}': use pauser or treasurer`);
+    }
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+
+    const tx =
+      taskArguments.role === "pauser"
+        ? await contract.connect(signers[0]).setPauser(taskArguments.account)
+        : await contract.connect(signers[0]).setTreasurer(taskArguments.account);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Stops new purchases and rounds, or resumes them with --unpause. Open rounds can still settle, sessions be banked and
+ * points be redeemed while the game is paused.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:pause
+ *   - npx hardhat --network sepolia task:privyplay:pause --unpause
+ */
+task("task:privyplay:pause", "Pause or unpause the game (pauser only)")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addFlag("unpause", "Resume play instead")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+
+    const signers = await ethers.getSigners();
+    const contract = await ethers.getContractAt("PrivyPlay", deployment.address);
+
+    const tx = taskArguments.unpause
+      ? await contract.connect(signers[0]).unpause()
+      : await contract.connect(signers[0]).pause();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Approves this deployment as the successor of a legacy one, which players can then export their points to. Run by
+ * the owner of the legacy game; can only be done once.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:approve-successor --legacy 0x...
+ */
+task("task:privyplay:approve-successor", "Approve this deployment as the successor of a legacy one (legacy owner only)")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addParam("legacy", "The legacy PrivyPlay contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+    console.log(`Legacy   : ${taskArguments.legacy}`);
+
+    const signers = await ethers.getSigners();
+    const legacy = await ethers.getContractAt("PrivyPlay", taskArguments.legacy);
+
+    const tx = await legacy.connect(signers[0]).setSuccessor(deployment.address);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Exports points from a legacy deployment to this one: the legacy game burns them and, once their public decryption is
+ * finalized, buys them back here for the player with the ETH behind them, at this game's exchange rate. The legacy
+ * owner must have approved this deployment as its successor; if it refuses the ETH, the player is paid out in ETH.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:export --legacy 0x... --points 1000
+ */
+task("task:privyplay:export", "Export the signer's points from a legacy deployment to this one")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addParam("legacy", "The legacy PrivyPlay contract address")
+  .addParam("points", "The amount of points to export")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+    console.log(`Legacy   : ${taskArguments.legacy}`);
+
+    const signers = await ethers.getSigners();
+    const legacy = await ethers.getContractAt("PrivyPlay", taskArguments.legacy);
+    if ((await legacy.successor()) !== ethers.getAddress(deployment.address)) {
+      throw new Error(`${deployment.address} is not the approved successor of ${taskArguments.legacy}`);
+    }
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(taskArguments.legacy, signers[0].address)
+      .add64(BigInt(taskArguments.points))
+      .encrypt();
+
+    await ensureOperator(hre, taskArguments.legacy, signers[0]);
+    let tx = await legacy
+      .connect(signers[0])
+      .exportPoints(deployment.address, encryptedInput.handles[0], encryptedInput.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    let receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const pending = await legacy.getPendingRedemption(signers[0].address);
+    const decryption = await fhevm.publicDecrypt([pending]);
+    console.log(`Burned points: ${decryption.clearValues[pending as `0x${string}`]}`);
+
+    tx = await legacy
+      .connect(signers[0])
+      .finalizeRedemption(signers[0].address, decryption.abiEncodedClearValues, decryption.decryptionProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Walks every holder of the legacy ledger, from its transfer events, and reports who exported points to this
+ * deployment, who has a redemption or export awaiting its public decryption, and who never exported. With --finalize,
+ * finalizes the pending ones, which anyone can do.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:migrate --legacy 0x...
+ *   - npx hardhat --network sepolia task:privyplay:migrate --legacy 0x... --from-block 7000000 --finalize
+ */
+task("task:privyplay:migrate", "Report, and optionally finalize, the exports from a legacy deployment")
+  .addOptionalParam("address", "Optionally specify the PrivyPlay contract address")
+  .addParam("legacy", "The legacy PrivyPlay contract address")
+  .addOptionalParam("fromBlock", "The block the legacy ledger was deployed at", "0")
+  .addFlag("finalize", "Finalize the pending redemptions and exports")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyPlay");
+    console.log(`PrivyPlay: ${deployment.address}`);
+    console.log(`Legacy   : ${taskArguments.legacy}`);
+
+    const signers = await ethers.getSigners();
+    const legacy = await ethers.getContractAt("PrivyPlay", taskArguments.legacy);
+    const legacyPoints = await ethers.getContractAt("PrivyPoints", await legacy.points());
+    const fromBlock = Number(taskArguments.fromBlock);
+
+    // Points reach players through purchases, wins, transfers, duels and token sales alike: every one of them is a
+    // transfer on the ledger. The game and its add-ons, attached to it or not like the duels escrow, hold points too
+    // but never export them; every add-on names the game it was deployed for.
+    const transfers = await legacyPoints.queryFilter(legacyPoints.filters.ConfidentialTransfer(), fromBlock);
+    const holders = new Set(transfers.map((event) => event.args.to));
+    holders.delete(ethers.ZeroAddress);
+    const legacyAddress = await legacy.getAddress();
+    holders.delete(legacyAddress);
+    for (const holder of [...holders]) {
+      if ((await ethers.provider.getCode(holder)) === "0x") {
+        continue;
+      }
+      const addOn = await ethers.getContractAt("PrivyJackpot", holder);
+      const game = await addOn.game().catch(() => undefined);
+      if (game === legacyAddress) {
+        holders.delete(holder);
+      }
+    }
+    console.log(`${holders.size} holder(s) received points on the legacy deployment`);
+
+    const exports = await legacy.queryFilter(legacy.filters.PointsExported(), fromBlock);
+    const exported = new Map<string, bigint>();
+    for (const event of exports) {
+      if (event.args.successor === deployment.address) {
+        exported.set(event.args.player, (exported.get(event.args.player) ?? 0n) + event.args.points);
+      }
+    }
+
+    let migrated = 0;
+    let pending = 0;
+    let notExported = 0;
+    for (const holder of holders) {
+      const handle = await legacy.getPendingRedemption(holder);
+      if (handle !== ethers.ZeroHash) {
+        console.log(`${holder}: redemption or export pending`);
+        pending++;
+        if (taskArguments.finalize) {
+          const decryption = await fhevm.publicDecrypt([handle]);
+          const tx = await legacy
+            .connect(signers[0])
+            .finalizeRedemption(holder, decryption.abiEncodedClearValues, decryption.decryptionProof);
+          console.log(`  finalizing, tx:${tx.hash}...`);
+          await tx.wait();
+        }
+      } else if (exported.has(holder)) {
+        console.log(`${holder}: exported ${exported.get(holder)} points`);
+        migrated++;
+      } else {
+        console.log(`${holder}: not exported`);
+        notExported++;
+      }
+    }
+
+    console.log(`Exported: ${migrated}, pending: ${pending}, not exported: ${notExported}`);
   });
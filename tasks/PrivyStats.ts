@@ -0,0 +1,65 @@
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+// Critical values of the chi-square distribution with 5 degrees of freedom (six faces, minus one).
+const CHI_SQUARE_CRITICAL_5_PERCENT = 11.07;
+const CHI_SQUARE_CRITICAL_1_PERCENT = 15.086;
+
+/**
+ * Decrypts a public snapshot of the roll statistics and runs a chi-square goodness-of-fit test against a fair dice.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:fairness
+ *   - npx hardhat --network sepolia task:privyplay:fairness --snapshot 3
+ */
+task("task:privyplay:fairness", "Checks the revealed dice distribution for fairness")
+  .addOptionalParam("address", "Optionally specify the PrivyStats contract address")
+  .addOptionalParam("snapshot", "The snapshot id (defaults to the latest)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const deployment = taskArguments.address ? { address: taskArguments.address } : await deployments.get("PrivyStats");
+    console.log(`PrivyStats: ${deployment.address}`);
+
+    const contract = await ethers.getContractAt("PrivyStats", deployment.address);
+
+    const snapshotCount = await contract.getSnapshotCount();
+    if (snapshotCount === 0n) {
+      console.log(
+        `No snapshot yet: ${await contract.roundsRecorded()} of ${await contract.REVEAL_INTERVAL_ROUNDS()} rounds recorded`,
+      );
+      return;
+    }
+    const snapshotId = taskArguments.snapshot !== undefined ? BigInt(taskArguments.snapshot) : snapshotCount - 1n;
+    const snapshot = await contract.getSnapshot(snapshotId);
+
+    const handles = [snapshot.wagered, snapshot.paidOut, ...snapshot.faceCounts];
+    const { clearValues } = await fhevm.publicDecrypt(handles);
+    const [wagered, paidOut, ...counts] = handles.map((handle) => clearValues[handle as `0x${string}`] as bigint);
+
+    console.log(`Snapshot ${snapshotId}: ${snapshot.rounds} rounds, as of block ${snapshot.blockNumber}`);
+    const rolls = Number(counts.reduce((a, b) => a + b, 0n));
+    const expected = rolls / 6;
+    counts.forEach((count, i) => {
+      const share = rolls > 0 ? ((Number(count) / rolls) * 100).toFixed(2) : "0.00";
+      console.log(`  Face ${i + 1}: ${count} (${share}%)`);
+    });
+
+    const chiSquare = counts.reduce((sum, count) => sum + (Number(count) - expected) ** 2 / expected, 0);
+    console.log(`Chi-square  : ${chiSquare.toFixed(3)} (5 degrees of freedom, ${rolls} rolls)`);
+    if (expected < 5) {
+      console.log("Verdict     : not enough rolls for the test (fewer than 5 expected per face)");
+    } else if (chiSquare > CHI_SQUARE_CRITICAL_1_PERCENT) {
+      console.log("Verdict     : NOT uniform at the 1% significance level");
+    } else if (chiSquare > CHI_SQUARE_CRITICAL_5_PERCENT) {
+      console.log("Verdict     : suspicious, not uniform at the 5% significance level");
+    } else {
+      console.log("Verdict     : consistent with a fair dice at the 5% significance level");
+    }
+
+    console.log(`Wagered     : ${wagered} pts`);
+    console.log(`Paid out    : ${paidOut} pts`);
+    console.log(`House P/L   : ${wagered - paidOut} pts`);
+  });
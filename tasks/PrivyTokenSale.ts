@@ -0,0 +1,169 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+async function getTokenSale(hre: HardhatRuntimeEnvironment, address?: string) {
+  const { ethers, deployments } = hre;
+
+  const deployment = address ? { address } : await deployments.get("PrivyTokenSale");
+  console.log(`PrivyTokenSale: ${deployment.address}`);
+
+  return { address: deployment.address, contract: await ethers.getContractAt("PrivyTokenSale", deployment.address) };
+}
+
+/**
+ * Resolves `token`, an address or the symbol of a token the sale ever listed, to the token contract.
+ */
+async function getPaymentToken(
+  hre: HardhatRuntimeEnvironment,
+  sale: Awaited<ReturnType<typeof getTokenSale>>["contract"],
+  token: string,
+) {
+  const { ethers } = hre;
+
+  const symbol = token.toLowerCase();
+  if (ethers.isAddress(token)) {
+    return ethers.getContractAt("IERC20Metadata", token);
+  }
+  for (const address of await sale.getPaymentTokens()) {
+    const contract = await ethers.getContractAt("IERC20Metadata", address);
+    if ((await contract.symbol()).toLowerCase() === symbol) {
+      return contract;
+    }
+  }
+  throw new Error(`No payment token with symbol ${token}`);
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:privyplay:payment-tokens
+ */
+task("task:privyplay:payment-tokens", "Prints the tokens the sale accepts, their rates and their proceeds")
+  .addOptionalParam("address", "Optionally specify the PrivyTokenSale contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { contract } = await getTokenSale(hre, taskArguments.address);
+
+    for (const address of await contract.getPaymentTokens()) {
+      const token = await ethers.getContractAt("IERC20Metadata", address);
+      const { pointsPerToken, decimals, received, withdrawn } = await contract.getPaymentToken(address);
+      const status = pointsPerToken > 0n ? `${pointsPerToken} points per token` : "delisted";
+      console.log(`${await token.symbol()} (${address}): ${status}`);
+      console.log(`  received  : ${ethers.formatUnits(received, decimals)}`);
+      console.log(`  withdrawn : ${ethers.formatUnits(withdrawn, decimals)}`);
+      console.log(`  held      : ${ethers.formatUnits(received - withdrawn, decimals)}`);
+    }
+  });
+
+/**
+ * Approves the sale for the amount first if its allowance falls short.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:privyplay:buy-with-token --token USDC --amount 25
+ */
+task("task:privyplay:buy-with-token", "Buy points with an accepted ERC-20 token")
+  .addOptionalParam("address", "Optionally specify the PrivyTokenSale contract address")
+  .addParam("token", "The payment token address, or its symbol")
+  .addParam("amount", "The amount of the token to pay, in whole tokens (e.g. 2.5)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { address, contract } = await getTokenSale(hre, taskArguments.address);
+    const token = await getPaymentToken(hre, contract, taskArguments.token);
+    const signers = await ethers.getSigners();
+
+    const amount = ethers.parseUnits(taskArguments.amount, await token.decimals());
+    if ((await token.allowance(signers[0].address, address)) < amount) {
+      const approval = await token.connect(signers[0]).approve(address, amount);
+      console.log(`Approving ${taskArguments.amount} ${await token.symbol()}, tx:${approval.hash}...`);
+      await approval.wait();
+    }
+
+    const tx = await contract.connect(signers[0]).buyPointsWithToken(await token.getAddress(), amount);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const purchase = receipt?.logs
+      .map((log) => contract.interface.parseLog(log))
+      .find((event) => event?.name === "PointsPurchasedWithToken");
+    if (purchase) {
+      console.log(`Bought ${purchase.args.points} points`);
+    }
+  });
+
+/**
+ * A rate of zero delists the token.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:set-payment-token --token 0x... --rate 400
+ */
+task("task:privyplay:set-payment-token", "Accept a token at a rate, or delist it (owner only)")
+  .addOptionalParam("address", "Optionally specify the PrivyTokenSale contract address")
+  .addParam("token", "The payment token address, or the symbol of a token listed before")
+  .addParam("rate", "The points bought by one whole token, or 0 to delist it")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { contract } = await getTokenSale(hre, taskArguments.address);
+    const token = await getPaymentToken(hre, contract, taskArguments.token);
+    const signers = await ethers.getSigners();
+
+    const tx = await contract.connect(signers[0]).setPaymentToken(await token.getAddress(), BigInt(taskArguments.rate));
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia task:privyplay:withdraw-proceeds --token USDC --amount 100 --to 0x...
+ */
+task("task:privyplay:withdraw-proceeds", "Withdraw the proceeds of a payment token (treasurer only)")
+  .addOptionalParam("address", "Optionally specify the PrivyTokenSale contract address")
+  .addParam("token", "The payment token address, or its symbol")
+  .addParam("amount", "The amount to withdraw, in whole tokens")
+  .addOptionalParam("to", "The recipient (defaults to the signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { contract } = await getTokenSale(hre, taskArguments.address);
+    const token = await getPaymentToken(hre, contract, taskArguments.token);
+    const signers = await ethers.getSigners();
+
+    const amount = ethers.parseUnits(taskArguments.amount, await token.decimals());
+    const to = taskArguments.to ?? signers[0].address;
+    const tx = await contract.connect(signers[0]).withdrawProceeds(await token.getAddress(), to, amount);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
+
+/**
+ * Mints tokens of a mock deployed for a local network, which anyone can mint.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:privyplay:mint-mock --token USDC --amount 100
+ */
+task("task:privyplay:mint-mock", "Mint mock payment tokens to an account (local networks)")
+  .addParam("token", "The symbol of the mock, as in the network config")
+  .addParam("amount", "The amount to mint, in whole tokens")
+  .addOptionalParam("to", "The recipient (defaults to the signer)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const deployment = await deployments.get(`Mock${taskArguments.token}`);
+    const token = await ethers.getContractAt("MockERC20", deployment.address);
+    const signers = await ethers.getSigners();
+
+    const amount = ethers.parseUnits(taskArguments.amount, await token.decimals());
+    const to = taskArguments.to ?? signers[0].address;
+    const tx = await token.connect(signers[0]).mint(to, amount);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+  });
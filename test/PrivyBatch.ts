@@ -0,0 +1,220 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { PrivyBatch, PrivyBatch__factory, PrivyLimits, PrivyLimits__factory, PrivyPlay, PrivyPoints } from "../types";
+import { deployPrivyPlay } from "./helpers/deployPrivyPlay";
+import { ECONOMICS, PAYOUTS, deployGameFixture, skipUnlessMock } from "./helpers/fixtures";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+};
+
+const BET_EXACT_FACE = 0;
+const BET_RANGE = 2;
+
+type Bet = [kind: number, low: number, high: number];
+
+// Small and big each cover three faces and pay the same, whatever the roll; a face that does not exist never wins.
+const SMALL: Bet = [BET_RANGE, 1, 3];
+const BIG: Bet = [BET_RANGE, 4, 6];
+const NEVER_WINS: Bet = [BET_EXACT_FACE, 7, 0];
+
+async function deployFixture() {
+  // Covers the worst case of a full batch: every round at the highest payout of the highest wager.
+  const { points, pointsAddress, privyPlay, privyPlayAddress } = await deployGameFixture({
+    operators: 2,
+    houseReserve: ethers.parseEther("5"),
+  });
+
+  const dice = await ethers.deployContract("PrivyDice");
+  const factory = (await ethers.getContractFactory("PrivyBatch", {
+    libraries: { PrivyDice: await dice.getAddress() },
+  })) as PrivyBatch__factory;
+  const batch = (await factory.deploy(privyPlayAddress)) as PrivyBatch;
+  const batchAddress = await batch.getAddress();
+  await privyPlay.setBatch(batchAddress);
+
+  return { points, pointsAddress, privyPlay, privyPlayAddress, batch, batchAddress, factory };
+}
+
+describe("PrivyBatch", function () {
+  let signers: Signers;
+  let points: PrivyPoints;
+  let pointsAddress: string;
+  let privyPlay: PrivyPlay;
+  let privyPlayAddress: string;
+  let batch: PrivyBatch;
+  let batchAddress: string;
+  let factory: PrivyBatch__factory;
+
+  const balanceOf = async (player: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await points.confidentialBalanceOf(player.address),
+      pointsAddress,
+      player,
+    );
+
+  async function playBatch(player: HardhatEthersSigner, wager: number, bets: Bet[]) {
+    const input = fhevm.createEncryptedInput(batchAddress, player.address).add64(wager);
+    for (const [kind, low, high] of bets) {
+      input.add8(kind).add8(low).add8(high);
+    }
+    const encrypted = await input.encrypt();
+    const encryptedBets = bets.map((_bet, i) => ({
+      kind: encrypted.handles[1 + 3 * i],
+      low: encrypted.handles[2 + 3 * i],
+      high: encrypted.handles[3 + 3 * i],
+    }));
+    return batch.connect(player).playBatch(encrypted.handles[0], encryptedBets, encrypted.inputProof);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1] };
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ points, pointsAddress, privyPlay, privyPlayAddress, batch, batchAddress, factory } = await deployFixture());
+  });
+
+  it("is attached once, by the owner, to the game it was deployed for", async function () {
+    await expect(factory.deploy(ethers.ZeroAddress)).to.be.revertedWith("Invalid game");
+
+    const game = await deployPrivyPlay(pointsAddress, ECONOMICS, 50);
+    const other = await factory.deploy(privyPlayAddress);
+    await expect(game.connect(signers.alice).setBatch(await other.getAddress())).to.be.revertedWith("Not owner");
+    await expect(game.setBatch(await other.getAddress())).to.be.revertedWith("Invalid batch");
+    await expect(privyPlay.setBatch(await other.getAddress())).to.be.revertedWith("Batch already set");
+    expect(await privyPlay.batch()).to.eq(batchAddress);
+
+    await expect(
+      privyPlay.settleBatch(signers.alice.address, 1, ethers.ZeroHash, ethers.ZeroHash, 0),
+    ).to.be.revertedWith("Not batch");
+  });
+
+  it("settles every bet of the batch and records the aggregate", async function () {
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+
+    await expect(playBatch(signers.alice, 1_000, [SMALL, NEVER_WINS, BIG, [9, 1, 6]]))
+      .to.emit(batch, "BatchPlayed")
+      .withArgs(signers.alice.address, 1, 4, anyValue, anyValue, anyValue);
+
+    expect(await batch.getBatchCount(signers.alice.address)).to.eq(1);
+    const [result] = await batch.getBatches(signers.alice.address, 0, 10);
+    expect(result.id).to.eq(1);
+    expect(result.rounds).to.eq(4);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, result.wager, batchAddress, signers.alice)).to.eq(1_000);
+    expect(await fhevm.userDecryptEbool(result.charged, batchAddress, signers.alice)).to.eq(true);
+    // Only the small and big bets can win, each with its own roll, and each win pays the three-face payout.
+    const wins = await fhevm.userDecryptEuint(FhevmType.euint8, result.wins, batchAddress, signers.alice);
+    const reward = (wins * 1_000n * BigInt(PAYOUTS.range[2])) / 100n;
+    expect(wins).to.be.lte(2);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, result.reward, batchAddress, signers.alice)).to.eq(reward);
+    // Four wagers of 1,000 charged.
+    expect(await balanceOf(signers.alice)).to.eq(100_000n - 4_000n + reward);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint64, result.reward, batchAddress, signers.deployer)).to.be
+      .rejected;
+
+    // A batch does not touch the single-round state of the player.
+    expect((await privyPlay.getRoundStatus(signers.alice.address)).active).to.eq(false);
+    expect(await privyPlay.openExposure()).to.eq(0);
+  });
+
+  it("charges nothing and pays nothing when the balance cannot cover the whole stake", async function () {
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.0015") });
+
+    await playBatch(signers.alice, 1_000, [SMALL, BIG]);
+
+    expect(await balanceOf(signers.alice)).to.eq(1_500);
+    const [result] = await batch.getBatches(signers.alice.address, 0, 1);
+    expect(await fhevm.userDecryptEbool(result.charged, batchAddress, signers.alice)).to.eq(false);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint8, result.wins, batchAddress, signers.alice)).to.eq(0);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, result.reward, batchAddress, signers.alice)).to.eq(0);
+  });
+
+  it("takes between one and MAX_BATCH_ROUNDS bets, and no batch while the game is paused", async function () {
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+    const maxRounds = Number(await batch.MAX_BATCH_ROUNDS());
+
+    await expect(playBatch(signers.alice, 100, [])).to.be.revertedWith("Invalid batch size");
+    await expect(playBatch(signers.alice, 100, Array(maxRounds + 1).fill(NEVER_WINS))).to.be.revertedWith(
+      "Invalid batch size",
+    );
+    await playBatch(signers.alice, 100, Array(maxRounds).fill(NEVER_WINS));
+    expect(await balanceOf(signers.alice)).to.eq(100_000 - 100 * maxRounds);
+
+    await privyPlay.pause();
+    await expect(playBatch(signers.alice, 100, [BIG])).to.be.revertedWith("Paused");
+  });
+
+  it("counts every round of a batch against the player's daily round limit", async function () {
+    const limitsFactory = (await ethers.getContractFactory("PrivyLimits")) as PrivyLimits__factory;
+    const limits = (await limitsFactory.deploy(privyPlayAddress, 3_600)) as PrivyLimits;
+    await privyPlay.setLimits(await limits.getAddress());
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+    await limits.connect(signers.alice).setDailyRoundLimit(3);
+
+    await expect(playBatch(signers.alice, 100, Array(4).fill(NEVER_WINS))).to.be.revertedWith(
+      "Daily round limit reached",
+    );
+    await playBatch(signers.alice, 100, Array(3).fill(NEVER_WINS));
+    expect((await limits.getLimits(signers.alice.address)).roundsToday).to.eq(3);
+  });
+
+  it("costs less gas per round than playing the rounds one by one", async function () {
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("1") });
+
+    const gasOf = async (tx: Promise<{ wait: () => Promise<{ gasUsed: bigint } | null> }>) =>
+      (await (await tx).wait())!.gasUsed;
+    const playSingle = async () => {
+      const encryptedWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(100)
+        .encrypt();
+      const started = await gasOf(
+        privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof),
+      );
+      const encryptedBet = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add8(BET_RANGE)
+        .add8(4)
+        .add8(6)
+        .encrypt();
+      const guessed = await gasOf(
+        privyPlay
+          .connect(signers.alice)
+          .submitGuess(
+            encryptedBet.handles[0],
+            encryptedBet.handles[1],
+            encryptedBet.handles[2],
+            encryptedBet.inputProof,
+          ),
+      );
+      return started + guessed;
+    };
+
+    // The smallest share of the gas of single play that a batch of each size saves, in percent: about half from two
+    // rounds on, and two thirds at six.
+    const minSavedPercent: [rounds: number, saved: bigint][] = [
+      [1, 10n],
+      [2, 45n],
+      [4, 55n],
+      [6, 60n],
+    ];
+    const single = await playSingle();
+    let lastPerRound = single;
+    for (const [rounds, saved] of minSavedPercent) {
+      const batched = await gasOf(playBatch(signers.alice, 100, Array(rounds).fill([BET_RANGE, 4, 6])));
+      expect(batched * 100n).to.be.lte(single * BigInt(rounds) * (100n - saved));
+      // Every round added to a batch lowers its cost per round.
+      const perRound = batched / BigInt(rounds);
+      expect(perRound).to.be.lt(lastPerRound);
+      lastPerRound = perRound;
+    }
+  });
+});
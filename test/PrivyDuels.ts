@@ -0,0 +1,243 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { PrivyDuels, PrivyDuels__factory, PrivyPlay, PrivyPoints } from "../types";
+import { MAX_UINT48, deployGameFixture, skipUnlessMock } from "./helpers/fixtures";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const DUEL_EXPIRY_BLOCKS = 100;
+
+const DUEL_OPEN = 1;
+const DUEL_SETTLED = 2;
+const DUEL_CANCELLED = 3;
+
+async function deployFixture(players: HardhatEthersSigner[]) {
+  const { points, pointsAddress, privyPlay, privyPlayAddress } = await deployGameFixture();
+
+  const dice = await ethers.deployContract("PrivyDice");
+  const factory = (await ethers.getContractFactory("PrivyDuels", {
+    libraries: { PrivyDice: await dice.getAddress() },
+  })) as PrivyDuels__factory;
+  const privyDuels = (await factory.deploy(privyPlayAddress, DUEL_EXPIRY_BLOCKS)) as PrivyDuels;
+  const privyDuelsAddress = await privyDuels.getAddress();
+
+  // Every player holds 100,000 points and lets the duels escrow them.
+  for (const player of players) {
+    await privyPlay.connect(player).buyPoints({ value: ethers.parseEther("0.1") });
+    await points.connect(player).setOperator(privyDuelsAddress, MAX_UINT48);
+  }
+
+  return { points, pointsAddress, privyPlay, privyDuels, privyDuelsAddress, factory };
+}
+
+describe("PrivyDuels", function () {
+  let signers: Signers;
+  let points: PrivyPoints;
+  let pointsAddress: string;
+  let privyPlay: PrivyPlay;
+  let privyDuels: PrivyDuels;
+  let privyDuelsAddress: string;
+  let factory: PrivyDuels__factory;
+
+  const decrypt64 = async (handle: string, signer: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(FhevmType.euint64, handle, privyDuelsAddress, signer);
+
+  const decrypt8 = async (handle: string, signer: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(FhevmType.euint8, handle, privyDuelsAddress, signer);
+
+  const balanceOf = async (player: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await points.confidentialBalanceOf(player.address),
+      pointsAddress,
+      player,
+    );
+
+  async function encryptStake(player: HardhatEthersSigner, stake: number) {
+    return fhevm.createEncryptedInput(privyDuelsAddress, player.address).add64(stake).encrypt();
+  }
+
+  async function openDuel(creator: HardhatEthersSigner, stake: number, opponent = ethers.ZeroAddress) {
+    const encryptedStake = await encryptStake(creator, stake);
+    return privyDuels.connect(creator).openDuel(opponent, encryptedStake.handles[0], encryptedStake.inputProof);
+  }
+
+  async function joinDuel(opponent: HardhatEthersSigner, duelId: number, stake: number) {
+    const encryptedStake = await encryptStake(opponent, stake);
+    return privyDuels.connect(opponent).joinDuel(duelId, encryptedStake.handles[0], encryptedStake.inputProof);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ points, pointsAddress, privyPlay, privyDuels, privyDuelsAddress, factory } = await deployFixture([
+      signers.alice,
+      signers.bob,
+      signers.carol,
+    ]));
+  });
+
+  it("validates its parameters and reads the ledger from the game", async function () {
+    await expect(factory.deploy(ethers.ZeroAddress, DUEL_EXPIRY_BLOCKS)).to.be.revertedWith("Invalid game");
+    await expect(factory.deploy(await privyPlay.getAddress(), 0)).to.be.revertedWith("Invalid expiry window");
+    expect(await privyDuels.game()).to.eq(await privyPlay.getAddress());
+    expect(await privyDuels.points()).to.eq(pointsAddress);
+  });
+
+  it("escrows the creator's stake and lists the duel in the lobby", async function () {
+    await expect(openDuel(signers.alice, 5_000))
+      .to.emit(privyDuels, "DuelOpened")
+      .withArgs(1, signers.alice.address, ethers.ZeroAddress, anyValue);
+
+    const duel = await privyDuels.getDuel(1);
+    expect(duel.status).to.eq(DUEL_OPEN);
+    expect(await decrypt64(duel.creatorStake, signers.alice)).to.eq(5_000);
+    await expect(decrypt64(duel.creatorStake, signers.bob)).to.be.rejected;
+    expect(await balanceOf(signers.alice)).to.eq(95_000);
+    // Not even a duel open to anyone publishes its stake.
+    await expect(fhevm.publicDecrypt([duel.creatorStake])).to.be.rejected;
+
+    expect(await privyDuels.getOpenDuelCount()).to.eq(1);
+    expect(await privyDuels.getOpenDuels(0, 10)).to.deep.eq([1n]);
+    expect(await privyDuels.getPlayerDuels(signers.alice.address, 0, 10)).to.deep.eq([1n]);
+  });
+
+  it("pays both stakes to the higher roll and refunds a tie", async function () {
+    await openDuel(signers.alice, 5_000);
+    await expect(joinDuel(signers.bob, 1, 5_000))
+      .to.emit(privyDuels, "DuelSettled")
+      .withArgs(1, signers.alice.address, signers.bob.address, ...Array(4).fill(anyValue));
+
+    const duel = await privyDuels.getDuel(1);
+    expect(duel.status).to.eq(DUEL_SETTLED);
+    expect(duel.opponent).to.eq(signers.bob.address);
+
+    // Both players can decrypt both rolls, but only their own payout.
+    const aliceRoll = await decrypt8(duel.creatorRoll, signers.alice);
+    const bobRoll = await decrypt8(duel.opponentRoll, signers.alice);
+    expect(await decrypt8(duel.creatorRoll, signers.bob)).to.eq(aliceRoll);
+    expect(aliceRoll).to.be.gte(1).and.to.be.lte(6);
+    expect(bobRoll).to.be.gte(1).and.to.be.lte(6);
+    await expect(decrypt64(duel.creatorPayout, signers.bob)).to.be.rejected;
+
+    const expectedAlice = aliceRoll > bobRoll ? 10_000 : aliceRoll === bobRoll ? 5_000 : 0;
+    expect(await decrypt64(duel.creatorPayout, signers.alice)).to.eq(expectedAlice);
+    expect(await decrypt64(duel.opponentPayout, signers.bob)).to.eq(10_000 - expectedAlice);
+    expect(await balanceOf(signers.alice)).to.eq(95_000 + expectedAlice);
+    expect(await balanceOf(signers.bob)).to.eq(105_000 - expectedAlice);
+
+    expect(await privyDuels.getOpenDuelCount()).to.eq(0);
+    expect(await privyDuels.getPlayerDuels(signers.bob.address, 0, 10)).to.deep.eq([1n]);
+  });
+
+  it("refunds both players when the stakes do not match", async function () {
+    await openDuel(signers.alice, 5_000);
+    await joinDuel(signers.bob, 1, 4_999);
+
+    const duel = await privyDuels.getDuel(1);
+    expect(await decrypt64(duel.creatorPayout, signers.alice)).to.eq(5_000);
+    expect(await decrypt64(duel.opponentPayout, signers.bob)).to.eq(4_999);
+    expect(await balanceOf(signers.alice)).to.eq(100_000);
+    expect(await balanceOf(signers.bob)).to.eq(100_000);
+  });
+
+  it("refunds both players when the creator's stake could not be escrowed", async function () {
+    await openDuel(signers.alice, 100_001);
+    await joinDuel(signers.bob, 1, 100_001);
+
+    expect(await balanceOf(signers.alice)).to.eq(100_000);
+    expect(await balanceOf(signers.bob)).to.eq(100_000);
+  });
+
+  it("lets only the invited opponent join, and see the stake to match", async function () {
+    await openDuel(signers.alice, 2_500, signers.bob.address);
+    const duel = await privyDuels.getDuel(1);
+    expect(await decrypt64(duel.creatorStake, signers.bob)).to.eq(2_500);
+    await expect(fhevm.publicDecrypt([duel.creatorStake])).to.be.rejected;
+
+    await expect(joinDuel(signers.carol, 1, 2_500)).to.be.revertedWith("Not invited");
+    await expect(joinDuel(signers.alice, 1, 2_500)).to.be.revertedWith("Cannot duel yourself");
+    await joinDuel(signers.bob, 1, 2_500);
+    expect((await privyDuels.getDuel(1)).status).to.eq(DUEL_SETTLED);
+  });
+
+  it("lets the creator cancel at any time and anyone once the duel expired", async function () {
+    await openDuel(signers.alice, 5_000);
+    await openDuel(signers.bob, 1_000);
+
+    await expect(privyDuels.connect(signers.alice).cancelDuel(1))
+      .to.emit(privyDuels, "DuelCancelled")
+      .withArgs(1, signers.alice.address);
+    expect((await privyDuels.getDuel(1)).status).to.eq(DUEL_CANCELLED);
+    expect(await balanceOf(signers.alice)).to.eq(100_000);
+    await expect(privyDuels.connect(signers.alice).cancelDuel(1)).to.be.revertedWith("Duel not open");
+    await expect(joinDuel(signers.carol, 1, 5_000)).to.be.revertedWith("Duel not open");
+
+    await expect(privyDuels.connect(signers.carol).cancelDuel(2)).to.be.revertedWith("Duel not expired");
+    await mine(DUEL_EXPIRY_BLOCKS);
+    await expect(joinDuel(signers.carol, 2, 1_000)).to.be.revertedWith("Duel expired");
+    await privyDuels.connect(signers.carol).cancelDuel(2);
+    expect(await balanceOf(signers.bob)).to.eq(100_000);
+    expect(await privyDuels.getOpenDuelCount()).to.eq(0);
+  });
+
+  it("lets no duel open or be joined while the game is paused, but lets open ones be cancelled", async function () {
+    await openDuel(signers.alice, 1_000);
+    await openDuel(signers.bob, 1_000);
+    await privyPlay.pause();
+
+    await expect(openDuel(signers.carol, 1_000)).to.be.revertedWith("Paused");
+    await expect(joinDuel(signers.carol, 1, 1_000)).to.be.revertedWith("Paused");
+    await privyDuels.connect(signers.alice).cancelDuel(1);
+    expect(await balanceOf(signers.alice)).to.eq(100_000);
+
+    await privyPlay.unpause();
+    await joinDuel(signers.carol, 2, 1_000);
+    expect((await privyDuels.getDuel(2)).status).to.eq(DUEL_SETTLED);
+  });
+
+  it("lets no player on a cool-off or self-exclusion open or join a duel", async function () {
+    const limits = await ethers.deployContract("PrivyLimits", [await privyPlay.getAddress(), 3_600]);
+    await privyPlay.setLimits(await limits.getAddress());
+    await openDuel(signers.bob, 1_000);
+
+    await limits.connect(signers.alice).coolOff(3_600);
+    await expect(openDuel(signers.alice, 1_000)).to.be.revertedWith("Cooling off");
+    await expect(joinDuel(signers.alice, 1, 1_000)).to.be.revertedWith("Cooling off");
+    await limits.connect(signers.bob).selfExclude(180 * 24 * 3_600);
+    await expect(openDuel(signers.bob, 1_000)).to.be.revertedWith("Self-excluded");
+
+    // The duel bob opened before the exclusion can still be joined, and a cool-off ends on time.
+    await joinDuel(signers.carol, 1, 1_000);
+    expect((await privyDuels.getDuel(1)).status).to.eq(DUEL_SETTLED);
+    await time.increase(3_600);
+    await openDuel(signers.alice, 1_000);
+    expect((await privyDuels.getDuel(2)).status).to.eq(DUEL_OPEN);
+  });
+
+  it("keeps the lobby consistent as duels close", async function () {
+    await openDuel(signers.alice, 1_000);
+    await openDuel(signers.bob, 1_000);
+    await openDuel(signers.carol, 1_000);
+
+    await privyDuels.connect(signers.alice).cancelDuel(1);
+    expect(await privyDuels.getOpenDuels(0, 10)).to.deep.eq([3n, 2n]);
+    await joinDuel(signers.alice, 2, 1_000);
+    expect(await privyDuels.getOpenDuels(0, 10)).to.deep.eq([3n]);
+    expect(await privyDuels.getOpenDuels(1, 10)).to.deep.eq([]);
+    expect(await privyDuels.getPlayerDuels(signers.alice.address, 0, 10)).to.deep.eq([1n, 2n]);
+  });
+});
@@ -0,0 +1,212 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { PrivyForwarder, PrivyForwarder__factory, PrivyPlay, PrivyPoints } from "../types";
+import { MAX_UINT48, PAYOUTS, deployGameFixture, skipUnlessMock } from "./helpers/fixtures";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  relayer: HardhatEthersSigner;
+};
+
+const BET_RANGE = 2;
+
+const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+async function deployFixture() {
+  const forwarderFactory = (await ethers.getContractFactory("PrivyForwarder")) as PrivyForwarder__factory;
+  const forwarder = (await forwarderFactory.deploy()) as PrivyForwarder;
+  const forwarderAddress = await forwarder.getAddress();
+
+  const { points, pointsAddress, privyPlay, privyPlayAddress } = await deployGameFixture({
+    trustedForwarder: forwarderAddress,
+    houseReserve: ethers.parseEther("1"),
+  });
+
+  return { forwarder, forwarderAddress, privyPlay, privyPlayAddress, points, pointsAddress };
+}
+
+describe("PrivyForwarder", function () {
+  let signers: Signers;
+  let forwarder: PrivyForwarder;
+  let forwarderAddress: string;
+  let privyPlay: PrivyPlay;
+  let privyPlayAddress: string;
+  let points: PrivyPoints;
+  let pointsAddress: string;
+
+  async function signRequest(player: HardhatEthersSigner, data: string, overrides: { deadline?: number } = {}) {
+    const { chainId } = await ethers.provider.getNetwork();
+    const request = {
+      from: player.address,
+      to: privyPlayAddress,
+      value: 0n,
+      gas: 5_000_000n,
+      nonce: await forwarder.nonces(player.address),
+      deadline: overrides.deadline ?? (await ethers.provider.getBlock("latest"))!.timestamp + 600,
+      data,
+    };
+    const signature = await player.signTypedData(
+      { name: "PrivyForwarder", version: "1", chainId, verifyingContract: forwarderAddress },
+      FORWARD_REQUEST_TYPES,
+      request,
+    );
+    return { ...request, signature };
+  }
+
+  // Relayed inputs are bound to the player who signed the request, as direct ones are. The bet is on a big roll.
+  async function encryptedPlay(wager: number, user = signers.alice.address) {
+    const input = await fhevm
+      .createEncryptedInput(privyPlayAddress, user)
+      .add64(wager)
+      .add8(BET_RANGE)
+      .add8(4)
+      .add8(6)
+      .encrypt();
+    return privyPlay.interface.encodeFunctionData("playRound", [
+      input.handles[0],
+      input.handles[1],
+      input.handles[2],
+      input.handles[3],
+      input.inputProof,
+    ]);
+  }
+
+  const balanceOf = async (player: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await points.confidentialBalanceOf(player.address),
+      pointsAddress,
+      player,
+    );
+
+  // The balance of a player who bet `wager` on a big roll in their last round, out of `funded` points.
+  async function balanceAfterBigBet(player: HardhatEthersSigner, funded: number, wager: number) {
+    const roll = await fhevm.userDecryptEuint(
+      FhevmType.euint8,
+      await privyPlay.getLastRoll(player.address),
+      privyPlayAddress,
+      player,
+    );
+    return BigInt(funded - wager) + (roll >= 4n ? BigInt((wager * PAYOUTS.range[2]) / 100) : 0n);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[3], relayer: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ forwarder, forwarderAddress, privyPlay, privyPlayAddress, points, pointsAddress } = await deployFixture());
+    await points.connect(signers.alice).setOperator(privyPlayAddress, MAX_UINT48);
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.001") });
+  });
+
+  it("trusts only its forwarder", async function () {
+    expect(await privyPlay.isTrustedForwarder(forwarderAddress)).to.eq(true);
+    expect(await privyPlay.isTrustedForwarder(signers.relayer.address)).to.eq(false);
+  });
+
+  it("plays a relayed round as the player who signed it, at the relayer's expense", async function () {
+    const request = await signRequest(signers.alice, await encryptedPlay(100));
+    const aliceEth = await ethers.provider.getBalance(signers.alice.address);
+
+    await expect(forwarder.connect(signers.relayer).execute(request))
+      .to.emit(privyPlay, "RoundSettled")
+      .withArgs(signers.alice.address, 1, 1, anyValue, anyValue, anyValue, anyValue);
+
+    expect(await ethers.provider.getBalance(signers.alice.address)).to.eq(aliceEth);
+    expect((await privyPlay.getRoundStatus(signers.alice.address)).active).to.eq(false);
+    expect((await privyPlay.getRoundStatus(forwarderAddress)).active).to.eq(false);
+    expect(await balanceOf(signers.alice)).to.eq(await balanceAfterBigBet(signers.alice, 1_000, 100));
+  });
+
+  it("relays the two-step flow to the same player", async function () {
+    const wager = await fhevm.createEncryptedInput(privyPlayAddress, signers.alice.address).add64(100).encrypt();
+    const start = privyPlay.interface.encodeFunctionData("startGame", [wager.handles[0], wager.inputProof]);
+    await forwarder.connect(signers.relayer).execute(await signRequest(signers.alice, start));
+    expect((await privyPlay.getRoundStatus(signers.alice.address)).active).to.eq(true);
+
+    // A direct call of the player finds the round opened through the forwarder.
+    const bet = await fhevm
+      .createEncryptedInput(privyPlayAddress, signers.alice.address)
+      .add8(BET_RANGE)
+      .add8(4)
+      .add8(6)
+      .encrypt();
+    await privyPlay.connect(signers.alice).submitGuess(bet.handles[0], bet.handles[1], bet.handles[2], bet.inputProof);
+    expect((await privyPlay.getRoundStatus(signers.alice.address)).active).to.eq(false);
+    expect(await balanceOf(signers.alice)).to.eq(await balanceAfterBigBet(signers.alice, 1_000, 100));
+  });
+
+  it("rejects inputs encrypted for the forwarder rather than the player", async function () {
+    const request = await signRequest(signers.alice, await encryptedPlay(100, forwarderAddress));
+
+    await expect(forwarder.connect(signers.relayer).execute(request)).to.be.reverted;
+    expect((await privyPlay.getRoundStatus(signers.alice.address)).active).to.eq(false);
+  });
+
+  it("rejects a player's relayed inputs replayed in another player's request", async function () {
+    await points.connect(signers.bob).setOperator(privyPlayAddress, MAX_UINT48);
+    await privyPlay.connect(signers.bob).buyPoints({ value: ethers.parseEther("0.001") });
+    const data = await encryptedPlay(100);
+    await forwarder.connect(signers.relayer).execute(await signRequest(signers.alice, data));
+
+    // Bob copies Alice's wager and bet from her request into his own, relayed or direct.
+    await expect(forwarder.connect(signers.relayer).execute(await signRequest(signers.bob, data))).to.be.reverted;
+    await expect(signers.bob.sendTransaction({ to: privyPlayAddress, data })).to.be.reverted;
+    expect((await privyPlay.getRoundStatus(signers.bob.address)).active).to.eq(false);
+    expect(await privyPlay.roundCount()).to.eq(1);
+  });
+
+  it("rejects requests that were tampered with, expired or already relayed", async function () {
+    const data = await encryptedPlay(100);
+
+    const forged = { ...(await signRequest(signers.alice, data)), from: signers.relayer.address };
+    await expect(forwarder.connect(signers.relayer).execute(forged)).to.be.revertedWithCustomError(
+      forwarder,
+      "ERC2771ForwarderInvalidSigner",
+    );
+
+    const latest = (await ethers.provider.getBlock("latest"))!.timestamp;
+    const expired = await signRequest(signers.alice, data, { deadline: latest - 1 });
+    await expect(forwarder.connect(signers.relayer).execute(expired)).to.be.revertedWithCustomError(
+      forwarder,
+      "ERC2771ForwarderExpiredRequest",
+    );
+
+    const request = await signRequest(signers.alice, data);
+    await forwarder.connect(signers.relayer).execute(request);
+    await expect(forwarder.connect(signers.relayer).execute(request)).to.be.revertedWithCustomError(
+      forwarder,
+      "ERC2771ForwarderInvalidSigner",
+    );
+  });
+
+  it("attributes calls from any other contract or account to their sender", async function () {
+    // Without the forwarder, an appended address is just trailing calldata.
+    await points.connect(signers.relayer).setOperator(privyPlayAddress, MAX_UINT48);
+    await privyPlay.connect(signers.relayer).buyPoints({ value: ethers.parseEther("0.001") });
+    const data = await encryptedPlay(100, signers.relayer.address);
+    await expect(
+      signers.relayer.sendTransaction({ to: privyPlayAddress, data: ethers.concat([data, signers.alice.address]) }),
+    )
+      .to.emit(privyPlay, "GameStarted")
+      .withArgs(signers.relayer.address, 1, 1, anyValue, anyValue, anyValue, anyValue);
+  });
+});
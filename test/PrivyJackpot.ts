@@ -0,0 +1,248 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { PrivyJackpot, PrivyJackpot__factory, PrivyPlay, PrivyPoints } from "../types";
+import { deployGameFixture, skipUnlessMock } from "./helpers/fixtures";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const CONTRIBUTION_PERCENT = 5;
+const REVEAL_INTERVAL_BLOCKS = 50;
+// Rare enough that a test never hits by chance.
+const LONG_ODDS = 32_768;
+const EVEN_ODDS = 2;
+
+async function deployFixture(jackpotOdds: number, attach = true) {
+  const { points, pointsAddress, privyPlay, privyPlayAddress } = await deployGameFixture({
+    operators: 3,
+    houseReserve: ethers.parseEther("1"),
+  });
+
+  const factory = (await ethers.getContractFactory("PrivyJackpot")) as PrivyJackpot__factory;
+  const jackpot = (await factory.deploy(
+    pointsAddress,
+    privyPlayAddress,
+    CONTRIBUTION_PERCENT,
+    jackpotOdds,
+    REVEAL_INTERVAL_BLOCKS,
+  )) as PrivyJackpot;
+  if (attach) {
+    await privyPlay.setJackpot(await jackpot.getAddress());
+  }
+
+  return { points, privyPlay, privyPlayAddress, jackpot, jackpotAddress: await jackpot.getAddress() };
+}
+
+describe("PrivyJackpot", function () {
+  let signers: Signers;
+  let points: PrivyPoints;
+  let privyPlay: PrivyPlay;
+  let privyPlayAddress: string;
+  let jackpot: PrivyJackpot;
+  let jackpotAddress: string;
+
+  const decrypt = async (handle: string, contractAddress: string, signer: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, signer);
+
+  const pool = async () => decrypt(await jackpot.getPool(), jackpotAddress, signers.deployer);
+
+  async function startRound(player: HardhatEthersSigner, wager: number) {
+    const encryptedWager = await fhevm.createEncryptedInput(privyPlayAddress, player.address).add64(wager).encrypt();
+    await privyPlay.connect(player).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+    return privyPlay.roundCount();
+  }
+
+  async function submitBet(player: HardhatEthersSigner) {
+    const encryptedBet = await fhevm
+      .createEncryptedInput(privyPlayAddress, player.address)
+      .add8(1)
+      .add8(1)
+      .add8(0)
+      .encrypt();
+    return privyPlay
+      .connect(player)
+      .submitGuess(encryptedBet.handles[0], encryptedBet.handles[1], encryptedBet.handles[2], encryptedBet.inputProof);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+  });
+
+  it("validates its parameters", async function () {
+    const factory = (await ethers.getContractFactory("PrivyJackpot")) as PrivyJackpot__factory;
+    const game = signers.deployer.address;
+    const ledger = signers.deployer.address;
+
+    await expect(factory.deploy(ledger, game, 0, 64, 10)).to.be.revertedWith("Invalid contribution");
+    await expect(factory.deploy(ledger, game, 21, 64, 10)).to.be.revertedWith("Invalid contribution");
+    await expect(factory.deploy(ledger, game, 5, 48, 10)).to.be.revertedWith("Invalid odds");
+    await expect(factory.deploy(ledger, game, 5, 1, 10)).to.be.revertedWith("Invalid odds");
+    await expect(factory.deploy(ledger, game, 5, 64, 0)).to.be.revertedWith("Invalid reveal interval");
+  });
+
+  it("is attached once, by the owner, to the game it was deployed for", async function () {
+    ({ privyPlay, jackpot, jackpotAddress } = await deployFixture(LONG_ODDS, false));
+    const other = await deployFixture(LONG_ODDS);
+
+    await expect(privyPlay.connect(signers.alice).setJackpot(jackpotAddress)).to.be.revertedWith("Not owner");
+    await expect(privyPlay.setJackpot(other.jackpotAddress)).to.be.revertedWith("Invalid jackpot");
+
+    await expect(privyPlay.setJackpot(jackpotAddress)).to.emit(privyPlay, "JackpotSet").withArgs(jackpotAddress);
+    await expect(privyPlay.setJackpot(jackpotAddress)).to.be.revertedWith("Jackpot already set");
+    await expect(jackpot.contribute(ethers.ZeroHash)).to.be.revertedWith("Not game");
+  });
+
+  it("feeds the pool with a slice of every charged wager, outside the house books", async function () {
+    ({ points, privyPlay, privyPlayAddress, jackpot, jackpotAddress } = await deployFixture(LONG_ODDS));
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+
+    await startRound(signers.alice, 1_000);
+    expect(await pool()).to.eq(50);
+    await submitBet(signers.alice);
+    await startRound(signers.alice, 3_000);
+    expect(await pool()).to.eq(200);
+
+    // The pool is owed to a future winner, not to the players holding points.
+    const liabilities = await decrypt(await privyPlay.getTotalLiabilities(), privyPlayAddress, signers.deployer);
+    expect(liabilities).to.eq(
+      await decrypt(
+        await points.confidentialBalanceOf(signers.alice.address),
+        await points.getAddress(),
+        signers.alice,
+      ),
+    );
+  });
+
+  it("pays the whole pool on a hit and lets anyone announce the winner", async function () {
+    ({ points, privyPlay, privyPlayAddress, jackpot, jackpotAddress } = await deployFixture(EVEN_ODDS));
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+
+    // Every round adds 100 points, and a hit takes them all; play until one does.
+    let expectedPool = 0n;
+    let roundId = 0n;
+    let decryption: Awaited<ReturnType<typeof fhevm.publicDecrypt>> | undefined;
+    for (let i = 0; i < 20 && decryption === undefined; i++) {
+      roundId = await startRound(signers.alice, 2_000);
+      expectedPool += 100n;
+      await expect(submitBet(signers.alice))
+        .to.emit(jackpot, "JackpotDrawn")
+        .withArgs(roundId, signers.alice.address, anyValue);
+
+      const { hit } = await jackpot.getDraw(roundId);
+      const outcome = await fhevm.publicDecrypt([hit]);
+      if (outcome.clearValues[hit as `0x${string}`] === true) {
+        decryption = outcome;
+      } else {
+        await expect(
+          jackpot.announceWin(roundId, outcome.abiEncodedClearValues, outcome.decryptionProof),
+        ).to.be.revertedWith("Not a winner");
+      }
+    }
+    expect(decryption).to.not.eq(undefined);
+
+    const draw = await jackpot.getDraw(roundId);
+    expect(draw.player).to.eq(signers.alice.address);
+    expect(await decrypt(draw.amount, jackpotAddress, signers.alice)).to.eq(expectedPool);
+    expect(await pool()).to.eq(0);
+
+    await expect(
+      jackpot.connect(signers.bob).announceWin(roundId, decryption!.abiEncodedClearValues, decryption!.decryptionProof),
+    )
+      .to.emit(jackpot, "JackpotWon")
+      .withArgs(roundId, signers.alice.address, draw.amount);
+    await expect(
+      jackpot.announceWin(roundId, decryption!.abiEncodedClearValues, decryption!.decryptionProof),
+    ).to.be.revertedWith("Already announced");
+    await expect(
+      jackpot.announceWin(roundId + 1n, decryption!.abiEncodedClearValues, decryption!.decryptionProof),
+    ).to.be.revertedWith("Unknown draw");
+  });
+
+  it("never pays a round that was not charged", async function () {
+    ({ points, privyPlay, privyPlayAddress, jackpot, jackpotAddress } = await deployFixture(EVEN_ODDS));
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+    // 50 points cannot cover the minimum wager, so Bob's round is not charged.
+    await privyPlay.connect(signers.bob).buyPoints({ value: ethers.parseEther("0.00005") });
+
+    await startRound(signers.alice, 2_000);
+    const roundId = await startRound(signers.bob, 2_000);
+    await submitBet(signers.bob);
+    expect(await pool()).to.eq(100);
+
+    const draw = await jackpot.getDraw(roundId);
+    expect(await decrypt(draw.amount, jackpotAddress, signers.bob)).to.eq(0);
+    const decryption = await fhevm.publicDecrypt([draw.hit]);
+    await expect(
+      jackpot.announceWin(roundId, decryption.abiEncodedClearValues, decryption.decryptionProof),
+    ).to.be.revertedWith("Not a winner");
+  });
+
+  it("lets the game's owner decrypt the live pool, following a handover", async function () {
+    ({ points, privyPlay, privyPlayAddress, jackpot, jackpotAddress } = await deployFixture(LONG_ODDS));
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+    expect(await jackpot.owner()).to.eq(signers.deployer.address);
+
+    await privyPlay.transferOwnership(signers.bob.address);
+    await privyPlay.connect(signers.bob).acceptOwnership();
+    expect(await jackpot.owner()).to.eq(signers.bob.address);
+
+    await startRound(signers.alice, 1_000);
+    expect(await decrypt(await jackpot.getPool(), jackpotAddress, signers.bob)).to.eq(50);
+  });
+
+  it("reveals the pool size at most once per interval, after enough contributions", async function () {
+    ({ points, privyPlay, privyPlayAddress, jackpot, jackpotAddress } = await deployFixture(LONG_ODDS));
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+    const minContributions = Number(await jackpot.MIN_REVEAL_CONTRIBUTIONS());
+
+    // A reveal after a single contribution would show that wager; the interval alone does not allow one.
+    await startRound(signers.alice, 1_000);
+    await submitBet(signers.alice);
+    await mine(REVEAL_INTERVAL_BLOCKS);
+    for (let i = 1; i < minContributions - 1; i++) {
+      await startRound(signers.alice, 1_000);
+      await submitBet(signers.alice);
+    }
+    expect(await jackpot.contributionsSinceReveal()).to.eq(minContributions - 1);
+    expect(await jackpot.getRevealedPool()).to.eq(ethers.ZeroHash);
+
+    await startRound(signers.alice, 1_000);
+    const revealedAt = await jackpot.revealedAt();
+    expect(revealedAt).to.be.gt(0);
+    expect(await jackpot.contributionsSinceReveal()).to.eq(0);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint64, await jackpot.getRevealedPool())).to.eq(
+      50 * minContributions,
+    );
+
+    // Enough contributions, but within the interval.
+    for (let i = 0; i < minContributions; i++) {
+      await submitBet(signers.alice);
+      await startRound(signers.alice, 1_000);
+    }
+    expect(await jackpot.revealedAt()).to.eq(revealedAt);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint64, await jackpot.getRevealedPool())).to.eq(
+      50 * minContributions,
+    );
+
+    // The interval has passed too, so the next contribution reveals the pool.
+    await submitBet(signers.alice);
+    await mine(REVEAL_INTERVAL_BLOCKS);
+    await startRound(signers.alice, 1_000);
+    expect(await jackpot.revealedAt()).to.be.gt(revealedAt);
+    expect(await fhevm.publicDecryptEuint(FhevmType.euint64, await jackpot.getRevealedPool())).to.eq(
+      50 * (2 * minContributions + 1),
+    );
+  });
+});
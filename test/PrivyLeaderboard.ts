@@ -0,0 +1,201 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { PrivyLeaderboard, PrivyLeaderboard__factory, PrivyPlay } from "../types";
+import { deployGameFixture, skipUnlessMock } from "./helpers/fixtures";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const EPOCH_BLOCKS = 100;
+const BUCKET_SIZE = 1_000;
+
+async function deployFixture(attach = true) {
+  const { privyPlay, privyPlayAddress } = await deployGameFixture({
+    operators: 4,
+    houseReserve: ethers.parseEther("1"),
+  });
+
+  const factory = (await ethers.getContractFactory("PrivyLeaderboard")) as PrivyLeaderboard__factory;
+  const leaderboard = (await factory.deploy(privyPlayAddress, EPOCH_BLOCKS, BUCKET_SIZE)) as PrivyLeaderboard;
+  if (attach) {
+    await privyPlay.setLeaderboard(await leaderboard.getAddress());
+  }
+
+  return { privyPlay, privyPlayAddress, leaderboard, leaderboardAddress: await leaderboard.getAddress() };
+}
+
+describe("PrivyLeaderboard", function () {
+  let signers: Signers;
+  let privyPlay: PrivyPlay;
+  let privyPlayAddress: string;
+  let leaderboard: PrivyLeaderboard;
+  let leaderboardAddress: string;
+
+  const decryptPlay = async (handle: string, signer: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(FhevmType.euint64, handle, privyPlayAddress, signer);
+
+  const decryptEntry = async (
+    type: FhevmType.euint32 | FhevmType.euint64,
+    handle: string,
+    signer: HardhatEthersSigner,
+  ) => fhevm.userDecryptEuint(type, handle, leaderboardAddress, signer);
+
+  async function playRound(player: HardhatEthersSigner, wager: number) {
+    const encryptedWager = await fhevm.createEncryptedInput(privyPlayAddress, player.address).add64(wager).encrypt();
+    await privyPlay.connect(player).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+    // Odd faces win.
+    const encryptedBet = await fhevm
+      .createEncryptedInput(privyPlayAddress, player.address)
+      .add8(1)
+      .add8(1)
+      .add8(0)
+      .encrypt();
+    await privyPlay
+      .connect(player)
+      .submitGuess(encryptedBet.handles[0], encryptedBet.handles[1], encryptedBet.handles[2], encryptedBet.inputProof);
+
+    return {
+      won: await fhevm.userDecryptEbool(await privyPlay.getLastOutcome(player.address), privyPlayAddress, player),
+      reward: await decryptPlay(await privyPlay.getLastReward(player.address), player),
+    };
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+  });
+
+  it("validates its parameters", async function () {
+    const factory = (await ethers.getContractFactory("PrivyLeaderboard")) as PrivyLeaderboard__factory;
+    const game = signers.deployer.address;
+
+    await expect(factory.deploy(ethers.ZeroAddress, 100, 1_000)).to.be.revertedWith("Invalid game");
+    await expect(factory.deploy(game, 0, 1_000)).to.be.revertedWith("Invalid epoch length");
+    await expect(factory.deploy(game, 100, 0)).to.be.revertedWith("Invalid bucket size");
+  });
+
+  it("is attached once, by the owner, to the game it was deployed for", async function () {
+    ({ privyPlay, leaderboard, leaderboardAddress } = await deployFixture(false));
+    const other = await deployFixture();
+
+    await expect(privyPlay.connect(signers.alice).setLeaderboard(leaderboardAddress)).to.be.revertedWith("Not owner");
+    await expect(privyPlay.setLeaderboard(other.leaderboardAddress)).to.be.revertedWith("Invalid leaderboard");
+
+    await expect(privyPlay.setLeaderboard(leaderboardAddress))
+      .to.emit(privyPlay, "LeaderboardSet")
+      .withArgs(leaderboardAddress);
+    await expect(privyPlay.setLeaderboard(leaderboardAddress)).to.be.revertedWith("Leaderboard already set");
+    await expect(leaderboard.recordPayout(signers.alice.address, ethers.ZeroHash)).to.be.revertedWith("Not game");
+  });
+
+  it("lists the players who opted in", async function () {
+    ({ privyPlay, leaderboard, leaderboardAddress } = await deployFixture());
+
+    await expect(leaderboard.connect(signers.alice).optIn()).to.emit(leaderboard, "OptedIn").withArgs(signers.alice);
+    await expect(leaderboard.connect(signers.alice).optIn()).to.be.revertedWith("Already opted in");
+    await leaderboard.connect(signers.bob).optIn();
+    await leaderboard.connect(signers.carol).optIn();
+    expect(await leaderboard.getPlayers(0, 10)).to.deep.eq([
+      signers.alice.address,
+      signers.bob.address,
+      signers.carol.address,
+    ]);
+
+    await expect(leaderboard.connect(signers.alice).optOut()).to.emit(leaderboard, "OptedOut").withArgs(signers.alice);
+    await expect(leaderboard.connect(signers.alice).optOut()).to.be.revertedWith("Not opted in");
+    expect(await leaderboard.optedIn(signers.alice.address)).to.eq(false);
+    expect(await leaderboard.getPlayerCount()).to.eq(2);
+    expect(await leaderboard.getPlayers(0, 10)).to.deep.eq([signers.carol.address, signers.bob.address]);
+    expect(await leaderboard.getPlayers(1, 10)).to.deep.eq([signers.bob.address]);
+  });
+
+  it("publishes the wins and bucketed net winnings of opted-in players once the epoch is over", async function () {
+    ({ privyPlay, privyPlayAddress, leaderboard, leaderboardAddress } = await deployFixture());
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+    await privyPlay.connect(signers.bob).buyPoints({ value: ethers.parseEther("0.1") });
+    await leaderboard.connect(signers.alice).optIn();
+
+    let wins = 0n;
+    let paidOut = 0n;
+    for (let i = 0; i < 3; i++) {
+      const round = await playRound(signers.alice, 2_000);
+      wins += round.won ? 1n : 0n;
+      paidOut += round.reward;
+    }
+    await playRound(signers.bob, 2_000);
+
+    const epoch = await leaderboard.currentEpoch();
+    const entry = await leaderboard.getEntry(epoch, signers.alice.address);
+    expect(await decryptEntry(FhevmType.euint32, entry.wins, signers.alice)).to.eq(wins);
+    expect(await decryptEntry(FhevmType.euint64, entry.wagered, signers.alice)).to.eq(6_000);
+    // Bob never opted in, so none of his rounds were recorded.
+    expect((await leaderboard.getEntry(epoch, signers.bob.address)).wagered).to.eq(ethers.ZeroHash);
+
+    await expect(leaderboard.publishEntry(epoch, signers.alice.address)).to.be.revertedWith("Epoch not over");
+    await mine(EPOCH_BLOCKS);
+    await expect(leaderboard.publishEntry(epoch, signers.bob.address)).to.be.revertedWith("Not opted in");
+    await expect(leaderboard.publishEntry(epoch + 1n, signers.alice.address)).to.be.revertedWith("Epoch not over");
+
+    await expect(leaderboard.connect(signers.carol).publishEntry(epoch, signers.alice.address))
+      .to.emit(leaderboard, "EntryPublished")
+      .withArgs(epoch, signers.alice.address, anyValue, anyValue);
+    await expect(leaderboard.publishEntry(epoch, signers.alice.address)).to.be.revertedWith("Already published");
+
+    const published = await leaderboard.getEntry(epoch, signers.alice.address);
+    expect(published.published).to.eq(true);
+    const { clearValues } = await fhevm.publicDecrypt([published.publishedWins, published.publishedNet]);
+    const net = paidOut > 6_000n ? paidOut - 6_000n : 0n;
+    expect(clearValues[published.publishedWins as `0x${string}`]).to.eq(wins);
+    expect(clearValues[published.publishedNet as `0x${string}`]).to.eq((net / 1_000n) * 1_000n);
+  });
+
+  it("counts session pots when banked, and publishes nothing once consent is withdrawn", async function () {
+    ({ privyPlay, privyPlayAddress, leaderboard, leaderboardAddress } = await deployFixture());
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+    await leaderboard.connect(signers.alice).optIn();
+
+    const encryptedWager = await fhevm
+      .createEncryptedInput(privyPlayAddress, signers.alice.address)
+      .add64(1_000)
+      .encrypt();
+    await privyPlay.connect(signers.alice).startSession(encryptedWager.handles[0], encryptedWager.inputProof);
+    const encryptedBet = await fhevm
+      .createEncryptedInput(privyPlayAddress, signers.alice.address)
+      .add8(1)
+      .add8(1)
+      .add8(0)
+      .encrypt();
+    await privyPlay
+      .connect(signers.alice)
+      .submitGuess(encryptedBet.handles[0], encryptedBet.handles[1], encryptedBet.handles[2], encryptedBet.inputProof);
+
+    const epoch = await leaderboard.currentEpoch();
+    expect((await leaderboard.getEntry(epoch, signers.alice.address)).paidOut).to.eq(ethers.ZeroHash);
+    const { pot } = await privyPlay.getSession(signers.alice.address);
+    const clearPot = await decryptPlay(pot, signers.alice);
+    await privyPlay.connect(signers.alice).bankSession(signers.alice.address);
+    const entry = await leaderboard.getEntry(epoch, signers.alice.address);
+    expect(await decryptEntry(FhevmType.euint64, entry.paidOut, signers.alice)).to.eq(clearPot);
+
+    await leaderboard.connect(signers.alice).optOut();
+    await mine(EPOCH_BLOCKS);
+    await expect(leaderboard.publishEntry(epoch, signers.alice.address)).to.be.revertedWith("Not opted in");
+
+    await leaderboard.connect(signers.alice).optIn();
+    await expect(leaderboard.publishEntry(epoch + 1n, signers.alice.address)).to.be.revertedWith("Epoch not over");
+    await mine(EPOCH_BLOCKS);
+    await expect(leaderboard.publishEntry(epoch + 1n, signers.alice.address)).to.be.revertedWith("No entry");
+  });
+});
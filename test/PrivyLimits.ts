@@ -0,0 +1,247 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { PrivyLimits, PrivyLimits__factory, PrivyPlay } from "../types";
+import { deployGameFixture, skipUnlessMock } from "./helpers/fixtures";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+};
+
+const LOOSEN_DELAY = 3_600;
+const DAY = 24 * 60 * 60;
+
+async function deployFixture(attach = true) {
+  const { privyPlay, privyPlayAddress } = await deployGameFixture({
+    operators: 2,
+    houseReserve: ethers.parseEther("1"),
+  });
+
+  const factory = (await ethers.getContractFactory("PrivyLimits")) as PrivyLimits__factory;
+  const limits = (await factory.deploy(privyPlayAddress, LOOSEN_DELAY)) as PrivyLimits;
+  if (attach) {
+    await privyPlay.setLimits(await limits.getAddress());
+  }
+
+  return { privyPlay, privyPlayAddress, limits, limitsAddress: await limits.getAddress() };
+}
+
+describe("PrivyLimits", function () {
+  let signers: Signers;
+  let privyPlay: PrivyPlay;
+  let privyPlayAddress: string;
+  let limits: PrivyLimits;
+  let limitsAddress: string;
+
+  async function startRound(wager = 1_000) {
+    const encryptedWager = await fhevm
+      .createEncryptedInput(privyPlayAddress, signers.alice.address)
+      .add64(wager)
+      .encrypt();
+    return privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+  }
+
+  async function settleRound() {
+    const encryptedBet = await fhevm
+      .createEncryptedInput(privyPlayAddress, signers.alice.address)
+      .add8(1)
+      .add8(1)
+      .add8(0)
+      .encrypt();
+    await privyPlay
+      .connect(signers.alice)
+      .submitGuess(encryptedBet.handles[0], encryptedBet.handles[1], encryptedBet.handles[2], encryptedBet.inputProof);
+  }
+
+  // Plays a round and returns whether its wager was charged.
+  async function playRound(wager = 1_000) {
+    await startRound(wager);
+    const charged = await fhevm.userDecryptEbool(
+      await privyPlay.getLastEligible(signers.alice.address),
+      privyPlayAddress,
+      signers.alice,
+    );
+    await settleRound();
+    return charged;
+  }
+
+  async function setSpendCap(cap: number) {
+    const encryptedCap = await fhevm.createEncryptedInput(limitsAddress, signers.alice.address).add64(cap).encrypt();
+    return limits.connect(signers.alice).setDailySpendCap(encryptedCap.handles[0], encryptedCap.inputProof);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1] };
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+  });
+
+  it("validates its parameters", async function () {
+    const factory = (await ethers.getContractFactory("PrivyLimits")) as PrivyLimits__factory;
+
+    await expect(factory.deploy(ethers.ZeroAddress, LOOSEN_DELAY)).to.be.revertedWith("Invalid game");
+    await expect(factory.deploy(signers.deployer.address, 0)).to.be.revertedWith("Invalid delay");
+  });
+
+  it("is attached once, by the owner, to the game it was deployed for", async function () {
+    ({ privyPlay, limits, limitsAddress } = await deployFixture(false));
+    const other = await deployFixture();
+
+    await expect(privyPlay.connect(signers.alice).setLimits(limitsAddress)).to.be.revertedWith("Not owner");
+    await expect(privyPlay.setLimits(other.limitsAddress)).to.be.revertedWith("Invalid limits");
+
+    await expect(privyPlay.setLimits(limitsAddress)).to.emit(privyPlay, "LimitsSet").withArgs(limitsAddress);
+    await expect(privyPlay.setLimits(limitsAddress)).to.be.revertedWith("Limits already set");
+    await expect(limits.checkRound(signers.alice.address, 1, ethers.ZeroHash)).to.be.revertedWith("Not game");
+    await expect(limits.recordSpend(signers.alice.address, ethers.ZeroHash)).to.be.revertedWith("Not game");
+  });
+
+  describe("with a player", function () {
+    beforeEach(async function () {
+      ({ privyPlay, privyPlayAddress, limits, limitsAddress } = await deployFixture());
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+    });
+
+    it("limits the rounds started per day, lowering at once and raising after the delay", async function () {
+      await limits.connect(signers.alice).setDailyRoundLimit(3);
+      const lower = await limits.connect(signers.alice).setDailyRoundLimit(2);
+      await expect(lower)
+        .to.emit(limits, "DailyRoundLimitSet")
+        .withArgs(signers.alice.address, 2, await time.latest());
+      await playRound();
+      await playRound();
+      await expect(startRound()).to.be.revertedWith("Daily round limit reached");
+
+      const raise = await limits.connect(signers.alice).setDailyRoundLimit(0);
+      const effectiveAt = (await time.latest()) + LOOSEN_DELAY;
+      await expect(raise).to.emit(limits, "DailyRoundLimitSet").withArgs(signers.alice.address, 0, effectiveAt);
+      expect((await limits.getLimits(signers.alice.address)).pendingDailyRoundsAt).to.eq(effectiveAt);
+      await expect(startRound()).to.be.revertedWith("Daily round limit reached");
+
+      await time.increaseTo(effectiveAt);
+      expect((await limits.getLimits(signers.alice.address)).dailyRounds).to.eq(0);
+      await playRound();
+      expect((await limits.getLimits(signers.alice.address)).roundsToday).to.eq(3);
+    });
+
+    it("starts every day afresh", async function () {
+      await limits.connect(signers.alice).setDailyRoundLimit(1);
+      await playRound();
+      await expect(startRound()).to.be.revertedWith("Daily round limit reached");
+
+      await time.increase(DAY);
+      expect((await limits.getLimits(signers.alice.address)).roundsToday).to.eq(0);
+      await playRound();
+    });
+
+    it("refuses to charge wagers beyond the encrypted daily spend cap", async function () {
+      await setSpendCap(2_500);
+      expect(await playRound(1_000)).to.eq(true);
+      expect(await playRound(1_000)).to.eq(true);
+      expect(await playRound(1_000)).to.eq(false);
+      // A smaller wager still fits.
+      expect(await playRound(500)).to.eq(true);
+
+      const current = await limits.getLimits(signers.alice.address);
+      const decrypt = (handle: string) =>
+        fhevm.userDecryptEuint(FhevmType.euint64, handle, limitsAddress, signers.alice);
+      expect(current.hasSpendCap).to.eq(true);
+      expect(await decrypt(current.dailySpendCap)).to.eq(2_500);
+      expect(await decrypt(current.spentToday)).to.eq(2_500);
+
+      await time.increase(DAY);
+      expect(await playRound(1_000)).to.eq(true);
+    });
+
+    it("counts only the wagers actually charged towards the spend cap", async function () {
+      await setSpendCap(1_500);
+      const spentToday = async () =>
+        fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          (await limits.getLimits(signers.alice.address)).spentToday,
+          limitsAddress,
+          signers.alice,
+        );
+
+      // Leave too few points for the wager: the cap lets it through, but the ledger charges nothing.
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(99_500)
+        .encrypt();
+      await privyPlay.connect(signers.alice).requestRedemption(encryptedAmount.handles[0], encryptedAmount.inputProof);
+      expect(await playRound(1_000)).to.eq(false);
+      expect(await spentToday()).to.eq(0);
+
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.01") });
+      expect(await playRound(1_000)).to.eq(true);
+      expect(await spentToday()).to.eq(1_000);
+    });
+
+    it("applies a looser spend cap only after the delay, and a stricter one at once", async function () {
+      await setSpendCap(1_000);
+      const loosen = await setSpendCap(5_000);
+      await expect(loosen)
+        .to.emit(limits, "DailySpendCapSet")
+        .withArgs(signers.alice.address, (await time.latest()) + LOOSEN_DELAY);
+      expect(await playRound(1_000)).to.eq(true);
+      expect(await playRound(1_000)).to.eq(false);
+
+      await time.increase(LOOSEN_DELAY);
+      expect(await playRound(1_000)).to.eq(true);
+
+      await setSpendCap(2_000);
+      expect(await playRound(1_000)).to.eq(false);
+
+      await limits.connect(signers.alice).removeDailySpendCap();
+      expect(await playRound(1_000)).to.eq(false);
+      await time.increase(LOOSEN_DELAY);
+      expect((await limits.getLimits(signers.alice.address)).hasSpendCap).to.eq(false);
+      expect(await playRound(1_000)).to.eq(true);
+      await expect(limits.connect(signers.alice).removeDailySpendCap()).to.be.revertedWith("No spend cap");
+    });
+
+    it("blocks new rounds during a cool-off, but lets the open one settle", async function () {
+      await expect(limits.connect(signers.alice).coolOff(0)).to.be.revertedWith("Invalid cool-off");
+      await expect(limits.connect(signers.alice).coolOff(43 * DAY)).to.be.revertedWith("Invalid cool-off");
+
+      await startRound();
+      const coolOff = await limits.connect(signers.alice).coolOff(DAY);
+      await expect(coolOff)
+        .to.emit(limits, "CoolOffStarted")
+        .withArgs(signers.alice.address, (await time.latest()) + DAY);
+      await settleRound();
+      await expect(startRound()).to.be.revertedWith("Cooling off");
+
+      // A shorter cool-off does not end the running one early.
+      await limits.connect(signers.alice).coolOff(60);
+      await time.increase(120);
+      await expect(startRound()).to.be.revertedWith("Cooling off");
+
+      await time.increase(DAY);
+      await playRound();
+    });
+
+    it("excludes the player for months", async function () {
+      await expect(limits.connect(signers.alice).selfExclude(30 * DAY)).to.be.revertedWith("Invalid exclusion");
+
+      await expect(limits.connect(signers.alice).selfExclude(180 * DAY)).to.emit(limits, "SelfExcluded");
+      await expect(startRound()).to.be.revertedWith("Self-excluded");
+      const encryptedWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(1_000)
+        .encrypt();
+      await expect(
+        privyPlay.connect(signers.alice).startSession(encryptedWager.handles[0], encryptedWager.inputProof),
+      ).to.be.revertedWith("Self-excluded");
+
+      await time.increase(180 * DAY);
+      await playRound();
+    });
+  });
+});
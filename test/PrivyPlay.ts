@@ -1,66 +1,149 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { ethers, fhevm } from "hardhat";
-import { PrivyPlay, PrivyPlay__factory } from "../types";
+import {
+  PrivyHistory,
+  PrivyHistory__factory,
+  PrivyPlay,
+  PrivyPoints,
+  PrivyPoints__factory,
+  PrivyTimelock,
+  PrivyTimelock__factory,
+} from "../types";
+import { deployPrivyPlay } from "./helpers/deployPrivyPlay";
+import { ECONOMICS, MAX_UINT48, PAYOUTS, skipUnlessMock } from "./helpers/fixtures";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 
 type Signers = {
   deployer: HardhatEthersSigner;
   alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
 };
 
-async function deployFixture() {
-  const factory = (await ethers.getContractFactory("PrivyPlay")) as PrivyPlay__factory;
-  const privyPlay = (await factory.deploy()) as PrivyPlay;
+const ECONOMICS_DELAY = 60;
+const ROUND_EXPIRY_BLOCKS = 50;
+// The highest payout, an exact face or a single-face range, at the highest wager.
+const MAX_ROUND_PAYOUT = (ECONOMICS.maxWager * PAYOUTS.exactFace) / 100;
+// What a winning big-or-small bet, a range of three faces, pays for a wager.
+const bigOrSmallReward = (wager: number) => (wager * PAYOUTS.range[2]) / 100;
+
+const BET_EXACT_FACE = 0;
+const BET_ODD_EVEN = 1;
+const BET_RANGE = 2;
+
+type Bet = [kind: number, low: number, high: number];
+
+const bigOrSmall = (big: boolean): Bet => (big ? [BET_RANGE, 4, 6] : [BET_RANGE, 1, 3]);
+
+// Mirrors RoundLineage.sol.
+const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+const commitmentOf = (player: string, roundId: bigint | number, wager: string, roll: string) =>
+  ethers.keccak256(abiCoder.encode(["address", "uint256", "bytes32", "bytes32"], [player, roundId, wager, roll]));
+const lineageOf = (player: string, record: Awaited<ReturnType<PrivyHistory["getRoundHistory"]>>[number]) =>
+  ethers.keccak256(
+    abiCoder.encode(
+      ["bytes32", "bytes32", "bytes32", "bytes32", "bytes32", "bytes32"],
+      [
+        commitmentOf(player, record.id, record.wager, record.roll),
+        record.betKind,
+        record.betLow,
+        record.betHigh,
+        record.outcome,
+        record.reward,
+      ],
+    ),
+  );
+
+async function deployFixture(houseReserve = ethers.parseEther("1")) {
+  const pointsFactory = (await ethers.getContractFactory("PrivyPoints")) as PrivyPoints__factory;
+  const points = (await pointsFactory.deploy("PrivyPlay Points", "PPT", "")) as PrivyPoints;
+  const pointsAddress = await points.getAddress();
+
+  const privyPlay = await deployPrivyPlay(pointsAddress, ECONOMICS, ROUND_EXPIRY_BLOCKS);
   const privyPlayAddress = await privyPlay.getAddress();
+  await points.setMinter(privyPlayAddress);
+
+  const timelockFactory = (await ethers.getContractFactory("PrivyTimelock")) as PrivyTimelock__factory;
+  const timelock = (await timelockFactory.deploy(privyPlayAddress, ECONOMICS_DELAY)) as PrivyTimelock;
+  await privyPlay.setTimelock(await timelock.getAddress());
+
+  const historyFactory = (await ethers.getContractFactory("PrivyHistory")) as PrivyHistory__factory;
+  const history = (await historyFactory.deploy(pointsAddress, privyPlayAddress)) as PrivyHistory;
+  await privyPlay.setHistory(await history.getAddress());
 
-  return { privyPlay, privyPlayAddress };
+  // Players let the game move their points for wagers and redemptions.
+  for (const player of (await ethers.getSigners()).slice(0, 3)) {
+    await points.connect(player).setOperator(privyPlayAddress, MAX_UINT48);
+  }
+
+  if (houseReserve > 0n) {
+    await privyPlay.fundHouseReserve({ value: houseReserve });
+  }
+
+  return { privyPlay, privyPlayAddress, points, pointsAddress, timelock, history };
+}
+
+async function submitBet(privyPlay: PrivyPlay, player: HardhatEthersSigner, [kind, low, high]: Bet) {
+  const encryptedBet = await fhevm
+    .createEncryptedInput(await privyPlay.getAddress(), player.address)
+    .add8(kind)
+    .add8(low)
+    .add8(high)
+    .encrypt();
+
+  return privyPlay
+    .connect(player)
+    .submitGuess(encryptedBet.handles[0], encryptedBet.handles[1], encryptedBet.handles[2], encryptedBet.inputProof);
 }
 
 describe("PrivyPlay", function () {
   let signers: Signers;
   let privyPlay: PrivyPlay;
   let privyPlayAddress: string;
+  let points: PrivyPoints;
+  let pointsAddress: string;
+  let timelock: PrivyTimelock;
+  let history: PrivyHistory;
+
+  const balanceOf = async (player: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await points.confidentialBalanceOf(player.address),
+      pointsAddress,
+      player,
+    );
 
   before(async function () {
     const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
-    signers = { deployer: ethSigners[0], alice: ethSigners[1] };
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
   });
 
   beforeEach(async function () {
-    if (!fhevm.isMock) {
-      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
-      this.skip();
-    }
-
-    ({ privyPlay, privyPlayAddress } = await deployFixture());
+    skipUnlessMock(this);
+    ({ privyPlay, privyPlayAddress, points, pointsAddress, timelock, history } = await deployFixture());
   });
 
   it("buys points, plays a round, and wins with a correct guess", async function () {
     const depositTx = await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("1") });
     await depositTx.wait();
 
-    const encryptedBalanceAfterDeposit = await privyPlay.getBalance(signers.alice.address);
-    const clearBalanceAfterDeposit = await fhevm.userDecryptEuint(
-      FhevmType.euint64,
-      encryptedBalanceAfterDeposit,
-      privyPlayAddress,
-      signers.alice,
-    );
+    const clearBalanceAfterDeposit = await balanceOf(signers.alice);
     expect(clearBalanceAfterDeposit).to.eq(1_000_000);
 
-    const startTx = await privyPlay.connect(signers.alice).startGame();
+    const encryptedWager = await fhevm
+      .createEncryptedInput(privyPlayAddress, signers.alice.address)
+      .add64(100)
+      .encrypt();
+    const startTx = await privyPlay
+      .connect(signers.alice)
+      .startGame(encryptedWager.handles[0], encryptedWager.inputProof);
     await startTx.wait();
 
-    expect(await privyPlay.isGameActive(signers.alice.address)).to.eq(true);
+    expect((await privyPlay.getRoundStatus(signers.alice.address)).active).to.eq(true);
 
-    const encryptedBalanceAfterStart = await privyPlay.getBalance(signers.alice.address);
-    const clearBalanceAfterStart = await fhevm.userDecryptEuint(
-      FhevmType.euint64,
-      encryptedBalanceAfterStart,
-      privyPlayAddress,
-      signers.alice,
-    );
+    const clearBalanceAfterStart = await balanceOf(signers.alice);
     expect(clearBalanceAfterStart).to.eq(999_900);
 
     const encryptedRoll = await privyPlay.getLastRoll(signers.alice.address);
@@ -72,18 +155,10 @@ describe("PrivyPlay", function () {
     );
     expect(clearRoll).to.be.gte(1).and.to.be.lte(6);
 
-    const guessIsBig = clearRoll >= 4;
-    const encryptedGuess = await fhevm
-      .createEncryptedInput(privyPlayAddress, signers.alice.address)
-      .addBool(guessIsBig)
-      .encrypt();
-
-    const guessTx = await privyPlay
-      .connect(signers.alice)
-      .submitGuess(encryptedGuess.handles[0], encryptedGuess.inputProof);
+    const guessTx = await submitBet(privyPlay, signers.alice, bigOrSmall(clearRoll >= 4));
     await guessTx.wait();
 
-    expect(await privyPlay.isGameActive(signers.alice.address)).to.eq(false);
+    expect((await privyPlay.getRoundStatus(signers.alice.address)).active).to.eq(false);
 
     const encryptedReward = await privyPlay.getLastReward(signers.alice.address);
     const clearReward = await fhevm.userDecryptEuint(
@@ -92,15 +167,1238 @@ describe("PrivyPlay", function () {
       privyPlayAddress,
       signers.alice,
     );
-    expect(clearReward).to.eq(1_000);
+    expect(clearReward).to.eq(bigOrSmallReward(100));
 
-    const encryptedBalanceAfterGuess = await privyPlay.getBalance(signers.alice.address);
-    const clearBalanceAfterGuess = await fhevm.userDecryptEuint(
-      FhevmType.euint64,
-      encryptedBalanceAfterGuess,
-      privyPlayAddress,
-      signers.alice,
-    );
-    expect(clearBalanceAfterGuess).to.eq(1_000_900);
+    const clearBalanceAfterGuess = await balanceOf(signers.alice);
+    expect(clearBalanceAfterGuess).to.eq(999_900 + bigOrSmallReward(100));
+  });
+
+  describe("redemption", function () {
+    async function redeem(points: number) {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(points)
+        .encrypt();
+
+      const requestTx = await privyPlay
+        .connect(signers.alice)
+        .requestRedemption(encryptedAmount.handles[0], encryptedAmount.inputProof);
+      await requestTx.wait();
+
+      const pending = await privyPlay.getPendingRedemption(signers.alice.address);
+      const decryption = await fhevm.publicDecrypt([pending]);
+
+      const ethBefore = await ethers.provider.getBalance(signers.alice.address);
+      const finalizeTx = await privyPlay
+        .connect(signers.deployer)
+        .finalizeRedemption(signers.alice.address, decryption.abiEncodedClearValues, decryption.decryptionProof);
+      await finalizeTx.wait();
+      const ethAfter = await ethers.provider.getBalance(signers.alice.address);
+
+      const clearBalance = await balanceOf(signers.alice);
+
+      return { finalizeTx, paid: ethAfter - ethBefore, clearBalance };
+    }
+
+    beforeEach(async function () {
+      const depositTx = await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("1") });
+      await depositTx.wait();
+    });
+
+    it("pays out a partial redemption and keeps the rest of the balance", async function () {
+      const { finalizeTx, paid, clearBalance } = await redeem(250_000);
+
+      expect(paid).to.eq(ethers.parseEther("0.25"));
+      expect(clearBalance).to.eq(750_000);
+      await expect(finalizeTx)
+        .to.emit(privyPlay, "PointsRedeemed")
+        .withArgs(signers.alice.address, 250_000, ethers.parseEther("0.25"));
+      expect(await privyPlay.getPendingRedemption(signers.alice.address)).to.eq(ethers.ZeroHash);
+    });
+
+    it("pays out a full redemption", async function () {
+      const { paid, clearBalance } = await redeem(1_000_000);
+
+      expect(paid).to.eq(ethers.parseEther("1"));
+      expect(clearBalance).to.eq(0);
+    });
+
+    it("burns and pays nothing when the redemption exceeds the balance", async function () {
+      const { finalizeTx, paid, clearBalance } = await redeem(1_000_001);
+
+      expect(paid).to.eq(0);
+      expect(clearBalance).to.eq(1_000_000);
+      await expect(finalizeTx).to.emit(privyPlay, "PointsRedeemed").withArgs(signers.alice.address, 0, 0);
+    });
+
+    it("rejects a second request while one is pending", async function () {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(1)
+        .encrypt();
+
+      await privyPlay.connect(signers.alice).requestRedemption(encryptedAmount.handles[0], encryptedAmount.inputProof);
+      await expect(
+        privyPlay.connect(signers.alice).requestRedemption(encryptedAmount.handles[0], encryptedAmount.inputProof),
+      ).to.be.revertedWith("Redemption pending");
+    });
+
+    it("rejects a forged decryption result", async function () {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(1_000)
+        .encrypt();
+      await privyPlay.connect(signers.alice).requestRedemption(encryptedAmount.handles[0], encryptedAmount.inputProof);
+
+      const pending = await privyPlay.getPendingRedemption(signers.alice.address);
+      const decryption = await fhevm.publicDecrypt([pending]);
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint64"], [1_000_000]);
+
+      const finalize = privyPlay.finalizeRedemption(signers.alice.address, forged, decryption.decryptionProof);
+      await expect(finalize).to.be.reverted;
+    });
+
+    describe("export", function () {
+      let successor: PrivyPlay;
+      let successorAddress: string;
+      let successorPoints: PrivyPoints;
+
+      async function encryptAmount(amount: number) {
+        return fhevm.createEncryptedInput(privyPlayAddress, signers.alice.address).add64(amount).encrypt();
+      }
+
+      async function exportPoints(amount: number) {
+        const encryptedAmount = await encryptAmount(amount);
+        await privyPlay
+          .connect(signers.alice)
+          .exportPoints(successorAddress, encryptedAmount.handles[0], encryptedAmount.inputProof);
+
+        const pending = await privyPlay.getPendingRedemption(signers.alice.address);
+        const decryption = await fhevm.publicDecrypt([pending]);
+        return () =>
+          privyPlay.finalizeRedemption(
+            signers.alice.address,
+            decryption.abiEncodedClearValues,
+            decryption.decryptionProof,
+          );
+      }
+
+      beforeEach(async function () {
+        ({ privyPlay: successor, privyPlayAddress: successorAddress, points: successorPoints } =
+          await deployFixture(0n));
+        await privyPlay.setSuccessor(successorAddress);
+      });
+
+      it("moves the ETH behind the exported points to the successor, which mints at its own rate", async function () {
+        const gameFunds = await ethers.provider.getBalance(privyPlayAddress);
+        const finalize = await exportPoints(400_000);
+
+        await expect(finalize())
+          .to.emit(privyPlay, "PointsExported")
+          .withArgs(signers.alice.address, successorAddress, 400_000, ethers.parseEther("0.4"))
+          .and.to.emit(successor, "PointsPurchased")
+          .withArgs(signers.alice.address, ethers.parseEther("0.4"), 400_000);
+        expect(await balanceOf(signers.alice)).to.eq(600_000);
+        expect(await ethers.provider.getBalance(privyPlayAddress)).to.eq(gameFunds - ethers.parseEther("0.4"));
+        expect(await ethers.provider.getBalance(successorAddress)).to.eq(ethers.parseEther("0.4"));
+        expect(
+          await fhevm.userDecryptEuint(
+            FhevmType.euint64,
+            await successorPoints.confidentialBalanceOf(signers.alice.address),
+            await successorPoints.getAddress(),
+            signers.alice,
+          ),
+        ).to.eq(400_000);
+        expect(await privyPlay.getPendingRedemption(signers.alice.address)).to.eq(ethers.ZeroHash);
+      });
+
+      it("exports only to the successor the owner approved", async function () {
+        await expect(successor.connect(signers.alice).setSuccessor(privyPlayAddress)).to.be.revertedWith("Not owner");
+        await expect(successor.setSuccessor(ethers.ZeroAddress)).to.be.revertedWith("Invalid successor");
+        await expect(successor.setSuccessor(successorAddress)).to.be.revertedWith("Invalid successor");
+        await expect(privyPlay.setSuccessor(privyPlayAddress)).to.be.revertedWith("Successor already set");
+        expect(await privyPlay.successor()).to.eq(successorAddress);
+
+        const { privyPlayAddress: otherAddress } = await deployFixture(0n);
+        for (const target of [ethers.ZeroAddress, otherAddress]) {
+          const encryptedAmount = await encryptAmount(1);
+          await expect(
+            privyPlay
+              .connect(signers.alice)
+              .exportPoints(target, encryptedAmount.handles[0], encryptedAmount.inputProof),
+          ).to.be.revertedWith("Invalid successor");
+        }
+      });
+
+      it("pays the player in ETH when the successor refuses the points", async function () {
+        const finalize = await exportPoints(100_000);
+
+        await successor.pause();
+        const ethBefore = await ethers.provider.getBalance(signers.alice.address);
+        await expect(finalize())
+          .to.emit(privyPlay, "PointsRedeemed")
+          .withArgs(signers.alice.address, 100_000, ethers.parseEther("0.1"))
+          .and.not.to.emit(privyPlay, "PointsExported");
+        expect(await ethers.provider.getBalance(signers.alice.address)).to.eq(ethBefore + ethers.parseEther("0.1"));
+        expect(await ethers.provider.getBalance(successorAddress)).to.eq(0);
+
+        // Nothing is left pending, so the player can redeem or export again.
+        await successor.unpause();
+        await expect((await exportPoints(100_000))()).to.emit(successor, "PointsPurchased");
+      });
+
+      it("pays a later redemption in ETH to the player", async function () {
+        await (await exportPoints(100_000))();
+        const { paid } = await redeem(100_000);
+
+        expect(paid).to.eq(ethers.parseEther("0.1"));
+      });
+    });
+  });
+
+  describe("economics", function () {
+    const NEXT_PAYOUTS = { exactFace: 500, oddEven: 190, range: [500, 290, 190, 140, 115, 95] };
+    const NEXT_ECONOMICS = { ...ECONOMICS, minWager: 200, maxWager: 20_000, payouts: NEXT_PAYOUTS };
+
+    it("accepts new economics from its timelock only", async function () {
+      await expect(privyPlay.connect(signers.deployer).updateEconomics(NEXT_ECONOMICS)).to.be.revertedWith(
+        "Not timelock",
+      );
+      await expect(privyPlay.setTimelock(await timelock.getAddress())).to.be.revertedWith("Timelock already set");
+    });
+
+    it("keeps the payouts of a round started before the update", async function () {
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("1") });
+      const encryptedWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(100)
+        .encrypt();
+      await privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+
+      await timelock.connect(signers.deployer).scheduleEconomicsUpdate(NEXT_ECONOMICS);
+      await time.increase(ECONOMICS_DELAY);
+      await timelock.applyEconomicsUpdate();
+
+      const clearRoll = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        await privyPlay.getLastRoll(signers.alice.address),
+        privyPlayAddress,
+        signers.alice,
+      );
+      await submitBet(privyPlay, signers.alice, bigOrSmall(clearRoll >= 4));
+
+      const clearReward = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await privyPlay.getLastReward(signers.alice.address),
+        privyPlayAddress,
+        signers.alice,
+      );
+      expect(clearReward).to.eq(bigOrSmallReward(100));
+    });
+  });
+
+  describe("roles", function () {
+    async function encryptWager(player: HardhatEthersSigner) {
+      return fhevm.createEncryptedInput(privyPlayAddress, player.address).add64(1_000).encrypt();
+    }
+
+    it("transfers the ownership in two steps", async function () {
+      await expect(privyPlay.connect(signers.alice).transferOwnership(signers.alice.address)).to.be.revertedWith(
+        "Not owner",
+      );
+
+      await expect(privyPlay.transferOwnership(signers.alice.address))
+        .to.emit(privyPlay, "OwnershipTransferStarted")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await privyPlay.owner()).to.eq(signers.deployer.address);
+      expect(await privyPlay.pendingOwner()).to.eq(signers.alice.address);
+      await expect(privyPlay.connect(signers.bob).acceptOwnership()).to.be.revertedWith("Not pending owner");
+
+      await expect(privyPlay.connect(signers.alice).acceptOwnership())
+        .to.emit(privyPlay, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await privyPlay.owner()).to.eq(signers.alice.address);
+      expect(await privyPlay.pendingOwner()).to.eq(ethers.ZeroAddress);
+
+      // The timelock and the ledger follow the game's owner.
+      expect(await points.owner()).to.eq(signers.alice.address);
+      const economics = { ...ECONOMICS, minWager: 200 };
+      await expect(timelock.connect(signers.deployer).scheduleEconomicsUpdate(economics)).to.be.revertedWith(
+        "Not owner",
+      );
+      await timelock.connect(signers.alice).scheduleEconomicsUpdate(economics);
+    });
+
+    it("lets the owner hand over the pauser and treasurer roles", async function () {
+      await expect(privyPlay.connect(signers.alice).setPauser(signers.alice.address)).to.be.revertedWith("Not owner");
+      await expect(privyPlay.setPauser(ethers.ZeroAddress)).to.be.revertedWith("Invalid pauser");
+      await expect(privyPlay.setTreasurer(ethers.ZeroAddress)).to.be.revertedWith("Invalid treasurer");
+
+      await expect(privyPlay.setPauser(signers.alice.address))
+        .to.emit(privyPlay, "PauserSet")
+        .withArgs(signers.alice.address);
+      await expect(privyPlay.setTreasurer(signers.bob.address))
+        .to.emit(privyPlay, "TreasurerSet")
+        .withArgs(signers.bob.address);
+      await expect(privyPlay.pause()).to.be.revertedWith("Not pauser");
+      await expect(privyPlay.fundHouseReserve({ value: ethers.parseEther("1") })).to.be.revertedWith("Not treasurer");
+
+      // The new treasurer funds the reserve and reads the house books.
+      await privyPlay.connect(signers.bob).fundHouseReserve({ value: ethers.parseEther("0.5") });
+      const reserve = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await privyPlay.getHouseReserve(),
+        privyPlayAddress,
+        signers.bob,
+      );
+      expect(reserve).to.eq(1_500_000);
+    });
+
+    it("blocks purchases and new rounds while paused, but lets players settle and cash out", async function () {
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+      await privyPlay.connect(signers.bob).buyPoints({ value: ethers.parseEther("0.1") });
+      let encryptedWager = await encryptWager(signers.alice);
+      await privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+      encryptedWager = await encryptWager(signers.bob);
+      await privyPlay.connect(signers.bob).startSession(encryptedWager.handles[0], encryptedWager.inputProof);
+      await submitBet(privyPlay, signers.bob, bigOrSmall(true));
+
+      await expect(privyPlay.connect(signers.alice).pause()).to.be.revertedWith("Not pauser");
+      await expect(privyPlay.pause()).to.emit(privyPlay, "Paused").withArgs(signers.deployer.address);
+      await expect(privyPlay.pause()).to.be.revertedWith("Paused");
+      expect(await privyPlay.paused()).to.eq(true);
+
+      await expect(privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") })).to.be.revertedWith(
+        "Paused",
+      );
+      encryptedWager = await encryptWager(signers.bob);
+      await expect(
+        privyPlay.connect(signers.bob).rollAgain(encryptedWager.handles[0], encryptedWager.inputProof),
+      ).to.be.revertedWith("Paused");
+
+      // Open rounds and sessions still close, and points can still be redeemed.
+      await submitBet(privyPlay, signers.alice, bigOrSmall(true));
+      await privyPlay.connect(signers.bob).bankSession(signers.bob.address);
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(50_000)
+        .encrypt();
+      await privyPlay.connect(signers.alice).requestRedemption(encryptedAmount.handles[0], encryptedAmount.inputProof);
+      const decryption = await fhevm.publicDecrypt([await privyPlay.getPendingRedemption(signers.alice.address)]);
+      await expect(
+        privyPlay.finalizeRedemption(
+          signers.alice.address,
+          decryption.abiEncodedClearValues,
+          decryption.decryptionProof,
+        ),
+      ).to.emit(privyPlay, "PointsRedeemed");
+
+      encryptedWager = await encryptWager(signers.alice);
+      await expect(
+        privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof),
+      ).to.be.revertedWith("Paused");
+      await expect(
+        privyPlay.connect(signers.alice).startSession(encryptedWager.handles[0], encryptedWager.inputProof),
+      ).to.be.revertedWith("Paused");
+
+      await expect(privyPlay.unpause()).to.emit(privyPlay, "Unpaused").withArgs(signers.deployer.address);
+      await expect(privyPlay.unpause()).to.be.revertedWith("Not paused");
+      await privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+    });
+  });
+
+  describe("wagers", function () {
+    async function playRound(wager: number, guessCorrectly: boolean, player = signers.alice) {
+      const encryptedWager = await fhevm.createEncryptedInput(privyPlayAddress, player.address).add64(wager).encrypt();
+      await privyPlay.connect(player).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+
+      const clearRoll = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        await privyPlay.getLastRoll(player.address),
+        privyPlayAddress,
+        player,
+      );
+      await submitBet(privyPlay, player, bigOrSmall(clearRoll >= 4 === guessCorrectly));
+
+      const decrypt = async (handle: string) =>
+        fhevm.userDecryptEuint(FhevmType.euint64, handle, privyPlayAddress, player);
+      return {
+        wager: await decrypt(await privyPlay.getLastWager(player.address)),
+        reward: await decrypt(await privyPlay.getLastReward(player.address)),
+        balance: await balanceOf(player),
+      };
+    }
+
+    beforeEach(async function () {
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+    });
+
+    it("pays the win multiple of a wager within bounds", async function () {
+      const { wager, reward, balance } = await playRound(2_500, true);
+
+      expect(wager).to.eq(2_500);
+      expect(reward).to.eq(bigOrSmallReward(2_500));
+      expect(balance).to.eq(100_000 - 2_500 + bigOrSmallReward(2_500));
+    });
+
+    it("keeps a losing wager", async function () {
+      const { reward, balance } = await playRound(2_500, false);
+
+      expect(reward).to.eq(0);
+      expect(balance).to.eq(97_500);
+    });
+
+    it("clamps wagers to the configured bounds", async function () {
+      let result = await playRound(50_000, true);
+      expect(result.wager).to.eq(10_000);
+      expect(result.reward).to.eq(bigOrSmallReward(10_000));
+
+      result = await playRound(1, true);
+      expect(result.wager).to.eq(100);
+      expect(result.reward).to.eq(bigOrSmallReward(100));
+    });
+
+    it("charges and pays nothing when the balance cannot cover the wager", async function () {
+      await privyPlay.connect(signers.deployer).buyPoints({ value: ethers.parseEther("0.00005") });
+
+      const { reward, balance } = await playRound(100, true, signers.deployer);
+      expect(reward).to.eq(0);
+      expect(balance).to.eq(50);
+    });
+  });
+
+  describe("bet kinds", function () {
+    let clearRoll: bigint;
+
+    async function settle(bet: Bet) {
+      await submitBet(privyPlay, signers.alice, bet);
+      return fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await privyPlay.getLastReward(signers.alice.address),
+        privyPlayAddress,
+        signers.alice,
+      );
+    }
+
+    beforeEach(async function () {
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+      const encryptedWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(1_000)
+        .encrypt();
+      await privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+
+      clearRoll = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        await privyPlay.getLastRoll(signers.alice.address),
+        privyPlayAddress,
+        signers.alice,
+      );
+    });
+
+    it("pays the exact-face table for the rolled face", async function () {
+      expect(await settle([BET_EXACT_FACE, Number(clearRoll), 0])).to.eq(PAYOUTS.exactFace * 10);
+    });
+
+    it("pays nothing for another face", async function () {
+      expect(await settle([BET_EXACT_FACE, (Number(clearRoll) % 6) + 1, 0])).to.eq(0);
+    });
+
+    it("pays the odd/even table for the rolled parity", async function () {
+      expect(await settle([BET_ODD_EVEN, Number(clearRoll % 2n), 0])).to.eq(PAYOUTS.oddEven * 10);
+    });
+
+    it("pays the range table by the number of faces covered", async function () {
+      const low = clearRoll > 3n ? 3 : Number(clearRoll);
+      expect(await settle([BET_RANGE, low, low + 3])).to.eq(PAYOUTS.range[3] * 10);
+    });
+
+    it("clamps ranges to real faces before picking the payout", async function () {
+      expect(await settle([BET_RANGE, 0, 9])).to.eq(PAYOUTS.range[5] * 10);
+    });
+
+    it("never pays an empty range or an unknown bet kind", async function () {
+      expect(await settle([BET_RANGE, 6, 1])).to.eq(0);
+
+      const encryptedWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(1_000)
+        .encrypt();
+      await privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+      expect(await settle([7, 1, 6])).to.eq(0);
+    });
+  });
+
+  describe("house reserve", function () {
+    const decrypt = async (handle: string, signer: HardhatEthersSigner) =>
+      fhevm.userDecryptEuint(FhevmType.euint64, handle, privyPlayAddress, signer);
+
+    async function startRound(player: HardhatEthersSigner, wager: number) {
+      const encryptedWager = await fhevm.createEncryptedInput(privyPlayAddress, player.address).add64(wager).encrypt();
+      await privyPlay.connect(player).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+    }
+
+    async function lastEligible(player: HardhatEthersSigner) {
+      return fhevm.userDecryptEbool(await privyPlay.getLastEligible(player.address), privyPlayAddress, player);
+    }
+
+    // Decrypts the roll before betting, so every eligible round pays the exact-face table.
+    async function playWinningRound(player: HardhatEthersSigner, wager: number) {
+      await startRound(player, wager);
+      const clearRoll = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        await privyPlay.getLastRoll(player.address),
+        privyPlayAddress,
+        player,
+      );
+      await submitBet(privyPlay, player, [BET_EXACT_FACE, Number(clearRoll), 0]);
+      return decrypt(await privyPlay.getLastReward(player.address), player);
+    }
+
+    async function houseBooks() {
+      return {
+        reserve: await decrypt(await privyPlay.getHouseReserve(), signers.deployer),
+        liabilities: await decrypt(await privyPlay.getTotalLiabilities(), signers.deployer),
+      };
+    }
+
+    it("lets only the treasurer fund the reserve", async function () {
+      await expect(
+        privyPlay.connect(signers.alice).fundHouseReserve({ value: ethers.parseEther("1") }),
+      ).to.be.revertedWith("Not treasurer");
+
+      await expect(privyPlay.connect(signers.deployer).fundHouseReserve({ value: ethers.parseEther("0.5") }))
+        .to.emit(privyPlay, "HouseReserveFunded")
+        .withArgs(signers.deployer.address, ethers.parseEther("0.5"), 500_000);
+      expect(await decrypt(await privyPlay.getHouseReserve(), signers.deployer)).to.eq(1_500_000);
+    });
+
+    it("lets the treasurer withdraw the reserve that no open round locks", async function () {
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+      await startRound(signers.alice, 100);
+      const free = 1_000_100 - MAX_ROUND_PAYOUT;
+
+      await expect(privyPlay.connect(signers.alice).withdrawHouseReserve(1)).to.be.revertedWith("Not treasurer");
+
+      const withdraw = async (amount: number) => {
+        await privyPlay.connect(signers.deployer).withdrawHouseReserve(amount);
+        const decryption = await fhevm.publicDecrypt([await privyPlay.getPendingRedemption(signers.deployer.address)]);
+        return privyPlay
+          .connect(signers.alice)
+          .finalizeRedemption(signers.deployer.address, decryption.abiEncodedClearValues, decryption.decryptionProof);
+      };
+
+      // More than the free reserve withdraws nothing.
+      await expect(withdraw(free + 1))
+        .to.emit(privyPlay, "PointsRedeemed")
+        .withArgs(signers.deployer.address, 0, 0);
+
+      await expect(withdraw(free)).to.changeEtherBalance(signers.deployer, ethers.parseEther("0.9421"));
+      expect(await houseBooks()).to.deep.eq({ reserve: BigInt(MAX_ROUND_PAYOUT), liabilities: 99_900n });
+    });
+
+    it("refuses rounds until the reserve covers the worst-case payout", async function () {
+      ({ privyPlay, privyPlayAddress, points, pointsAddress } = await deployFixture(0n));
+      expect(await privyPlay.maxRoundPayout()).to.eq(MAX_ROUND_PAYOUT);
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("1") });
+
+      expect(await playWinningRound(signers.alice, 10_000)).to.eq(0);
+      expect(await lastEligible(signers.alice)).to.eq(false);
+      expect(await balanceOf(signers.alice)).to.eq(1_000_000);
+
+      await privyPlay.connect(signers.deployer).fundHouseReserve({ value: ethers.parseEther("0.3") });
+      expect(await playWinningRound(signers.alice, 10_000)).to.eq(MAX_ROUND_PAYOUT);
+      expect(await lastEligible(signers.alice)).to.eq(true);
+    });
+
+    it("locks the worst-case payout of every open round", async function () {
+      // A reserve of exactly one worst-case payout.
+      ({ privyPlay, privyPlayAddress, points, pointsAddress } = await deployFixture(ethers.parseEther("0.058")));
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+      await privyPlay.connect(signers.deployer).buyPoints({ value: ethers.parseEther("0.1") });
+
+      await startRound(signers.alice, 100);
+      expect(await privyPlay.openExposure()).to.eq(MAX_ROUND_PAYOUT);
+      await startRound(signers.deployer, 100);
+      expect(await privyPlay.openExposure()).to.eq(2 * MAX_ROUND_PAYOUT);
+
+      expect(await lastEligible(signers.alice)).to.eq(true);
+      expect(await lastEligible(signers.deployer)).to.eq(false);
+
+      await submitBet(privyPlay, signers.alice, bigOrSmall(true));
+      await submitBet(privyPlay, signers.deployer, bigOrSmall(true));
+      expect(await privyPlay.openExposure()).to.eq(0);
+    });
+
+    it("moves wagers and rewards between the reserve and player liabilities", async function () {
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("1") });
+      expect(await houseBooks()).to.deep.eq({ reserve: 1_000_000n, liabilities: 1_000_000n });
+
+      const reward = await playWinningRound(signers.alice, 1_000);
+      expect(reward).to.eq(5_800);
+      expect(await houseBooks()).to.deep.eq({ reserve: 995_200n, liabilities: 1_004_800n });
+
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(4_800)
+        .encrypt();
+      await privyPlay.connect(signers.alice).requestRedemption(encryptedAmount.handles[0], encryptedAmount.inputProof);
+      expect((await houseBooks()).liabilities).to.eq(1_000_000);
+    });
+
+    it("pays a long losing streak for the house until the reserve runs dry", async function () {
+      ({ privyPlay, privyPlayAddress, points, pointsAddress } = await deployFixture(ethers.parseEther("0.2")));
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("1") });
+
+      const expectedReserves = [152_000n, 104_000n, 56_000n];
+      for (const expectedReserve of expectedReserves) {
+        expect(await playWinningRound(signers.alice, 10_000)).to.eq(MAX_ROUND_PAYOUT);
+        const books = await houseBooks();
+        expect(books.reserve).to.eq(expectedReserve);
+        expect(books.reserve + books.liabilities).to.eq(1_200_000);
+      }
+
+      // The reserve can no longer cover a worst-case payout: further rounds are refused, not paid.
+      for (let i = 0; i < 3; i++) {
+        expect(await playWinningRound(signers.alice, 10_000)).to.eq(0);
+        expect(await lastEligible(signers.alice)).to.eq(false);
+      }
+      expect(await houseBooks()).to.deep.eq({ reserve: 56_000n, liabilities: 1_144_000n });
+      expect(await privyPlay.openExposure()).to.eq(0);
+    });
+  });
+
+  describe("round expiry", function () {
+    let startBlock: number;
+
+    beforeEach(async function () {
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+      const encryptedWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(1_000)
+        .encrypt();
+      const startTx = await privyPlay
+        .connect(signers.alice)
+        .startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+      startBlock = (await startTx.wait())!.blockNumber;
+    });
+
+    it("reports the round status with its deadline", async function () {
+      const status = await privyPlay.getRoundStatus(signers.alice.address);
+      expect(status.active).to.eq(true);
+      expect(status.startBlock).to.eq(startBlock);
+      expect(status.deadline).to.eq(startBlock + ROUND_EXPIRY_BLOCKS);
+      expect(status.expired).to.eq(false);
+
+      await mine(ROUND_EXPIRY_BLOCKS);
+      expect((await privyPlay.getRoundStatus(signers.alice.address)).expired).to.eq(false);
+      await mine(1);
+      expect((await privyPlay.getRoundStatus(signers.alice.address)).expired).to.eq(true);
+    });
+
+    it("accepts a bet up to the deadline block and rejects it after", async function () {
+      await mine(ROUND_EXPIRY_BLOCKS - 1);
+      // The bet is mined in the deadline block itself.
+      await expect(submitBet(privyPlay, signers.alice, bigOrSmall(true))).to.emit(privyPlay, "GuessSubmitted");
+
+      const encryptedWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(1_000)
+        .encrypt();
+      await privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+      await mine(ROUND_EXPIRY_BLOCKS);
+      await expect(submitBet(privyPlay, signers.alice, bigOrSmall(true))).to.be.revertedWith("Round expired");
+    });
+
+    it("lets a keeper forfeit an expired round", async function () {
+      await expect(privyPlay.connect(signers.deployer).expireRound(signers.alice.address)).to.be.revertedWith(
+        "Round not expired",
+      );
+
+      await mine(ROUND_EXPIRY_BLOCKS);
+      await expect(privyPlay.connect(signers.deployer).expireRound(signers.alice.address))
+        .to.emit(privyPlay, "RoundExpired")
+        .withArgs(signers.alice.address, 1, signers.deployer.address);
+
+      expect((await privyPlay.getRoundStatus(signers.alice.address)).active).to.eq(false);
+      expect(await privyPlay.openExposure()).to.eq(0);
+      const decrypt = async (handle: string) =>
+        fhevm.userDecryptEuint(FhevmType.euint64, handle, privyPlayAddress, signers.alice);
+      expect(await balanceOf(signers.alice)).to.eq(99_000);
+      expect(await decrypt(await privyPlay.getLastReward(signers.alice.address))).to.eq(0);
+
+      await expect(privyPlay.expireRound(signers.alice.address)).to.be.revertedWith("No active game");
+    });
+
+    it("lets the player start again after expiring their own round", async function () {
+      await mine(ROUND_EXPIRY_BLOCKS);
+      await privyPlay.connect(signers.alice).expireRound(signers.alice.address);
+
+      const encryptedWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(1_000)
+        .encrypt();
+      await expect(
+        privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof),
+      ).to.emit(privyPlay, "GameStarted");
+    });
+  });
+
+  describe("round history", function () {
+    async function playRound(wager: number, bet: (roll: number) => Bet) {
+      const encryptedWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(wager)
+        .encrypt();
+      await privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+      const clearRoll = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        await privyPlay.getLastRoll(signers.alice.address),
+        privyPlayAddress,
+        signers.alice,
+      );
+      const tx = await submitBet(privyPlay, signers.alice, bet(Number(clearRoll)));
+      return { roll: clearRoll, blockNumber: (await tx.wait())!.blockNumber };
+    }
+
+    beforeEach(async function () {
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+    });
+
+    it("is attached once, by the owner, to a history deployed for the game", async function () {
+      const factory = (await ethers.getContractFactory("PrivyHistory")) as PrivyHistory__factory;
+      await expect(factory.deploy(ethers.ZeroAddress, privyPlayAddress)).to.be.revertedWith("Invalid ledger");
+      await expect(factory.deploy(pointsAddress, ethers.ZeroAddress)).to.be.revertedWith("Invalid game");
+
+      const other = await factory.deploy(pointsAddress, signers.deployer.address);
+      await expect(privyPlay.connect(signers.alice).setHistory(await other.getAddress())).to.be.revertedWith(
+        "Not owner",
+      );
+      await expect(privyPlay.setHistory(await other.getAddress())).to.be.revertedWith("History already set");
+      const game = await deployPrivyPlay(pointsAddress, ECONOMICS, ROUND_EXPIRY_BLOCKS);
+      await expect(game.setHistory(await other.getAddress())).to.be.revertedWith("Invalid history");
+
+      const handle = ethers.ZeroHash;
+      const record = { id: 1, blockNumber: 1, expired: true, wager: handle, roll: handle, betKind: handle, betLow: handle };
+      await expect(
+        history.recordRound(signers.alice.address, { ...record, betHigh: handle, outcome: handle, reward: handle }),
+      ).to.be.revertedWith("Not game");
+    });
+
+    it("appends every settled round with handles the player can decrypt", async function () {
+      const win = await playRound(1_000, (roll) => [BET_EXACT_FACE, roll, 0]);
+      const loss = await playRound(200, (roll) => bigOrSmall(roll < 4));
+
+      expect(await history.getRoundCount(signers.alice.address)).to.eq(2);
+      const [first, second] = await history.getRoundHistory(signers.alice.address, 0, 10);
+
+      const decrypt64 = (handle: string) =>
+        fhevm.userDecryptEuint(FhevmType.euint64, handle, privyPlayAddress, signers.alice);
+      const decrypt8 = (handle: string) =>
+        fhevm.userDecryptEuint(FhevmType.euint8, handle, privyPlayAddress, signers.alice);
+
+      expect(first.id).to.eq(1);
+      expect(first.blockNumber).to.eq(win.blockNumber);
+      expect(first.expired).to.eq(false);
+      expect(await decrypt64(first.wager)).to.eq(1_000);
+      expect(await decrypt8(first.roll)).to.eq(win.roll);
+      expect(await decrypt8(first.betKind)).to.eq(BET_EXACT_FACE);
+      expect(await decrypt8(first.betLow)).to.eq(win.roll);
+      expect(await fhevm.userDecryptEbool(first.outcome, privyPlayAddress, signers.alice)).to.eq(true);
+      expect(await decrypt64(first.reward)).to.eq(PAYOUTS.exactFace * 10);
+
+      expect(second.id).to.eq(2);
+      expect(second.blockNumber).to.eq(loss.blockNumber);
+      expect(await decrypt8(second.roll)).to.eq(loss.roll);
+      expect(await decrypt8(second.betKind)).to.eq(BET_RANGE);
+      expect(await fhevm.userDecryptEbool(second.outcome, privyPlayAddress, signers.alice)).to.eq(false);
+      expect(await decrypt64(second.reward)).to.eq(0);
+    });
+
+    it("records expired rounds without a bet", async function () {
+      const encryptedWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(1_000)
+        .encrypt();
+      await privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+      await mine(ROUND_EXPIRY_BLOCKS + 1);
+      await privyPlay.connect(signers.deployer).expireRound(signers.alice.address);
+
+      const [record] = await history.getRoundHistory(signers.alice.address, 0, 1);
+      expect(record.expired).to.eq(true);
+      expect(record.betKind).to.eq(ethers.ZeroHash);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, record.reward, privyPlayAddress, signers.alice)).to.eq(0);
+    });
+
+    it("chains every record to the commitment its round started with", async function () {
+      const encryptedWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(1_000)
+        .encrypt();
+      const startTx = await privyPlay
+        .connect(signers.alice)
+        .startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+      const started = await privyPlay.queryFilter(privyPlay.filters.GameStarted(signers.alice.address, 1));
+      const betTx = await submitBet(privyPlay, signers.alice, bigOrSmall(true));
+      await playRound(100, () => bigOrSmall(false));
+
+      const [record, next] = await history.getRoundHistory(signers.alice.address, 0, 2);
+      const lineages = await history.getRoundLineage(signers.alice.address, 0, 10);
+      expect(started[0].transactionHash).to.eq(startTx.hash);
+      expect(started[0].args.commitment).to.eq(commitmentOf(signers.alice.address, 1, record.wager, record.roll));
+      expect(lineages).to.deep.eq([lineageOf(signers.alice.address, record), lineageOf(signers.alice.address, next)]);
+      await expect(betTx).to.emit(history, "RoundRecorded").withArgs(signers.alice.address, 1, lineages[0]);
+      expect(await history.getRoundLineage(signers.alice.address, 1, 10)).to.deep.eq([lineages[1]]);
+      expect(await history.getRoundLineage(signers.alice.address, 2, 10)).to.deep.eq([]);
+
+      // A record whose roll was swapped after the round started no longer matches its commitment.
+      expect(commitmentOf(signers.alice.address, 1, record.wager, next.roll)).to.not.eq(started[0].args.commitment);
+    });
+
+    it("pages through the history", async function () {
+      for (let i = 0; i < 3; i++) {
+        await playRound(100, () => bigOrSmall(true));
+      }
+
+      const ids = async (offset: number, limit: number) =>
+        (await history.getRoundHistory(signers.alice.address, offset, limit)).map((record) => record.id);
+      expect(await ids(0, 2)).to.deep.eq([1n, 2n]);
+      expect(await ids(2, 2)).to.deep.eq([3n]);
+      expect(await ids(3, 2)).to.deep.eq([]);
+      expect(await history.getRoundHistory(signers.deployer.address, 0, 10)).to.deep.eq([]);
+    });
+
+    it("keeps history handles private to the player", async function () {
+      await playRound(100, () => bigOrSmall(true));
+      const [record] = await history.getRoundHistory(signers.alice.address, 0, 1);
+
+      await expect(fhevm.userDecryptEuint(FhevmType.euint8, record.roll, privyPlayAddress, signers.deployer)).to.be
+        .rejected;
+    });
+
+    it("shares pages of the history with the player's active viewers", async function () {
+      const settled = await playRound(1_000, (roll) => [BET_EXACT_FACE, roll, 0]);
+      await playRound(100, () => bigOrSmall(true));
+      const [first, second] = await history.getRoundHistory(signers.alice.address, 0, 2);
+      const viewer = signers.bob;
+
+      await expect(history.connect(viewer).shareRoundHistory(signers.alice.address, 0, 10)).to.be.revertedWith(
+        "Not a viewer",
+      );
+      await points.connect(signers.alice).grantViewer(viewer.address, (await time.latest()) + 3_600);
+
+      await history.connect(viewer).shareRoundHistory(signers.alice.address, 1, 10);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, second.wager, privyPlayAddress, viewer)).to.eq(100);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint8, first.roll, privyPlayAddress, viewer)).to.be.rejected;
+
+      await history.connect(viewer).shareRoundHistory(signers.alice.address, 0, 1);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, first.roll, privyPlayAddress, viewer)).to.eq(settled.roll);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, first.betKind, privyPlayAddress, viewer)).to.eq(
+        BET_EXACT_FACE,
+      );
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, first.reward, privyPlayAddress, viewer)).to.eq(
+        PAYOUTS.exactFace * 10,
+      );
+
+      await points.connect(signers.alice).revokeViewer(viewer.address);
+      await expect(history.connect(viewer).shareRoundHistory(signers.alice.address, 0, 10)).to.be.revertedWith(
+        "Not a viewer",
+      );
+    });
+  });
+
+  describe("quick play", function () {
+    async function quickPlay(player: HardhatEthersSigner, wager: number, [kind, low, high]: Bet) {
+      const encrypted = await fhevm
+        .createEncryptedInput(privyPlayAddress, player.address)
+        .add64(wager)
+        .add8(kind)
+        .add8(low)
+        .add8(high)
+        .encrypt();
+      return privyPlay
+        .connect(player)
+        .playRound(
+          encrypted.handles[0],
+          encrypted.handles[1],
+          encrypted.handles[2],
+          encrypted.handles[3],
+          encrypted.inputProof,
+        );
+    }
+
+    beforeEach(async function () {
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+    });
+
+    it("charges, rolls and settles a round in one transaction", async function () {
+      // The roll is drawn inside the transaction, so bet on an even roll and check the result against it.
+      const tx = await quickPlay(signers.alice, 1_000, [BET_ODD_EVEN, 0, 0]);
+      await expect(tx)
+        .to.emit(privyPlay, "GameStarted")
+        .withArgs(signers.alice.address, 1, ...Array(5).fill(anyValue));
+      await expect(tx).to.emit(privyPlay, "GuessSubmitted");
+      await expect(tx).to.emit(privyPlay, "RoundSettled");
+
+      const [record] = await history.getRoundHistory(signers.alice.address, 0, 1);
+      const [lineage] = await history.getRoundLineage(signers.alice.address, 0, 1);
+      const roll = await fhevm.userDecryptEuint(FhevmType.euint8, record.roll, privyPlayAddress, signers.alice);
+      const won = roll % 2n === 0n;
+      expect(record.id).to.eq(1);
+      expect(lineage).to.eq(lineageOf(signers.alice.address, record));
+      expect(await fhevm.userDecryptEbool(record.outcome, privyPlayAddress, signers.alice)).to.eq(won);
+
+      expect(await balanceOf(signers.alice)).to.eq(100_000 - 1_000 + (won ? PAYOUTS.oddEven * 10 : 0));
+      expect((await privyPlay.getRoundStatus(signers.alice.address)).active).to.eq(false);
+      expect(await privyPlay.openExposure()).to.eq(0);
+    });
+
+    it("is refused while a round or a session is open, or the game is paused", async function () {
+      const encryptedWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(1_000)
+        .encrypt();
+      await privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+      await expect(quickPlay(signers.alice, 1_000, bigOrSmall(true))).to.be.revertedWith("Game already active");
+      await submitBet(privyPlay, signers.alice, bigOrSmall(true));
+
+      const sessionWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(1_000)
+        .encrypt();
+      await privyPlay.connect(signers.alice).startSession(sessionWager.handles[0], sessionWager.inputProof);
+      await expect(quickPlay(signers.alice, 1_000, bigOrSmall(true))).to.be.revertedWith("Session active");
+
+      await privyPlay.pause();
+      await expect(quickPlay(signers.deployer, 1_000, bigOrSmall(true))).to.be.revertedWith("Paused");
+    });
+  });
+
+  describe("events", function () {
+    const PAYOUTS_ARG = [PAYOUTS.exactFace, PAYOUTS.oddEven, PAYOUTS.range];
+
+    async function startRound(player: HardhatEthersSigner) {
+      const encryptedWager = await fhevm.createEncryptedInput(privyPlayAddress, player.address).add64(1_000).encrypt();
+      return privyPlay.connect(player).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+    }
+
+    beforeEach(async function () {
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+      await privyPlay.connect(signers.deployer).buyPoints({ value: ethers.parseEther("0.1") });
+    });
+
+    it("numbers rounds across players", async function () {
+      await expect(startRound(signers.alice))
+        .to.emit(privyPlay, "GameStarted")
+        .withArgs(signers.alice.address, 1, ...Array(5).fill(anyValue));
+      await expect(startRound(signers.deployer))
+        .to.emit(privyPlay, "GameStarted")
+        .withArgs(signers.deployer.address, 2, ...Array(5).fill(anyValue));
+      await submitBet(privyPlay, signers.alice, bigOrSmall(true));
+      await expect(startRound(signers.alice))
+        .to.emit(privyPlay, "GameStarted")
+        .withArgs(signers.alice.address, 3, ...Array(5).fill(anyValue));
+      expect(await privyPlay.roundCount()).to.eq(3);
+    });
+
+    it("links the start, bet and settlement of a round through its id and handles", async function () {
+      const startTx = await startRound(signers.alice);
+      const startBlock = (await startTx.wait())!.blockNumber;
+      const wager = await privyPlay.getLastWager(signers.alice.address);
+      const roll = await privyPlay.getLastRoll(signers.alice.address);
+      await expect(startTx)
+        .to.emit(privyPlay, "GameStarted")
+        .withArgs(
+          signers.alice.address,
+          1,
+          1,
+          startBlock + ROUND_EXPIRY_BLOCKS,
+          wager,
+          roll,
+          commitmentOf(signers.alice.address, 1, wager, roll),
+        );
+
+      const betTx = await submitBet(privyPlay, signers.alice, bigOrSmall(true));
+      const [record] = await history.getRoundHistory(signers.alice.address, 0, 1);
+      await expect(betTx)
+        .to.emit(privyPlay, "GuessSubmitted")
+        .withArgs(signers.alice.address, 1, record.betKind, record.betLow, record.betHigh);
+      await expect(betTx)
+        .to.emit(privyPlay, "RoundSettled")
+        .withArgs(
+          signers.alice.address,
+          1,
+          1,
+          PAYOUTS_ARG,
+          roll,
+          await privyPlay.getLastOutcome(signers.alice.address),
+          await privyPlay.getLastReward(signers.alice.address),
+        );
+      expect(record.roll).to.eq(roll);
+    });
+
+    it("reports the economics a round started with when it settles", async function () {
+      await startRound(signers.alice);
+
+      const nextPayouts = { exactFace: 500, oddEven: 190, range: [500, 290, 190, 140, 115, 95] };
+      await timelock.connect(signers.deployer).scheduleEconomicsUpdate({ ...ECONOMICS, payouts: nextPayouts });
+      await time.increase(ECONOMICS_DELAY);
+      await timelock.applyEconomicsUpdate();
+
+      await expect(submitBet(privyPlay, signers.alice, bigOrSmall(true)))
+        .to.emit(privyPlay, "RoundSettled")
+        .withArgs(signers.alice.address, 1, 1, PAYOUTS_ARG, anyValue, anyValue, anyValue);
+    });
+
+    it("settles an expired round with its keeper", async function () {
+      await startRound(signers.alice);
+      await mine(ROUND_EXPIRY_BLOCKS + 1);
+
+      const expireTx = await privyPlay.connect(signers.deployer).expireRound(signers.alice.address);
+      await expect(expireTx)
+        .to.emit(privyPlay, "RoundExpired")
+        .withArgs(signers.alice.address, 1, signers.deployer.address);
+      await expect(expireTx)
+        .to.emit(privyPlay, "RoundSettled")
+        .withArgs(
+          signers.alice.address,
+          1,
+          1,
+          PAYOUTS_ARG,
+          await privyPlay.getLastRoll(signers.alice.address),
+          await privyPlay.getLastOutcome(signers.alice.address),
+          await privyPlay.getLastReward(signers.alice.address),
+        );
+    });
+  });
+
+  describe("sessions", function () {
+    // Each session round locks the worst-case payout at the highest streak multiplier.
+    const SESSION_ROUND_EXPOSURE = MAX_ROUND_PAYOUT * 2;
+    // What a winning big-or-small session round adds to the pot after `streak` earlier wins.
+    const sessionReward = (streak: number, wager = 1_000) =>
+      Math.floor((bigOrSmallReward(wager) * (100 + 25 * Math.min(streak, 4))) / 100);
+
+    async function encryptWager(player: HardhatEthersSigner, wager: number) {
+      return fhevm.createEncryptedInput(privyPlayAddress, player.address).add64(wager).encrypt();
+    }
+
+    async function playSessionRound(win: boolean, first = false, wager = 1_000) {
+      const encryptedWager = await encryptWager(signers.alice, wager);
+      const start = first ? privyPlay.connect(signers.alice).startSession : privyPlay.connect(signers.alice).rollAgain;
+      await start(encryptedWager.handles[0], encryptedWager.inputProof);
+
+      const clearRoll = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        await privyPlay.getLastRoll(signers.alice.address),
+        privyPlayAddress,
+        signers.alice,
+      );
+      await submitBet(privyPlay, signers.alice, bigOrSmall(clearRoll >= 4 === win));
+    }
+
+    async function session() {
+      const { active, rounds, exposure, streak, pot } = await privyPlay.getSession(signers.alice.address);
+      return {
+        active,
+        rounds,
+        exposure,
+        streak: await fhevm.userDecryptEuint(FhevmType.euint8, streak, privyPlayAddress, signers.alice),
+        pot: await fhevm.userDecryptEuint(FhevmType.euint64, pot, privyPlayAddress, signers.alice),
+      };
+    }
+
+    beforeEach(async function () {
+      ({ privyPlay, privyPlayAddress, points, pointsAddress } = await deployFixture(ethers.parseEther("3")));
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+    });
+
+    it("pays consecutive wins into the pot with a growing multiplier", async function () {
+      await playSessionRound(true, true);
+      expect(await session()).to.deep.eq({
+        active: true,
+        rounds: 1n,
+        exposure: BigInt(SESSION_ROUND_EXPOSURE),
+        streak: 1n,
+        pot: BigInt(sessionReward(0)),
+      });
+
+      await playSessionRound(true);
+      await playSessionRound(true);
+      const { streak, pot } = await session();
+      expect(streak).to.eq(3);
+      // The big-or-small payout, boosted by 0%, 25% and 50%.
+      expect(pot).to.eq(sessionReward(0) + sessionReward(1) + sessionReward(2));
+      expect(await balanceOf(signers.alice)).to.eq(100_000 - 3_000);
+      expect(await privyPlay.openExposure()).to.eq(3 * SESSION_ROUND_EXPOSURE);
+    });
+
+    it("caps the streak multiplier", async function () {
+      await privyPlay.connect(signers.deployer).fundHouseReserve({ value: ethers.parseEther("1") });
+      for (let round = 0; round < 6; round++) {
+        await playSessionRound(true, round === 0);
+      }
+
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          await privyPlay.getLastReward(signers.alice.address),
+          privyPlayAddress,
+          signers.alice,
+        ),
+      ).to.eq(sessionReward(5));
+    });
+
+    it("empties the pot and resets the streak on a loss", async function () {
+      await playSessionRound(true, true);
+      await playSessionRound(true);
+      await playSessionRound(false);
+
+      const { active, streak, pot } = await session();
+      expect(active).to.eq(true);
+      expect(streak).to.eq(0);
+      expect(pot).to.eq(0);
+
+      await playSessionRound(true);
+      expect((await session()).pot).to.eq(sessionReward(0));
+    });
+
+    it("banks the pot and releases the session's exposure", async function () {
+      await playSessionRound(true, true);
+      await playSessionRound(true);
+
+      await expect(privyPlay.connect(signers.alice).bankSession(signers.alice.address))
+        .to.emit(privyPlay, "SessionBanked")
+        .withArgs(signers.alice.address, signers.alice.address, 2, anyValue);
+
+      expect(await balanceOf(signers.alice)).to.eq(100_000 - 2_000 + sessionReward(0) + sessionReward(1));
+      expect(await privyPlay.openExposure()).to.eq(0);
+      expect((await privyPlay.getSession(signers.alice.address)).active).to.eq(false);
+      await expect(privyPlay.connect(signers.alice).bankSession(signers.alice.address)).to.be.revertedWith(
+        "No active session",
+      );
+    });
+
+    it("lets a keeper bank an idle session only", async function () {
+      await playSessionRound(true, true);
+      await expect(privyPlay.connect(signers.bob).bankSession(signers.alice.address)).to.be.revertedWith(
+        "Session not idle",
+      );
+
+      await mine(ROUND_EXPIRY_BLOCKS);
+      await privyPlay.connect(signers.bob).bankSession(signers.alice.address);
+      expect(await balanceOf(signers.alice)).to.eq(100_000 - 1_000 + sessionReward(0));
+    });
+
+    it("forfeits the pot when a session round expires", async function () {
+      await playSessionRound(true, true);
+      const encryptedWager = await encryptWager(signers.alice, 1_000);
+      await privyPlay.connect(signers.alice).rollAgain(encryptedWager.handles[0], encryptedWager.inputProof);
+      await expect(privyPlay.connect(signers.alice).bankSession(signers.alice.address)).to.be.revertedWith(
+        "Game already active",
+      );
+
+      await mine(ROUND_EXPIRY_BLOCKS + 1);
+      await privyPlay.expireRound(signers.alice.address);
+      expect((await session()).pot).to.eq(0);
+    });
+
+    it("keeps sessions and single rounds apart", async function () {
+      let encryptedWager = await encryptWager(signers.alice, 1_000);
+      await expect(
+        privyPlay.connect(signers.alice).rollAgain(encryptedWager.handles[0], encryptedWager.inputProof),
+      ).to.be.revertedWith("No active session");
+
+      await playSessionRound(false, true);
+      encryptedWager = await encryptWager(signers.alice, 1_000);
+      await expect(
+        privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof),
+      ).to.be.revertedWith("Session active");
+    });
+
+    it("must be banked after the last round", async function () {
+      for (let round = 0; round < 10; round++) {
+        await playSessionRound(false, round === 0, 100);
+      }
+
+      const encryptedWager = await encryptWager(signers.alice, 100);
+      await expect(
+        privyPlay.connect(signers.alice).rollAgain(encryptedWager.handles[0], encryptedWager.inputProof),
+      ).to.be.revertedWith("Session full");
+    });
+  });
+
+  describe("points ledger", function () {
+    async function transfer(to: string, amount: number) {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(pointsAddress, signers.alice.address)
+        .add64(amount)
+        .encrypt();
+      return points
+        .connect(signers.alice)
+        ["confidentialTransfer(address,bytes32,bytes)"](to, encryptedAmount.handles[0], encryptedAmount.inputProof);
+    }
+
+    beforeEach(async function () {
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+    });
+
+    it("mints purchased points on the ledger", async function () {
+      expect(await balanceOf(signers.alice)).to.eq(100_000);
+      expect(await points.minter()).to.eq(privyPlayAddress);
+      expect(await privyPlay.points()).to.eq(pointsAddress);
+    });
+
+    it("lets the recipient of a transfer play without exposing the sender's balance", async function () {
+      await transfer(signers.bob.address, 10_000);
+
+      const encryptedWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.bob.address)
+        .add64(1_000)
+        .encrypt();
+      await privyPlay.connect(signers.bob).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+      expect(await balanceOf(signers.bob)).to.eq(9_000);
+
+      await expect(
+        fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          await points.confidentialBalanceOf(signers.alice.address),
+          pointsAddress,
+          signers.bob,
+        ),
+      ).to.be.rejected;
+    });
+
+    it("keeps player liabilities unchanged by transfers", async function () {
+      await transfer(signers.bob.address, 25_000);
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          await privyPlay.getTotalLiabilities(),
+          privyPlayAddress,
+          signers.deployer,
+        ),
+      ).to.eq(100_000);
+    });
+
+    it("cannot wager or redeem points without being an operator", async function () {
+      await points.connect(signers.alice).setOperator(privyPlayAddress, 0);
+
+      const encryptedWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(1_000)
+        .encrypt();
+      await expect(
+        privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof),
+      ).to.be.revertedWithCustomError(points, "ERC7984UnauthorizedSpender");
+
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(1_000)
+        .encrypt();
+      await expect(
+        privyPlay.connect(signers.alice).requestRedemption(encryptedAmount.handles[0], encryptedAmount.inputProof),
+      ).to.be.revertedWithCustomError(points, "ERC7984UnauthorizedSpender");
+    });
   });
 });
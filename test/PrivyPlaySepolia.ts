@@ -1,6 +1,6 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { ethers, fhevm, deployments } from "hardhat";
-import { PrivyPlay } from "../types";
+import { PrivyPlay, PrivyPoints } from "../types";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
 
@@ -11,6 +11,8 @@ type Signers = {
 describe("PrivyPlaySepolia", function () {
   let signers: Signers;
   let privyPlay: PrivyPlay;
+  let points: PrivyPoints;
+  let pointsAddress: string;
   let privyPlayAddress: string;
   let step: number;
   let steps: number;
@@ -29,6 +31,8 @@ describe("PrivyPlaySepolia", function () {
       const privyPlayDeployment = await deployments.get("PrivyPlay");
       privyPlayAddress = privyPlayDeployment.address;
       privyPlay = await ethers.getContractAt("PrivyPlay", privyPlayDeployment.address);
+      pointsAddress = await privyPlay.points();
+      points = await ethers.getContractAt("PrivyPoints", pointsAddress);
     } catch (e) {
       (e as Error).message += ". Call 'npx hardhat deploy --network sepolia'";
       throw e;
@@ -44,19 +48,29 @@ describe("PrivyPlaySepolia", function () {
   });
 
   it("buys points and completes a round", async function () {
-    steps = 12;
+    steps = 14;
     this.timeout(4 * 40000);
 
     progress("Buying points with 0.01 ETH...");
     let tx = await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.01") });
     await tx.wait();
 
+    progress("Making the game an operator for an hour...");
+    tx = await points.connect(signers.alice).setOperator(privyPlayAddress, Math.floor(Date.now() / 1000) + 3600);
+    await tx.wait();
+
+    progress("Encrypting wager...");
+    const encryptedWager = await fhevm
+      .createEncryptedInput(privyPlayAddress, signers.alice.address)
+      .add64(100)
+      .encrypt();
+
     progress("Starting a game round...");
-    tx = await privyPlay.connect(signers.alice).startGame();
+    tx = await privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
     await tx.wait();
 
     progress("Checking game active...");
-    expect(await privyPlay.isGameActive(signers.alice.address)).to.eq(true);
+    expect((await privyPlay.getRoundStatus(signers.alice.address)).active).to.eq(true);
 
     progress("Fetching encrypted roll...");
     const encryptedRoll = await privyPlay.getLastRoll(signers.alice.address);
@@ -72,18 +86,22 @@ describe("PrivyPlaySepolia", function () {
 
     const guessIsBig = clearRoll >= 4;
 
-    progress("Encrypting guess...");
-    const encryptedGuess = await fhevm
+    progress("Encrypting big/small bet...");
+    const encryptedBet = await fhevm
       .createEncryptedInput(privyPlayAddress, signers.alice.address)
-      .addBool(guessIsBig)
+      .add8(2)
+      .add8(guessIsBig ? 4 : 1)
+      .add8(guessIsBig ? 6 : 3)
       .encrypt();
 
-    progress("Submitting guess...");
-    tx = await privyPlay.connect(signers.alice).submitGuess(encryptedGuess.handles[0], encryptedGuess.inputProof);
+    progress("Submitting bet...");
+    tx = await privyPlay
+      .connect(signers.alice)
+      .submitGuess(encryptedBet.handles[0], encryptedBet.handles[1], encryptedBet.handles[2], encryptedBet.inputProof);
     await tx.wait();
 
     progress("Checking game inactive...");
-    expect(await privyPlay.isGameActive(signers.alice.address)).to.eq(false);
+    expect((await privyPlay.getRoundStatus(signers.alice.address)).active).to.eq(false);
 
     progress("Decrypting reward...");
     const encryptedReward = await privyPlay.getLastReward(signers.alice.address);
@@ -96,11 +114,11 @@ describe("PrivyPlaySepolia", function () {
     progress(`Clear reward=${clearReward}`);
 
     progress("Decrypting balance...");
-    const encryptedBalance = await privyPlay.getBalance(signers.alice.address);
+    const encryptedBalance = await points.confidentialBalanceOf(signers.alice.address);
     const clearBalance = await fhevm.userDecryptEuint(
       FhevmType.euint64,
       encryptedBalance,
-      privyPlayAddress,
+      pointsAddress,
       signers.alice,
     );
     progress(`Clear balance=${clearBalance}`);
@@ -0,0 +1,181 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { deployments, ethers, fhevm } from "hardhat";
+import { PrivyHistory, PrivyPlay, PrivyPoints } from "../types";
+import { MAX_UINT48, skipUnlessMock } from "./helpers/fixtures";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+};
+
+type StorageEntry = { label: string; slot: string; offset: number; type: string };
+
+// Runs the deploy script again over the current deployments, as an upgrade on a live network would.
+const redeploy = () =>
+  deployments.run(undefined, { resetMemory: false, deletePreviousDeployments: false, writeDeploymentsToFiles: false });
+
+describe("PrivyPlayUpgrade", function () {
+  let signers: Signers;
+  let privyPlay: PrivyPlay;
+  let privyPlayAddress: string;
+  let points: PrivyPoints;
+  let history: PrivyHistory;
+
+  // Live networks record the storage layout of the implementation with its deployment; the in-memory one does not.
+  async function recordStorageLayout(edit: (storage: StorageEntry[]) => StorageEntry[]) {
+    const implementation = await deployments.get("PrivyPlay_Implementation");
+    const { storageLayout } = await deployments.getExtendedArtifact("PrivyPlay");
+    await deployments.save("PrivyPlay_Implementation", {
+      ...implementation,
+      storageLayout: { ...storageLayout, storage: edit(storageLayout.storage) },
+    });
+  }
+
+  async function playRound(wager: number) {
+    const encryptedWager = await fhevm
+      .createEncryptedInput(privyPlayAddress, signers.alice.address)
+      .add64(wager)
+      .encrypt();
+    await privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+
+    const encryptedBet = await fhevm
+      .createEncryptedInput(privyPlayAddress, signers.alice.address)
+      .add8(2)
+      .add8(4)
+      .add8(6)
+      .encrypt();
+    await privyPlay
+      .connect(signers.alice)
+      .submitGuess(encryptedBet.handles[0], encryptedBet.handles[1], encryptedBet.handles[2], encryptedBet.inputProof);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1] };
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    await deployments.fixture();
+    privyPlayAddress = (await deployments.get("PrivyPlay")).address;
+    privyPlay = await ethers.getContractAt("PrivyPlay", privyPlayAddress);
+    points = await ethers.getContractAt("PrivyPoints", await privyPlay.points());
+    history = await ethers.getContractAt("PrivyHistory", await privyPlay.history());
+
+    await points.connect(signers.alice).setOperator(privyPlayAddress, MAX_UINT48);
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.01") });
+  });
+
+  it("is initialized once, behind its proxy", async function () {
+    const implementation = await ethers.getContractAt(
+      "PrivyPlay",
+      (await deployments.get("PrivyPlay_Implementation")).address,
+    );
+    const payouts = { exactFace: 100, oddEven: 100, range: [100, 100, 100, 100, 100, 100] };
+    const economics = { pointsPerEth: 1, minWager: 1, maxWager: 1, payouts };
+
+    expect(await privyPlay.owner()).to.eq(signers.deployer.address);
+    await expect(privyPlay.initialize(await points.getAddress(), economics, 1)).to.be.revertedWithCustomError(
+      privyPlay,
+      "InvalidInitialization",
+    );
+    await expect(
+      implementation.connect(signers.alice).initialize(await points.getAddress(), economics, 1),
+    ).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+  });
+
+  it("keeps balances, rounds and their permissions across an upgrade", async function () {
+    await playRound(1_000);
+    const balance = await points.confidentialBalanceOf(signers.alice.address);
+    const roll = await privyPlay.getLastRoll(signers.alice.address);
+    const [record] = await history.getRoundHistory(signers.alice.address, 0, 1);
+    const reserve = await privyPlay.getHouseReserve();
+    const decryptBalance = async () =>
+      fhevm.userDecryptEuint(FhevmType.euint64, balance, await points.getAddress(), signers.alice);
+    const clearBalance = await decryptBalance();
+    const clearReserve = await fhevm.userDecryptEuint(FhevmType.euint64, reserve, privyPlayAddress, signers.deployer);
+
+    const implementation = await ethers.deployContract(
+      "PrivyPlay",
+      [(await deployments.get("PrivyForwarder")).address],
+      {
+        libraries: {
+          PrivyDice: (await deployments.get("PrivyDice")).address,
+          PrivyRecords: (await deployments.get("PrivyRecords")).address,
+        },
+      },
+    );
+    await deployments.execute(
+      "DefaultProxyAdmin",
+      { from: signers.deployer.address },
+      "upgrade",
+      privyPlayAddress,
+      await implementation.getAddress(),
+    );
+    expect(await deployments.read("DefaultProxyAdmin", "getProxyImplementation", privyPlayAddress)).to.eq(
+      await implementation.getAddress(),
+    );
+
+    // Permissions on ciphertexts were granted to the proxy, so they survive the change of implementation.
+    expect(await points.confidentialBalanceOf(signers.alice.address)).to.eq(balance);
+    expect(await decryptBalance()).to.eq(clearBalance);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint8, roll, privyPlayAddress, signers.alice)).to.eq(
+      await fhevm.userDecryptEuint(FhevmType.euint8, record.roll, privyPlayAddress, signers.alice),
+    );
+    expect(await privyPlay.getHouseReserve()).to.eq(reserve);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, reserve, privyPlayAddress, signers.deployer)).to.eq(
+      clearReserve,
+    );
+
+    // And the upgraded game keeps playing from where it was.
+    await playRound(100);
+    expect(await privyPlay.roundCount()).to.eq(2);
+    expect(await history.getRoundCount(signers.alice.address)).to.eq(2);
+  });
+
+  it("leaves the game alone when the deploy script runs again", async function () {
+    const implementation = await deployments.get("PrivyPlay_Implementation");
+    const funds = await ethers.provider.getBalance(privyPlayAddress);
+    await recordStorageLayout((storage) => storage);
+
+    await redeploy();
+
+    expect((await deployments.get("PrivyPlay_Implementation")).address).to.eq(implementation.address);
+    expect(await ethers.provider.getBalance(privyPlayAddress)).to.eq(funds);
+  });
+
+  it("refuses to upgrade to an implementation with an incompatible storage layout", async function () {
+    // As if the new implementation inserted its second state variable among the deployed ones.
+    await recordStorageLayout((storage) => storage.filter((_entry, i) => i !== 1));
+
+    await expect(redeploy()).to.be.rejectedWith("Incompatible storage layout for PrivyPlay");
+  });
+
+  it("refuses to upgrade to an implementation that renames a state variable", async function () {
+    await recordStorageLayout((storage) =>
+      storage.map((entry, i) => (i === 1 ? { ...entry, label: "renamed" } : entry)),
+    );
+
+    await expect(redeploy()).to.be.rejectedWith(
+      /Incompatible storage layout for PrivyPlay: renamed .* would be renamed/,
+    );
+  });
+
+  it("refuses to replace an add-on or the ledger the game already uses", async function () {
+    const stats = await deployments.get("PrivyStats");
+    const jackpot = await deployments.get("PrivyJackpot");
+
+    // As if the statistics had been redeployed elsewhere since they were attached.
+    await deployments.save("PrivyStats", { ...stats, address: jackpot.address });
+    await expect(redeploy()).to.be.rejectedWith(
+      `PrivyStats differs from the one attached to the game at ${stats.address}`,
+    );
+    await deployments.save("PrivyStats", stats);
+
+    const points = await deployments.get("PrivyPoints");
+    await deployments.save("PrivyPoints", { ...points, address: jackpot.address });
+    await expect(redeploy()).to.be.rejectedWith(`PrivyPoints at ${jackpot.address} is not the ledger of the game`);
+  });
+});
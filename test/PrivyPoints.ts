@@ -0,0 +1,218 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { PrivyPlay, PrivyPoints } from "../types";
+import { deployGameFixture, skipUnlessMock } from "./helpers/fixtures";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { ContractTransactionResponse } from "ethers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+// The game is not the minter yet, so that the suite can cover `setMinter`.
+const deployFixture = () => deployGameFixture({ minter: false });
+
+describe("PrivyPoints", function () {
+  let signers: Signers;
+  let points: PrivyPoints;
+  let pointsAddress: string;
+  let privyPlay: PrivyPlay;
+  let privyPlayAddress: string;
+
+  const decrypt = async (handle: string, signer: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(FhevmType.euint64, handle, pointsAddress, signer);
+
+  const balanceOf = async (player: HardhatEthersSigner) =>
+    decrypt(await points.confidentialBalanceOf(player.address), player);
+
+  async function transfer(to: string, amount: number) {
+    const encryptedAmount = await fhevm
+      .createEncryptedInput(pointsAddress, signers.alice.address)
+      .add64(amount)
+      .encrypt();
+    return points
+      .connect(signers.alice)
+      ["confidentialTransfer(address,bytes32,bytes)"](to, encryptedAmount.handles[0], encryptedAmount.inputProof);
+  }
+
+  async function transferredAmount(tx: ContractTransactionResponse, signer: HardhatEthersSigner) {
+    const receipt = await tx.wait();
+    const event = receipt!.logs
+      .map((log) => points.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "ConfidentialTransfer");
+    return decrypt(event!.args.amount, signer);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ points, pointsAddress, privyPlay, privyPlayAddress } = await deployFixture());
+  });
+
+  it("describes whole-unit points", async function () {
+    expect(await points.name()).to.eq("PrivyPlay Points");
+    expect(await points.symbol()).to.eq("PPT");
+    expect(await points.decimals()).to.eq(0);
+  });
+
+  describe("minter", function () {
+    it("is set once, by the owner", async function () {
+      await expect(points.connect(signers.alice).setMinter(privyPlayAddress)).to.be.revertedWith("Not owner");
+      await expect(points.setMinter(ethers.ZeroAddress)).to.be.revertedWith("Invalid minter");
+
+      await expect(points.setMinter(privyPlayAddress)).to.emit(points, "MinterSet").withArgs(privyPlayAddress);
+      await expect(points.setMinter(signers.deployer.address)).to.be.revertedWith("Minter already set");
+    });
+
+    it("is the only account that can mint or burn", async function () {
+      await points.setMinter(privyPlayAddress);
+
+      await expect(points.mint(signers.alice.address, ethers.ZeroHash)).to.be.revertedWith("Not minter");
+      await expect(points.burnFrom(signers.alice.address, ethers.ZeroHash)).to.be.revertedWith("Not minter");
+    });
+  });
+
+  describe("transfers", function () {
+    beforeEach(async function () {
+      await points.setMinter(privyPlayAddress);
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+    });
+
+    it("moves an encrypted amount between players", async function () {
+      const tx = await transfer(signers.bob.address, 40_000);
+      await expect(tx)
+        .to.emit(points, "ConfidentialTransfer")
+        .withArgs(signers.alice.address, signers.bob.address, anyValue);
+
+      expect(await balanceOf(signers.alice)).to.eq(60_000);
+      expect(await balanceOf(signers.bob)).to.eq(40_000);
+      expect(await transferredAmount(tx, signers.alice)).to.eq(40_000);
+      expect(await transferredAmount(tx, signers.bob)).to.eq(40_000);
+    });
+
+    it("silently moves nothing when the balance is too low", async function () {
+      const tx = await transfer(signers.bob.address, 100_001);
+
+      expect(await balanceOf(signers.alice)).to.eq(100_000);
+      expect(await balanceOf(signers.bob)).to.eq(0);
+      expect(await transferredAmount(tx, signers.bob)).to.eq(0);
+    });
+
+    it("lets an operator move points until its approval ends", async function () {
+      await expect(points.connect(signers.alice).setOperator(signers.bob.address, 2n ** 48n - 1n))
+        .to.emit(points, "OperatorSet")
+        .withArgs(signers.alice.address, signers.bob.address, 2n ** 48n - 1n);
+
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(pointsAddress, signers.bob.address)
+        .add64(5_000)
+        .encrypt();
+      await points
+        .connect(signers.bob)
+        ["confidentialTransferFrom(address,address,bytes32,bytes)"](
+          signers.alice.address,
+          signers.bob.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+        );
+      expect(await balanceOf(signers.bob)).to.eq(5_000);
+
+      await points.connect(signers.alice).setOperator(signers.bob.address, 0);
+      await expect(
+        points
+          .connect(signers.bob)
+          ["confidentialTransferFrom(address,address,bytes32,bytes)"](
+            signers.alice.address,
+            signers.bob.address,
+            encryptedAmount.handles[0],
+            encryptedAmount.inputProof,
+          ),
+      ).to.be.revertedWithCustomError(points, "ERC7984UnauthorizedSpender");
+    });
+
+    it("rejects the zero address", async function () {
+      await expect(transfer(ethers.ZeroAddress, 1)).to.be.revertedWithCustomError(points, "ERC7984InvalidReceiver");
+    });
+  });
+
+  describe("viewers", function () {
+    const DAY = 24 * 60 * 60;
+
+    beforeEach(async function () {
+      await points.setMinter(privyPlayAddress);
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+    });
+
+    it("are granted and revoked by the holder, up to a cap", async function () {
+      const until = (await time.latest()) + DAY;
+      await expect(points.connect(signers.alice).grantViewer(signers.alice.address, until)).to.be.revertedWith(
+        "Invalid viewer",
+      );
+      await expect(points.connect(signers.alice).grantViewer(signers.carol.address, 1)).to.be.revertedWith(
+        "Invalid expiry",
+      );
+
+      await expect(points.connect(signers.alice).grantViewer(signers.carol.address, until))
+        .to.emit(points, "ViewerGranted")
+        .withArgs(signers.alice.address, signers.carol.address, until);
+      await points.connect(signers.alice).grantViewer(signers.carol.address, until + DAY);
+      expect(await points.isViewer(signers.alice.address, signers.carol.address)).to.eq(true);
+      expect(await points.getViewers(signers.alice.address)).to.deep.eq([
+        [signers.carol.address],
+        [BigInt(until + DAY)],
+      ]);
+
+      const others = (await ethers.getSigners()).slice(4, 8);
+      for (const viewer of others) {
+        await points.connect(signers.alice).grantViewer(viewer.address, until);
+      }
+      await expect(points.connect(signers.alice).grantViewer(signers.bob.address, until)).to.be.revertedWith(
+        "Too many viewers",
+      );
+
+      await expect(points.connect(signers.alice).revokeViewer(signers.carol.address))
+        .to.emit(points, "ViewerRevoked")
+        .withArgs(signers.alice.address, signers.carol.address);
+      await expect(points.connect(signers.alice).revokeViewer(signers.carol.address)).to.be.revertedWith(
+        "Not a viewer",
+      );
+      expect(await points.isViewer(signers.alice.address, signers.carol.address)).to.eq(false);
+      expect([...(await points.getViewers(signers.alice.address))[0]]).to.have.members(others.map((o) => o.address));
+    });
+
+    it("can decrypt the holder's balance until the grant ends", async function () {
+      await points.connect(signers.alice).grantViewer(signers.carol.address, (await time.latest()) + DAY);
+      expect(await decrypt(await points.confidentialBalanceOf(signers.alice.address), signers.carol)).to.eq(100_000);
+
+      await transfer(signers.bob.address, 40_000);
+      const shared = await points.confidentialBalanceOf(signers.alice.address);
+      expect(await decrypt(shared, signers.carol)).to.eq(60_000);
+      // Only the holder's own balances are shared.
+      await expect(decrypt(await points.confidentialBalanceOf(signers.bob.address), signers.carol)).to.be.rejected;
+
+      await time.increase(DAY + 1);
+      await transfer(signers.bob.address, 10_000);
+      await expect(decrypt(await points.confidentialBalanceOf(signers.alice.address), signers.carol)).to.be.rejected;
+      // What was shared while the grant was active stays decryptable.
+      expect(await decrypt(shared, signers.carol)).to.eq(60_000);
+    });
+
+    it("stops seeing new balances once revoked", async function () {
+      await points.connect(signers.alice).grantViewer(signers.carol.address, (await time.latest()) + DAY);
+      await points.connect(signers.alice).revokeViewer(signers.carol.address);
+
+      await transfer(signers.bob.address, 40_000);
+      await expect(decrypt(await points.confidentialBalanceOf(signers.alice.address), signers.carol)).to.be.rejected;
+    });
+  });
+});
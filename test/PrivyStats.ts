@@ -0,0 +1,183 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { PrivyPlay, PrivyStats, PrivyStats__factory } from "../types";
+import { deployGameFixture, skipUnlessMock } from "./helpers/fixtures";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const ROUND_EXPIRY_BLOCKS = 50;
+const REVEAL_INTERVAL_ROUNDS = 10;
+
+async function deployFixture(attach = true) {
+  const { privyPlay, privyPlayAddress } = await deployGameFixture({
+    operators: 3,
+    houseReserve: ethers.parseEther("1"),
+    roundExpiryBlocks: ROUND_EXPIRY_BLOCKS,
+  });
+
+  const factory = (await ethers.getContractFactory("PrivyStats")) as PrivyStats__factory;
+  const stats = (await factory.deploy(privyPlayAddress, REVEAL_INTERVAL_ROUNDS)) as PrivyStats;
+  if (attach) {
+    await privyPlay.setStats(await stats.getAddress());
+  }
+
+  return { privyPlay, privyPlayAddress, stats, statsAddress: await stats.getAddress() };
+}
+
+describe("PrivyStats", function () {
+  let signers: Signers;
+  let privyPlay: PrivyPlay;
+  let privyPlayAddress: string;
+  let stats: PrivyStats;
+  let statsAddress: string;
+
+  const decryptPlay = async (type: FhevmType.euint8 | FhevmType.euint64, handle: string, signer: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(type, handle, privyPlayAddress, signer);
+
+  async function liveStats() {
+    const [counts, wagered, paidOut] = await stats.getStats();
+    const decrypt = (type: FhevmType.euint32 | FhevmType.euint64, handle: string) =>
+      fhevm.userDecryptEuint(type, handle, statsAddress, signers.deployer);
+    // One decryption at a time: the mock coprocessor does not support concurrent requests.
+    let rounds = 0n;
+    for (const handle of counts) {
+      rounds += await decrypt(FhevmType.euint32, handle);
+    }
+    return {
+      rounds,
+      wagered: await decrypt(FhevmType.euint64, wagered),
+      paidOut: await decrypt(FhevmType.euint64, paidOut),
+    };
+  }
+
+  const lastFace = async (player: HardhatEthersSigner) =>
+    Number(await decryptPlay(FhevmType.euint8, await privyPlay.getLastRoll(player.address), player));
+
+  async function startRound(player: HardhatEthersSigner, wager: number, session = false) {
+    const encryptedWager = await fhevm.createEncryptedInput(privyPlayAddress, player.address).add64(wager).encrypt();
+    const game = privyPlay.connect(player);
+    await (session ? game.startSession : game.startGame)(encryptedWager.handles[0], encryptedWager.inputProof);
+  }
+
+  async function submitBet(player: HardhatEthersSigner) {
+    // Odd faces win, so that some rounds pay out.
+    const encryptedBet = await fhevm
+      .createEncryptedInput(privyPlayAddress, player.address)
+      .add8(1)
+      .add8(1)
+      .add8(0)
+      .encrypt();
+    return privyPlay
+      .connect(player)
+      .submitGuess(encryptedBet.handles[0], encryptedBet.handles[1], encryptedBet.handles[2], encryptedBet.inputProof);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+  });
+
+  it("validates its parameters", async function () {
+    const factory = (await ethers.getContractFactory("PrivyStats")) as PrivyStats__factory;
+
+    await expect(factory.deploy(ethers.ZeroAddress, 10)).to.be.revertedWith("Invalid game");
+    await expect(factory.deploy(signers.deployer.address, 9)).to.be.revertedWith("Invalid reveal interval");
+  });
+
+  it("is attached once, by the owner, to the game it was deployed for", async function () {
+    ({ privyPlay, stats, statsAddress } = await deployFixture(false));
+    const other = await deployFixture();
+
+    await expect(privyPlay.connect(signers.alice).setStats(statsAddress)).to.be.revertedWith("Not owner");
+    await expect(privyPlay.setStats(other.statsAddress)).to.be.revertedWith("Invalid stats");
+
+    await expect(privyPlay.setStats(statsAddress)).to.emit(privyPlay, "StatsSet").withArgs(statsAddress);
+    await expect(privyPlay.setStats(statsAddress)).to.be.revertedWith("Stats already set");
+    await expect(stats.recordPayout(ethers.ZeroHash)).to.be.revertedWith("Not game");
+  });
+
+  it("lets the game's owner decrypt the live aggregates, following a handover", async function () {
+    ({ privyPlay, privyPlayAddress, stats, statsAddress } = await deployFixture());
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+
+    await privyPlay.transferOwnership(signers.bob.address);
+    await privyPlay.connect(signers.bob).acceptOwnership();
+    expect(await stats.owner()).to.eq(signers.bob.address);
+
+    await startRound(signers.alice, 1_000);
+    await submitBet(signers.alice);
+    const [, wagered] = await stats.getStats();
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, wagered, statsAddress, signers.bob)).to.eq(1_000);
+  });
+
+  it("counts every closed round and reveals the aggregates every interval", async function () {
+    ({ privyPlay, privyPlayAddress, stats, statsAddress } = await deployFixture());
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+
+    const counts = [0n, 0n, 0n, 0n, 0n, 0n];
+    let paidOut = 0n;
+    for (let i = 1; i < REVEAL_INTERVAL_ROUNDS; i++) {
+      await startRound(signers.alice, 1_000);
+      await submitBet(signers.alice);
+      counts[(await lastFace(signers.alice)) - 1]++;
+      paidOut += await decryptPlay(
+        FhevmType.euint64,
+        await privyPlay.getLastReward(signers.alice.address),
+        signers.alice,
+      );
+    }
+    expect(await stats.getSnapshotCount()).to.eq(0);
+    await expect(stats.getSnapshot(0)).to.be.revertedWith("Unknown snapshot");
+
+    // The last round of the interval expires: its roll and wager count, and it pays nothing.
+    await startRound(signers.alice, 1_000);
+    await mine(ROUND_EXPIRY_BLOCKS + 1);
+    await expect(privyPlay.expireRound(signers.alice.address)).to.emit(stats, "StatsRevealed").withArgs(0, 10);
+    counts[(await lastFace(signers.alice)) - 1]++;
+
+    const snapshot = await stats.getSnapshot(0);
+    expect(snapshot.rounds).to.eq(REVEAL_INTERVAL_ROUNDS);
+    const handles = [...snapshot.faceCounts, snapshot.wagered, snapshot.paidOut];
+    const { clearValues } = await fhevm.publicDecrypt(handles);
+    const revealed = handles.map((handle) => clearValues[handle as `0x${string}`]);
+    expect(revealed).to.deep.eq([...counts, 10_000n, paidOut]);
+  });
+
+  it("counts rolls of uncharged rounds without their wager, and session pots once banked", async function () {
+    ({ privyPlay, privyPlayAddress, stats, statsAddress } = await deployFixture());
+    await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.1") });
+    // 50 points cannot cover the minimum wager, so Bob's round is not charged.
+    await privyPlay.connect(signers.bob).buyPoints({ value: ethers.parseEther("0.00005") });
+
+    await startRound(signers.bob, 1_000);
+    await submitBet(signers.bob);
+    let live = await liveStats();
+    expect(live.rounds).to.eq(1);
+    expect(live.wagered).to.eq(0);
+    expect(live.paidOut).to.eq(0);
+
+    await startRound(signers.alice, 2_000, true);
+    await submitBet(signers.alice);
+    live = await liveStats();
+    expect(live.wagered).to.eq(2_000);
+    expect(live.paidOut).to.eq(0);
+
+    const { pot } = await privyPlay.getSession(signers.alice.address);
+    const clearPot = await decryptPlay(FhevmType.euint64, pot, signers.alice);
+    await privyPlay.connect(signers.alice).bankSession(signers.alice.address);
+    live = await liveStats();
+    expect(live.rounds).to.eq(2);
+    expect(live.paidOut).to.eq(clearPot);
+  });
+});
@@ -0,0 +1,176 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { PrivyPlay, PrivyPoints, PrivyTimelock, PrivyTimelock__factory } from "../types";
+import { ECONOMICS, MAX_UINT48, deployGameFixture, skipUnlessMock } from "./helpers/fixtures";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+};
+
+const NEXT_PAYOUTS = { exactFace: 500, oddEven: 190, range: [500, 290, 190, 140, 115, 95] };
+const NEXT_ECONOMICS = { pointsPerEth: 2_000_000, minWager: 200, maxWager: 20_000, payouts: NEXT_PAYOUTS };
+const ECONOMICS_DELAY = 60;
+
+async function deployFixture(attach = true) {
+  const { points, privyPlay, privyPlayAddress } = await deployGameFixture();
+
+  const factory = (await ethers.getContractFactory("PrivyTimelock")) as PrivyTimelock__factory;
+  const timelock = (await factory.deploy(privyPlayAddress, ECONOMICS_DELAY)) as PrivyTimelock;
+  if (attach) {
+    await privyPlay.setTimelock(await timelock.getAddress());
+  }
+
+  return { points, privyPlay, timelock, timelockAddress: await timelock.getAddress() };
+}
+
+describe("PrivyTimelock", function () {
+  let signers: Signers;
+  let points: PrivyPoints;
+  let privyPlay: PrivyPlay;
+  let timelock: PrivyTimelock;
+  let timelockAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1] };
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+  });
+
+  it("validates its parameters", async function () {
+    const factory = (await ethers.getContractFactory("PrivyTimelock")) as PrivyTimelock__factory;
+
+    await expect(factory.deploy(ethers.ZeroAddress, ECONOMICS_DELAY)).to.be.revertedWith("Invalid game");
+    const { privyPlay } = await deployFixture(false);
+    await expect(factory.deploy(await privyPlay.getAddress(), 0)).to.be.revertedWith("Invalid delay");
+  });
+
+  it("is attached once, by the owner, to the game it was deployed for", async function () {
+    ({ privyPlay, timelock, timelockAddress } = await deployFixture(false));
+    const other = await deployFixture();
+
+    await expect(privyPlay.connect(signers.alice).setTimelock(timelockAddress)).to.be.revertedWith("Not owner");
+    await expect(privyPlay.setTimelock(other.timelockAddress)).to.be.revertedWith("Invalid timelock");
+
+    // Until then, the economics cannot change.
+    await timelock.scheduleEconomicsUpdate(NEXT_ECONOMICS);
+    await time.increase(ECONOMICS_DELAY);
+    await expect(timelock.applyEconomicsUpdate()).to.be.revertedWith("Not timelock");
+
+    await expect(privyPlay.setTimelock(timelockAddress)).to.emit(privyPlay, "TimelockSet").withArgs(timelockAddress);
+    await expect(privyPlay.setTimelock(timelockAddress)).to.be.revertedWith("Timelock already set");
+  });
+
+  describe("attached", function () {
+    beforeEach(async function () {
+      ({ points, privyPlay, timelock } = await deployFixture());
+    });
+
+    it("applies a scheduled update only after the timelock", async function () {
+      const scheduleTx = await timelock.connect(signers.deployer).scheduleEconomicsUpdate(NEXT_ECONOMICS);
+      const effectiveAt = (await time.latest()) + ECONOMICS_DELAY;
+      await expect(scheduleTx).to.emit(timelock, "EconomicsUpdateScheduled").withArgs(anyValue, effectiveAt);
+      const [pending] = await timelock.getPendingEconomics();
+      expect(pending.payouts.range).to.deep.eq(NEXT_PAYOUTS.range);
+
+      await expect(timelock.applyEconomicsUpdate()).to.be.revertedWith("Update not yet effective");
+
+      await time.increaseTo(effectiveAt);
+      await expect(timelock.connect(signers.alice).applyEconomicsUpdate())
+        .to.emit(privyPlay, "EconomicsUpdated")
+        .withArgs(2, anyValue);
+
+      expect(await privyPlay.pointsPerEth()).to.eq(2_000_000);
+      expect(await privyPlay.minWager()).to.eq(200);
+      expect(await privyPlay.maxWager()).to.eq(20_000);
+      const payouts = await privyPlay.getPayouts();
+      expect(payouts.exactFace).to.eq(500);
+      expect(payouts.oddEven).to.eq(190);
+      expect(payouts.range).to.deep.eq(NEXT_PAYOUTS.range);
+      expect(await timelock.pendingEconomicsEffectiveAt()).to.eq(0);
+    });
+
+    it("changes the exchange rate only while no point bought with ETH is outstanding", async function () {
+      const privyPlayAddress = await privyPlay.getAddress();
+      const keepRate = { ...NEXT_ECONOMICS, pointsPerEth: ECONOMICS.pointsPerEth };
+
+      // An update scheduled before the purchase cannot reprice the points bought after it.
+      await timelock.scheduleEconomicsUpdate(NEXT_ECONOMICS);
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.01") });
+      await time.increase(ECONOMICS_DELAY);
+      await expect(timelock.applyEconomicsUpdate()).to.be.revertedWith("Points outstanding");
+
+      // Nor can one be scheduled while they are outstanding, or awaiting their redemption; other changes can.
+      await points.connect(signers.alice).setOperator(privyPlayAddress, MAX_UINT48);
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(10_000)
+        .encrypt();
+      await privyPlay.connect(signers.alice).requestRedemption(encryptedAmount.handles[0], encryptedAmount.inputProof);
+      await expect(timelock.scheduleEconomicsUpdate(NEXT_ECONOMICS)).to.be.revertedWith("Points outstanding");
+      await timelock.scheduleEconomicsUpdate(keepRate);
+      await time.increase(ECONOMICS_DELAY);
+      await timelock.applyEconomicsUpdate();
+
+      const decryption = await fhevm.publicDecrypt([await privyPlay.getPendingRedemption(signers.alice.address)]);
+      await expect(
+        privyPlay.finalizeRedemption(
+          signers.alice.address,
+          decryption.abiEncodedClearValues,
+          decryption.decryptionProof,
+        ),
+      )
+        .to.emit(privyPlay, "PointsRedeemed")
+        .withArgs(signers.alice.address, 10_000, ethers.parseEther("0.01"));
+
+      // Once every point is redeemed, the game holds no ETH and the rate can change.
+      expect(await ethers.provider.getBalance(privyPlayAddress)).to.eq(0);
+      await timelock.scheduleEconomicsUpdate(NEXT_ECONOMICS);
+      await time.increase(ECONOMICS_DELAY);
+      await timelock.applyEconomicsUpdate();
+      expect(await privyPlay.pointsPerEth()).to.eq(NEXT_ECONOMICS.pointsPerEth);
+    });
+
+    it("restricts scheduling and cancelling to the game's owner", async function () {
+      await expect(timelock.connect(signers.alice).scheduleEconomicsUpdate(NEXT_ECONOMICS)).to.be.revertedWith(
+        "Not owner",
+      );
+
+      await timelock.connect(signers.deployer).scheduleEconomicsUpdate(NEXT_ECONOMICS);
+      await expect(timelock.connect(signers.alice).cancelEconomicsUpdate()).to.be.revertedWith("Not owner");
+      await expect(timelock.connect(signers.deployer).cancelEconomicsUpdate()).to.emit(
+        timelock,
+        "EconomicsUpdateCancelled",
+      );
+      await expect(timelock.applyEconomicsUpdate()).to.be.revertedWith("No pending update");
+    });
+
+    it("rejects wager bounds that could overflow a payout", async function () {
+      const overflowing = { ...NEXT_ECONOMICS, maxWager: 2n ** 60n, payouts: { ...NEXT_PAYOUTS, oddEven: 1_600 } };
+      await expect(timelock.connect(signers.deployer).scheduleEconomicsUpdate(overflowing)).to.be.revertedWith(
+        "Payout overflow",
+      );
+    });
+
+    it("rejects payouts that do not keep a house edge on every bet", async function () {
+      const fair = [
+        { ...NEXT_PAYOUTS, exactFace: 600 },
+        { ...NEXT_PAYOUTS, oddEven: 200 },
+        { ...NEXT_PAYOUTS, range: [500, 300, 190, 140, 115, 95] },
+        // A range of all six faces always wins, so anything from 100% on pays out more than it takes.
+        { ...NEXT_PAYOUTS, range: [500, 290, 190, 140, 115, 100] },
+      ];
+      for (const payouts of fair) {
+        await expect(
+          timelock.connect(signers.deployer).scheduleEconomicsUpdate({ ...NEXT_ECONOMICS, payouts }),
+        ).to.be.revertedWith("No house edge");
+      }
+    });
+  });
+});
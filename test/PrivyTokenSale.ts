@@ -0,0 +1,303 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import {
+  MockERC20,
+  MockERC20__factory,
+  PrivyPlay,
+  PrivyPoints,
+  PrivyTokenSale,
+  PrivyTokenSale__factory,
+} from "../types";
+import { deployPrivyPlay } from "./helpers/deployPrivyPlay";
+import { ECONOMICS, MAX_UINT48, deployGameFixture, skipUnlessMock } from "./helpers/fixtures";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+// Points per whole token of both stablecoins.
+const RATE = 400n;
+
+async function deployFixture() {
+  const { points, pointsAddress, privyPlay, privyPlayAddress } = await deployGameFixture();
+
+  const factory = (await ethers.getContractFactory("PrivyTokenSale")) as PrivyTokenSale__factory;
+  const sale = (await factory.deploy(privyPlayAddress)) as PrivyTokenSale;
+  const saleAddress = await sale.getAddress();
+  await privyPlay.setTokenSale(saleAddress);
+
+  const tokenFactory = (await ethers.getContractFactory("MockERC20")) as MockERC20__factory;
+  const usdc = (await tokenFactory.deploy("Mock USDC", "USDC", 6)) as MockERC20;
+  const dai = (await tokenFactory.deploy("Mock DAI", "DAI", 18)) as MockERC20;
+  await sale.setPaymentToken(await usdc.getAddress(), RATE);
+  await sale.setPaymentToken(await dai.getAddress(), RATE);
+
+  return { points, pointsAddress, privyPlay, privyPlayAddress, sale, saleAddress, factory, tokenFactory, usdc, dai };
+}
+
+describe("PrivyTokenSale", function () {
+  let signers: Signers;
+  let points: PrivyPoints;
+  let pointsAddress: string;
+  let privyPlay: PrivyPlay;
+  let privyPlayAddress: string;
+  let sale: PrivyTokenSale;
+  let saleAddress: string;
+  let factory: PrivyTokenSale__factory;
+  let tokenFactory: MockERC20__factory;
+  let usdc: MockERC20;
+  let dai: MockERC20;
+
+  const balanceOf = async (player: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await points.confidentialBalanceOf(player.address),
+      pointsAddress,
+      player,
+    );
+
+  async function buy(player: HardhatEthersSigner, token: MockERC20, amount: bigint) {
+    await token.mint(player.address, amount);
+    await token.connect(player).approve(saleAddress, amount);
+    return sale.connect(player).buyPointsWithToken(await token.getAddress(), amount);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    skipUnlessMock(this);
+    ({ points, pointsAddress, privyPlay, privyPlayAddress, sale, saleAddress, factory, tokenFactory, usdc, dai } =
+      await deployFixture());
+  });
+
+  it("is attached once, by the owner, to the game it was deployed for", async function () {
+    await expect(factory.deploy(ethers.ZeroAddress)).to.be.revertedWith("Invalid game");
+
+    const game = await deployPrivyPlay(pointsAddress, ECONOMICS, 50);
+    const other = await factory.deploy(privyPlayAddress);
+    await expect(game.connect(signers.alice).setTokenSale(await other.getAddress())).to.be.revertedWith("Not owner");
+    await expect(game.setTokenSale(await other.getAddress())).to.be.revertedWith("Invalid token sale");
+    await expect(privyPlay.setTokenSale(await other.getAddress())).to.be.revertedWith("Token sale already set");
+    expect(await privyPlay.tokenSale()).to.eq(saleAddress);
+
+    await expect(privyPlay.mintPurchase(signers.alice.address, 1_000)).to.be.revertedWith("Not token sale");
+  });
+
+  it("lets the owner list, reprice and delist tokens, reading their decimals once", async function () {
+    const usdcAddress = await usdc.getAddress();
+    const daiAddress = await dai.getAddress();
+    await expect(sale.connect(signers.alice).setPaymentToken(usdcAddress, 1)).to.be.revertedWith("Not owner");
+    await expect(sale.setPaymentToken(ethers.ZeroAddress, 1)).to.be.revertedWith("Invalid token");
+    const oddToken = await tokenFactory.deploy("Odd", "ODD", 37);
+    await expect(sale.setPaymentToken(await oddToken.getAddress(), 1)).to.be.revertedWith("Unsupported decimals");
+
+    expect(await sale.getPaymentTokens()).to.deep.eq([usdcAddress, daiAddress]);
+    const listed = await sale.getPaymentToken(usdcAddress);
+    expect(listed.pointsPerToken).to.eq(RATE);
+    expect(listed.decimals).to.eq(6);
+
+    await expect(sale.setPaymentToken(usdcAddress, 500)).to.emit(sale, "PaymentTokenSet").withArgs(usdcAddress, 500, 6);
+    await expect(sale.setPaymentToken(daiAddress, 0)).to.emit(sale, "PaymentTokenSet").withArgs(daiAddress, 0, 18);
+    // Delisted tokens stay listed, so that their proceeds can still be withdrawn.
+    expect(await sale.getPaymentTokens()).to.deep.eq([usdcAddress, daiAddress]);
+    await expect(buy(signers.alice, dai, ethers.parseUnits("1", 18))).to.be.revertedWith("Token not accepted");
+  });
+
+  it("sells points at each token's rate, scaled by its decimals", async function () {
+    const usdcAmount = ethers.parseUnits("2.5", 6);
+    await expect(buy(signers.alice, usdc, usdcAmount))
+      .to.emit(sale, "PointsPurchasedWithToken")
+      .withArgs(signers.alice.address, await usdc.getAddress(), usdcAmount, 1_000);
+    expect(await balanceOf(signers.alice)).to.eq(1_000);
+
+    const daiAmount = ethers.parseUnits("0.75", 18);
+    await buy(signers.alice, dai, daiAmount);
+    expect(await balanceOf(signers.alice)).to.eq(1_000 + 300);
+
+    expect(await usdc.balanceOf(saleAddress)).to.eq(usdcAmount);
+    expect(await dai.balanceOf(saleAddress)).to.eq(daiAmount);
+    expect((await sale.getPaymentToken(await usdc.getAddress())).received).to.eq(usdcAmount);
+    expect((await sale.getPaymentToken(await dai.getAddress())).received).to.eq(daiAmount);
+
+    // The purchases are counted in the house books, as ETH purchases are.
+    const liabilities = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await privyPlay.getTotalLiabilities(),
+      privyPlayAddress,
+      signers.deployer,
+    );
+    expect(liabilities).to.eq(1_300);
+  });
+
+  it("rejects unlisted tokens, amounts worth no points or too many, and purchases while paused", async function () {
+    const unlisted = await tokenFactory.deploy("Other", "OTH", 18);
+    await expect(buy(signers.alice, unlisted, 1n)).to.be.revertedWith("Token not accepted");
+    await expect(buy(signers.alice, usdc, 0n)).to.be.revertedWith("No tokens sent");
+    // 0.0024 USDC is worth 0.96 points.
+    await expect(buy(signers.alice, usdc, 2_400n)).to.be.revertedWith("Amount too small");
+
+    await sale.setPaymentToken(await dai.getAddress(), 2n ** 64n);
+    await expect(buy(signers.alice, dai, ethers.parseUnits("1", 18))).to.be.revertedWith("Points overflow");
+
+    await usdc.connect(signers.alice).approve(saleAddress, 0);
+    await expect(
+      sale.connect(signers.alice).buyPointsWithToken(await usdc.getAddress(), 1_000_000),
+    ).to.be.revertedWithCustomError(usdc, "ERC20InsufficientAllowance");
+
+    await privyPlay.pause();
+    await expect(buy(signers.alice, usdc, 1_000_000n)).to.be.revertedWith("Paused");
+    expect(await usdc.balanceOf(saleAddress)).to.eq(0);
+  });
+
+  it("lets the treasurer withdraw each token's proceeds, and no more", async function () {
+    const usdcAddress = await usdc.getAddress();
+    await buy(signers.alice, usdc, 5_000_000n);
+    await buy(signers.alice, dai, ethers.parseUnits("1", 18));
+    await privyPlay.setTreasurer(signers.bob.address);
+
+    await expect(sale.withdrawProceeds(usdcAddress, signers.bob.address, 1)).to.be.revertedWith("Not treasurer");
+    await expect(sale.connect(signers.bob).withdrawProceeds(usdcAddress, ethers.ZeroAddress, 1)).to.be.revertedWith(
+      "Invalid recipient",
+    );
+
+    await expect(sale.connect(signers.bob).withdrawProceeds(usdcAddress, signers.bob.address, 3_000_000))
+      .to.emit(sale, "ProceedsWithdrawn")
+      .withArgs(usdcAddress, signers.bob.address, 3_000_000);
+    await expect(
+      sale.connect(signers.bob).withdrawProceeds(usdcAddress, signers.bob.address, 2_000_001),
+    ).to.be.revertedWith("Insufficient proceeds");
+    // Tokens sent to the sale outside of a purchase are not proceeds.
+    await usdc.mint(saleAddress, 1);
+    await expect(
+      sale.connect(signers.bob).withdrawProceeds(usdcAddress, signers.bob.address, 2_000_001),
+    ).to.be.revertedWith("Insufficient proceeds");
+    await sale.connect(signers.bob).withdrawProceeds(usdcAddress, signers.bob.address, 2_000_000);
+
+    expect(await usdc.balanceOf(signers.bob.address)).to.eq(5_000_000);
+    const accounting = await sale.getPaymentToken(usdcAddress);
+    expect(accounting.received).to.eq(5_000_000);
+    expect(accounting.withdrawn).to.eq(5_000_000);
+    // The other token's proceeds are untouched.
+    expect((await sale.getPaymentToken(await dai.getAddress())).withdrawn).to.eq(0);
+    expect(await dai.balanceOf(saleAddress)).to.eq(ethers.parseUnits("1", 18));
+  });
+
+  describe("play-only points", function () {
+    const playOnlyOf = async (player: HardhatEthersSigner) =>
+      fhevm.userDecryptEuint(FhevmType.euint64, await points.playOnlyBalanceOf(player.address), pointsAddress, player);
+
+    // Returns the ETH the player was paid for the redemption.
+    async function redeem(player: HardhatEthersSigner, amount: number) {
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(privyPlayAddress, player.address)
+        .add64(amount)
+        .encrypt();
+      await privyPlay.connect(player).requestRedemption(encryptedAmount.handles[0], encryptedAmount.inputProof);
+
+      const decryption = await fhevm.publicDecrypt([await privyPlay.getPendingRedemption(player.address)]);
+      const ethBefore = await ethers.provider.getBalance(player.address);
+      await privyPlay.finalizeRedemption(player.address, decryption.abiEncodedClearValues, decryption.decryptionProof);
+      return (await ethers.provider.getBalance(player.address)) - ethBefore;
+    }
+
+    beforeEach(async function () {
+      for (const player of [signers.alice, signers.bob]) {
+        await points.connect(player).setOperator(privyPlayAddress, MAX_UINT48);
+      }
+      await buy(signers.alice, usdc, ethers.parseUnits("2.5", 6));
+      await privyPlay.connect(signers.alice).buyPoints({ value: ethers.parseEther("0.0005") });
+    });
+
+    it("never takes out more ETH than was paid in", async function () {
+      expect(await balanceOf(signers.alice)).to.eq(1_500);
+      expect(await playOnlyOf(signers.alice)).to.eq(1_000);
+
+      // Redeeming into the points bought with tokens burns nothing.
+      expect(await redeem(signers.alice, 501)).to.eq(0);
+      expect(await balanceOf(signers.alice)).to.eq(1_500);
+
+      // Nor can they be moved to another account to be redeemed there.
+      const encryptedAmount = await fhevm
+        .createEncryptedInput(pointsAddress, signers.alice.address)
+        .add64(1_000)
+        .encrypt();
+      await points
+        .connect(signers.alice)
+        ["confidentialTransfer(address,bytes32,bytes)"](
+          signers.bob.address,
+          encryptedAmount.handles[0],
+          encryptedAmount.inputProof,
+        );
+      expect(await balanceOf(signers.alice)).to.eq(1_500);
+
+      // Only the points bought with ETH redeem, for the ETH paid for them.
+      expect(await redeem(signers.alice, 500)).to.eq(ethers.parseEther("0.0005"));
+      expect(await balanceOf(signers.alice)).to.eq(1_000);
+      expect(await redeem(signers.alice, 1_000)).to.eq(0);
+      expect(await ethers.provider.getBalance(privyPlayAddress)).to.eq(0);
+    });
+
+    it("are spent first on wagers", async function () {
+      await privyPlay.fundHouseReserve({ value: ethers.parseEther("1") });
+      const encryptedWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(300)
+        .encrypt();
+      await privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+
+      expect(await balanceOf(signers.alice)).to.eq(1_200);
+      expect(await playOnlyOf(signers.alice)).to.eq(700);
+    });
+
+    it("never add to the house reserve once lost", async function () {
+      await privyPlay.fundHouseReserve({ value: ethers.parseEther("1") });
+      const houseReserve = async () =>
+        fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          await privyPlay.getHouseReserve(),
+          privyPlayAddress,
+          signers.deployer,
+        );
+      const encryptedWager = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add64(300)
+        .encrypt();
+      await privyPlay.connect(signers.alice).startGame(encryptedWager.handles[0], encryptedWager.inputProof);
+
+      // Bet on a face other than the roll.
+      const roll = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        await privyPlay.getLastRoll(signers.alice.address),
+        privyPlayAddress,
+        signers.alice,
+      );
+      const encryptedBet = await fhevm
+        .createEncryptedInput(privyPlayAddress, signers.alice.address)
+        .add8(0)
+        .add8((Number(roll) % 6) + 1)
+        .add8(0)
+        .encrypt();
+      await privyPlay
+        .connect(signers.alice)
+        .submitGuess(
+          encryptedBet.handles[0],
+          encryptedBet.handles[1],
+          encryptedBet.handles[2],
+          encryptedBet.inputProof,
+        );
+
+      // The house holds the lost play-only points, but they back no payout.
+      expect(await balanceOf(signers.alice)).to.eq(1_200);
+      expect(await houseReserve()).to.eq(1_000_000);
+      expect(await redeem(signers.alice, 500)).to.eq(ethers.parseEther("0.0005"));
+      expect(await ethers.provider.getBalance(privyPlayAddress)).to.eq(ethers.parseEther("1"));
+    });
+  });
+});
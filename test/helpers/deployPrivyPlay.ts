@@ -0,0 +1,33 @@
+import { ethers } from "hardhat";
+import proxyArtifact from "hardhat-deploy/extendedArtifacts/TransparentUpgradeableProxy.json";
+import { PrivyPlay, PrivyPlay__factory } from "../../types";
+
+/**
+ * Deploys the game behind the same transparent proxy as the deploy script, initialized by the first signer, and linked
+ * to fresh PrivyDice and PrivyRecords libraries. The proxy admin is a throwaway address, since the admin cannot call
+ * the game; upgrades are covered in PrivyPlayUpgrade.ts. Without a trusted forwarder, every call is attributed to its
+ * sender.
+ */
+export async function deployPrivyPlay(
+  pointsAddress: string,
+  economics: PrivyPlay.EconomicsStruct,
+  roundExpiryBlocks: number,
+  trustedForwarder: string = ethers.ZeroAddress,
+): Promise<PrivyPlay> {
+  const [deployer] = await ethers.getSigners();
+  const dice = await ethers.deployContract("PrivyDice");
+  const records = await ethers.deployContract("PrivyRecords");
+  const factory = (await ethers.getContractFactory("PrivyPlay", {
+    libraries: { PrivyDice: await dice.getAddress(), PrivyRecords: await records.getAddress() },
+  })) as PrivyPlay__factory;
+  const implementation = await factory.deploy(trustedForwarder);
+
+  const proxyFactory = await ethers.getContractFactory(proxyArtifact.abi, proxyArtifact.bytecode);
+  const proxy = await proxyFactory.deploy(
+    await implementation.getAddress(),
+    ethers.Wallet.createRandom().address,
+    implementation.interface.encodeFunctionData("initialize", [pointsAddress, economics, roundExpiryBlocks]),
+  );
+
+  return PrivyPlay__factory.connect(await proxy.getAddress(), deployer);
+}
@@ -0,0 +1,61 @@
+import { ethers, fhevm } from "hardhat";
+import { PrivyPoints, PrivyPoints__factory } from "../../types";
+import { deployPrivyPlay } from "./deployPrivyPlay";
+
+/** The payout tables of config/hardhat.json, in percent of the wager. */
+export const PAYOUTS = { exactFace: 580, oddEven: 195, range: [580, 290, 195, 145, 116, 97] };
+/** The economics of config/hardhat.json. */
+export const ECONOMICS = { pointsPerEth: 1_000_000, minWager: 100, maxWager: 10_000, payouts: PAYOUTS };
+/** An operator approval on the ledger that never expires. */
+export const MAX_UINT48 = 2n ** 48n - 1n;
+
+/**
+ * Skips the suite unless it runs on the FHEVM mock, which the suites need to decrypt; call it from `beforeEach`.
+ */
+export function skipUnlessMock(context: Mocha.Context) {
+  if (!fhevm.isMock) {
+    console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+    context.skip();
+  }
+}
+
+export type GameFixtureOptions = {
+  roundExpiryBlocks?: number;
+  trustedForwarder?: string;
+  // Whether the game becomes the ledger's minter, as the deploy script makes it.
+  minter?: boolean;
+  // How many signers, from the first, make the game an operator of their points.
+  operators?: number;
+  // ETH funded into the house reserve.
+  houseReserve?: bigint;
+};
+
+/**
+ * Deploys a fresh point ledger and game with the default economics, as the base of the add-on suites.
+ */
+export async function deployGameFixture({
+  roundExpiryBlocks = 50,
+  trustedForwarder = ethers.ZeroAddress,
+  minter = true,
+  operators = 0,
+  houseReserve = 0n,
+}: GameFixtureOptions = {}) {
+  const pointsFactory = (await ethers.getContractFactory("PrivyPoints")) as PrivyPoints__factory;
+  const points = (await pointsFactory.deploy("PrivyPlay Points", "PPT", "")) as PrivyPoints;
+  const pointsAddress = await points.getAddress();
+
+  const privyPlay = await deployPrivyPlay(pointsAddress, ECONOMICS, roundExpiryBlocks, trustedForwarder);
+  const privyPlayAddress = await privyPlay.getAddress();
+  if (minter) {
+    await points.setMinter(privyPlayAddress);
+  }
+
+  for (const player of (await ethers.getSigners()).slice(0, operators)) {
+    await points.connect(player).setOperator(privyPlayAddress, MAX_UINT48);
+  }
+  if (houseReserve > 0n) {
+    await privyPlay.fundHouseReserve({ value: houseReserve });
+  }
+
+  return { points, pointsAddress, privyPlay, privyPlayAddress };
+}